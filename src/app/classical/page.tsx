@@ -0,0 +1,20 @@
+"use client";
+
+import { MainLayout } from '@/components/layout/MainLayout';
+import { ClassicalCipherForm } from '@/components/classical/ClassicalCipherForm';
+import { CryptanalysisPanel } from '@/components/classical/CryptanalysisPanel';
+
+// This explicitly configures the page for client-side only rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge'; // This ensures we're not trying to use Node.js APIs in this page
+
+export default function ClassicalPage() {
+  return (
+    <MainLayout>
+      <ClassicalCipherForm />
+      <div className="mt-8">
+        <CryptanalysisPanel />
+      </div>
+    </MainLayout>
+  );
+}
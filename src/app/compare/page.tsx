@@ -2,6 +2,9 @@
 
 import { MainLayout } from '@/components/layout/MainLayout';
 import { AlgorithmComparison } from '@/components/visualization/AlgorithmComparison';
+import { KeyAgreementPanel } from '@/components/encryption/KeyAgreementPanel';
+import { AvalancheAnalyzer } from '@/components/visualization/AvalancheAnalyzer';
+import { HashComparison } from '@/components/visualization/HashComparison';
 
 // This explicitly configures the page for client-side only rendering
 export const dynamic = 'force-dynamic';
@@ -28,6 +31,35 @@ export default function ComparePage() {
           <AlgorithmComparison />
         </div>
         
+        <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">
+            Avalanche Effect
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            A good cipher changes about half of its output bits when a single bit of the
+            plaintext or key changes. Each trial encrypts a random message twice, with one
+            bit flipped, under the same key and IV. ECB only changes the block that was
+            touched, stream ciphers and the one-time pad flip just the one bit, and DES
+            ignores the parity bit of every key byte.
+          </p>
+          
+          <AvalancheAnalyzer />
+        </div>
+        
+        <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">
+            Hash Functions
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            A hash function should make finding two inputs with the same digest take about
+            2^(n/2) work for an n-bit digest. MD5 and SHA-1 fall far short of that: real
+            colliding documents and certificates exist for both, so they must not be used
+            for signatures or integrity checks against an attacker.
+          </p>
+          
+          <HashComparison />
+        </div>
+        
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg shadow-md">
             <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">
@@ -41,7 +73,7 @@ export default function ComparePage() {
             <p className="text-gray-600 dark:text-gray-400">
               <span className="font-medium">Asymmetric encryption</span> uses a pair of keys 
               (public and private). It&apos;s slower but solves the key distribution problem and 
-              enables features like digital signatures.
+              enables features like digital signatures. Try an ECDH key exchange below.
             </p>
           </div>
           
@@ -61,6 +93,13 @@ export default function ComparePage() {
           </div>
         </div>
         
+        <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg shadow-md mt-6">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">
+            Try It: ECDH Key Agreement
+          </h2>
+          <KeyAgreementPanel />
+        </div>
+        
         <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg shadow-md mt-6">
           <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">
             Choosing the Right Algorithm
@@ -0,0 +1,20 @@
+"use client";
+
+import { MainLayout } from '@/components/layout/MainLayout';
+import { HashToolkit } from '@/components/hash/HashToolkit';
+import { HmacPanel } from '@/components/hash/HmacPanel';
+
+// This explicitly configures the page for client-side only rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge'; // This ensures we're not trying to use Node.js APIs in this page
+
+export default function HashPage() {
+  return (
+    <MainLayout>
+      <HashToolkit />
+      <div className="mt-8">
+        <HmacPanel />
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { MainLayout } from '@/components/layout/MainLayout';
+import { OtpReuseLab } from '@/components/labs/OtpReuseLab';
+import { ImageModeLab } from '@/components/labs/ImageModeLab';
+import { PaddingOracleLab } from '@/components/labs/PaddingOracleLab';
+import { MalleabilityLab } from '@/components/labs/MalleabilityLab';
+
+// This explicitly configures the page for client-side only rendering
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge'; // This ensures we're not trying to use Node.js APIs in this page
+
+export default function LabsPage() {
+  return (
+    <MainLayout>
+      <OtpReuseLab />
+      <div className="mt-8">
+        <ImageModeLab />
+      </div>
+      <div className="mt-8">
+        <PaddingOracleLab />
+      </div>
+      <div className="mt-8">
+        <MalleabilityLab />
+      </div>
+    </MainLayout>
+  );
+}
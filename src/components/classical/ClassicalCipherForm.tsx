@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useClassicalCipher } from '@/hooks/useClassicalCipher';
+import { ClassicalCipher, CLASSICAL_KEY_HINTS } from '@/lib/crypto/classical-ciphers';
+import { ENIGMA_DEFAULTS, ENIGMA_REFLECTORS, ENIGMA_ROTORS } from '@/lib/crypto/enigma';
+import { EncryptionVisualizer } from '../visualization/EncryptionVisualizer';
+import { LuCopy, LuLock, LuLockOpen, LuKey, LuTriangleAlert } from 'react-icons/lu';
+
+type FormMode = 'encrypt' | 'decrypt';
+
+export function ClassicalCipherForm() {
+  const [mode, setMode] = useState<FormMode>('encrypt');
+  const [copied, setCopied] = useState(false);
+
+  const {
+    input,
+    setInput,
+    key,
+    setKey,
+    cipher,
+    setCipher,
+    params,
+    setParams,
+    result,
+    isAnimating,
+    displayedOutput,
+    progress,
+    error,
+    handleEncrypt,
+    handleDecrypt,
+    reset
+  } = useClassicalCipher();
+
+  const keyHint = CLASSICAL_KEY_HINTS[cipher];
+  // Atbash has no key and Enigma falls back to AAA
+  const needsKey = keyHint !== null && cipher !== ClassicalCipher.Enigma;
+  const rotors = params.rotors ?? ENIGMA_DEFAULTS.rotors;
+
+  const setRotor = (slot: number, rotor: string) => {
+    const next = [...rotors] as [string, string, string];
+    next[slot] = rotor;
+    setParams({ ...params, rotors: next });
+  };
+
+  // Function to handle copy to clipboard
+  const handleCopy = async () => {
+    if (displayedOutput) {
+      await navigator.clipboard.writeText(displayedOutput);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">Classical Ciphers</h2>
+
+        <div className="flex bg-gray-800 rounded-lg overflow-hidden">
+          {(['encrypt', 'decrypt'] as FormMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => { setMode(value); reset(); }}
+              className={`px-4 py-2 text-sm font-medium capitalize ${
+                mode === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {/* Cipher selection */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Cipher
+            </label>
+            <select
+              value={cipher}
+              onChange={(e) => setCipher(e.target.value as ClassicalCipher)}
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+            >
+              {Object.values(ClassicalCipher).map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Text input */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              {mode === 'encrypt' ? 'Text to Encrypt' : 'Text to Decrypt'}
+            </label>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={mode === 'encrypt'
+                ? 'Enter text to encrypt...'
+                : 'Enter ciphertext to decrypt...'
+              }
+              rows={5}
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          {/* Key input */}
+          {keyHint && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                {cipher === ClassicalCipher.Enigma ? 'Rotor Start Positions' : 'Key'}
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center">
+                  <LuKey className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  placeholder={keyHint}
+                  className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500 pl-10"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Enigma machine settings */}
+          {cipher === ClassicalCipher.Enigma && (
+            <div className="p-4 bg-gray-800 rounded-lg space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Rotors (left to right)
+                </label>
+                <div className="flex gap-2">
+                  {rotors.map((rotor, slot) => (
+                    <select
+                      key={slot}
+                      value={rotor}
+                      onChange={(e) => setRotor(slot, e.target.value)}
+                      className="flex-1 rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {Object.keys(ENIGMA_ROTORS).map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Reflector
+                  </label>
+                  <select
+                    value={params.reflector ?? ENIGMA_DEFAULTS.reflector}
+                    onChange={(e) => setParams({ ...params, reflector: e.target.value })}
+                    className="w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {Object.keys(ENIGMA_REFLECTORS).map((name) => (
+                      <option key={name} value={name}>UKW-{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Ring Settings
+                  </label>
+                  <input
+                    type="text"
+                    value={params.ringSettings ?? ''}
+                    onChange={(e) => setParams({ ...params, ringSettings: e.target.value || undefined })}
+                    placeholder={ENIGMA_DEFAULTS.ringSettings}
+                    maxLength={3}
+                    className="w-full rounded-md bg-gray-700 border-gray-600 text-white uppercase focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Plugboard
+                </label>
+                <input
+                  type="text"
+                  value={params.plugboard ?? ''}
+                  onChange={(e) => setParams({ ...params, plugboard: e.target.value })}
+                  placeholder="Letter pairs, e.g. AB CD EF"
+                  className="w-full rounded-md bg-gray-700 border-gray-600 text-white uppercase focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <p className="text-xs text-gray-400">
+                Enigma is its own inverse: decrypt with the same settings and start positions.
+              </p>
+            </div>
+          )}
+
+          {/* Action button */}
+          <button
+            type="button"
+            onClick={mode === 'encrypt' ? handleEncrypt : handleDecrypt}
+            disabled={!input || (needsKey && !key)}
+            className={`
+              w-full flex items-center justify-center px-4 py-3 rounded-md font-medium
+              ${!input || (needsKey && !key)
+                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+              }
+            `}
+          >
+            {mode === 'encrypt' ? (
+              <>
+                <LuLock className="mr-2 h-5 w-5" />
+                Encrypt
+              </>
+            ) : (
+              <>
+                <LuLockOpen className="mr-2 h-5 w-5" />
+                Decrypt
+              </>
+            )}
+          </button>
+        </div>
+
+        <div>
+          {/* Output area */}
+          <div className="bg-gray-800 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-white">
+                {mode === 'encrypt' ? 'Ciphertext' : 'Plaintext'}
+              </h3>
+
+              {displayedOutput && (
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="flex items-center text-gray-300 hover:text-white text-sm"
+                >
+                  <LuCopy className="mr-1 h-4 w-4" />
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+              )}
+            </div>
+
+            <div className="min-h-[120px] p-3 rounded-md bg-gray-700 font-mono text-sm whitespace-pre-wrap break-all">
+              {displayedOutput || (
+                <span className="text-gray-500">
+                  {mode === 'encrypt'
+                    ? 'Encrypted text will appear here'
+                    : 'Decrypted text will appear here'
+                  }
+                </span>
+              )}
+            </div>
+
+            {result?.warnings?.map((warning) => (
+              <div key={warning} className="mt-4 flex items-start p-3 bg-yellow-900 bg-opacity-40 rounded-md text-sm text-yellow-200">
+                <LuTriangleAlert className="mr-2 h-5 w-5 flex-shrink-0 text-yellow-400" />
+                {warning}
+              </div>
+            ))}
+          </div>
+
+          {/* Visualization */}
+          <div className="mt-6 bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-medium text-white mb-4">Visualization</h3>
+
+            <EncryptionVisualizer
+              algorithm={cipher}
+              input={input}
+              output={displayedOutput}
+              isEncrypting={mode === 'encrypt'}
+              isAnimating={isAnimating}
+              progress={progress}
+              cipherKey={key}
+              classicalParams={params}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  CryptanalysisCandidate,
+  breakCaesar,
+  breakVigenere,
+  estimateKeyLengths,
+  solveSubstitution
+} from '@/lib/crypto/cryptanalysis';
+import { ENGLISH_IOC, RANDOM_IOC, calculateEntropy, indexOfCoincidence, toLetters } from '@/lib/crypto/text-statistics';
+import { LetterFrequencyChart } from '../visualization/LetterFrequencyChart';
+import { LuCopy, LuSearch } from 'react-icons/lu';
+
+type Attack = 'caesar' | 'vigenere' | 'substitution';
+
+const ATTACKS: { value: Attack; label: string }[] = [
+  { value: 'caesar', label: 'Caesar Brute Force' },
+  { value: 'vigenere', label: 'Vigenère (Kasiski + IoC)' },
+  { value: 'substitution', label: 'Substitution (Hill Climbing)' }
+];
+
+const MAX_CANDIDATES = 8;
+
+export function CryptanalysisPanel() {
+  const [ciphertext, setCiphertext] = useState<string>('');
+  const [candidates, setCandidates] = useState<CryptanalysisCandidate[]>([]);
+  const [selected, setSelected] = useState<number>(0);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [copied, setCopied] = useState<number | null>(null);
+
+  const letterCount = toLetters(ciphertext).length;
+  const ioc = indexOfCoincidence(ciphertext);
+  const keyLengths = letterCount >= 20 ? estimateKeyLengths(ciphertext).slice(0, 5) : [];
+  const shown = candidates[selected];
+
+  const handleAttack = async (attack: Attack) => {
+    setError(null);
+    setCandidates([]);
+    setSelected(0);
+    setIsWorking(true);
+
+    try {
+      switch (attack) {
+        case 'caesar':
+          setCandidates(await breakCaesar(ciphertext));
+          break;
+        case 'vigenere':
+          setCandidates(await breakVigenere(ciphertext));
+          break;
+        case 'substitution':
+          // Show the best key so far while the restarts run
+          setCandidates(await solveSubstitution(ciphertext, (best, restart, restarts) => {
+            setCandidates([best]);
+            setProgress(`Restart ${restart} of ${restarts}`);
+          }));
+          break;
+      }
+    } catch (err) {
+      setError(`Analysis failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setProgress(null);
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async (index: number) => {
+    await navigator.clipboard.writeText(candidates[index].plaintext);
+    setCopied(index);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-bold text-white mb-2">Break It</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Paste ciphertext from a classical cipher. Candidates are ranked by how much their
+        letter triples (quadruples for substitution) look like English; longer ciphertexts
+        give better results.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <textarea
+            value={ciphertext}
+            onChange={(e) => { setCiphertext(e.target.value); setCandidates([]); }}
+            placeholder="Ciphertext to analyse..."
+            rows={7}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            {ATTACKS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleAttack(value)}
+                disabled={isWorking || letterCount === 0}
+                className={`
+                  flex items-center px-3 py-2 rounded-md text-sm font-medium
+                  ${isWorking || letterCount === 0
+                    ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }
+                `}
+              >
+                <LuSearch className="mr-2 h-4 w-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+          {progress && <p className="text-sm text-blue-300">{progress}</p>}
+
+          {/* Statistics of the ciphertext */}
+          {letterCount > 0 && (
+            <div className="p-4 bg-gray-800 rounded-lg text-sm text-gray-300 space-y-1">
+              <p>Letters: {letterCount}</p>
+              <p>
+                Index of coincidence: {ioc.toFixed(4)}{' '}
+                <span className="text-gray-400">
+                  (English {ENGLISH_IOC.toFixed(4)}, random {RANDOM_IOC.toFixed(4)})
+                </span>
+              </p>
+              <p>Entropy: {calculateEntropy(toLetters(ciphertext)).toFixed(2)} bits per letter</p>
+              {keyLengths.length > 0 && (
+                <div className="pt-2">
+                  <p className="font-medium text-gray-200">Likely Vigenère key lengths</p>
+                  <table className="mt-1 w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 text-left">
+                        <th className="font-normal">Length</th>
+                        <th className="font-normal">Column IoC</th>
+                        <th className="font-normal">Kasiski votes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {keyLengths.map(({ length, averageIoc, kasiskiVotes }) => (
+                        <tr key={length}>
+                          <td>{length}</td>
+                          <td>{averageIoc.toFixed(4)}</td>
+                          <td>{kasiskiVotes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {/* Live letter frequencies */}
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-medium text-white mb-4">Letter Frequencies</h3>
+            <LetterFrequencyChart
+              text={shown ? shown.plaintext : ciphertext}
+              label={shown ? `Candidate ${selected + 1}` : 'Ciphertext'}
+            />
+          </div>
+
+          {/* Ranked candidates */}
+          {candidates.length > 0 && (
+            <div className="bg-gray-800 rounded-lg p-4">
+              <h3 className="text-lg font-medium text-white mb-2">Candidates</h3>
+              <ol className="space-y-2">
+                {candidates.slice(0, MAX_CANDIDATES).map((candidate, i) => (
+                  <li
+                    key={`${candidate.method}-${candidate.key}`}
+                    onClick={() => setSelected(i)}
+                    className={`p-2 rounded-md cursor-pointer ${i === selected ? 'bg-gray-700' : 'hover:bg-gray-700'}`}
+                  >
+                    <div className="flex justify-between text-xs text-gray-400">
+                      <span>
+                        #{i + 1} {candidate.method} &middot; key <span className="font-mono text-gray-200">{candidate.key}</span>
+                      </span>
+                      <span>score {candidate.score.toFixed(2)}</span>
+                    </div>
+                    <p className="mt-1 font-mono text-sm text-white break-all line-clamp-2">
+                      {candidate.plaintext}
+                    </p>
+                    {candidate.warning && (
+                      <p className="mt-1 text-xs text-yellow-400">{candidate.warning}</p>
+                    )}
+                    {i === selected && (
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(i)}
+                        className="mt-1 flex items-center text-gray-300 hover:text-white text-xs"
+                      >
+                        <LuCopy className="mr-1 h-3 w-3" />
+                        {copied === i ? 'Copied!' : 'Copy plaintext'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
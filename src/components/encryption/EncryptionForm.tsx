@@ -1,24 +1,55 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useEncryption } from '@/hooks/useEncryption';
-import { EncryptionAlgorithm } from '@/lib/crypto/encryption-service';
+import { useSignature } from '@/hooks/useSignature';
+import { CipherKind, EncryptionAlgorithm, supportsAssociatedData } from '@/lib/crypto/encryption-service';
+import { getCipherProvider, getCipherProviders } from '@/lib/crypto/cipher-registry';
+import { getEnvelopeAlgorithm } from '@/lib/crypto/envelope';
+import { KeyFormat, RAW_KEY_ALGORITHMS, getRawKeyLengths } from '@/lib/crypto/key-import';
 import { EncryptionParameters } from './EncryptionParameters';
+import { KeyGeneratorPanel } from './KeyGeneratorPanel';
+import { KeyPairFields } from './KeyPairFields';
+import { OneTimePadFields } from './OneTimePadFields';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { SignatureKeyFields } from './SignatureKeyFields';
+import { SignaturePanel } from './SignaturePanel';
+import { VerificationStatus } from './VerificationStatus';
 import { EncryptionVisualizer } from '../visualization/EncryptionVisualizer';
 import { AlgorithmComparison } from '../visualization/AlgorithmComparison';
-import { LuCopy, LuLock, LuLockOpen, LuKey, LuInfo } from 'react-icons/lu';
+import { LuCopy, LuLock, LuLockOpen, LuKey, LuInfo, LuTriangleAlert, LuDices } from 'react-icons/lu';
+
+type FormMode = 'encrypt' | 'decrypt' | 'sign' | 'verify';
+
+const MODES: { value: FormMode; label: string }[] = [
+  { value: 'encrypt', label: 'Encrypt' },
+  { value: 'decrypt', label: 'Decrypt' },
+  { value: 'sign', label: 'Sign' },
+  { value: 'verify', label: 'Verify' }
+];
 
 export function EncryptionForm() {
-  const [mode, setMode] = useState<'encrypt' | 'decrypt'>('encrypt');
+  const [mode, setMode] = useState<FormMode>('encrypt');
   const [showComparison, setShowComparison] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [useSigning, setUseSigning] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
+  
+  // Signing key pair for sign-then-encrypt and for checking the sender on decrypt
+  const signer = useSignature();
   
   const {
     input,
     setInput,
     key,
     setKey,
-    keyStrength,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isAsymmetric,
+    isGeneratingKeys,
+    generateKeyPair,
     algorithm,
     setAlgorithm,
     params,
@@ -30,14 +61,48 @@ export function EncryptionForm() {
     displayedOutput,
     error,
     progress,
+    signedMessage,
     handleEncrypt,
     handleDecrypt,
     reset
   } = useEncryption({
     liveTyping: true,
-    typingSpeed: 50
+    typingSpeed: 50,
+    signingKey: mode === 'encrypt' && useSigning ? signer.privateKey : undefined,
+    verificationKey: mode === 'decrypt' && useSigning ? signer.publicKey : undefined
   });
 
+  // Key used by the current mode (public/private key for asymmetric algorithms)
+  const activeKey = isAsymmetric
+    ? (mode === 'encrypt' ? publicKey : privateKey)
+    : key;
+  const missingSigningKey = mode === 'encrypt' && useSigning && !signer.privateKey;
+
+  // Associated data needs an AEAD mode; when decrypting the envelope picks the mode
+  const showAad = supportsAssociatedData(algorithm, mode === 'decrypt' ? {} : params);
+  useEffect(() => {
+    if (!showAad && params.aad) {
+      setParams({ ...params, aad: undefined });
+    }
+  }, [showAad, params, setParams]);
+
+  // Raw keys work with the symmetric ciphers, not with pads or key pairs
+  const supportsRawKey = RAW_KEY_ALGORITHMS.includes(algorithm);
+  const keyFormat = (supportsRawKey && params.keyFormat as KeyFormat) || KeyFormat.Passphrase;
+  useEffect(() => {
+    if (!supportsRawKey && params.keyFormat) {
+      setParams({ ...params, keyFormat: undefined });
+    }
+  }, [supportsRawKey, params, setParams]);
+
+  // Pasted ciphertext envelopes name their algorithm, select it for the key fields
+  const envelopeAlgorithm = mode === 'decrypt' ? getEnvelopeAlgorithm(input) : null;
+  useEffect(() => {
+    if (envelopeAlgorithm) {
+      setAlgorithm(envelopeAlgorithm);
+    }
+  }, [envelopeAlgorithm, setAlgorithm]);
+
   // Function to handle copy to clipboard
   const handleCopy = async () => {
     if (displayedOutput) {
@@ -47,20 +112,17 @@ export function EncryptionForm() {
     }
   };
 
-  // Get key strength color
-  const getKeyStrengthColor = () => {
-    if (keyStrength >= 80) return 'bg-green-500';
-    if (keyStrength >= 60) return 'bg-yellow-500';
-    if (keyStrength >= 40) return 'bg-orange-500';
-    return 'bg-red-500';
-  };
-
-  // Get key strength text
-  const getKeyStrengthText = () => {
-    if (keyStrength >= 80) return 'Strong';
-    if (keyStrength >= 60) return 'Good';
-    if (keyStrength >= 40) return 'Fair';
-    return 'Weak';
+  // Describe the raw key the selected algorithm expects
+  const getKeyPlaceholder = () => {
+    const bytes = getRawKeyLengths(algorithm).join('/');
+    switch (keyFormat) {
+      case KeyFormat.Hex:
+        return `${bytes}-byte key as hex`;
+      case KeyFormat.Base64:
+        return `${bytes}-byte key as Base64`;
+      default:
+        return '{"kty":"oct","k":"..."}';
+    }
   };
 
   return (
@@ -69,271 +131,401 @@ export function EncryptionForm() {
         <h2 className="text-2xl font-bold text-white">Text Encryption</h2>
         
         <div className="flex bg-gray-800 rounded-lg overflow-hidden">
-          <button
-            type="button"
-            onClick={() => { setMode('encrypt'); reset(); }}
-            className={`px-4 py-2 text-sm font-medium ${
-              mode === 'encrypt' 
-                ? 'bg-blue-600 text-white' 
-                : 'text-gray-300 hover:bg-gray-700'
-            }`}
-          >
-            Encrypt
-          </button>
-          <button
-            type="button"
-            onClick={() => { setMode('decrypt'); reset(); }}
-            className={`px-4 py-2 text-sm font-medium ${
-              mode === 'decrypt' 
-                ? 'bg-blue-600 text-white' 
-                : 'text-gray-300 hover:bg-gray-700'
-            }`}
-          >
-            Decrypt
-          </button>
+          {MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => { setMode(value); reset(); signer.reset(); }}
+              className={`px-4 py-2 text-sm font-medium ${
+                mode === value 
+                  ? 'bg-blue-600 text-white' 
+                  : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
       </div>
 
-      {error && (
-        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
-          {error}
-        </div>
-      )}
-
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div>
-          {/* Input area */}
-          <div className="space-y-4">
-            {/* Text input/output */}
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-1">
-                {mode === 'encrypt' ? 'Text to Encrypt' : 'Text to Decrypt'}
-              </label>
-              <textarea
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder={mode === 'encrypt' 
-                  ? 'Enter text to encrypt...' 
-                  : 'Enter encrypted text to decrypt...'
-                }
-                rows={6}
-                className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
-              />
+      {(mode === 'sign' || mode === 'verify') ? (
+        <SignaturePanel key={mode} mode={mode} />
+      ) : (
+        <>
+          {error && (
+            <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+              {error}
             </div>
-            
-            {/* Key input */}
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
-              <label className="block text-sm font-medium text-gray-300 mb-1">
-                {mode === 'encrypt' ? 'Encryption Key' : 'Decryption Key'}
-              </label>
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center">
-                  <LuKey className="h-5 w-5 text-gray-400" />
+              {/* Input area */}
+              <div className="space-y-4">
+                {/* Text input/output */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    {mode === 'encrypt' ? 'Text to Encrypt' : 'Text to Decrypt'}
+                  </label>
+                  <textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder={mode === 'encrypt' 
+                      ? 'Enter text to encrypt...' 
+                      : 'Enter encrypted text to decrypt...'
+                    }
+                    rows={6}
+                    className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  {envelopeAlgorithm && (
+                    <p className="mt-1 text-sm text-gray-400">
+                      {envelopeAlgorithm} ciphertext: the algorithm and its parameters are read from the message.
+                    </p>
+                  )}
                 </div>
-                <input
-                  type="password"
-                  value={key}
-                  onChange={(e) => setKey(e.target.value)}
-                  placeholder={mode === 'encrypt' 
-                    ? 'Enter a strong encryption key' 
-                    : 'Enter the decryption key'
-                  }
-                  className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500 pl-10"
-                />
-              </div>
-              
-              {/* Key strength indicator (only in encrypt mode) */}
-              {mode === 'encrypt' && key && (
-                <div className="mt-2">
-                  <div className="w-full bg-gray-700 rounded-full h-1.5 mt-1">
-                    <div 
-                      className={`${getKeyStrengthColor()} h-1.5 rounded-full`} 
-                      style={{ width: `${keyStrength}%` }}
-                    ></div>
+                
+                {/* Key input */}
+                {isAsymmetric ? (
+                  <KeyPairFields
+                    algorithm={algorithm}
+                    mode={mode}
+                    publicKey={publicKey}
+                    privateKey={privateKey}
+                    onPublicKeyChange={setPublicKey}
+                    onPrivateKeyChange={setPrivateKey}
+                    onGenerate={generateKeyPair}
+                    isGenerating={isGeneratingKeys}
+                  />
+                ) : getCipherProvider(algorithm).capabilities.kind === CipherKind.OneTimePad ? (
+                  <OneTimePadFields
+                    mode={mode}
+                    message={input}
+                    pad={key}
+                    onPadChange={setKey}
+                  />
+                ) : (
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                      <label className="block text-sm font-medium text-gray-300">
+                        {mode === 'encrypt' ? 'Encryption Key' : 'Decryption Key'}
+                      </label>
+                      {mode === 'encrypt' && (
+                        <button
+                          type="button"
+                          onClick={() => setShowGenerator(!showGenerator)}
+                          className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          <LuDices className="mr-1 h-3 w-3" />
+                          {showGenerator ? 'Hide generator' : 'Generate'}
+                        </button>
+                      )}
+                    </div>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center">
+                        <LuKey className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <input
+                        type="password"
+                        value={key}
+                        onChange={(e) => setKey(e.target.value)}
+                        placeholder={keyFormat !== KeyFormat.Passphrase
+                          ? getKeyPlaceholder()
+                          : mode === 'encrypt' 
+                            ? 'Enter a strong encryption key' 
+                            : 'Enter the decryption key'
+                        }
+                        className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500 pl-10"
+                      />
+                    </div>
+
+                    {mode === 'encrypt' && showGenerator && (
+                      <KeyGeneratorPanel
+                        algorithm={algorithm}
+                        params={params}
+                        onParamsChange={setParams}
+                        onKeyChange={setKey}
+                      />
+                    )}
+                    
+                    {/* Key format (raw keys skip the KDF) */}
+                    {supportsRawKey && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <label className="text-xs text-gray-400">Key format</label>
+                        <select
+                          value={keyFormat}
+                          onChange={(e) => setParams({
+                            ...params,
+                            keyFormat: e.target.value === KeyFormat.Passphrase ? undefined : e.target.value
+                          })}
+                          className="rounded-md bg-gray-800 border-gray-700 text-white text-xs py-1 focus:border-blue-500 focus:ring-blue-500"
+                        >
+                          <option value={KeyFormat.Passphrase}>Passphrase</option>
+                          <option value={KeyFormat.Hex}>Raw key (hex)</option>
+                          <option value={KeyFormat.Base64}>Raw key (Base64)</option>
+                          <option value={KeyFormat.JWK}>JSON Web Key</option>
+                        </select>
+                      </div>
+                    )}
+                  
+                    {/* Key strength indicator (only for passphrases in encrypt mode) */}
+                    {mode === 'encrypt' && key && keyFormat === KeyFormat.Passphrase && (
+                      <PasswordStrengthMeter password={key} algorithm={algorithm} params={params} />
+                    )}
                   </div>
-                  <div className="flex justify-between mt-1">
-                    <span className="text-xs text-gray-400">
-                      Key Strength: {getKeyStrengthText()}
-                    </span>
-                    <span className="text-xs text-gray-400">
-                      {keyStrength}%
-                    </span>
+                )}
+                
+                {/* Algorithm selection */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Encryption Algorithm
+                  </label>
+                  <select
+                    value={algorithm}
+                    onChange={(e) => setAlgorithm(e.target.value as EncryptionAlgorithm)}
+                    className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {getCipherProviders().map(({ algorithm, label }) => (
+                      <option key={algorithm} value={algorithm}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                
+                {/* Associated data (AEAD only) */}
+                {showAad && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Associated Data (optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={params.aad || ''}
+                      onChange={(e) => setParams({ ...params, aad: e.target.value || undefined })}
+                      placeholder="e.g. record ID or user ID"
+                      className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <p className="mt-1 text-sm text-gray-400">
+                      {mode === 'encrypt'
+                        ? 'Authenticated but not encrypted or stored; the same value is needed to decrypt.'
+                        : 'Must match the associated data used when encrypting.'}
+                    </p>
                   </div>
+                )}
+                
+                {/* Signature (sign before encrypting / check the sender on decrypt) */}
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={useSigning}
+                      onChange={(e) => setUseSigning(e.target.checked)}
+                      className="mr-2 rounded bg-gray-800 border-gray-700 text-blue-600 focus:ring-blue-500"
+                    />
+                    {mode === 'encrypt' ? 'Sign before encrypting' : 'Check the sender\'s signing key'}
+                  </label>
+                  {mode === 'decrypt' && !useSigning && (
+                    <p className="mt-1 text-xs text-gray-400">
+                      Signed messages are always verified; add the sender&apos;s key to confirm who signed.
+                    </p>
+                  )}
+                  {useSigning && (
+                    <div className="mt-3">
+                      {signer.error && (
+                        <div className="mb-3 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md text-sm">
+                          {signer.error}
+                        </div>
+                      )}
+                      <SignatureKeyFields
+                        mode={mode === 'encrypt' ? 'sign' : 'verify'}
+                        algorithm={signer.signatureAlgorithm}
+                        onAlgorithmChange={signer.setSignatureAlgorithm}
+                        publicKey={signer.publicKey}
+                        privateKey={signer.privateKey}
+                        onPublicKeyChange={signer.setPublicKey}
+                        onPrivateKeyChange={signer.setPrivateKey}
+                        onGenerate={signer.generateKeyPair}
+                        isGenerating={signer.isGeneratingKeys}
+                        publicKeyLabel="Sender's Public Key"
+                      />
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-            
-            {/* Algorithm selection */}
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-1">
-                Encryption Algorithm
-              </label>
-              <select
-                value={algorithm}
-                onChange={(e) => setAlgorithm(e.target.value as EncryptionAlgorithm)}
-                className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
-              >
-                <option value={EncryptionAlgorithm.AES}>AES (Recommended)</option>
-                <option value={EncryptionAlgorithm.TripleDES}>Triple DES</option>
-                <option value={EncryptionAlgorithm.DES}>DES (Not Secure)</option>
-                <option value={EncryptionAlgorithm.Rabbit}>Rabbit</option>
-                <option value={EncryptionAlgorithm.RC4}>RC4 (Not Secure)</option>
-                <option value={EncryptionAlgorithm.OTP}>One-Time Pad</option>
-              </select>
+                
+                {/* Action button */}
+                <div>
+                  <button
+                    type="button"
+                    onClick={mode === 'encrypt' ? handleEncrypt : handleDecrypt}
+                    disabled={!input || !activeKey || missingSigningKey || isEncrypting || isDecrypting}
+                    className={`
+                      w-full flex items-center justify-center px-4 py-3 rounded-md font-medium 
+                      ${!input || !activeKey || missingSigningKey || isEncrypting || isDecrypting
+                        ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                      }
+                    `}
+                  >
+                    {mode === 'encrypt' ? (
+                      <>
+                        <LuLock className="mr-2 h-5 w-5" />
+                        {isEncrypting ? 'Encrypting...' : 'Encrypt'}
+                      </>
+                    ) : (
+                      <>
+                        <LuLockOpen className="mr-2 h-5 w-5" />
+                        {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+              
+              {/* Encryption Parameters */}
+              <div className="mt-6">
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-lg font-medium text-white">Advanced Settings</h3>
+                  <button
+                    type="button"
+                    onClick={() => setShowComparison(!showComparison)}
+                    className="flex items-center text-blue-400 hover:text-blue-300 text-sm"
+                  >
+                    <LuInfo className="mr-1 h-4 w-4" />
+                    {showComparison ? 'Hide' : 'Show'} Algorithm Comparison
+                  </button>
+                </div>
+                
+                <EncryptionParameters
+                  algorithm={algorithm}
+                  params={params}
+                  onChange={setParams}
+                />
+              </div>
             </div>
             
-            {/* Action button */}
             <div>
-              <button
-                type="button"
-                onClick={mode === 'encrypt' ? handleEncrypt : handleDecrypt}
-                disabled={!input || !key || isEncrypting || isDecrypting}
-                className={`
-                  w-full flex items-center justify-center px-4 py-3 rounded-md font-medium 
-                  ${!input || !key || isEncrypting || isDecrypting
-                    ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                    : 'bg-blue-600 text-white hover:bg-blue-700'
-                  }
-                `}
-              >
-                {mode === 'encrypt' ? (
-                  <>
-                    <LuLock className="mr-2 h-5 w-5" />
-                    {isEncrypting ? 'Encrypting...' : 'Encrypt'}
-                  </>
-                ) : (
-                  <>
-                    <LuLockOpen className="mr-2 h-5 w-5" />
-                    {isDecrypting ? 'Decrypting...' : 'Decrypt'}
-                  </>
+              {/* Output area */}
+              <div className="bg-gray-800 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-medium text-white">
+                    {mode === 'encrypt' ? 'Encrypted Output' : 'Decrypted Result'}
+                  </h3>
+                  
+                  {displayedOutput && (
+                    <button
+                      type="button"
+                      onClick={handleCopy}
+                      className="flex items-center text-gray-300 hover:text-white text-sm"
+                    >
+                      <LuCopy className="mr-1 h-4 w-4" />
+                      {copied ? 'Copied!' : 'Copy'}
+                    </button>
+                  )}
+                </div>
+                
+                {/* Progress bar */}
+                {(isEncrypting || isDecrypting || progress > 0) && (
+                  <div className="mb-4">
+                    <div className="w-full bg-gray-700 rounded-full h-2.5">
+                      <div
+                        className="bg-blue-600 h-2.5 rounded-full"
+                        style={{ width: `${progress}%` }}
+                      ></div>
+                    </div>
+                    <p className="text-right text-xs text-gray-400 mt-1">
+                      {progress}%
+                    </p>
+                  </div>
                 )}
-              </button>
-            </div>
-          </div>
-          
-          {/* Encryption Parameters */}
-          <div className="mt-6">
-            <div className="flex justify-between items-center mb-2">
-              <h3 className="text-lg font-medium text-white">Advanced Settings</h3>
-              <button
-                type="button"
-                onClick={() => setShowComparison(!showComparison)}
-                className="flex items-center text-blue-400 hover:text-blue-300 text-sm"
-              >
-                <LuInfo className="mr-1 h-4 w-4" />
-                {showComparison ? 'Hide' : 'Show'} Algorithm Comparison
-              </button>
-            </div>
-            
-            <EncryptionParameters
-              algorithm={algorithm}
-              params={params}
-              onChange={setParams}
-            />
-          </div>
-        </div>
-        
-        <div>
-          {/* Output area */}
-          <div className="bg-gray-800 rounded-lg p-4">
-            <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-medium text-white">
-                {mode === 'encrypt' ? 'Encrypted Output' : 'Decrypted Result'}
-              </h3>
-              
-              {displayedOutput && (
-                <button
-                  type="button"
-                  onClick={handleCopy}
-                  className="flex items-center text-gray-300 hover:text-white text-sm"
+                
+                {/* Output display */}
+                <div 
+                  className={`
+                    min-h-[150px] p-3 rounded-md font-mono text-sm whitespace-pre-wrap break-all
+                    ${displayedOutput ? 'bg-gray-700' : 'bg-gray-700 bg-opacity-50'}
+                  `}
                 >
-                  <LuCopy className="mr-1 h-4 w-4" />
-                  {copied ? 'Copied!' : 'Copy'}
-                </button>
-              )}
-            </div>
-            
-            {/* Progress bar */}
-            {(isEncrypting || isDecrypting || progress > 0) && (
-              <div className="mb-4">
-                <div className="w-full bg-gray-700 rounded-full h-2.5">
-                  <div
-                    className="bg-blue-600 h-2.5 rounded-full"
-                    style={{ width: `${progress}%` }}
-                  ></div>
+                  {displayedOutput || (
+                    <span className="text-gray-500">
+                      {mode === 'encrypt'
+                        ? 'Encrypted text will appear here'
+                        : 'Decrypted text will appear here'
+                      }
+                    </span>
+                  )}
                 </div>
-                <p className="text-right text-xs text-gray-400 mt-1">
-                  {progress}%
-                </p>
+                
+                {/* Warnings about the encryption, e.g. a reused one-time pad */}
+                {mode === 'encrypt' && encryptionResult?.warnings?.map((warning) => (
+                  <div
+                    key={warning}
+                    className="mt-4 flex items-start p-3 bg-red-900 bg-opacity-60 border border-red-500 rounded-md text-sm text-red-200"
+                  >
+                    <LuTriangleAlert className="mr-2 h-5 w-5 flex-shrink-0 text-red-400" />
+                    {warning}
+                  </div>
+                ))}
+                
+                {/* Signature check of a signed-then-encrypted message */}
+                {mode === 'decrypt' && signedMessage && (
+                  <div className="mt-4">
+                    <VerificationStatus
+                      verification={signedMessage.verification}
+                      signerKnown={signedMessage.signerKnown}
+                    />
+                  </div>
+                )}
+                
+                {/* Algorithm performance info */}
+                {(encryptionResult || decryptionResult) && (
+                  <div className="mt-4 text-sm text-gray-400">
+                    <p>
+                      <span className="font-medium">Algorithm:</span>{' '}
+                      {encryptionResult?.algorithm || decryptionResult?.algorithm}
+                    </p>
+                    <p>
+                      <span className="font-medium">Time taken:</span>{' '}
+                      {((encryptionResult?.timeTaken || decryptionResult?.timeTaken || 0) / 1000).toFixed(3)}s
+                    </p>
+                  </div>
+                )}
               </div>
-            )}
-            
-            {/* Output display */}
-            <div 
-              className={`
-                min-h-[150px] p-3 rounded-md font-mono text-sm whitespace-pre-wrap break-all
-                ${displayedOutput ? 'bg-gray-700' : 'bg-gray-700 bg-opacity-50'}
-              `}
-            >
-              {displayedOutput || (
-                <span className="text-gray-500">
-                  {mode === 'encrypt'
-                    ? 'Encrypted text will appear here'
-                    : 'Decrypted text will appear here'
-                  }
-                </span>
-              )}
-            </div>
-            
-            {/* Algorithm performance info */}
-            {(encryptionResult || decryptionResult) && (
-              <div className="mt-4 text-sm text-gray-400">
-                <p>
-                  <span className="font-medium">Algorithm:</span> {algorithm}
-                </p>
-                <p>
-                  <span className="font-medium">Time taken:</span>{' '}
-                  {((encryptionResult?.timeTaken || decryptionResult?.timeTaken || 0) / 1000).toFixed(3)}s
-                </p>
+              
+              {/* Visualization */}
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-white mb-4">Visualization</h3>
+                
+                <EncryptionVisualizer
+                  algorithm={algorithm}
+                  input={input}
+                  output={displayedOutput}
+                  isEncrypting={mode === 'encrypt'}
+                  isAnimating={isEncrypting || isDecrypting}
+                  progress={progress}
+                />
               </div>
-            )}
-          </div>
-          
-          {/* Visualization */}
-          <div className="mt-6">
-            <h3 className="text-lg font-medium text-white mb-4">Visualization</h3>
-            
-            <EncryptionVisualizer
-              algorithm={algorithm}
-              input={input}
-              output={displayedOutput}
-              isEncrypting={mode === 'encrypt'}
-              isAnimating={isEncrypting || isDecrypting}
-              progress={progress}
-            />
-          </div>
-          
-          {/* Algorithm Comparison */}
-          {showComparison && (
-            <div className="mt-6">
-              <h3 className="text-lg font-medium text-white mb-4">Algorithm Comparison</h3>
               
-              <AlgorithmComparison
-                results={[
-                  ...(encryptionResult ? [{ 
-                    algorithm: encryptionResult.algorithm, 
-                    timeTaken: encryptionResult.timeTaken 
-                  }] : []),
-                  ...(decryptionResult ? [{ 
-                    algorithm: decryptionResult.algorithm, 
-                    timeTaken: decryptionResult.timeTaken 
-                  }] : [])
-                ]}
-              />
+              {/* Algorithm Comparison */}
+              {showComparison && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-medium text-white mb-4">Algorithm Comparison</h3>
+                  
+                  <AlgorithmComparison
+                    results={[
+                      ...(encryptionResult ? [{ 
+                        algorithm: encryptionResult.algorithm, 
+                        timeTaken: encryptionResult.timeTaken 
+                      }] : []),
+                      ...(decryptionResult ? [{ 
+                        algorithm: decryptionResult.algorithm, 
+                        timeTaken: decryptionResult.timeTaken 
+                      }] : [])
+                    ]}
+                  />
+                </div>
+              )}
             </div>
-          )}
-        </div>
-      </div>
+          </div>
+        </>
+      )}
     </div>
   );
 } 
\ No newline at end of file
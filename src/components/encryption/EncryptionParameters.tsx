@@ -1,13 +1,37 @@
 "use client";
 
 import React from 'react';
+import Link from 'next/link';
 import { 
   EncryptionAlgorithm, 
   EncryptionMode, 
   PaddingMethod, 
   EncryptionParams,
-  recommendKeySize
+  KeyDerivation,
+  IV_MODES,
+  STREAM_MODES,
+  getSupportedModes,
+  getSupportedPaddings,
+  recommendKeySize,
+  resolveModeAndPadding
 } from '@/lib/crypto/encryption-service';
+import { getCipherProvider } from '@/lib/crypto/cipher-registry';
+import { CipherNote } from '@/lib/crypto/cipher-provider';
+import { KeyFormat } from '@/lib/crypto/key-import';
+import { KdfParameters } from './KdfParameters';
+
+// Colours of a cipher's notes on their own and in the recommendations list
+const NOTE_COLORS: Record<CipherNote['level'], string> = {
+  info: 'text-blue-300',
+  warning: 'text-yellow-400',
+  danger: 'text-red-400'
+};
+
+const RECOMMENDATION_COLORS: Record<CipherNote['level'], string | undefined> = {
+  info: undefined,
+  warning: 'text-yellow-300',
+  danger: 'text-red-300'
+};
 
 interface EncryptionParametersProps {
   algorithm: EncryptionAlgorithm;
@@ -20,69 +44,21 @@ export function EncryptionParameters({
   params,
   onChange
 }: EncryptionParametersProps) {
-  // Get supported modes for the current algorithm
-  const getSupportedModes = (): EncryptionMode[] => {
-    // Some algorithms don't support all modes
-    switch (algorithm) {
-      case EncryptionAlgorithm.AES:
-        return Object.values(EncryptionMode);
-      case EncryptionAlgorithm.DES:
-      case EncryptionAlgorithm.TripleDES:
-        return [
-          EncryptionMode.ECB,
-          EncryptionMode.CBC,
-          EncryptionMode.CFB,
-          EncryptionMode.OFB
-        ];
-      case EncryptionAlgorithm.Rabbit:
-      case EncryptionAlgorithm.RC4:
-        return [EncryptionMode.ECB]; // Stream ciphers typically use ECB-like mode
-      case EncryptionAlgorithm.OTP:
-        return []; // OTP doesn't use block cipher modes
-      default:
-        return Object.values(EncryptionMode);
-    }
-  };
+  // Everything below is driven by what the cipher declares it supports
+  const { capabilities, notes } = getCipherProvider(algorithm);
+  const supportedModes = getSupportedModes(algorithm);
+  const supportedPaddings = getSupportedPaddings(algorithm);
 
-  // Get supported padding methods for the current algorithm
-  const getSupportedPadding = (): PaddingMethod[] => {
-    switch (algorithm) {
-      case EncryptionAlgorithm.AES:
-      case EncryptionAlgorithm.DES:
-      case EncryptionAlgorithm.TripleDES:
-        return Object.values(PaddingMethod);
-      case EncryptionAlgorithm.Rabbit:
-      case EncryptionAlgorithm.RC4:
-      case EncryptionAlgorithm.OTP:
-        return []; // Stream ciphers and OTP don't use padding
-      default:
-        return Object.values(PaddingMethod);
-    }
-  };
-
-  // Check if an algorithm supports IV
+  // Check if the selected mode takes an IV
   const supportsIV = (): boolean => {
-    return [
-      EncryptionAlgorithm.AES,
-      EncryptionAlgorithm.DES,
-      EncryptionAlgorithm.TripleDES
-    ].includes(algorithm) && 
-    [
-      EncryptionMode.CBC,
-      EncryptionMode.CFB,
-      EncryptionMode.OFB,
-      EncryptionMode.CTR
-    ].includes(params.mode as EncryptionMode);
+    return selectedMode !== undefined && IV_MODES.includes(selectedMode);
   };
 
-  // Check if an algorithm supports key derivation
-  const supportsKeyDerivation = (): boolean => {
-    return [
-      EncryptionAlgorithm.AES,
-      EncryptionAlgorithm.DES,
-      EncryptionAlgorithm.TripleDES
-    ].includes(algorithm);
-  };
+  // Passphrases go through a selectable KDF, or through OpenSSL's KDF to a
+  // selectable key size for ciphers with a variable key
+  const supportsKdf = capabilities.keyDerivation === KeyDerivation.Kdf;
+  const supportsKeySize = capabilities.keyDerivation === KeyDerivation.OpenSsl &&
+    capabilities.keySizes.length > 1;
 
   // Handle change of a parameter
   const handleParamChange = (
@@ -91,24 +67,55 @@ export function EncryptionParameters({
     const { name, value } = e.target;
     const newParams = { ...params, [name]: value };
     
+    // Each mode has its own default padding
+    if (name === 'mode') {
+      newParams.padding = undefined;
+    }
+    
     // Handle numeric values
-    if (name === 'iterations' || name === 'keySize') {
+    if (name === 'keySize') {
       newParams[name] = parseInt(value, 10);
     }
     
     onChange(newParams);
   };
 
-  // Get recommended key size
-  const recommendedKeySize = recommendKeySize(algorithm);
+  // Raw keys are used as-is, so there is nothing to derive
+  const isRawKey = Boolean(params.keyFormat) && params.keyFormat !== KeyFormat.Passphrase;
+
+  // Mode as it will be used, and why the chosen combination is rejected if it is
+  const selectedMode = (params.mode as EncryptionMode) || capabilities.defaultMode;
+  const isStreamMode = selectedMode !== undefined && STREAM_MODES.includes(selectedMode);
+  const getModeError = (): string | null => {
+    if (supportedModes.length === 0) {
+      return null;
+    }
+    try {
+      resolveModeAndPadding(algorithm, params);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+  const modeError = getModeError();
+
+  // Get recommended key size in bits
+  const recommendedKeySize = recommendKeySize(algorithm) * 8;
+
+  // Key sizes in 32-bit words, as CryptoJS counts them
+  const keySizeRange = {
+    min: Math.min(...capabilities.keySizes) / 4,
+    max: Math.max(...capabilities.keySizes) / 4
+  };
 
   // Check if this algorithm has any parameters to customize
   const hasParameters = (): boolean => {
     return (
-      getSupportedModes().length > 0 ||
-      getSupportedPadding().length > 0 ||
+      supportedModes.length > 0 ||
+      supportedPaddings.length > 0 ||
       supportsIV() ||
-      supportsKeyDerivation()
+      supportsKdf ||
+      supportsKeySize
     );
   };
 
@@ -116,12 +123,17 @@ export function EncryptionParameters({
     return (
       <div className="p-4 bg-gray-800 rounded-lg text-gray-300">
         <p>This algorithm does not have customizable parameters.</p>
-        {algorithm === EncryptionAlgorithm.OTP && (
-          <p className="mt-2 text-yellow-400">
-            Note: One-Time Pad requires a key at least as long as the message for
-            perfect secrecy.
+        {notes.map((note) => (
+          <p key={note.text} className={`mt-2 ${NOTE_COLORS[note.level]}`}>
+            {note.text}
+            {note.link && (
+              <>
+                {' '}
+                <Link href={note.link.href} className="underline hover:text-white">{note.link.label}</Link>
+              </>
+            )}
           </p>
-        )}
+        ))}
       </div>
     );
   }
@@ -131,33 +143,41 @@ export function EncryptionParameters({
       <h3 className="text-lg font-medium text-white">Customize Parameters</h3>
       
       {/* Mode of Operation */}
-      {getSupportedModes().length > 0 && (
+      {supportedModes.length > 0 && (
         <div>
           <label className="block text-sm font-medium text-gray-300">
             Mode of Operation
           </label>
           <select
             name="mode"
-            value={params.mode || EncryptionMode.CBC}
+            value={selectedMode}
             onChange={handleParamChange}
             className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
           >
-            {getSupportedModes().map((mode) => (
+            {supportedModes.map((mode) => (
               <option key={mode} value={mode}>
                 {mode}
               </option>
             ))}
           </select>
-          {params.mode === EncryptionMode.ECB && (
+          {selectedMode === EncryptionMode.ECB && (
             <p className="mt-1 text-sm text-red-400">
               Warning: ECB mode is not recommended for secure applications.
             </p>
           )}
+          {isStreamMode && supportedPaddings.length > 0 && (
+            <p className="mt-1 text-sm text-gray-400">
+              {selectedMode} encrypts like a stream cipher, so no padding is needed.
+            </p>
+          )}
+          {modeError && (
+            <p className="mt-1 text-sm text-red-400">{modeError}</p>
+          )}
         </div>
       )}
       
       {/* Padding Method */}
-      {getSupportedPadding().length > 0 && (
+      {supportedPaddings.length > 0 && !isStreamMode && (
         <div>
           <label className="block text-sm font-medium text-gray-300">
             Padding Method
@@ -168,7 +188,7 @@ export function EncryptionParameters({
             onChange={handleParamChange}
             className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
           >
-            {getSupportedPadding().map((padding) => (
+            {supportedPaddings.map((padding) => (
               <option key={padding} value={padding}>
                 {padding}
               </option>
@@ -181,7 +201,7 @@ export function EncryptionParameters({
       {supportsIV() && (
         <div>
           <label className="block text-sm font-medium text-gray-300">
-            Initialization Vector (IV)
+            Initialization Vector (IV, hex)
           </label>
           <input
             type="text"
@@ -192,75 +212,62 @@ export function EncryptionParameters({
             className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
           />
           <p className="mt-1 text-sm text-gray-400">
-            Optional: IV should be unique but doesn&apos;t need to be secret.
+            Optional: {capabilities.blockSize} bytes ({capabilities.blockSize! * 2} hex digits). The IV
+            should be unique but doesn&apos;t need to be secret; reusing one with the same key leaks
+            which messages start alike (CBC) or the XOR of the messages (CFB, OFB, CTR).
           </p>
         </div>
       )}
       
       {/* Key Derivation Parameters */}
-      {supportsKeyDerivation() && (
-        <>
-          <div>
-            <label className="block text-sm font-medium text-gray-300">
-              Iterations (PBKDF2)
-            </label>
-            <input
-              type="number"
-              name="iterations"
-              value={params.iterations || 1000}
-              onChange={handleParamChange}
-              min={1}
-              max={100000}
-              className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
-            />
-            <p className="mt-1 text-sm text-gray-400">
-              Higher values increase security but take longer to process.
-            </p>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-300">
-              Key Size (bits ÷ 32)
-            </label>
-            <input
-              type="number"
-              name="keySize"
-              value={params.keySize || recommendedKeySize / 32}
-              onChange={handleParamChange}
-              min={4}
-              max={16}
-              className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
-            />
-            <p className="mt-1 text-sm text-gray-400">
-              Recommended: {recommendedKeySize} bits ({recommendedKeySize / 32})
-            </p>
-          </div>
-        </>
+      {(supportsKdf || supportsKeySize) && isRawKey && (
+        <p className="text-sm text-gray-400">
+          The raw key is used directly: no key derivation, and its length sets the key size.
+        </p>
+      )}
+      {supportsKdf && !isRawKey && (
+        <KdfParameters params={params} onChange={onChange} />
+      )}
+      {supportsKeySize && !isRawKey && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300">
+            Key Size (bits ÷ 32)
+          </label>
+          <input
+            type="number"
+            name="keySize"
+            value={params.keySize || recommendedKeySize / 32}
+            onChange={handleParamChange}
+            min={keySizeRange.min}
+            max={keySizeRange.max}
+            className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-sm text-gray-400">
+            {(params.keySize || recommendedKeySize / 32) * 32} bits.
+            Recommended: {recommendedKeySize} bits ({recommendedKeySize / 32})
+          </p>
+        </div>
       )}
       
       {/* Security Recommendations */}
       <div className="mt-4 p-3 bg-blue-900 bg-opacity-50 rounded-md">
         <h4 className="text-sm font-bold text-blue-300">Security Recommendations</h4>
         <ul className="mt-1 text-xs text-blue-200 list-disc list-inside">
-          {algorithm === EncryptionAlgorithm.AES && (
-            <>
-              <li>AES-256 in GCM mode provides authenticated encryption.</li>
-              <li>Use a random IV for each encryption operation.</li>
-            </>
-          )}
-          {algorithm === EncryptionAlgorithm.DES && (
-            <li className="text-yellow-300">
-              DES is considered insecure. Consider using AES instead.
-            </li>
-          )}
-          {algorithm === EncryptionAlgorithm.TripleDES && (
-            <li>
-              TripleDES is slower than AES but still considered secure for legacy applications.
+          {notes.map((note) => (
+            <li key={note.text} className={RECOMMENDATION_COLORS[note.level]}>
+              {note.text}
+              {note.link && (
+                <>
+                  {' '}
+                  <Link href={note.link.href} className="underline">{note.link.label}</Link>
+                </>
+              )}
             </li>
-          )}
-          {algorithm === EncryptionAlgorithm.RC4 && (
-            <li className="text-red-300">
-              RC4 is cryptographically broken. Use for educational purposes only.
+          ))}
+          {selectedMode && capabilities.authenticatedModes.length > 0 &&
+            !capabilities.authenticatedModes.includes(selectedMode) && (
+            <li className="text-yellow-300">
+              {selectedMode} does not authenticate: tampered ciphertext decrypts to garbage instead of failing.
             </li>
           )}
           <li>Never reuse keys for multiple messages.</li>
@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useState } from 'react';
+import { EncryptionParams } from '@/lib/crypto/encryption-service';
+import { KeyDerivationFunction, KDF_DEFAULTS, calibrateKdf } from '@/lib/crypto/kdf';
+import { LuGauge } from 'react-icons/lu';
+
+interface KdfParametersProps {
+  params: EncryptionParams;
+  onChange: (params: EncryptionParams) => void;
+}
+
+export function KdfParameters({ params, onChange }: KdfParametersProps) {
+  const [targetMs, setTargetMs] = useState<number>(500);
+  const [isCalibrating, setIsCalibrating] = useState<boolean>(false);
+  const [estimatedMs, setEstimatedMs] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const kdf = (params.kdf as KeyDerivationFunction) || KeyDerivationFunction.PBKDF2;
+  const defaults = KDF_DEFAULTS[kdf];
+  const usesIterations = kdf !== KeyDerivationFunction.Scrypt;
+  const usesMemory = kdf !== KeyDerivationFunction.PBKDF2;
+
+  // Switching KDF resets the cost parameters to that KDF's defaults
+  const handleKdfChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = KDF_DEFAULTS[e.target.value as KeyDerivationFunction];
+    setEstimatedMs(null);
+    onChange({
+      ...params,
+      kdf: next.kdf,
+      iterations: next.iterations,
+      memory: next.memory || undefined,
+      parallelism: next.parallelism
+    });
+  };
+
+  // Handle change of a numeric cost parameter
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setEstimatedMs(null);
+    onChange({ ...params, [e.target.name]: parseInt(e.target.value, 10) });
+  };
+
+  // Measure this device and pick parameters that take about targetMs
+  const handleCalibrate = async () => {
+    setError(null);
+    setIsCalibrating(true);
+
+    try {
+      const { params: calibrated, estimatedMs } = await calibrateKdf(kdf, targetMs);
+      setEstimatedMs(estimatedMs);
+      onChange({
+        ...params,
+        kdf: calibrated.kdf,
+        iterations: calibrated.iterations,
+        memory: calibrated.memory || undefined,
+        parallelism: calibrated.parallelism
+      });
+    } catch (err) {
+      setError(`Calibration failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-300">
+          Key Derivation Function
+        </label>
+        <select
+          name="kdf"
+          value={kdf}
+          onChange={handleKdfChange}
+          className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value={KeyDerivationFunction.PBKDF2}>PBKDF2-SHA256</option>
+          <option value={KeyDerivationFunction.Scrypt}>scrypt</option>
+          <option value={KeyDerivationFunction.Argon2id}>Argon2id (Recommended)</option>
+        </select>
+        <p className="mt-1 text-sm text-gray-400">
+          The KDF and its parameters are stored with the ciphertext.
+        </p>
+      </div>
+
+      {usesIterations && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300">
+            {kdf === KeyDerivationFunction.PBKDF2 ? 'Iterations (PBKDF2)' : 'Time Cost (passes)'}
+          </label>
+          <input
+            type="number"
+            name="iterations"
+            value={params.iterations || defaults.iterations}
+            onChange={handleNumberChange}
+            min={1}
+            max={kdf === KeyDerivationFunction.PBKDF2 ? 10000000 : 100}
+            className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      {usesMemory && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300">
+              Memory (KiB)
+            </label>
+            <input
+              type="number"
+              name="memory"
+              value={params.memory || defaults.memory}
+              onChange={handleNumberChange}
+              min={kdf === KeyDerivationFunction.Scrypt ? 16 : 8}
+              max={1024 * 1024}
+              step={kdf === KeyDerivationFunction.Scrypt ? undefined : 1024}
+              className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300">
+              Parallelism
+            </label>
+            <input
+              type="number"
+              name="parallelism"
+              value={params.parallelism || defaults.parallelism}
+              onChange={handleNumberChange}
+              min={1}
+              max={16}
+              className="mt-1 block w-full rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {kdf === KeyDerivationFunction.Scrypt && (
+            <p className="col-span-2 text-sm text-gray-400">
+              scrypt memory must be a power of two (N = memory with r = 8).
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Calibration */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300">
+          Target Derivation Time (ms)
+        </label>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="number"
+            value={targetMs}
+            onChange={(e) => setTargetMs(parseInt(e.target.value, 10) || 0)}
+            min={50}
+            max={10000}
+            step={50}
+            className="flex-1 rounded-md bg-gray-700 border-gray-600 text-white focus:border-blue-500 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={handleCalibrate}
+            disabled={isCalibrating}
+            className={`
+              flex items-center px-4 py-2 rounded-md text-sm font-medium
+              ${isCalibrating
+                ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+              }
+            `}
+          >
+            <LuGauge className="mr-2 h-4 w-4" />
+            {isCalibrating ? 'Calibrating...' : 'Calibrate'}
+          </button>
+        </div>
+        {error && (
+          <p className="mt-1 text-sm text-red-400">{error}</p>
+        )}
+        {estimatedMs !== null && !error && (
+          <p className="mt-1 text-sm text-gray-400">
+            About {Math.round(estimatedMs)} ms per derivation on this device.
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
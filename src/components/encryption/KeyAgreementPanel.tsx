@@ -0,0 +1,162 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  ECC_CURVES,
+  EccCurve,
+  SharedSecret,
+  generateEccKeyPair,
+  deriveSharedSecret
+} from '@/lib/crypto/ecc-crypto';
+import { KeyPairPem } from '@/lib/crypto/encryption-service';
+import { LuCopy, LuRefreshCw, LuHandshake } from 'react-icons/lu';
+
+export function KeyAgreementPanel() {
+  const [curve, setCurve] = useState<EccCurve>('P-256');
+  const [keyPair, setKeyPair] = useState<KeyPairPem | null>(null);
+  const [peerPublicKey, setPeerPublicKey] = useState<string>('');
+  const [secret, setSecret] = useState<SharedSecret | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [copied, setCopied] = useState(false);
+
+  // Generate this tab's key pair
+  const handleGenerate = async () => {
+    setError(null);
+    setSecret(null);
+    setIsWorking(true);
+
+    try {
+      setKeyPair(await generateEccKeyPair(curve));
+    } catch (err) {
+      setError(`Key generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Combine our private key with the peer's public key
+  const handleDerive = async () => {
+    if (!keyPair || !peerPublicKey) return;
+
+    setError(null);
+    setIsWorking(true);
+
+    try {
+      setSecret(await deriveSharedSecret(keyPair.privateKey, peerPublicKey));
+    } catch (err) {
+      setSecret(null);
+      setError(`Key agreement failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (keyPair) {
+      await navigator.clipboard.writeText(keyPair.publicKey);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-600 dark:text-gray-400 text-sm">
+        Open this page in two tabs (or send it to a friend). Each side generates a key pair on
+        the same curve and pastes the other side&apos;s public key. Both derive the same secret
+        without it ever being sent; compare the fingerprints to check.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Step 1: own key pair */}
+      <div className="flex gap-2">
+        <select
+          value={curve}
+          onChange={(e) => { setCurve(e.target.value as EccCurve); setKeyPair(null); setSecret(null); }}
+          className="flex-1 rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+        >
+          {ECC_CURVES.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isWorking}
+          className="flex items-center px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400"
+        >
+          <LuRefreshCw className="mr-2 h-4 w-4" />
+          Generate My Key Pair
+        </button>
+      </div>
+
+      {keyPair && (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              My Public Key (share this)
+            </label>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white text-sm"
+            >
+              <LuCopy className="mr-1 h-4 w-4" />
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <textarea
+            value={keyPair.publicKey}
+            readOnly
+            rows={4}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {/* Step 2: peer's public key */}
+      {keyPair && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Peer&apos;s Public Key
+          </label>
+          <textarea
+            value={peerPublicKey}
+            onChange={(e) => setPeerPublicKey(e.target.value)}
+            placeholder="-----BEGIN PUBLIC KEY-----"
+            rows={4}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-xs focus:border-blue-500 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={handleDerive}
+            disabled={!peerPublicKey || isWorking}
+            className="mt-2 w-full flex items-center justify-center px-4 py-2 rounded-md font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <LuHandshake className="mr-2 h-5 w-5" />
+            Derive Shared Secret
+          </button>
+        </div>
+      )}
+
+      {/* Step 3: result */}
+      {secret && (
+        <div className="p-3 bg-green-900 bg-opacity-20 border border-green-800 rounded-md">
+          <p className="text-green-400 font-medium">
+            Fingerprint: <span className="font-mono">{secret.fingerprint}</span>
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-300 mt-1 break-all">
+            <span className="font-medium">Shared AES-256 key ({secret.curve}, HKDF-SHA256):</span>{' '}
+            <span className="font-mono">{secret.sharedSecret}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useState } from 'react';
+import { EncryptionAlgorithm, EncryptionParams, recommendKeySize } from '@/lib/crypto/encryption-service';
+import { KeyFormat, RAW_KEY_ALGORITHMS } from '@/lib/crypto/key-import';
+import {
+  CharacterClass,
+  DICEWARE_DEFAULT_WORDS,
+  GeneratedSecret,
+  GeneratorMode,
+  PASSWORD_DEFAULT_LENGTH,
+  PasswordRules,
+  generateDicewarePassphrase,
+  generateRandomPassword,
+  generateRawKey,
+  getPasswordEntropy
+} from '@/lib/crypto/key-generator';
+import { getDicewareWordlist } from '@/lib/crypto/eff-wordlist';
+import { LuCopy, LuDices } from 'react-icons/lu';
+
+interface KeyGeneratorPanelProps {
+  algorithm: EncryptionAlgorithm;
+  params: EncryptionParams;
+  onParamsChange: (params: EncryptionParams) => void;
+  onKeyChange: (key: string) => void;
+}
+
+const MODES: { value: GeneratorMode; label: string }[] = [
+  { value: GeneratorMode.Diceware, label: 'Diceware' },
+  { value: GeneratorMode.Password, label: 'Password' },
+  { value: GeneratorMode.RawKey, label: 'Raw Key' }
+];
+
+const CLASS_LABELS: Record<CharacterClass, string> = {
+  [CharacterClass.Lowercase]: 'a-z',
+  [CharacterClass.Uppercase]: 'A-Z',
+  [CharacterClass.Digits]: '0-9',
+  [CharacterClass.Symbols]: '!@#'
+};
+
+const SEPARATORS = [
+  { value: '-', label: 'Hyphen' },
+  { value: ' ', label: 'Space' },
+  { value: '.', label: 'Period' },
+  { value: '_', label: 'Underscore' },
+  { value: '', label: 'None' }
+];
+
+/**
+ * Generates a passphrase, password or raw key and puts it straight into the
+ * key field, setting the key format to match
+ */
+export function KeyGeneratorPanel({ algorithm, params, onParamsChange, onKeyChange }: KeyGeneratorPanelProps) {
+  const [mode, setMode] = useState<GeneratorMode>(GeneratorMode.Diceware);
+  const [words, setWords] = useState<number>(DICEWARE_DEFAULT_WORDS);
+  const [separator, setSeparator] = useState<string>('-');
+  const [rules, setRules] = useState<PasswordRules>({
+    length: PASSWORD_DEFAULT_LENGTH,
+    classes: Object.values(CharacterClass),
+    requireEach: true,
+    excludeAmbiguous: false
+  });
+  const [rawKeyFormat, setRawKeyFormat] = useState<KeyFormat>(KeyFormat.Hex);
+  const [generated, setGenerated] = useState<GeneratedSecret | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const supportsRawKey = RAW_KEY_ALGORITHMS.includes(algorithm);
+
+  // Entropy of the next output, known before generating it
+  const entropy = mode === GeneratorMode.Diceware
+    ? words * Math.log2(getDicewareWordlist().length)
+    : mode === GeneratorMode.Password
+      ? getPasswordEntropy(rules)
+      : recommendKeySize(algorithm) * 8;
+
+  const toggleClass = (characterClass: CharacterClass) => {
+    setRules(current => ({
+      ...current,
+      classes: current.classes.includes(characterClass)
+        ? current.classes.filter(c => c !== characterClass)
+        : Object.values(CharacterClass).filter(c => c === characterClass || current.classes.includes(c))
+    }));
+  };
+
+  const handleGenerate = () => {
+    setError(null);
+    try {
+      const secret = mode === GeneratorMode.Diceware
+        ? generateDicewarePassphrase(words, separator)
+        : mode === GeneratorMode.Password
+          ? generateRandomPassword(rules)
+          : generateRawKey(algorithm, rawKeyFormat);
+      setGenerated(secret);
+      onKeyChange(secret.value);
+      onParamsChange({
+        ...params,
+        keyFormat: secret.keyFormat === KeyFormat.Passphrase ? undefined : secret.keyFormat
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCopy = async () => {
+    if (generated) {
+      await navigator.clipboard.writeText(generated.value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-gray-800 rounded-md space-y-3">
+      <div className="flex bg-gray-900 rounded-lg overflow-hidden w-fit">
+        {MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => { setMode(value); setError(null); }}
+            className={`px-3 py-1 text-xs font-medium ${
+              mode === value
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === GeneratorMode.Diceware && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Words</label>
+            <input
+              type="number"
+              min={3}
+              max={20}
+              value={words}
+              onChange={(e) => setWords(Math.min(20, Math.max(1, Number(e.target.value))))}
+              className="w-20 rounded-md bg-gray-700 border-gray-600 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Separator</label>
+            <select
+              value={separator}
+              onChange={(e) => setSeparator(e.target.value)}
+              className="rounded-md bg-gray-700 border-gray-600 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {SEPARATORS.map(({ value, label }) => (
+                <option key={label} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500">
+            From the {getDicewareWordlist().length.toLocaleString()}-word EFF list, {Math.log2(getDicewareWordlist().length).toFixed(1)} bits per word.
+          </p>
+        </div>
+      )}
+
+      {mode === GeneratorMode.Password && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Length</label>
+              <input
+                type="number"
+                min={4}
+                max={128}
+                value={rules.length}
+                onChange={(e) => setRules({ ...rules, length: Math.min(128, Math.max(1, Number(e.target.value))) })}
+                className="w-20 rounded-md bg-gray-700 border-gray-600 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            {Object.values(CharacterClass).map(characterClass => (
+              <label key={characterClass} className="flex items-center text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rules.classes.includes(characterClass)}
+                  onChange={() => toggleClass(characterClass)}
+                  className="mr-1 rounded"
+                />
+                {CLASS_LABELS[characterClass]}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={rules.requireEach}
+                onChange={(e) => setRules({ ...rules, requireEach: e.target.checked })}
+                className="mr-1 rounded"
+              />
+              At least one of each
+            </label>
+            <label className="flex items-center text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={rules.excludeAmbiguous}
+                onChange={(e) => setRules({ ...rules, excludeAmbiguous: e.target.checked })}
+                className="mr-1 rounded"
+              />
+              No look-alikes (l, 1, I, O, 0)
+            </label>
+          </div>
+        </div>
+      )}
+
+      {mode === GeneratorMode.RawKey && (
+        supportsRawKey ? (
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Format</label>
+              <select
+                value={rawKeyFormat}
+                onChange={(e) => setRawKeyFormat(e.target.value as KeyFormat)}
+                className="rounded-md bg-gray-700 border-gray-600 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value={KeyFormat.Hex}>Hex</option>
+                <option value={KeyFormat.Base64}>Base64</option>
+                <option value={KeyFormat.JWK}>JSON Web Key</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500">
+              {recommendKeySize(algorithm)} random bytes, the recommended {algorithm} key size. Raw keys skip the KDF.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-400">
+            {algorithm} only takes a passphrase; raw keys work with {RAW_KEY_ALGORITHMS.join(', ')}.
+          </p>
+        )
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-900 bg-opacity-40 text-red-200 rounded-md text-xs">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={mode === GeneratorMode.RawKey && !supportsRawKey}
+          className={`
+            flex items-center px-3 py-1.5 rounded-md text-sm font-medium
+            ${mode === GeneratorMode.RawKey && !supportsRawKey
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          <LuDices className="mr-2 h-4 w-4" />
+          Generate
+        </button>
+        <span className="text-xs text-gray-400">{entropy.toFixed(1)} bits of entropy</span>
+      </div>
+
+      {generated && (
+        <div className="flex items-start gap-2">
+          <div className="flex-1 p-2 rounded bg-gray-900 font-mono text-xs text-gray-200 break-all">
+            {generated.value}
+          </div>
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center text-xs text-gray-400 hover:text-white"
+          >
+            <LuCopy className="mr-1 h-3 w-3" />
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  PAD_FILE_EXTENSION,
+  generatePad,
+  getMessageLength,
+  parsePad,
+  formatPad,
+  downloadPadFile
+} from '@/lib/crypto/one-time-pad';
+import { LuKey, LuRefreshCw, LuDownload, LuUpload } from 'react-icons/lu';
+
+interface OneTimePadFieldsProps {
+  mode: 'encrypt' | 'decrypt';
+  message: string;
+  pad: string; // Base64
+  onPadChange: (pad: string) => void;
+}
+
+export function OneTimePadFields({ mode, message, pad, onPadChange }: OneTimePadFieldsProps) {
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  // Pad bytes, or why the key field does not hold a pad
+  let padBytes: Uint8Array<ArrayBuffer> | null = null;
+  let padError: string | null = null;
+  if (pad) {
+    try {
+      padBytes = parsePad(pad);
+    } catch (err) {
+      padError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  const messageLength = getMessageLength(message);
+  const isPadTooShort = mode === 'encrypt' && padBytes !== null && padBytes.length < messageLength;
+
+  const handleGenerate = () => {
+    setFileError(null);
+    onPadChange(formatPad(generatePad(messageLength)));
+  };
+
+  const handleDownload = () => {
+    if (!padBytes) return;
+
+    try {
+      setFileError(null);
+      downloadPadFile(padBytes);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    if (file.size === 0) {
+      setFileError(`${file.name} is empty`);
+      return;
+    }
+    onPadChange(formatPad(new Uint8Array(await file.arrayBuffer())));
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-medium text-gray-300 mb-1">
+        <LuKey className="mr-1 h-4 w-4 text-gray-400" />
+        One-Time Pad (Base64)
+      </label>
+      <textarea
+        value={pad}
+        onChange={(e) => onPadChange(e.target.value)}
+        placeholder={mode === 'encrypt'
+          ? 'Generate a pad as long as the message, or load a pad file'
+          : 'Paste or load the pad the message was encrypted with'
+        }
+        rows={3}
+        className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-xs focus:border-blue-500 focus:ring-blue-500"
+      />
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        {mode === 'encrypt' && (
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={!message}
+            className={`
+              flex items-center px-3 py-1.5 rounded-md text-sm font-medium
+              ${message
+                ? 'bg-blue-600 text-white hover:bg-blue-700'
+                : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              }
+            `}
+          >
+            <LuRefreshCw className="mr-2 h-4 w-4" />
+            Generate Pad
+          </button>
+        )}
+        <label className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-gray-700 text-gray-200 hover:bg-gray-600 cursor-pointer">
+          <LuUpload className="mr-2 h-4 w-4" />
+          Load Pad File
+          <input type="file" onChange={handleLoad} className="hidden" />
+        </label>
+        {padBytes && (
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-gray-700 text-gray-200 hover:bg-gray-600"
+          >
+            <LuDownload className="mr-2 h-4 w-4" />
+            Save as {PAD_FILE_EXTENSION}
+          </button>
+        )}
+      </div>
+
+      {padBytes && (
+        <p className="mt-2 text-xs text-gray-400">
+          Pad: {padBytes.length} bytes
+          {mode === 'encrypt' && <> &middot; Message: {messageLength} bytes (UTF-8)</>}
+        </p>
+      )}
+      {isPadTooShort && (
+        <div className="mt-2 p-2 bg-red-900 bg-opacity-60 border border-red-500 rounded-md text-sm text-red-200">
+          The pad is {messageLength - padBytes!.length} bytes shorter than the message and will be refused.
+          Repeating a pad makes it a repeating-key XOR that is easy to break.
+        </div>
+      )}
+      {(padError || fileError) && (
+        <p className="mt-2 text-sm text-red-400">{padError || fileError}</p>
+      )}
+      {mode === 'encrypt' && (
+        <p className="mt-1 text-xs text-yellow-400">
+          Save the pad: it is the only key, and it must never encrypt another message.
+        </p>
+      )}
+    </div>
+  );
+}
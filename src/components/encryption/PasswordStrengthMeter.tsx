@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { EncryptionAlgorithm, EncryptionParams, KeyDerivation } from '@/lib/crypto/encryption-service';
+import { getCipherProvider } from '@/lib/crypto/cipher-registry';
+import { KDF_DEFAULTS, KdfParams, KeyDerivationFunction, getKdfParams } from '@/lib/crypto/kdf';
+import {
+  ATTACKER_MODELS,
+  AttackerModel,
+  estimateCrackTime,
+  estimatePasswordStrength
+} from '@/lib/crypto/password-strength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  algorithm: EncryptionAlgorithm;
+  params: EncryptionParams;
+}
+
+// Only ciphers keyed through the chosen KDF stretch passphrases, the others hash them once
+function getPassphraseKdf(algorithm: EncryptionAlgorithm, params: EncryptionParams): KdfParams | null {
+  if (getCipherProvider(algorithm).capabilities.keyDerivation !== KeyDerivation.Kdf) return null;
+  try {
+    return getKdfParams(params);
+  } catch {
+    // Half-typed parameters, estimate with the defaults
+    return KDF_DEFAULTS[(params.kdf as KeyDerivationFunction) || KeyDerivationFunction.PBKDF2] ?? null;
+  }
+}
+
+const getStrengthColor = (score: number): string => {
+  if (score >= 80) return 'bg-green-500';
+  if (score >= 60) return 'bg-yellow-500';
+  if (score >= 40) return 'bg-orange-500';
+  return 'bg-red-500';
+};
+
+/**
+ * Strength bar for a passphrase: entropy from the patterns it contains,
+ * time to crack it for a chosen attacker through the KDF in use, and feedback
+ */
+export function PasswordStrengthMeter({ password, algorithm, params }: PasswordStrengthMeterProps) {
+  const [attacker, setAttacker] = useState<AttackerModel>(AttackerModel.OfflineGpu);
+  const strength = useMemo(() => estimatePasswordStrength(password), [password]);
+  const kdfParams = getPassphraseKdf(algorithm, params);
+  const crackTime = estimateCrackTime(strength.guesses, attacker, kdfParams);
+  const { warning, suggestions } = strength.feedback;
+
+  return (
+    <div className="mt-2">
+      <div className="w-full bg-gray-700 rounded-full h-1.5 mt-1">
+        <div
+          className={`${getStrengthColor(strength.score)} h-1.5 rounded-full`}
+          style={{ width: `${strength.score}%` }}
+        ></div>
+      </div>
+      <div className="flex justify-between mt-1">
+        <span className="text-xs text-gray-400">
+          Key Strength: {strength.label}
+        </span>
+        <span className="text-xs text-gray-400">
+          {Math.round(strength.entropy)} bits
+        </span>
+      </div>
+
+      <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-400">
+        <span>Cracked in {crackTime.display} by</span>
+        <select
+          value={attacker}
+          onChange={(e) => setAttacker(e.target.value as AttackerModel)}
+          className="rounded-md bg-gray-800 border-gray-700 text-white text-xs py-0.5 focus:border-blue-500 focus:ring-blue-500"
+        >
+          {Object.values(AttackerModel).map(model => (
+            <option key={model} value={model}>{ATTACKER_MODELS[model].label}</option>
+          ))}
+        </select>
+        {!ATTACKER_MODELS[attacker].online && (
+          <span>
+            {kdfParams
+              ? `through ${kdfParams.kdf} (${Math.round(crackTime.guessesPerSecond).toLocaleString()} guesses/s)`
+              : `with no key stretching (${crackTime.guessesPerSecond.toExponential(0)} guesses/s)`}
+          </span>
+        )}
+      </div>
+
+      {(warning || suggestions.length > 0) && (
+        <div className="mt-1 text-xs">
+          {warning && <p className="text-yellow-400">{warning}</p>}
+          {suggestions.map(suggestion => (
+            <p key={suggestion} className="text-gray-400">{suggestion}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
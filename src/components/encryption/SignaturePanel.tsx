@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useSignature } from '@/hooks/useSignature';
+import { SignatureKeyFields } from './SignatureKeyFields';
+import { VerificationStatus } from './VerificationStatus';
+import { LuCopy, LuSignature, LuShieldCheck } from 'react-icons/lu';
+
+interface SignaturePanelProps {
+  mode: 'sign' | 'verify';
+}
+
+export function SignaturePanel({ mode }: SignaturePanelProps) {
+  const [message, setMessage] = useState<string>('');
+  const [signatureInput, setSignatureInput] = useState<string>('');
+  const [copied, setCopied] = useState(false);
+
+  const {
+    signatureAlgorithm,
+    setSignatureAlgorithm,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isGeneratingKeys,
+    generateKeyPair,
+    signature,
+    verification,
+    isSigning,
+    isVerifying,
+    error,
+    sign,
+    verify
+  } = useSignature();
+
+  const isBusy = isSigning || isVerifying;
+  const canSubmit = mode === 'sign'
+    ? Boolean(message && privateKey)
+    : Boolean(message && signatureInput && publicKey);
+
+  // Function to handle copy to clipboard
+  const handleCopy = async () => {
+    if (signature) {
+      await navigator.clipboard.writeText(signature);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            {mode === 'sign' ? 'Text to Sign' : 'Signed Text'}
+          </label>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={mode === 'sign'
+              ? 'Enter text to sign...'
+              : 'Enter the exact text that was signed...'
+            }
+            rows={6}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+
+        {mode === 'verify' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Signature
+            </label>
+            <textarea
+              value={signatureInput}
+              onChange={(e) => setSignatureInput(e.target.value)}
+              placeholder="Paste the Base64 signature..."
+              rows={3}
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-xs focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        <SignatureKeyFields
+          mode={mode}
+          algorithm={signatureAlgorithm}
+          onAlgorithmChange={setSignatureAlgorithm}
+          publicKey={publicKey}
+          privateKey={privateKey}
+          onPublicKeyChange={setPublicKey}
+          onPrivateKeyChange={setPrivateKey}
+          onGenerate={generateKeyPair}
+          isGenerating={isGeneratingKeys}
+        />
+
+        <button
+          type="button"
+          onClick={() => mode === 'sign' ? sign(message) : verify(message, signatureInput)}
+          disabled={!canSubmit || isBusy}
+          className={`
+            w-full flex items-center justify-center px-4 py-3 rounded-md font-medium
+            ${!canSubmit || isBusy
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          {mode === 'sign' ? (
+            <>
+              <LuSignature className="mr-2 h-5 w-5" />
+              {isSigning ? 'Signing...' : 'Sign'}
+            </>
+          ) : (
+            <>
+              <LuShieldCheck className="mr-2 h-5 w-5" />
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </>
+          )}
+        </button>
+      </div>
+
+      <div>
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-white">
+              {mode === 'sign' ? 'Signature' : 'Verification Result'}
+            </h3>
+
+            {mode === 'sign' && signature && (
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="flex items-center text-gray-300 hover:text-white text-sm"
+              >
+                <LuCopy className="mr-1 h-4 w-4" />
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            )}
+          </div>
+
+          {mode === 'sign' ? (
+            <div
+              className={`
+                min-h-[150px] p-3 rounded-md font-mono text-sm whitespace-pre-wrap break-all
+                ${signature ? 'bg-gray-700' : 'bg-gray-700 bg-opacity-50'}
+              `}
+            >
+              {signature || (
+                <span className="text-gray-500">Signature will appear here</span>
+              )}
+            </div>
+          ) : verification ? (
+            <VerificationStatus verification={verification} />
+          ) : (
+            <div className="min-h-[150px] flex items-center justify-center">
+              <p className="text-gray-500">
+                Provide the text, signature and signer&apos;s public key to verify
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React from 'react';
+import { VerificationResult } from '@/lib/crypto/signature-crypto';
+import { LuCircleCheck, LuCircleX, LuKeyRound } from 'react-icons/lu';
+
+interface VerificationStatusProps {
+  verification: VerificationResult;
+  signerKnown?: boolean;
+}
+
+export function VerificationStatus({ verification, signerKnown = true }: VerificationStatusProps) {
+  const { status, algorithm, signerFingerprint, keyFingerprint } = verification;
+
+  if (status === 'wrong-key') {
+    return (
+      <div className="p-3 bg-yellow-900 bg-opacity-20 border border-yellow-800 rounded-md">
+        <p className="flex items-center text-yellow-400 font-medium">
+          <LuKeyRound className="mr-2 h-5 w-5" />
+          Wrong key: signed by a different key
+        </p>
+        <p className="text-sm text-gray-300 mt-1">
+          <span className="font-medium">Signed by:</span> <span className="font-mono">{signerFingerprint}</span>
+        </p>
+        <p className="text-sm text-gray-300">
+          <span className="font-medium">Checked with:</span> <span className="font-mono">{keyFingerprint}</span>
+        </p>
+      </div>
+    );
+  }
+
+  if (status === 'invalid') {
+    return (
+      <div className="p-3 bg-red-900 bg-opacity-20 border border-red-800 rounded-md">
+        <p className="flex items-center text-red-400 font-medium">
+          <LuCircleX className="mr-2 h-5 w-5" />
+          Invalid signature: the data or signature was modified
+        </p>
+        <p className="text-sm text-gray-300 mt-1">
+          <span className="font-medium">Algorithm:</span> {algorithm}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-green-900 bg-opacity-20 border border-green-800 rounded-md">
+      <p className="flex items-center text-green-400 font-medium">
+        <LuCircleCheck className="mr-2 h-5 w-5" />
+        Valid signature
+      </p>
+      <p className="text-sm text-gray-300 mt-1">
+        <span className="font-medium">Algorithm:</span> {algorithm}
+      </p>
+      <p className="text-sm text-gray-300">
+        <span className="font-medium">Signer fingerprint:</span> <span className="font-mono">{signerFingerprint}</span>
+      </p>
+      {!signerKnown && (
+        <p className="text-xs text-yellow-400 mt-1">
+          Checked with the key embedded in the message. Add the sender&apos;s public key to confirm who signed it.
+        </p>
+      )}
+    </div>
+  );
+}
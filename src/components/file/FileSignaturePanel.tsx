@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { useSignature } from '@/hooks/useSignature';
+import { downloadSignatureFile } from '@/lib/crypto/browser-file-crypto';
+import { SignatureKeyFields } from '@/components/encryption/SignatureKeyFields';
+import { VerificationStatus } from '@/components/encryption/VerificationStatus';
+import { LuFile, LuFileInput, LuDownload, LuSignature, LuShieldCheck } from 'react-icons/lu';
+
+interface FileSignaturePanelProps {
+  mode: 'sign' | 'verify';
+}
+
+export function FileSignaturePanel({ mode }: FileSignaturePanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [signatureInput, setSignatureInput] = useState<string>('');
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const {
+    signatureAlgorithm,
+    setSignatureAlgorithm,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isGeneratingKeys,
+    generateKeyPair,
+    signature,
+    verification,
+    isSigning,
+    isVerifying,
+    error,
+    sign,
+    verify,
+    reset
+  } = useSignature();
+
+  // Dropzone for the file being signed or verified
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setFile(acceptedFiles[0]);
+        reset();
+      }
+    },
+    multiple: false
+  });
+
+  // Dropzone for a .sig file (verify mode)
+  const signatureDropzone = useDropzone({
+    onDrop: async (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setSignatureInput((await acceptedFiles[0].text()).trim());
+      }
+    },
+    multiple: false
+  });
+
+  const isBusy = isSigning || isVerifying;
+  const canSubmit = mode === 'sign'
+    ? Boolean(file && privateKey)
+    : Boolean(file && signatureInput && publicKey);
+
+  const handleSubmit = async () => {
+    if (!file) return;
+
+    const data = await file.arrayBuffer();
+    if (mode === 'sign') {
+      await sign(data);
+    } else {
+      await verify(data, signatureInput);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file || !signature) return;
+
+    try {
+      setDownloadError(null);
+      downloadSignatureFile(signature, file.name);
+    } catch (err) {
+      setDownloadError(`Download failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        {(error || downloadError) && (
+          <div className="p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+            {error || downloadError}
+          </div>
+        )}
+
+        {/* File to sign or verify */}
+        <div
+          {...getRootProps()}
+          className={`
+            border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition
+            ${isDragActive
+              ? 'border-blue-500 bg-blue-900 bg-opacity-20'
+              : 'border-gray-600 hover:border-gray-500'}
+            ${file ? 'bg-green-900 bg-opacity-10 border-green-700' : ''}
+          `}
+        >
+          <input {...getInputProps()} />
+
+          {file ? (
+            <div className="space-y-2">
+              <LuFile className="mx-auto h-12 w-12 text-green-500" />
+              <p className="text-white font-medium">{file.name}</p>
+              <p className="text-gray-400 text-sm">
+                {(file.size / 1024).toFixed(2)} KB
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <LuFileInput className="mx-auto h-12 w-12 text-gray-400" />
+              <p className="text-gray-300">
+                {mode === 'sign'
+                  ? 'Drop the file to sign, or click to select'
+                  : 'Drop the signed file, or click to select'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Detached signature (verify mode) */}
+        {mode === 'verify' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Signature
+            </label>
+            <textarea
+              value={signatureInput}
+              onChange={(e) => setSignatureInput(e.target.value)}
+              placeholder="Paste the Base64 signature..."
+              rows={3}
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-xs focus:border-blue-500 focus:ring-blue-500"
+            />
+            <div
+              {...signatureDropzone.getRootProps()}
+              className="mt-2 border-2 border-dashed border-gray-600 rounded-lg p-4 text-center cursor-pointer hover:border-gray-500"
+            >
+              <input {...signatureDropzone.getInputProps()} />
+              <p className="text-gray-300 text-sm">
+                Or drop the .sig file here
+              </p>
+            </div>
+          </div>
+        )}
+
+        <SignatureKeyFields
+          mode={mode}
+          algorithm={signatureAlgorithm}
+          onAlgorithmChange={setSignatureAlgorithm}
+          publicKey={publicKey}
+          privateKey={privateKey}
+          onPublicKeyChange={setPublicKey}
+          onPrivateKeyChange={setPrivateKey}
+          onGenerate={generateKeyPair}
+          isGenerating={isGeneratingKeys}
+        />
+
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit || isBusy}
+          className={`
+            w-full flex items-center justify-center px-4 py-3 rounded-md font-medium
+            ${!canSubmit || isBusy
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          {mode === 'sign' ? (
+            <>
+              <LuSignature className="mr-2 h-5 w-5" />
+              {isSigning ? 'Signing...' : 'Sign File'}
+            </>
+          ) : (
+            <>
+              <LuShieldCheck className="mr-2 h-5 w-5" />
+              {isVerifying ? 'Verifying...' : 'Verify File'}
+            </>
+          )}
+        </button>
+      </div>
+
+      <div>
+        <div className="bg-gray-800 rounded-lg p-4 h-full">
+          <h3 className="text-lg font-medium text-white mb-4">
+            {mode === 'sign' ? 'Detached Signature' : 'Verification Result'}
+          </h3>
+
+          {mode === 'sign' && signature && (
+            <div className="space-y-4">
+              <div className="p-3 bg-gray-700 rounded-md font-mono text-xs break-all">
+                {signature}
+              </div>
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="w-full flex items-center justify-center px-4 py-2 rounded-md bg-green-700 text-white hover:bg-green-800"
+              >
+                <LuDownload className="mr-2 h-5 w-5" />
+                Download Signature (.sig)
+              </button>
+            </div>
+          )}
+
+          {mode === 'verify' && verification && (
+            <VerificationStatus verification={verification} />
+          )}
+
+          {/* Empty state */}
+          {!signature && !verification && (
+            <div className="h-64 flex items-center justify-center">
+              <p className="text-gray-500">
+                {mode === 'sign'
+                  ? 'Select a file and a signing key to create a detached signature'
+                  : 'Select the file, its signature and the signer\'s public key'
+                }
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import {
+  HashAlgorithm,
+  HashDigest,
+  HashProgress,
+  hashFile,
+  hashText,
+  parseChecksum,
+  verifyChecksum
+} from '@/lib/crypto/hash-service';
+import { hashStats } from '@/lib/base-data';
+import { LuCopy, LuFile, LuFileInput, LuHash, LuShieldAlert, LuShieldCheck } from 'react-icons/lu';
+
+type InputMode = 'text' | 'file';
+type DigestFormat = 'hex' | 'base64';
+
+const INPUT_MODES: { value: InputMode; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'file', label: 'File' }
+];
+
+const ALL_ALGORITHMS = Object.values(HashAlgorithm);
+const DEFAULT_ALGORITHMS = [HashAlgorithm.MD5, HashAlgorithm.SHA1, HashAlgorithm.SHA256, HashAlgorithm.SHA512, HashAlgorithm.BLAKE3];
+
+const isBroken = (algorithm: HashAlgorithm) => hashStats.find(stat => stat.algorithm === algorithm)?.broken ?? false;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(2)} KB`;
+
+export function HashToolkit() {
+  const [inputMode, setInputMode] = useState<InputMode>('text');
+  const [algorithms, setAlgorithms] = useState<HashAlgorithm[]>(DEFAULT_ALGORITHMS);
+  const [format, setFormat] = useState<DigestFormat>('hex');
+  const [text, setText] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileDigests, setFileDigests] = useState<HashDigest[]>([]);
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+  const [isHashing, setIsHashing] = useState<boolean>(false);
+  const [expected, setExpected] = useState<string>('');
+  const [copied, setCopied] = useState<HashAlgorithm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Text is hashed as it is typed, files only on request
+  const textDigests = useMemo(() => hashText(text, algorithms), [text, algorithms]);
+  const digests = inputMode === 'text' ? textDigests : fileDigests;
+
+  const expectedBytes = expected.trim() ? parseChecksum(expected) : null;
+  const match = expected.trim() ? verifyChecksum(expected, digests) : null;
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setFile(acceptedFiles[0]);
+        setFileDigests([]);
+        setProgress(null);
+      }
+    },
+    multiple: false,
+    disabled: isHashing
+  });
+
+  const toggleAlgorithm = (algorithm: HashAlgorithm) => {
+    setAlgorithms(current => current.includes(algorithm)
+      ? current.filter(a => a !== algorithm)
+      : ALL_ALGORITHMS.filter(a => a === algorithm || current.includes(a)));
+    setFileDigests([]);
+  };
+
+  const handleHashFile = async () => {
+    if (!file) return;
+    setError(null);
+    setFileDigests([]);
+    setIsHashing(true);
+    try {
+      setFileDigests(await hashFile(file, algorithms, setProgress));
+    } catch (err) {
+      setError(`Hashing failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  const handleCopy = async (digest: HashDigest) => {
+    try {
+      await navigator.clipboard.writeText(digest[format]);
+      setCopied(digest.algorithm);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const throughput = progress && progress.elapsedMs > 0
+    ? progress.bytesHashed / (progress.elapsedMs / 1000)
+    : 0;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">Hashing</h2>
+
+        <div className="flex bg-gray-800 rounded-lg overflow-hidden">
+          {INPUT_MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => { setInputMode(value); setError(null); }}
+              disabled={isHashing}
+              className={`px-4 py-2 text-sm font-medium ${
+                inputMode === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {ALL_ALGORITHMS.map(algorithm => (
+          <label key={algorithm} className="flex items-center text-sm text-gray-300 mr-2">
+            <input
+              type="checkbox"
+              checked={algorithms.includes(algorithm)}
+              onChange={() => toggleAlgorithm(algorithm)}
+              disabled={isHashing}
+              className="mr-1 rounded"
+            />
+            {algorithm}
+          </label>
+        ))}
+      </div>
+
+      {inputMode === 'text' ? (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Text</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={4}
+            placeholder="Type or paste text to hash"
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">Hashed as UTF-8, updated as you type.</p>
+        </div>
+      ) : (
+        <div className="mb-6 space-y-4">
+          <div
+            {...getRootProps()}
+            className={`
+              border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition
+              ${isDragActive
+                ? 'border-blue-500 bg-blue-900 bg-opacity-20'
+                : 'border-gray-600 hover:border-gray-500'}
+              ${file ? 'bg-green-900 bg-opacity-10 border-green-700' : ''}
+            `}
+          >
+            <input {...getInputProps()} />
+            {file ? (
+              <div className="space-y-2">
+                <LuFile className="mx-auto h-12 w-12 text-green-500" />
+                <p className="text-white font-medium">{file.name}</p>
+                <p className="text-gray-400 text-sm">{formatBytes(file.size)}</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <LuFileInput className="mx-auto h-12 w-12 text-gray-400" />
+                <p className="text-gray-300">
+                  {isDragActive
+                    ? "Drop the file here"
+                    : "Drag and drop a file, or click to select"}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleHashFile}
+            disabled={!file || isHashing || algorithms.length === 0}
+            className={`
+              flex items-center px-4 py-2 rounded-md text-sm font-medium
+              ${!file || isHashing || algorithms.length === 0
+                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+              }
+            `}
+          >
+            <LuHash className="mr-2 h-4 w-4" />
+            {isHashing ? 'Hashing...' : 'Hash File'}
+          </button>
+
+          {/* Progress bar */}
+          {progress && (
+            <div>
+              <div className="w-full bg-gray-700 rounded-full h-2.5">
+                <div
+                  className="bg-blue-600 h-2.5 rounded-full"
+                  style={{ width: `${progress.percent}%` }}
+                ></div>
+              </div>
+              <p className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>
+                  {formatBytes(progress.bytesHashed)} of {formatBytes(progress.totalBytes)}
+                  {throughput > 0 && ` at ${formatBytes(throughput)}/s`}
+                </span>
+                <span>{progress.percent}%</span>
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Expected checksum */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-1">Verify against expected checksum</label>
+        <input
+          type="text"
+          value={expected}
+          onChange={(e) => setExpected(e.target.value)}
+          placeholder="Paste a hex or Base64 checksum, or a sha256sum line"
+          className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+        {expected.trim() && digests.length > 0 && (
+          match ? (
+            <div className={`mt-2 p-3 rounded-md flex items-center ${
+              isBroken(match.algorithm) ? 'bg-yellow-900 bg-opacity-40 text-yellow-200' : 'bg-green-900 bg-opacity-40 text-green-200'
+            }`}>
+              <LuShieldCheck className="mr-2 h-5 w-5 flex-shrink-0" />
+              Matches the {match.algorithm} digest.
+              {isBroken(match.algorithm) && ` ${match.algorithm} collisions can be made on purpose, so this only rules out accidental corruption.`}
+            </div>
+          ) : (
+            <div className="mt-2 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md flex items-center">
+              <LuShieldAlert className="mr-2 h-5 w-5 flex-shrink-0" />
+              {expectedBytes
+                ? `No selected digest matches this ${expectedBytes.length * 8}-bit checksum.`
+                : 'This is not a hex or Base64 checksum.'}
+            </div>
+          )
+        )}
+      </div>
+
+      {/* Digests */}
+      {digests.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-medium text-white">Digests</h3>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DigestFormat)}
+              className="rounded-md bg-gray-900 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="hex">Hex</option>
+              <option value="base64">Base64</option>
+            </select>
+          </div>
+          <div className="space-y-3">
+            {digests.map(digest => (
+              <div key={digest.algorithm}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="flex items-center font-medium text-gray-300">
+                    {digest.algorithm}
+                    <span className="ml-2 text-xs text-gray-500">{digest.digest.length * 8} bits</span>
+                    {isBroken(digest.algorithm) && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-900 text-red-300">Collisions known</span>
+                    )}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(digest)}
+                    className="flex items-center text-xs text-gray-400 hover:text-white"
+                  >
+                    <LuCopy className="mr-1 h-3 w-3" />
+                    {copied === digest.algorithm ? 'Copied!' : 'Copy'}
+                  </button>
+                </div>
+                <div className={`p-2 rounded font-mono text-xs break-all ${
+                  match?.algorithm === digest.algorithm ? 'bg-green-900 bg-opacity-40 text-green-200' : 'bg-gray-900 text-gray-200'
+                }`}>
+                  {digest[format]}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
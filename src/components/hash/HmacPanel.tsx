@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  HMAC_ALGORITHMS,
+  HmacAlgorithm,
+  SignatureStatus,
+  SignatureStyle,
+  SignatureVerification,
+  computeHmac,
+  decodeHmacKey,
+  getSignaturePrefix,
+  verifySignature
+} from '@/lib/crypto/hmac';
+import { KeyFormat } from '@/lib/crypto/key-import';
+import { arrayBufferToBase64, arrayBufferToHex } from '@/lib/crypto/encoding';
+import { LuCopy, LuShieldAlert, LuShieldCheck } from 'react-icons/lu';
+
+type HmacMode = 'generate' | 'verify';
+
+const MODES: { value: HmacMode; label: string }[] = [
+  { value: 'generate', label: 'Generate' },
+  { value: 'verify', label: 'Verify' }
+];
+
+const STYLE_NAMES: Record<SignatureStyle, string> = {
+  [SignatureStyle.Plain]: 'Bare tag',
+  [SignatureStyle.GitHub]: 'GitHub-style sha256= header',
+  [SignatureStyle.Stripe]: 'Stripe-Signature header'
+};
+
+const STATUS_MESSAGES: Record<SignatureStatus, string> = {
+  valid: 'Signature is valid',
+  mismatch: 'Signature does not match',
+  stale: 'Signature matches but its timestamp is out of tolerance'
+};
+
+export function HmacPanel() {
+  const [mode, setMode] = useState<HmacMode>('generate');
+  const [algorithm, setAlgorithm] = useState<HmacAlgorithm>(HMAC_ALGORITHMS[0]);
+  const [key, setKey] = useState<string>('');
+  const [keyFormat, setKeyFormat] = useState<KeyFormat>(KeyFormat.Passphrase);
+  const [message, setMessage] = useState<string>('');
+  const [signature, setSignature] = useState<string>('');
+  const [verification, setVerification] = useState<SignatureVerification | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tags are cheap, so generate mode recomputes them as you type
+  let tag: Uint8Array | null = null;
+  let keyError: string | null = null;
+  if (mode === 'generate' && key) {
+    try {
+      tag = computeHmac(algorithm, decodeHmacKey(key, keyFormat), message);
+    } catch (err) {
+      keyError = `Invalid key: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  const outputs = tag ? [
+    { label: 'Hex', value: arrayBufferToHex(tag) },
+    { label: 'Base64', value: arrayBufferToBase64(tag) },
+    { label: 'Header value', value: `${getSignaturePrefix(algorithm)}=${arrayBufferToHex(tag)}` }
+  ] : [];
+
+  const handleVerify = () => {
+    setError(null);
+    setVerification(null);
+    try {
+      setVerification(verifySignature({ body: message, key, keyFormat, signature, algorithm }));
+    } catch (err) {
+      setError(`Verification failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleCopy = async (label: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(label);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const resetResult = () => {
+    setVerification(null);
+    setError(null);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-2xl font-bold text-white">HMAC</h2>
+
+        <div className="flex bg-gray-800 rounded-lg overflow-hidden">
+          {MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => { setMode(value); resetResult(); }}
+              className={`px-4 py-2 text-sm font-medium ${
+                mode === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        A keyed hash that proves a message came from someone holding the secret. Webhook
+        senders such as GitHub and Stripe sign each request body this way; paste the raw
+        body, the secret and the signature header to check one.
+      </p>
+
+      {(error || keyError) && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error || keyError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => { setAlgorithm(e.target.value as HmacAlgorithm); resetResult(); }}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white focus:border-blue-500 focus:ring-blue-500"
+          >
+            {HMAC_ALGORITHMS.map(a => (
+              <option key={a} value={a}>HMAC-{a}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Secret</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={key}
+              onChange={(e) => { setKey(e.target.value); resetResult(); }}
+              placeholder={keyFormat === KeyFormat.Passphrase ? 'e.g. whsec_...' : 'Raw key bytes'}
+              className="flex-1 rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <select
+              value={keyFormat}
+              onChange={(e) => { setKeyFormat(e.target.value as KeyFormat); resetResult(); }}
+              className="rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value={KeyFormat.Passphrase}>Text</option>
+              <option value={KeyFormat.Hex}>Raw key (hex)</option>
+              <option value={KeyFormat.Base64}>Raw key (Base64)</option>
+              <option value={KeyFormat.JWK}>JSON Web Key</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          {mode === 'generate' ? 'Message' : 'Raw request body'}
+        </label>
+        <textarea
+          value={message}
+          onChange={(e) => { setMessage(e.target.value); resetResult(); }}
+          rows={5}
+          placeholder={mode === 'verify' ? 'Paste the body exactly as received, before any JSON parsing' : ''}
+          className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+      </div>
+
+      {mode === 'generate' ? (
+        outputs.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+            {outputs.map(({ label, value }) => (
+              <div key={label}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-300">{label}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(label, value)}
+                    className="flex items-center text-xs text-gray-400 hover:text-white"
+                  >
+                    <LuCopy className="mr-1 h-3 w-3" />
+                    {copied === label ? 'Copied!' : 'Copy'}
+                  </button>
+                </div>
+                <div className="p-2 rounded bg-gray-900 font-mono text-xs text-gray-200 break-all">{value}</div>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-300 mb-1">Signature</label>
+            <input
+              type="text"
+              value={signature}
+              onChange={(e) => { setSignature(e.target.value); resetResult(); }}
+              placeholder="sha256=..., t=...,v1=... or a bare hex or Base64 tag"
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={handleVerify}
+            disabled={!key || !signature}
+            className={`
+              flex items-center px-4 py-2 rounded-md text-sm font-medium mb-4
+              ${!key || !signature
+                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+              }
+            `}
+          >
+            <LuShieldCheck className="mr-2 h-4 w-4" />
+            Verify Signature
+          </button>
+
+          {verification && (
+            <div className={`p-4 rounded-md ${verification.valid ? 'bg-green-900 bg-opacity-40 text-green-200' : 'bg-red-900 bg-opacity-40 text-red-200'}`}>
+              <div className="flex items-center font-medium mb-2">
+                {verification.valid
+                  ? <LuShieldCheck className="mr-2 h-5 w-5" />
+                  : <LuShieldAlert className="mr-2 h-5 w-5" />}
+                {STATUS_MESSAGES[verification.status]}
+                <span className="ml-2 text-xs font-normal opacity-75">
+                  {STYLE_NAMES[verification.style]}, HMAC-{verification.algorithm}
+                </span>
+              </div>
+              {verification.problems.length > 0 && (
+                <ul className="list-disc list-inside text-sm space-y-1 mb-2">
+                  {verification.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              <p className="text-xs opacity-75">Expected tag:</p>
+              <p className="font-mono text-xs break-all">{arrayBufferToHex(verification.expected)}</p>
+              {verification.style === SignatureStyle.Stripe && (
+                <p className="mt-2 text-xs opacity-75">
+                  Stripe signs the timestamp, a dot and the body: {verification.signedPayload.slice(0, 40)}
+                  {verification.signedPayload.length > 40 && '...'}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EncryptionMode } from '@/lib/crypto/encryption-service';
+import {
+  IMAGE_LAB_ALGORITHMS,
+  IMAGE_LAB_MODES,
+  ImageLabAlgorithm,
+  downloadCanvasPng,
+  encryptPixels,
+  fitImageSize,
+  generateImageKey,
+  isImageModeSupported
+} from '@/lib/crypto/image-encryption';
+import { LuDownload, LuLock, LuUpload } from 'react-icons/lu';
+
+// Encrypted pixels for one mode, or why the mode cannot be used
+interface ModeResult {
+  mode: EncryptionMode;
+  pixels?: ImageData;
+  note?: string;
+}
+
+const MODE_NOTES: Partial<Record<EncryptionMode, string>> = {
+  [EncryptionMode.ECB]: 'Equal plaintext blocks give equal ciphertext blocks, so the outline survives.',
+  [EncryptionMode.CBC]: 'Each block is mixed with the previous ciphertext block before encryption.',
+  [EncryptionMode.CTR]: 'A keystream from an encrypted counter is XORed with the pixels.',
+  [EncryptionMode.GCM]: 'Counter mode plus an authentication tag (dropped here, it is not pixels).'
+};
+
+// A flat-coloured penguin, the classic ECB demonstration picture
+function drawSampleImage(canvas: HTMLCanvasElement) {
+  canvas.width = 256;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  const ellipse = (x: number, y: number, rx: number, ry: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.ellipse(x, y, rx, ry, 0, 0, Math.PI * 2);
+    ctx.fill();
+  };
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, 256, 256);
+  ellipse(128, 150, 80, 95, '#111111'); // body
+  ellipse(128, 165, 55, 75, '#f5f5f5'); // belly
+  ellipse(128, 70, 50, 45, '#111111'); // head
+  ellipse(110, 65, 10, 12, '#ffffff');
+  ellipse(146, 65, 10, 12, '#ffffff');
+  ellipse(112, 67, 4, 5, '#111111');
+  ellipse(144, 67, 4, 5, '#111111');
+  ellipse(128, 88, 14, 7, '#f39c12'); // beak
+  ellipse(100, 240, 26, 10, '#f39c12'); // feet
+  ellipse(156, 240, 26, 10, '#f39c12');
+}
+
+// Canvas showing one ImageData, set up like EncryptionVisualizer's canvas
+const PixelCanvas = React.forwardRef<HTMLCanvasElement, { pixels: ImageData }>(function PixelCanvas({ pixels }, ref) {
+  const innerRef = useRef<HTMLCanvasElement>(null);
+  React.useImperativeHandle(ref, () => innerRef.current!);
+
+  useEffect(() => {
+    const canvas = innerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    ctx.putImageData(pixels, 0, 0);
+  }, [pixels]);
+
+  return <canvas ref={innerRef} className="w-full h-auto rounded-md bg-gray-900" style={{ imageRendering: 'pixelated' }} />;
+});
+
+export function ImageModeLab() {
+  const [algorithm, setAlgorithm] = useState<ImageLabAlgorithm>(IMAGE_LAB_ALGORITHMS[0]);
+  const [original, setOriginal] = useState<ImageData | null>(null);
+  const [imageName, setImageName] = useState<string>('penguin');
+  const [results, setResults] = useState<ModeResult[]>([]);
+  const [isEncrypting, setIsEncrypting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRefs = useRef<Partial<Record<EncryptionMode, HTMLCanvasElement | null>>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start with the sample so the lab works before anything is uploaded
+  useEffect(() => {
+    const canvas = document.createElement('canvas');
+    drawSampleImage(canvas);
+    setOriginal(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const { width, height } = fitImageSize(image.naturalWidth, image.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(image, 0, 0, width, height);
+      setOriginal(ctx.getImageData(0, 0, width, height));
+      setImageName(file.name.replace(/\.[^.]+$/, ''));
+      setResults([]);
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      setError(`Could not read ${file.name} as an image`);
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  };
+
+  const handleEncrypt = async () => {
+    if (!original) return;
+    setError(null);
+    setIsEncrypting(true);
+
+    try {
+      // One key for every mode so only the mode differs
+      const key = generateImageKey(algorithm);
+      const next: ModeResult[] = [];
+      for (const mode of IMAGE_LAB_MODES) {
+        if (!isImageModeSupported(algorithm, mode)) {
+          next.push({ mode, note: `${mode} is only defined for 128-bit block ciphers; ${algorithm} has 64-bit blocks.` });
+          continue;
+        }
+        const pixels = await encryptPixels(original.data, algorithm, mode, key);
+        next.push({ mode, pixels: new ImageData(pixels, original.width, original.height) });
+      }
+      setResults(next);
+    } catch (err) {
+      setError(`Encryption failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleDownload = (mode: EncryptionMode) => {
+    const canvas = canvasRefs.current[mode];
+    if (canvas) {
+      downloadCanvasPng(canvas, `${imageName}-${algorithm}-${mode}`.toLowerCase());
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-bold text-white mb-2">ECB Penguin</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Encrypt the pixels of an image with the same key in different modes of operation
+        and draw the ciphertext as pixels. Images with large flat areas show best why ECB
+        should never be used: identical blocks of pixels encrypt identically.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => { setAlgorithm(e.target.value as ImageLabAlgorithm); setResults([]); }}
+            className="rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {IMAGE_LAB_ALGORITHMS.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-700 text-white hover:bg-gray-600"
+        >
+          <LuUpload className="mr-2 h-4 w-4" />
+          Upload Image
+        </button>
+        <button
+          type="button"
+          onClick={handleEncrypt}
+          disabled={!original || isEncrypting}
+          className={`
+            flex items-center px-3 py-2 rounded-md text-sm font-medium
+            ${!original || isEncrypting
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          <LuLock className="mr-2 h-4 w-4" />
+          {isEncrypting ? 'Encrypting...' : 'Encrypt in Every Mode'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {original && (
+          <div className="bg-gray-800 rounded-lg p-3">
+            <h3 className="text-sm font-medium text-white mb-2">Original</h3>
+            <PixelCanvas pixels={original} />
+            <p className="mt-2 text-xs text-gray-400">{original.width} &times; {original.height} pixels</p>
+          </div>
+        )}
+        {results.map(({ mode, pixels, note }) => (
+          <div key={mode} className="bg-gray-800 rounded-lg p-3">
+            <h3 className="text-sm font-medium text-white mb-2">{algorithm}-{mode}</h3>
+            {pixels ? (
+              <>
+                <PixelCanvas pixels={pixels} ref={(canvas: HTMLCanvasElement | null) => { canvasRefs.current[mode] = canvas; }} />
+                <p className="mt-2 text-xs text-gray-400">{MODE_NOTES[mode]}</p>
+                <button
+                  type="button"
+                  onClick={() => handleDownload(mode)}
+                  className="mt-2 flex items-center text-gray-300 hover:text-white text-xs"
+                >
+                  <LuDownload className="mr-1 h-3 w-3" />
+                  Download PNG
+                </button>
+              </>
+            ) : (
+              <p className="text-sm text-yellow-400">{note}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import React, { useState } from 'react';
+import { EncryptionMode } from '@/lib/crypto/encryption-service';
+import {
+  TamperableBytes,
+  TamperedDecryption,
+  decryptTampered,
+  encryptForTampering,
+  generateTamperKey,
+  getTamperableBytes,
+  planBitFlip,
+  replaceTamperableBytes
+} from '@/lib/crypto/malleability';
+import { AES_BLOCK_SIZE } from '@/lib/crypto/aes-modes';
+import { bytesToDisplay } from '@/lib/crypto/crib-dragging';
+import { stringToArrayBuffer } from '@/lib/crypto/encoding';
+import { LuLock, LuShieldAlert, LuShieldCheck, LuLockOpen } from 'react-icons/lu';
+
+type TamperMode = EncryptionMode.CBC | EncryptionMode.CTR;
+
+const TAMPER_MODES: TamperMode[] = [EncryptionMode.CTR, EncryptionMode.CBC];
+const DEFAULT_MESSAGE = 'user=alice;email=alice@example.com;role=user;';
+
+const toHex = (byte: number) => byte.toString(16).padStart(2, '0');
+
+// One row of editable bytes, changed ones highlighted
+function HexRow({
+  label,
+  bytes,
+  original,
+  offset,
+  onChange
+}: {
+  label: string;
+  bytes: Uint8Array;
+  original: Uint8Array;
+  offset: number;
+  onChange: (index: number, value: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-12 text-xs text-gray-400 font-mono">{label}</span>
+      <div className="grid gap-1 flex-1" style={{ gridTemplateColumns: `repeat(${AES_BLOCK_SIZE}, minmax(0, 1fr))` }}>
+        {Array.from(bytes.slice(offset, offset + AES_BLOCK_SIZE), (byte, i) => (
+          <input
+            key={i}
+            type="text"
+            defaultValue={toHex(byte)}
+            maxLength={2}
+            onBlur={(e) => {
+              const value = parseInt(e.target.value, 16);
+              if (/^[0-9a-fA-F]{1,2}$/.test(e.target.value)) {
+                onChange(offset + i, value);
+              } else {
+                e.target.value = toHex(byte);
+              }
+            }}
+            className={`
+              w-full px-0 py-1 text-center font-mono text-xs rounded border-0
+              ${byte !== original[offset + i] ? 'bg-red-700 text-white' : 'bg-gray-700 text-gray-200'}
+            `}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function MalleabilityLab() {
+  const [message, setMessage] = useState<string>(DEFAULT_MESSAGE);
+  const [mode, setMode] = useState<TamperMode>(EncryptionMode.CTR);
+  const [key, setKey] = useState<string>('');
+  const [envelope, setEnvelope] = useState<string | null>(null);
+  const [original, setOriginal] = useState<TamperableBytes | null>(null);
+  const [edited, setEdited] = useState<TamperableBytes | null>(null);
+  const [known, setKnown] = useState<string>('role=user;');
+  const [wanted, setWanted] = useState<string>('role=admin');
+  const [decryption, setDecryption] = useState<TamperedDecryption | null>(null);
+  const [gcmDecryption, setGcmDecryption] = useState<TamperedDecryption | null>(null);
+  const [editVersion, setEditVersion] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEncrypt = async () => {
+    setError(null);
+    setDecryption(null);
+    setGcmDecryption(null);
+    try {
+      const nextKey = generateTamperKey();
+      const nextEnvelope = await encryptForTampering(message, nextKey, mode);
+      const bytes = getTamperableBytes(nextEnvelope);
+      setKey(nextKey);
+      setEnvelope(nextEnvelope);
+      setOriginal(bytes);
+      setEdited({ iv: bytes.iv.slice(), ciphertext: bytes.ciphertext.slice() });
+      setEditVersion(v => v + 1);
+    } catch (err) {
+      setError(`Encryption failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleByteChange = (field: keyof TamperableBytes) => (index: number, value: number) => {
+    if (!edited) return;
+    const next = { iv: edited.iv.slice(), ciphertext: edited.ciphertext.slice() };
+    next[field][index] = value;
+    setEdited(next);
+  };
+
+  // The attacker knows the message format, so knows where the field is
+  const handlePlan = () => {
+    if (!original) return;
+    setError(null);
+    try {
+      const index = message.indexOf(known);
+      if (index < 0) {
+        throw new Error(`"${known}" does not appear in the message`);
+      }
+      // indexOf counts UTF-16 code units, the ciphertext is UTF-8 bytes
+      const offset = stringToArrayBuffer(message.slice(0, index)).length;
+      setEdited(planBitFlip(mode, original, offset, known, wanted));
+      setEditVersion(v => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleReset = () => {
+    if (!original) return;
+    setEdited({ iv: original.iv.slice(), ciphertext: original.ciphertext.slice() });
+    setEditVersion(v => v + 1);
+    setDecryption(null);
+    setGcmDecryption(null);
+  };
+
+  const handleDecrypt = async () => {
+    if (!envelope || !edited || !original) return;
+    setError(null);
+    try {
+      setDecryption(await decryptTampered(replaceTamperableBytes(envelope, edited), key));
+
+      // Flip the same ciphertext bits of the same message under AES-GCM
+      const gcmEnvelope = await encryptForTampering(message, key, EncryptionMode.GCM);
+      const gcmBytes = getTamperableBytes(gcmEnvelope);
+      const ciphertext = gcmBytes.ciphertext.map((byte, i) => byte ^ edited.ciphertext[i] ^ original.ciphertext[i]);
+      const iv = gcmBytes.iv.map((byte, i) => byte ^ edited.iv[i] ^ original.iv[i]);
+      setGcmDecryption(await decryptTampered(replaceTamperableBytes(gcmEnvelope, { iv, ciphertext }), key));
+    } catch (err) {
+      setError(`Decryption failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const changedBytes = edited && original
+    ? [...edited.iv, ...edited.ciphertext].filter((byte, i) => byte !== [...original.iv, ...original.ciphertext][i]).length
+    : 0;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-bold text-white mb-2">Bit Flipping</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Encryption without authentication hides a message but does not stop anyone from
+        changing it. Edit the ciphertext bytes, or let the lab compute the flips that turn
+        a known field into something else, and see what the receiver decrypts.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Message</label>
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => { setMessage(e.target.value); setEnvelope(null); }}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Mode of Operation</label>
+          <select
+            value={mode}
+            onChange={(e) => { setMode(e.target.value as TamperMode); setEnvelope(null); }}
+            className="w-full rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {TAMPER_MODES.map(value => (
+              <option key={value} value={value}>AES-{value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleEncrypt}
+        disabled={!message}
+        className={`
+          flex items-center px-4 py-2 rounded-md text-sm font-medium mb-6
+          ${!message
+            ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+            : 'bg-blue-600 text-white hover:bg-blue-700'
+          }
+        `}
+      >
+        <LuLock className="mr-2 h-4 w-4" />
+        Encrypt
+      </button>
+
+      {envelope && original && edited && (
+        <div className="space-y-6">
+          {/* Hex editor */}
+          <div className="bg-gray-800 rounded-lg p-4 space-y-2" key={editVersion}>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium text-white">Ciphertext</h3>
+              <span className="text-xs text-gray-400">{changedBytes} byte{changedBytes === 1 ? '' : 's'} changed</span>
+            </div>
+            <HexRow label="IV" bytes={edited.iv} original={original.iv} offset={0} onChange={handleByteChange('iv')} />
+            {Array.from({ length: Math.ceil(edited.ciphertext.length / AES_BLOCK_SIZE) }, (_, block) => (
+              <HexRow
+                key={block}
+                label={`C${block + 1}`}
+                bytes={edited.ciphertext}
+                original={original.ciphertext}
+                offset={block * AES_BLOCK_SIZE}
+                onChange={handleByteChange('ciphertext')}
+              />
+            ))}
+            <p className="text-xs text-gray-400 pt-1">
+              {mode === EncryptionMode.CTR
+                ? 'CTR: flipping a ciphertext bit flips the same bit of the plaintext, nothing else changes.'
+                : 'CBC: flipping a bit of one block garbles that block and flips the same bit of the next one. The IV steers the first block without any garbling.'}
+            </p>
+          </div>
+
+          {/* Targeted edit */}
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-medium text-white mb-2">Targeted Edit</h3>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Known text</label>
+                <input
+                  type="text"
+                  value={known}
+                  onChange={(e) => setKnown(e.target.value)}
+                  className="rounded-md bg-gray-900 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Replace with (same length)</label>
+                <input
+                  type="text"
+                  value={wanted}
+                  onChange={(e) => setWanted(e.target.value)}
+                  className="rounded-md bg-gray-900 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handlePlan}
+                className="px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Compute Bit Flips
+              </button>
+              <button
+                type="button"
+                onClick={handleReset}
+                className="px-3 py-2 rounded-md text-sm font-medium bg-gray-700 text-white hover:bg-gray-600"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleDecrypt}
+            className="flex items-center px-4 py-2 rounded-md text-sm font-medium bg-red-600 text-white hover:bg-red-700"
+          >
+            <LuLockOpen className="mr-2 h-4 w-4" />
+            Deliver and Decrypt
+          </button>
+
+          {decryption && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="p-4 bg-gray-800 rounded-lg space-y-2">
+                <h3 className="flex items-center text-sm font-medium text-red-300">
+                  <LuShieldAlert className="mr-2 h-4 w-4" />
+                  AES-{mode} (no authentication)
+                </h3>
+                {decryption.text !== undefined ? (
+                  <p className="font-mono text-sm text-white break-all">{decryption.text}</p>
+                ) : (
+                  <p className="text-sm text-yellow-400">{decryption.error}</p>
+                )}
+                {decryption.bytes && decryption.text === undefined && (
+                  <div>
+                    <p className="text-xs text-gray-400">
+                      The app refuses the result because part of it is no longer UTF-8, but the
+                      bytes are there, and a receiver that ignores the garbled field accepts it:
+                    </p>
+                    <p className="font-mono text-sm text-white break-all">{bytesToDisplay(decryption.bytes)}</p>
+                  </div>
+                )}
+              </div>
+              {gcmDecryption && (
+                <div className="p-4 bg-gray-800 rounded-lg space-y-2">
+                  <h3 className="flex items-center text-sm font-medium text-green-300">
+                    <LuShieldCheck className="mr-2 h-4 w-4" />
+                    Same edit under AES-GCM
+                  </h3>
+                  {gcmDecryption.text !== undefined ? (
+                    <p className="font-mono text-sm text-white break-all">{gcmDecryption.text}</p>
+                  ) : (
+                    <p className="text-sm text-red-300">{gcmDecryption.error}</p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    {changedBytes === 0
+                      ? 'Nothing was changed, so the tag still matches.'
+                      : 'GCM is a counter mode too, so the flips land exactly as in CTR, but the authentication tag no longer matches and nothing is decrypted.'}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  CribPlacement,
+  KeyReuseChallenge,
+  bytesToDisplay,
+  createKeyReuseChallenge,
+  dragCrib,
+  suggestCribs
+} from '@/lib/crypto/crib-dragging';
+import { stringToArrayBuffer } from '@/lib/crypto/encoding';
+import { CribDragVisualizer } from '../visualization/CribDragVisualizer';
+import { LuLock, LuSearch, LuTriangleAlert } from 'react-icons/lu';
+
+type Message = 0 | 1;
+
+const DEFAULT_MESSAGES: [string, string] = [
+  'Meet me at the old bridge after the market closes tonight.',
+  'The shipment will arrive at the north gate before dawn.'
+];
+
+const UNKNOWN = '_';
+
+export function OtpReuseLab() {
+  const [messages, setMessages] = useState<[string, string]>(DEFAULT_MESSAGES);
+  const [challenge, setChallenge] = useState<KeyReuseChallenge | null>(null);
+  const [recovered, setRecovered] = useState<[string[], string[]]>([[], []]);
+  const [crib, setCrib] = useState<string>(' the ');
+  const [position, setPosition] = useState<number>(0);
+  const [cribMessage, setCribMessage] = useState<Message>(0);
+  const [suggestions, setSuggestions] = useState<CribPlacement[]>([]);
+  const [showOriginals, setShowOriginals] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const xor = challenge?.xor ?? new Uint8Array(0);
+  const cribLength = stringToArrayBuffer(crib).length;
+  const maxPosition = Math.max(0, xor.length - cribLength);
+  const fragment = challenge ? dragCrib(xor, crib, Math.min(position, maxPosition)) : null;
+
+  const handleEncrypt = async () => {
+    setError(null);
+    try {
+      const next = await createKeyReuseChallenge(messages[0], messages[1]);
+      setChallenge(next);
+      setRecovered([Array(next.xor.length).fill(UNKNOWN), Array(next.xor.length).fill(UNKNOWN)]);
+      setPosition(0);
+      setSuggestions([]);
+      setShowOriginals(false);
+    } catch (err) {
+      setError(`Encryption failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Writes the crib into one message and what it reveals into the other
+  const place = (placedCrib: string, at: number, inMessage: Message) => {
+    const revealed = dragCrib(xor, placedCrib, at);
+    if (!revealed) return;
+    const cribChars = bytesToDisplay(stringToArrayBuffer(placedCrib));
+    setRecovered(([a, b]) => {
+      const next: [string[], string[]] = [[...a], [...b]];
+      [...cribChars].forEach((char, i) => {
+        next[inMessage][at + i] = char;
+        next[inMessage === 0 ? 1 : 0][at + i] = revealed[i];
+      });
+      return next;
+    });
+  };
+
+  const handleSuggest = () => {
+    setSuggestions(suggestCribs(xor));
+  };
+
+  const handleUseSuggestion = (suggestion: CribPlacement) => {
+    setCrib(suggestion.crib);
+    setPosition(suggestion.position);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-bold text-white mb-2">One-Time Pad Reuse</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Encrypt two messages with the same pad. XORing the ciphertexts cancels the pad
+        and leaves the XOR of the two plaintexts, so guessing a word in one message
+        reveals the other message at the same place. Slide a guessed word (a crib)
+        along the XOR stream until the other side turns into readable text.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {([0, 1] as Message[]).map(index => (
+          <div key={index}>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Message {index === 0 ? 'A' : 'B'}
+            </label>
+            <textarea
+              value={messages[index]}
+              onChange={(e) => {
+                const next: [string, string] = [...messages];
+                next[index] = e.target.value;
+                setMessages(next);
+                setChallenge(null);
+              }}
+              rows={3}
+              className="w-full rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleEncrypt}
+        disabled={!messages[0] || !messages[1]}
+        className={`
+          flex items-center px-4 py-2 rounded-md text-sm font-medium mb-6
+          ${!messages[0] || !messages[1]
+            ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+            : 'bg-blue-600 text-white hover:bg-blue-700'
+          }
+        `}
+      >
+        <LuLock className="mr-2 h-4 w-4" />
+        Encrypt Both With the Same Pad
+      </button>
+
+      {challenge && (
+        <div className="space-y-6">
+          <div className="p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md flex items-start">
+            <LuTriangleAlert className="mr-2 h-5 w-5 flex-shrink-0" />
+            <span>
+              Both ciphertexts were made with one pad. An eavesdropper who has only the
+              two ciphertexts below can compute C1 ⊕ C2 = P1 ⊕ P2 without knowing the pad.
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {challenge.ciphertexts.map((ciphertext, index) => (
+              <div key={index} className="p-3 bg-gray-800 rounded-lg">
+                <p className="text-xs text-gray-400 mb-1">Intercepted ciphertext {index === 0 ? 'A' : 'B'}</p>
+                <p className="font-mono text-xs text-gray-200 break-all line-clamp-3">{ciphertext}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Crib dragging */}
+          <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+            <h3 className="text-lg font-medium text-white">Drag a Crib</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Crib</label>
+                <input
+                  type="text"
+                  value={crib}
+                  onChange={(e) => setCrib(e.target.value)}
+                  className="w-full rounded-md bg-gray-900 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Position: {Math.min(position, maxPosition)}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={maxPosition}
+                  value={Math.min(position, maxPosition)}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  disabled={cribLength === 0 || cribLength > xor.length}
+                  className="w-full mt-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Crib is in</label>
+                <select
+                  value={cribMessage}
+                  onChange={(e) => setCribMessage(Number(e.target.value) as Message)}
+                  className="w-full rounded-md bg-gray-900 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value={0}>Message A</option>
+                  <option value={1}>Message B</option>
+                </select>
+              </div>
+            </div>
+
+            <CribDragVisualizer xor={xor} crib={crib} position={Math.min(position, maxPosition)} fragment={fragment} />
+
+            <div className="flex flex-wrap items-center gap-4">
+              <p className="text-sm text-gray-300">
+                Reveals in message {cribMessage === 0 ? 'B' : 'A'}:{' '}
+                <span className="font-mono text-green-400">
+                  {fragment === null ? '(crib longer than the XOR stream)' : `"${fragment}"`}
+                </span>
+              </p>
+              <button
+                type="button"
+                onClick={() => place(crib, Math.min(position, maxPosition), cribMessage)}
+                disabled={fragment === null}
+                className={`
+                  px-3 py-2 rounded-md text-sm font-medium
+                  ${fragment === null
+                    ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }
+                `}
+              >
+                Place Crib
+              </button>
+            </div>
+          </div>
+
+          {/* Dictionary suggestions */}
+          <div className="bg-gray-800 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium text-white">Suggested Cribs</h3>
+              <button
+                type="button"
+                onClick={handleSuggest}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <LuSearch className="mr-2 h-4 w-4" />
+                Try Dictionary Words
+              </button>
+            </div>
+            <p className="text-xs text-gray-400 mb-2">
+              Every dictionary word is dragged across the whole stream; placements that
+              reveal English-looking text on the other side are listed first. A match
+              does not say which message the word is in, so try both.
+            </p>
+            {suggestions.length > 0 && (
+              <ol className="space-y-1">
+                {suggestions.map((suggestion) => (
+                  <li
+                    key={`${suggestion.crib}-${suggestion.position}`}
+                    onClick={() => handleUseSuggestion(suggestion)}
+                    className="p-2 rounded-md cursor-pointer hover:bg-gray-700 flex justify-between font-mono text-sm"
+                  >
+                    <span className="text-yellow-300">&quot;{suggestion.crib}&quot; @ {suggestion.position}</span>
+                    <span className="text-green-400">&quot;{suggestion.fragment}&quot;</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Recovered plaintexts */}
+          <div className="bg-gray-800 rounded-lg p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium text-white">Recovered So Far</h3>
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={showOriginals}
+                  onChange={(e) => setShowOriginals(e.target.checked)}
+                  className="mr-2 rounded bg-gray-900 border-gray-700"
+                />
+                Show the originals
+              </label>
+            </div>
+            {([0, 1] as Message[]).map(index => (
+              <div key={index}>
+                <p className="text-xs text-gray-400">Message {index === 0 ? 'A' : 'B'}</p>
+                <p className="font-mono text-sm text-white break-all whitespace-pre-wrap">{recovered[index].join('')}</p>
+                {showOriginals && (
+                  <p className="font-mono text-sm text-gray-500 break-all whitespace-pre-wrap">
+                    {bytesToDisplay(stringToArrayBuffer(messages[index]).slice(0, xor.length))}
+                  </p>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRecovered([Array(xor.length).fill(UNKNOWN), Array(xor.length).fill(UNKNOWN)])}
+              className="text-sm text-gray-300 hover:text-white"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
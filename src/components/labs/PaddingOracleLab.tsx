@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  OracleServer,
+  PaddingOracleProgress,
+  createOracleServer,
+  probeGcmServer,
+  runPaddingOracleAttack
+} from '@/lib/crypto/padding-oracle';
+import { AES_BLOCK_SIZE } from '@/lib/crypto/aes-modes';
+import { arrayBufferToHex } from '@/lib/crypto/encoding';
+import { bytesToDisplay } from '@/lib/crypto/crib-dragging';
+import { LuLock, LuPlay, LuShieldCheck } from 'react-icons/lu';
+
+// Pause after each progress report, so the attack can be watched
+const SPEEDS: { label: string; delay: number }[] = [
+  { label: 'Fast', delay: 0 },
+  { label: 'Watchable', delay: 15 },
+  { label: 'Slow', delay: 80 }
+];
+
+const DEFAULT_SECRET = 'Transfer 500 EUR to account 12345678. PIN: 4096';
+
+const toHex = (byte: number) => byte.toString(16).padStart(2, '0');
+
+export function PaddingOracleLab() {
+  const [secret, setSecret] = useState<string>(DEFAULT_SECRET);
+  const [server, setServer] = useState<OracleServer | null>(null);
+  const [progress, setProgress] = useState<PaddingOracleProgress | null>(null);
+  const [plaintext, setPlaintext] = useState<string | null>(null);
+  const [speed, setSpeed] = useState<number>(1);
+  const [isAttacking, setIsAttacking] = useState<boolean>(false);
+  const [gcmAccepted, setGcmAccepted] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEncrypt = async () => {
+    setError(null);
+    setProgress(null);
+    setPlaintext(null);
+    setGcmAccepted(null);
+    try {
+      setServer(await createOracleServer(secret));
+    } catch (err) {
+      setError(`Encryption failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleAttack = async () => {
+    if (!server) return;
+    setError(null);
+    setPlaintext(null);
+    setIsAttacking(true);
+    try {
+      const recovered = await runPaddingOracleAttack(server.intercepted, server.oracle, async (next) => {
+        setProgress(next);
+        await new Promise(resolve => setTimeout(resolve, SPEEDS[speed].delay));
+      });
+      setPlaintext(new TextDecoder().decode(recovered));
+      setGcmAccepted(await probeGcmServer(secret));
+    } catch (err) {
+      setError(`Attack failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsAttacking(false);
+    }
+  };
+
+  const blocks = server ? server.intercepted.ciphertext.length / AES_BLOCK_SIZE : 0;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 bg-gray-900 rounded-lg shadow-xl">
+      <h2 className="text-2xl font-bold text-white mb-2">Padding Oracle</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        A simulated server decrypts AES-CBC with PKCS7 padding under a key you never see,
+        and only answers whether the padding of a ciphertext was valid. Error messages,
+        status codes or response times leak exactly this in real servers. The attacker
+        sends forged ciphertexts and turns the yes/no answers into the plaintext.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <label className="block text-sm font-medium text-gray-300 mb-1">Secret message on the server</label>
+      <textarea
+        value={secret}
+        onChange={(e) => { setSecret(e.target.value); setServer(null); setProgress(null); setPlaintext(null); }}
+        rows={2}
+        disabled={isAttacking}
+        className="w-full mb-4 rounded-md bg-gray-800 border-gray-700 text-white font-mono text-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <button
+          type="button"
+          onClick={handleEncrypt}
+          disabled={isAttacking || !secret}
+          className={`
+            flex items-center px-3 py-2 rounded-md text-sm font-medium
+            ${isAttacking || !secret
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          <LuLock className="mr-2 h-4 w-4" />
+          Encrypt on the Server
+        </button>
+        <button
+          type="button"
+          onClick={handleAttack}
+          disabled={!server || isAttacking}
+          className={`
+            flex items-center px-3 py-2 rounded-md text-sm font-medium
+            ${!server || isAttacking
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-red-600 text-white hover:bg-red-700'
+            }
+          `}
+        >
+          <LuPlay className="mr-2 h-4 w-4" />
+          {isAttacking ? 'Attacking...' : 'Run the Attack'}
+        </button>
+        <label className="flex items-center text-sm text-gray-300">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="ml-2 rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {SPEEDS.map(({ label }, i) => (
+              <option key={label} value={i}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {server && (
+        <div className="space-y-4">
+          {/* What the attacker sees */}
+          <div className="p-4 bg-gray-800 rounded-lg font-mono text-xs text-gray-300 space-y-1 break-all">
+            <p><span className="text-gray-400">IV:</span> {arrayBufferToHex(server.intercepted.iv)}</p>
+            {Array.from({ length: blocks }, (_, block) => (
+              <p key={block} className={progress?.block === block && isAttacking ? 'text-yellow-300' : ''}>
+                <span className="text-gray-400">C{block + 1}:</span>{' '}
+                {arrayBufferToHex(server.intercepted.ciphertext.slice(block * AES_BLOCK_SIZE, (block + 1) * AES_BLOCK_SIZE))}
+              </p>
+            ))}
+          </div>
+
+          {progress && (
+            <div className="p-4 bg-gray-800 rounded-lg space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm text-gray-300">
+                <p>Oracle queries: <span className="font-mono text-white">{progress.queries}</span></p>
+                <p>Block: <span className="font-mono text-white">{progress.block + 1} of {progress.blocks}</span></p>
+                <p>Byte: <span className="font-mono text-white">{progress.position}</span> (guess {toHex(progress.guess)})</p>
+              </div>
+
+              {/* Intermediate state of the current block */}
+              <div>
+                <p className="text-xs text-gray-400 mb-1">
+                  Intermediate state of C{progress.block + 1} (AES decryption before the XOR with the previous block)
+                </p>
+                <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${AES_BLOCK_SIZE}, minmax(0, 1fr))` }}>
+                  {progress.intermediate.map((byte, i) => (
+                    <div
+                      key={i}
+                      className={`
+                        text-center font-mono text-xs py-1 rounded
+                        ${byte !== null
+                          ? 'bg-green-700 text-white'
+                          : i === progress.position ? 'bg-yellow-600 text-black' : 'bg-gray-700 text-gray-500'
+                        }
+                      `}
+                    >
+                      {byte !== null ? toHex(byte) : i === progress.position ? toHex(progress.guess) : '??'}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs text-gray-400 mb-1">Recovered plaintext (padding included)</p>
+                <p className="font-mono text-sm text-green-400 break-all whitespace-pre-wrap">
+                  {bytesToDisplay(progress.recovered)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {plaintext !== null && progress && (
+            <div className="p-4 bg-gray-800 rounded-lg space-y-3 text-sm text-gray-300">
+              <p>
+                Recovered <span className="font-mono text-green-400">&quot;{plaintext}&quot;</span> with{' '}
+                {progress.queries} queries, about {Math.round(progress.queries / progress.recovered.length)} per
+                byte, without ever learning the key.
+              </p>
+              <div className="p-3 bg-green-900 bg-opacity-30 rounded-md flex items-start">
+                <LuShieldCheck className="mr-2 h-5 w-5 flex-shrink-0 text-green-400" />
+                <div className="space-y-2">
+                  <p className="font-medium text-green-300">How authenticated encryption stops this</p>
+                  <p>
+                    AES-GCM computes a tag over the whole ciphertext and checks it before anything
+                    is decrypted. A forged ciphertext fails the tag check whatever its contents, so
+                    the server gives the same answer to every forgery and the attacker learns
+                    nothing. GCM is also a counter mode with no padding to validate in the first place.
+                  </p>
+                  {gcmAccepted !== null && (
+                    <p>
+                      The same secret encrypted with AES-GCM accepted{' '}
+                      <span className="font-mono text-white">{gcmAccepted}</span> of 255 forged
+                      ciphertexts.
+                    </p>
+                  )}
+                  <p>
+                    CBC can be made safe by authenticating the ciphertext (encrypt-then-MAC) and
+                    rejecting bad tags in constant time, but an AEAD mode such as GCM or
+                    ChaCha20-Poly1305 gets this right by construction.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
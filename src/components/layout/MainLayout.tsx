@@ -7,6 +7,9 @@ import { ThemeToggle } from '../ui/theme-toggle';
 import { 
   LuLock, 
   LuFileSymlink, 
+  LuScrollText, 
+  LuHash, 
+  LuFlaskConical, 
   LuGithub, 
   LuMenu, 
   LuX 
@@ -20,6 +23,9 @@ export function MainLayout({ children }: { children: React.ReactNode }) {
   const links = [
     { name: 'Text Encryption', href: '/', icon: LuLock },
     { name: 'File Encryption', href: '/file', icon: LuFileSymlink },
+    { name: 'Hashing', href: '/hash', icon: LuHash },
+    { name: 'Classical Ciphers', href: '/classical', icon: LuScrollText },
+    { name: 'Attack Labs', href: '/labs', icon: LuFlaskConical },
     { name: 'Algorithm Comparison', href: '/compare', icon: BiBarChart },
   ];
 
@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  AVALANCHE_SETUPS,
+  AvalancheInput,
+  AvalancheResult,
+  ZeroByteBias,
+  measureAvalanche,
+  measureZeroByteBias
+} from '@/lib/crypto/avalanche';
+import { AvalancheHeatmap } from './AvalancheHeatmap';
+import { LuPlay } from 'react-icons/lu';
+
+type Measurement = AvalancheInput | 'bias';
+
+const MEASUREMENTS: { value: Measurement; label: string }[] = [
+  { value: AvalancheInput.Plaintext, label: 'Flip a plaintext bit' },
+  { value: AvalancheInput.Key, label: 'Flip a key bit' },
+  { value: 'bias', label: 'Zero-byte bias' }
+];
+
+const DEFAULT_SETUPS = ['aes-ecb', 'aes-cbc', 'aes-ctr', 'des-ecb', 'rc4', 'otp'];
+const DEFAULT_TRIALS = 200;
+const BIAS_TRIALS_FACTOR = 20; // bias needs many more samples to show
+const BIAS_THRESHOLD = 1.5; // ratio above which a byte is flagged
+
+const setupLabel = (id: string) => AVALANCHE_SETUPS.find(setup => setup.id === id)?.label ?? id;
+
+export function AvalancheAnalyzer() {
+  const [selected, setSelected] = useState<string[]>(DEFAULT_SETUPS);
+  const [measurement, setMeasurement] = useState<Measurement>(AvalancheInput.Plaintext);
+  const [trials, setTrials] = useState<number>(DEFAULT_TRIALS);
+  const [results, setResults] = useState<AvalancheResult[]>([]);
+  const [biases, setBiases] = useState<ZeroByteBias[]>([]);
+  const [shown, setShown] = useState<string | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSetup = (id: string) => {
+    setSelected(current => current.includes(id) ? current.filter(s => s !== id) : [...current, id]);
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setResults([]);
+    setBiases([]);
+    setShown(null);
+
+    try {
+      for (const setup of AVALANCHE_SETUPS.filter(s => selected.includes(s.id))) {
+        setRunning(setup.label);
+        setShown(setup.id);
+        // Replace this setup's row as its statistics come in
+        if (measurement === 'bias') {
+          const update = (bias: ZeroByteBias) => setBiases(current => [...current.filter(b => b.setupId !== bias.setupId), bias]);
+          update(await measureZeroByteBias(setup, trials * BIAS_TRIALS_FACTOR, update));
+        } else {
+          const update = (result: AvalancheResult) => setResults(current => [...current.filter(r => r.setupId !== result.setupId), result]);
+          update(await measureAvalanche(setup, measurement, trials, update));
+        }
+      }
+    } catch (err) {
+      setError(`Measurement failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const shownResult = results.find(r => r.setupId === shown);
+  const shownBias = biases.find(b => b.setupId === shown);
+  const maxRatio = Math.max(2, ...(shownBias ? Array.from(shownBias.ratios) : []));
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 bg-opacity-40 text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {AVALANCHE_SETUPS.map(setup => (
+          <label key={setup.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300 mr-2">
+            <input
+              type="checkbox"
+              checked={selected.includes(setup.id)}
+              onChange={() => toggleSetup(setup.id)}
+              disabled={running !== null}
+              className="mr-1 rounded"
+            />
+            {setup.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Measurement</label>
+          <select
+            value={measurement}
+            onChange={(e) => setMeasurement(e.target.value as Measurement)}
+            disabled={running !== null}
+            className="rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {MEASUREMENTS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Trials{measurement === 'bias' && ` (×${BIAS_TRIALS_FACTOR})`}
+          </label>
+          <input
+            type="number"
+            min={10}
+            max={5000}
+            step={10}
+            value={trials}
+            onChange={(e) => setTrials(Math.max(10, Number(e.target.value)))}
+            disabled={running !== null}
+            className="w-28 rounded-md bg-gray-800 border-gray-700 text-white text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={running !== null || selected.length === 0}
+          className={`
+            flex items-center px-4 py-2 rounded-md text-sm font-medium
+            ${running !== null || selected.length === 0
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+            }
+          `}
+        >
+          <LuPlay className="mr-2 h-4 w-4" />
+          {running ? `Measuring ${running}...` : 'Run'}
+        </button>
+      </div>
+
+      {/* Flip statistics */}
+      {results.length > 0 && (
+        <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300 mb-6">
+          <thead>
+            <tr className="border-b border-gray-300 dark:border-gray-700">
+              <th className="py-2 font-medium">Setup</th>
+              <th className="py-2 font-medium">Trials</th>
+              <th className="py-2 font-medium">Bits flipped (mean)</th>
+              <th className="py-2 font-medium">Variance</th>
+              <th className="py-2 font-medium">Ideal (mean &plusmn; sd)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {AVALANCHE_SETUPS.flatMap(setup => results.filter(r => r.setupId === setup.id)).map(result => {
+              const { setupId, trials: done, meanBits, meanFraction, outputBits, variance } = result;
+              const weak = Math.abs(meanFraction - 0.5) > 0.05;
+              return (
+                <tr
+                  key={setupId}
+                  onClick={() => setShown(setupId)}
+                  className={`cursor-pointer border-b border-gray-200 dark:border-gray-800 ${shown === setupId ? 'bg-gray-200 dark:bg-gray-800' : ''}`}
+                >
+                  <td className="py-1">{setupLabel(setupId)}</td>
+                  <td className="py-1">{done}</td>
+                  <td className={`py-1 font-mono ${weak ? 'text-red-500' : 'text-green-500'}`}>
+                    {meanBits.toFixed(1)} / {outputBits} ({(meanFraction * 100).toFixed(1)}%)
+                  </td>
+                  <td className="py-1 font-mono">{variance.toFixed(1)}</td>
+                  <td className="py-1 font-mono text-gray-500">{outputBits / 2} &plusmn; {Math.sqrt(outputBits / 4).toFixed(1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {shownResult && (
+        <div className="bg-gray-900 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-white mb-2">
+            {setupLabel(shownResult.setupId)}: how often each output bit flipped
+          </h3>
+          <AvalancheHeatmap bitFlipRates={shownResult.bitFlipRates} label={`${shownResult.trials} trials`} />
+        </div>
+      )}
+
+      {/* Zero-byte bias */}
+      {biases.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {AVALANCHE_SETUPS.flatMap(setup => biases.filter(b => b.setupId === setup.id)).map(bias => {
+              const flagged = Array.from(bias.ratios).some(ratio => ratio > BIAS_THRESHOLD);
+              return (
+                <button
+                  key={bias.setupId}
+                  type="button"
+                  onClick={() => setShown(bias.setupId)}
+                  className={`
+                    px-3 py-1 rounded-md text-sm
+                    ${shown === bias.setupId ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}
+                    ${flagged ? 'ring-1 ring-red-500' : ''}
+                  `}
+                >
+                  {setupLabel(bias.setupId)}
+                </button>
+              );
+            })}
+          </div>
+          {shownBias && (
+            <div className="bg-gray-900 rounded-lg p-4">
+              <h3 className="text-sm font-medium text-white mb-2">
+                {setupLabel(shownBias.setupId)}: zero bytes per output position, relative to random ({shownBias.trials} trials)
+              </h3>
+              <div className="flex items-end h-32 gap-0.5">
+                {Array.from(shownBias.ratios, (ratio, i) => (
+                  <div key={i} className="relative flex-1 h-full flex items-end" title={`Byte ${i}: ${ratio.toFixed(2)}×`}>
+                    <div
+                      className={`w-full rounded-t ${ratio > BIAS_THRESHOLD ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={{ height: `${(ratio / maxRatio) * 100}%` }}
+                    ></div>
+                    {/* Expected level of a random byte */}
+                    <div
+                      className="absolute left-0 right-0 border-t-2 border-yellow-400"
+                      style={{ bottom: `${(1 / maxRatio) * 100}%` }}
+                    ></div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-400">
+                Byte positions 0 to {shownBias.ratios.length - 1}; the yellow line is 1&times;, what a random byte gives.
+                RC4&apos;s second byte is zero about twice as often, a bias that broke WEP and RC4 in TLS.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+
+interface AvalancheHeatmapProps {
+  bitFlipRates: Float64Array; // 0.5 is ideal
+  label: string;
+}
+
+const BITS_PER_ROW = 64;
+const CELL_SIZE = 9;
+const LEGEND_HEIGHT = 28;
+
+// Dark for bits that never flip, green at the ideal 1/2, red for bits that always flip
+function rateToColor(rate: number): string {
+  const lerp = (a: number[], b: number[], t: number) =>
+    a.map((value, i) => Math.round(value + (b[i] - value) * t));
+  const [r, g, b] = rate <= 0.5
+    ? lerp([44, 62, 80], [46, 204, 113], rate * 2)
+    : lerp([46, 204, 113], [231, 76, 60], (rate - 0.5) * 2);
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * How often each output bit flipped, one cell per bit and one row per 8 bytes,
+ * drawn on a canvas the same way as EncryptionVisualizer
+ */
+export function AvalancheHeatmap({ bitFlipRates, label }: AvalancheHeatmapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rows = Math.ceil(bitFlipRates.length / BITS_PER_ROW);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    ctx.clearRect(0, 0, width, height);
+
+    bitFlipRates.forEach((rate, bit) => {
+      const x = 40 + (bit % BITS_PER_ROW) * CELL_SIZE + Math.floor((bit % BITS_PER_ROW) / 8) * 2;
+      const y = Math.floor(bit / BITS_PER_ROW) * CELL_SIZE;
+      ctx.fillStyle = rateToColor(rate);
+      ctx.fillRect(x, y, CELL_SIZE - 1, CELL_SIZE - 1);
+    });
+
+    // Byte offset of each row
+    ctx.fillStyle = '#7f8c8d';
+    ctx.font = '10px monospace';
+    ctx.textBaseline = 'middle';
+    for (let row = 0; row < rows; row++) {
+      ctx.fillText(String(row * (BITS_PER_ROW / 8)), 4, row * CELL_SIZE + CELL_SIZE / 2);
+    }
+
+    // Legend from 0 to 1
+    const legendY = rows * CELL_SIZE + 10;
+    for (let i = 0; i <= 100; i++) {
+      ctx.fillStyle = rateToColor(i / 100);
+      ctx.fillRect(40 + i * 2, legendY, 2, 8);
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('0', 40, legendY + 16);
+    ctx.fillText('½', 136, legendY + 16);
+    ctx.fillText('1', 238, legendY + 16);
+    ctx.fillText(label, 260, legendY + 4);
+    ctx.textBaseline = 'alphabetic';
+  }, [bitFlipRates, label, rows]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={40 + BITS_PER_ROW * CELL_SIZE + 16}
+      height={rows * CELL_SIZE + LEGEND_HEIGHT + 8}
+      className="w-full h-auto"
+    />
+  );
+}
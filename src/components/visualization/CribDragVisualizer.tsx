@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import { stringToArrayBuffer } from '@/lib/crypto/encoding';
+import { bytesToDisplay } from '@/lib/crypto/crib-dragging';
+
+interface CribDragVisualizerProps {
+  xor: Uint8Array;
+  crib: string;
+  position: number;
+  fragment: string | null;
+}
+
+const CELL_WIDTH = 28;
+const LABEL_WIDTH = 110;
+const COLORS = {
+  text: '#ffffff',
+  muted: '#7f8c8d',
+  cell: '#2c3e50',
+  xor: '#72b5fc',
+  crib: '#f1c40f',
+  fragment: '#2ecc71',
+  unprintable: '#e74c3c'
+};
+
+const toHex = (byte: number) => byte.toString(16).padStart(2, '0');
+
+/**
+ * The XOR of the two ciphertexts as bytes, with the crib slid under it and
+ * the bytes it reveals in the other message below, like the OTP drawing of
+ * EncryptionVisualizer but for two messages
+ */
+export function CribDragVisualizer({ xor, crib, position, fragment }: CribDragVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#1a1a2e';
+    ctx.fillRect(0, 0, width, height);
+
+    // Scroll so the crib stays in view
+    const visible = Math.floor((width - LABEL_WIDTH - 10) / CELL_WIDTH);
+    const cribBytes = bytesToDisplay(stringToArrayBuffer(crib));
+    const cribLength = cribBytes.length;
+    const start = Math.max(0, Math.min(position - Math.floor((visible - cribLength) / 2), xor.length - visible));
+
+    const rows: { label: string; y: number }[] = [
+      { label: 'C1 ⊕ C2', y: 30 },
+      { label: 'Crib', y: 80 },
+      { label: 'Reveals', y: 130 }
+    ];
+    ctx.font = '14px monospace';
+    ctx.textBaseline = 'middle';
+    rows.forEach(({ label, y }) => {
+      ctx.fillStyle = COLORS.text;
+      ctx.textAlign = 'left';
+      ctx.fillText(label, 10, y + 12);
+    });
+
+    ctx.textAlign = 'center';
+    for (let i = start; i < Math.min(xor.length, start + visible); i++) {
+      const x = LABEL_WIDTH + (i - start) * CELL_WIDTH;
+      const offset = i - position;
+      const underCrib = offset >= 0 && offset < cribLength;
+
+      ctx.fillStyle = underCrib ? COLORS.xor : COLORS.cell;
+      ctx.fillRect(x, rows[0].y, CELL_WIDTH - 2, 24);
+      ctx.fillStyle = COLORS.text;
+      ctx.font = '12px monospace';
+      ctx.fillText(toHex(xor[i]), x + (CELL_WIDTH - 2) / 2, rows[0].y + 12);
+
+      if (underCrib && fragment) {
+        ctx.font = '14px monospace';
+        ctx.fillStyle = COLORS.crib;
+        ctx.fillRect(x, rows[1].y, CELL_WIDTH - 2, 24);
+        ctx.fillStyle = '#000000';
+        ctx.fillText(cribBytes[offset], x + (CELL_WIDTH - 2) / 2, rows[1].y + 12);
+
+        const revealed = fragment[offset];
+        ctx.fillStyle = revealed === '·' ? COLORS.unprintable : COLORS.fragment;
+        ctx.fillRect(x, rows[2].y, CELL_WIDTH - 2, 24);
+        ctx.fillStyle = '#000000';
+        ctx.fillText(revealed, x + (CELL_WIDTH - 2) / 2, rows[2].y + 12);
+      }
+    }
+
+    // Index ruler every 5 bytes
+    ctx.font = '10px monospace';
+    ctx.fillStyle = COLORS.muted;
+    for (let i = start; i < Math.min(xor.length, start + visible); i++) {
+      if (i % 5 === 0) {
+        ctx.fillText(String(i), LABEL_WIDTH + (i - start) * CELL_WIDTH + (CELL_WIDTH - 2) / 2, 172);
+      }
+    }
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+  }, [xor, crib, position, fragment]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={800}
+      height={185}
+      className="w-full h-auto rounded-lg"
+    />
+  );
+}
@@ -1,46 +1,38 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from 'react';
-import { EncryptionAlgorithm } from '@/lib/crypto/encryption-service';
+import { CipherKind, EncryptionAlgorithm } from '@/lib/crypto/encryption-service';
+import { getCipherProvider } from '@/lib/crypto/cipher-registry';
+import { ClassicalCipher, ClassicalParams } from '@/lib/crypto/classical-ciphers';
+import { calculateEntropy } from '@/lib/crypto/text-statistics';
+import { drawClassicalVisualization } from './classical-drawings';
 
 interface EncryptionVisualizerProps {
-  algorithm: EncryptionAlgorithm;
+  algorithm: EncryptionAlgorithm | ClassicalCipher;
   input: string;
   output: string;
   isEncrypting: boolean;
   isAnimating: boolean;
   progress: number;
+  cipherKey?: string; // Classical ciphers draw their key (shift, keyword, rotors...)
+  classicalParams?: ClassicalParams;
 }
 
+const CLASSICAL_CIPHERS = Object.values(ClassicalCipher) as string[];
+
 export function EncryptionVisualizer({
   algorithm,
   input,
   output,
   isEncrypting,
   isAnimating,
-  progress
+  progress,
+  cipherKey = '',
+  classicalParams
 }: EncryptionVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [animationFrame, setAnimationFrame] = useState<number | null>(null);
 
-  // Calculate entropy of a string
-  const calculateEntropy = (text: string): number => {
-    const len = text.length;
-    const frequencies: Record<string, number> = {};
-    
-    // Calculate frequency of each character
-    for (let i = 0; i < len; i++) {
-      const char = text.charAt(i);
-      frequencies[char] = (frequencies[char] || 0) + 1;
-    }
-    
-    // Calculate entropy
-    return Object.values(frequencies).reduce((entropy, freq) => {
-      const p = freq / len;
-      return entropy - (p * Math.log2(p));
-    }, 0);
-  };
-
   // Convert string to color
   const stringToColor = (str: string): string => {
     let hash = 0;
@@ -78,20 +70,30 @@ export function EncryptionVisualizer({
     }
     
     const renderFrame = () => {
-      // Choose visualization based on algorithm
-      switch (algorithm) {
-        case EncryptionAlgorithm.AES:
-          drawBlockCipherVisualization(ctx, width, height);
-          break;
-        case EncryptionAlgorithm.DES:
-        case EncryptionAlgorithm.TripleDES:
+      if (CLASSICAL_CIPHERS.includes(algorithm)) {
+        ctx.clearRect(0, 0, width, height);
+        drawClassicalVisualization(ctx, width, height, {
+          cipher: algorithm as ClassicalCipher,
+          input,
+          output,
+          cipherKey,
+          params: classicalParams ?? {},
+          progress,
+          isEncrypting
+        });
+        return;
+      }
+      
+      // Choose visualization based on the kind of cipher
+      switch (getCipherProvider(algorithm as EncryptionAlgorithm).capabilities.kind) {
+        case CipherKind.Block:
           drawBlockCipherVisualization(ctx, width, height);
           break;
-        case EncryptionAlgorithm.Rabbit:
-        case EncryptionAlgorithm.RC4:
+        case CipherKind.Stream:
+        case CipherKind.AEAD:
           drawStreamCipherVisualization(ctx, width, height);
           break;
-        case EncryptionAlgorithm.OTP:
+        case CipherKind.OneTimePad:
           drawOTPVisualization(ctx, width, height);
           break;
         default:
@@ -110,9 +112,9 @@ export function EncryptionVisualizer({
         cancelAnimationFrame(animationFrame);
       }
     };
-  }, [algorithm, input, output, isAnimating, progress, animationFrame]);
+  }, [algorithm, input, output, isAnimating, isEncrypting, progress, animationFrame, cipherKey, classicalParams]);
 
-  // Block cipher visualization (AES, DES, 3DES)
+  // Block cipher visualization (AES, DES, 3DES, Blowfish)
   const drawBlockCipherVisualization = (
     ctx: CanvasRenderingContext2D,
     width: number,
@@ -178,7 +180,7 @@ export function EncryptionVisualizer({
     }
   };
 
-  // Stream cipher visualization (RC4, Rabbit)
+  // Stream cipher visualization (RC4, Rabbit, ChaCha20)
   const drawStreamCipherVisualization = (
     ctx: CanvasRenderingContext2D,
     width: number,
@@ -0,0 +1,65 @@
+"use client";
+
+import React from 'react';
+import { hashStats } from '@/lib/base-data';
+
+// The widest collision resistance in the table fills the bar
+const MAX_RESISTANCE = Math.max(...hashStats.map(stat => stat.collisionResistance));
+
+export function HashComparison() {
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="w-full text-sm text-left text-gray-400">
+        <thead className="text-xs uppercase bg-gray-700 text-gray-400">
+          <tr>
+            <th className="px-6 py-3">Hash</th>
+            <th className="px-6 py-3">Digest</th>
+            <th className="px-6 py-3">Collision Resistance</th>
+            <th className="px-6 py-3">Year</th>
+            <th className="px-6 py-3">Collisions</th>
+            <th className="px-6 py-3">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {hashStats.map((stat) => (
+            <tr
+              key={stat.algorithm}
+              className="bg-gray-800 border-b border-gray-700 hover:bg-gray-600"
+            >
+              <td className="px-6 py-4 font-medium text-white">
+                {stat.algorithm}
+              </td>
+              <td className="px-6 py-4">
+                {stat.digestSize} bits
+              </td>
+              <td className="px-6 py-4">
+                <div className="w-full bg-gray-700 rounded-full h-2.5">
+                  <div
+                    className={`${stat.broken ? 'bg-red-500' : 'bg-green-500'} h-2.5 rounded-full`}
+                    style={{ width: `${(stat.collisionResistance / MAX_RESISTANCE) * 100}%` }}
+                  ></div>
+                </div>
+                <span className="text-xs mt-1 block">2^{stat.collisionResistance}</span>
+              </td>
+              <td className="px-6 py-4">
+                {stat.yearIntroduced}
+              </td>
+              <td className={`px-6 py-4 ${stat.broken ? 'text-red-400' : 'text-green-400'}`}>
+                {stat.collisionStatus}
+              </td>
+              <td className="px-6 py-4">
+                <span className={`px-2 py-1 rounded text-xs ${
+                  stat.standardStatus === 'Deprecated' ? 'bg-red-900 text-red-300' :
+                  stat.standardStatus === 'NIST Standard' ? 'bg-green-900 text-green-300' :
+                  'bg-blue-900 text-blue-300'
+                }`}>
+                  {stat.standardStatus}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
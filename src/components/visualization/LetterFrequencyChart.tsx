@@ -0,0 +1,62 @@
+"use client";
+
+import React from 'react';
+import {
+  ALPHABET,
+  ENGLISH_LETTER_FREQUENCIES,
+  getLetterFrequencies
+} from '@/lib/crypto/text-statistics';
+
+interface LetterFrequencyChartProps {
+  text: string;
+  label: string;
+}
+
+// Tallest English letter (E) sets the scale unless the text has a taller one
+const ENGLISH_MAX = Math.max(...ENGLISH_LETTER_FREQUENCIES);
+
+export function LetterFrequencyChart({ text, label }: LetterFrequencyChartProps) {
+  const frequencies = getLetterFrequencies(text);
+  const scale = Math.max(ENGLISH_MAX, ...frequencies);
+
+  return (
+    <div>
+      <div className="flex items-end h-40 gap-0.5">
+        {ALPHABET.split('').map((letter, i) => (
+          <div
+            key={letter}
+            className="relative flex-1 h-full flex items-end"
+            title={`${letter}: ${(frequencies[i] * 100).toFixed(1)}% (English ${(ENGLISH_LETTER_FREQUENCIES[i] * 100).toFixed(1)}%)`}
+          >
+            <div
+              className="w-full bg-blue-500 rounded-t transition-all duration-300"
+              style={{ height: `${(frequencies[i] / scale) * 100}%` }}
+            ></div>
+            {/* English frequency marker */}
+            <div
+              className="absolute left-0 right-0 border-t-2 border-yellow-400"
+              style={{ bottom: `${(ENGLISH_LETTER_FREQUENCIES[i] / scale) * 100}%` }}
+            ></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 mt-1">
+        {ALPHABET.split('').map((letter) => (
+          <span key={letter} className="flex-1 text-center text-xs text-gray-400 font-mono">
+            {letter}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-4 mt-2 text-xs text-gray-400">
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 mr-1 bg-blue-500 rounded-sm"></span>
+          {label}
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-0.5 mr-1 bg-yellow-400"></span>
+          English
+        </span>
+      </div>
+    </div>
+  );
+}
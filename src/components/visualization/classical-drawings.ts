@@ -0,0 +1,343 @@
+"use client";
+
+import {
+  ClassicalCipher,
+  ClassicalParams,
+  getCaesarShift,
+  buildPlayfairSquare,
+  getPlayfairDigraphs,
+  getRailCount,
+  getRailPattern,
+  getColumnOrder,
+  getEnigmaConfig
+} from '@/lib/crypto/classical-ciphers';
+import { runEnigma } from '@/lib/crypto/enigma';
+
+// Canvas drawings of the classical ciphers for EncryptionVisualizer. Each one
+// shows the cipher's mechanism at the character the animation has reached.
+
+export interface ClassicalDrawingState {
+  cipher: ClassicalCipher;
+  input: string;
+  output: string;
+  cipherKey: string;
+  params: ClassicalParams;
+  progress: number;
+  isEncrypting: boolean;
+}
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const COLORS = {
+  text: '#ffffff',
+  muted: '#7f8c8d',
+  cell: '#2c3e50',
+  plain: '#3498db',
+  cipher: '#e74c3c',
+  key: '#f1c40f',
+  wire: '#2ecc71'
+};
+
+// Index of the character the animation is on
+function currentIndex(length: number, progress: number): number {
+  return Math.max(0, Math.min(length - 1, Math.floor((progress / 100) * length)));
+}
+
+function drawCell(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  char: string,
+  fill: string
+) {
+  ctx.fillStyle = fill;
+  ctx.fillRect(x, y, size - 2, size - 2);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = `${Math.floor(size * 0.6)}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(char, x + (size - 2) / 2, y + (size - 2) / 2 + 1);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+}
+
+function drawTitle(ctx: CanvasRenderingContext2D, title: string, detail: string, height: number) {
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '18px Arial';
+  ctx.fillText(title, 20, 30);
+  ctx.font = '14px Arial';
+  ctx.fillStyle = COLORS.muted;
+  ctx.fillText(detail, 20, height - 15);
+}
+
+// Plaintext letters (upper-cased), the stream a substitution works through
+function plainLetters(state: ClassicalDrawingState): string {
+  const plain = state.isEncrypting ? state.input : state.output;
+  return plain.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+// Plain alphabet over a substituted one, with the current letter's pair joined
+function drawSubstitutionAlphabet(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  state: ClassicalDrawingState,
+  substitute: (index: number) => number,
+  title: string,
+  detail: string
+) {
+  const size = Math.floor((width - 40) / 26);
+  const left = (width - size * 26) / 2;
+  const topY = 70;
+  const bottomY = 170;
+  const letters = plainLetters(state);
+  const current = letters ? ALPHABET.indexOf(letters[currentIndex(letters.length, state.progress)]) : -1;
+
+  // Faint wiring for every letter, highlighted for the current one
+  for (let i = 0; i < 26; i++) {
+    const j = substitute(i);
+    ctx.strokeStyle = i === current ? COLORS.wire : 'rgba(127, 140, 141, 0.25)';
+    ctx.lineWidth = i === current ? 3 : 1;
+    ctx.beginPath();
+    ctx.moveTo(left + i * size + size / 2, topY + size);
+    ctx.lineTo(left + j * size + size / 2, bottomY);
+    ctx.stroke();
+  }
+
+  for (let i = 0; i < 26; i++) {
+    drawCell(ctx, left + i * size, topY, size, ALPHABET[i], i === current ? COLORS.plain : COLORS.cell);
+    const isTarget = current >= 0 && substitute(current) === i;
+    drawCell(ctx, left + i * size, bottomY, size, ALPHABET[i], isTarget ? COLORS.cipher : COLORS.cell);
+  }
+
+  ctx.fillStyle = COLORS.muted;
+  ctx.font = '12px Arial';
+  ctx.fillText('plain', left, topY - 6);
+  ctx.fillText('cipher', left, bottomY + size + 14);
+  drawTitle(ctx, title, detail, height);
+}
+
+function drawCaesar(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const shift = getCaesarShift(state.cipherKey);
+  drawSubstitutionAlphabet(ctx, width, height, state, i => (i + shift) % 26, 'Caesar', `Every letter moves ${shift} places along the alphabet`);
+}
+
+function drawAtbash(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  drawSubstitutionAlphabet(ctx, width, height, state, i => 25 - i, 'Atbash', 'The alphabet is mirrored: A ↔ Z, B ↔ Y, ...');
+}
+
+// Plaintext, repeated keyword and ciphertext letters in columns
+function drawVigenere(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const keyword = state.cipherKey.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!keyword) throw new Error('Enter a keyword');
+  const plain = plainLetters(state);
+  const size = 22;
+  const visible = Math.floor((width - 100) / size);
+  const current = currentIndex(plain.length, state.progress);
+  const start = Math.max(0, current - visible + 1);
+
+  const rows: [string, (i: number) => string, string][] = [
+    ['Plain', i => plain[i], COLORS.plain],
+    ['Key', i => keyword[i % keyword.length], COLORS.key],
+    ['Cipher', i => ALPHABET[(ALPHABET.indexOf(plain[i]) + ALPHABET.indexOf(keyword[i % keyword.length])) % 26], COLORS.cipher]
+  ];
+  rows.forEach(([label, charAt, color], row) => {
+    const y = 60 + row * (size + 14);
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = '12px Arial';
+    ctx.fillText(label, 20, y + 15);
+    for (let i = start; i < Math.min(plain.length, start + visible); i++) {
+      const revealed = i <= current && state.progress > 0;
+      drawCell(ctx, 80 + (i - start) * size, y, size, revealed || row < 2 ? charAt(i) : '', i === current ? color : COLORS.cell);
+    }
+  });
+
+  const shift = plain ? ALPHABET.indexOf(keyword[current % keyword.length]) : 0;
+  drawTitle(ctx, 'Vigenère', `Each letter is shifted by its key letter: ${keyword[current % keyword.length]} = +${shift}`, height);
+}
+
+// The 5x5 square with the current digraph and its substitute marked
+function drawPlayfair(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const square = buildPlayfairSquare(state.cipherKey);
+  const size = 34;
+  const left = 30;
+  const top = 45;
+  const plainPairs = getPlayfairDigraphs(state.isEncrypting ? state.input : state.output);
+  const cipherText = (state.isEncrypting ? state.output : state.input).toUpperCase().replace(/[^A-Z]/g, '');
+  const current = currentIndex(plainPairs.length, state.progress);
+  const pair = plainPairs[current] ?? '';
+  const cipherPair = cipherText.slice(current * 2, current * 2 + 2);
+
+  for (let i = 0; i < 25; i++) {
+    const char = square[i];
+    const fill = pair.includes(char) ? COLORS.plain : cipherPair.includes(char) ? COLORS.cipher : COLORS.cell;
+    drawCell(ctx, left + (i % 5) * size, top + Math.floor(i / 5) * size, size, char, fill);
+  }
+
+  // Which of the three rules applies
+  let rule = '';
+  if (pair.length === 2) {
+    const [a, b] = [square.indexOf(pair[0]), square.indexOf(pair[1])];
+    rule = Math.floor(a / 5) === Math.floor(b / 5)
+      ? 'Same row: take the letters to the right'
+      : a % 5 === b % 5
+        ? 'Same column: take the letters below'
+        : 'Rectangle: take the letters in the other corners';
+  }
+
+  const textX = left + size * 5 + 40;
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '16px monospace';
+  ctx.fillText(`Digraph ${current + 1}/${plainPairs.length}: ${pair} → ${cipherPair}`, textX, 80);
+  ctx.font = '13px Arial';
+  ctx.fillStyle = COLORS.muted;
+  ctx.fillText(rule, textX, 105);
+  ctx.font = '14px monospace';
+  ctx.fillStyle = COLORS.text;
+  ctx.fillText(plainPairs.slice(0, 12).join(' '), textX, 145);
+  drawTitle(ctx, 'Playfair', 'J is merged into I; X separates doubled letters', height);
+}
+
+// Plaintext written in a zigzag, read off rail by rail
+function drawRailFence(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const rails = getRailCount(state.cipherKey);
+  const plain = [...(state.isEncrypting ? state.input : state.output)];
+  const pattern = getRailPattern(plain.length, rails);
+  const size = Math.max(12, Math.min(22, Math.floor(170 / rails)));
+  const visible = Math.floor((width - 40) / size);
+  const written = Math.ceil((state.progress / 100) * plain.length);
+
+  ctx.strokeStyle = COLORS.wire;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let i = 0; i < Math.min(plain.length, visible); i++) {
+    const x = 20 + i * size + size / 2;
+    const y = 50 + pattern[i] * size + size / 2;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+
+  for (let i = 0; i < Math.min(plain.length, visible); i++) {
+    const char = plain[i] === ' ' ? '·' : plain[i];
+    drawCell(ctx, 20 + i * size, 50 + pattern[i] * size, size, char, i < written ? COLORS.plain : COLORS.cell);
+  }
+  drawTitle(ctx, 'Rail Fence', `Written in a zigzag over ${rails} rails, read off one rail at a time`, height);
+}
+
+// Plaintext in rows under the keyword, columns read in alphabetical key order
+function drawColumnar(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const keyword = state.cipherKey.toUpperCase().replace(/[^A-Z]/g, '');
+  const order = getColumnOrder(state.cipherKey);
+  const plain = [...(state.isEncrypting ? state.input : state.output)];
+  const columns = keyword.length;
+  const rows = Math.ceil(plain.length / columns);
+  const size = Math.max(12, Math.min(24, Math.floor(150 / Math.max(1, rows + 1)), Math.floor((width - 60) / columns)));
+  const left = 30;
+  const top = 45;
+
+  // Columns are read whole, so progress picks the column being read
+  const readColumns = Math.ceil((state.progress / 100) * columns);
+  const reading = new Set(order.slice(0, readColumns));
+
+  for (let c = 0; c < columns; c++) {
+    drawCell(ctx, left + c * size, top, size, keyword[c], COLORS.key);
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = '11px Arial';
+    ctx.fillText(String(order.indexOf(c) + 1), left + c * size + size / 3, top - 4);
+    for (let r = 0; r < rows; r++) {
+      const char = plain[r * columns + c];
+      if (char === undefined) continue;
+      drawCell(ctx, left + c * size, top + (r + 1) * size, size, char === ' ' ? '·' : char, reading.has(c) ? COLORS.cipher : COLORS.cell);
+    }
+  }
+  drawTitle(ctx, 'Columnar Transposition', 'Written in rows under the keyword, read column by column in alphabetical order', height);
+}
+
+// Plugboard, three rotors and the reflector, with the current letter's path
+function drawEnigma(ctx: CanvasRenderingContext2D, width: number, height: number, state: ClassicalDrawingState) {
+  const config = getEnigmaConfig(state.cipherKey, state.params);
+  const steps = runEnigma(state.input, config).filter(step => step.path.length > 0);
+  const pressed = Math.floor((state.progress / 100) * steps.length);
+  const step = pressed > 0 ? steps[pressed - 1] : null;
+  const windows = step?.positions ?? config.positions.toUpperCase();
+
+  // Components left to right: reflector, left, middle and right rotor, plugboard
+  const boxes = [
+    { label: `UKW-${config.reflector}`, window: '' },
+    ...config.rotors.map((rotor, i) => ({ label: rotor, window: windows[i] })),
+    { label: 'Plugs', window: '' }
+  ];
+  const boxWidth = 70;
+  const gap = (width - 40 - boxWidth * boxes.length) / (boxes.length - 1);
+  const top = 50;
+  const boxHeight = 130;
+
+  boxes.forEach((box, i) => {
+    const x = 20 + i * (boxWidth + gap);
+    ctx.fillStyle = COLORS.cell;
+    ctx.fillRect(x, top, boxWidth, boxHeight);
+    ctx.fillStyle = COLORS.text;
+    ctx.font = '14px Arial';
+    ctx.fillText(box.label, x + 8, top + 20);
+    if (box.window) {
+      drawCell(ctx, x + boxWidth / 2 - 16, top + 40, 34, box.window, COLORS.key);
+    }
+  });
+
+  // Path letters: in through plugboard and rotors right to left, back out again
+  if (step) {
+    const centre = (i: number) => 20 + i * (boxWidth + gap) + boxWidth / 2;
+    const inbound = [step.path[0], step.path[1], step.path[2], step.path[3]];
+    const outbound = [step.path[5], step.path[6], step.path[7], step.path[8]];
+    ctx.font = '14px monospace';
+    inbound.forEach((letter, i) => {
+      ctx.fillStyle = COLORS.plain;
+      ctx.fillText(`←${letter}`, centre(4 - i) - 12, top + 100);
+    });
+    ctx.fillStyle = COLORS.wire;
+    ctx.fillText(`↻${step.path[4]}`, centre(0) - 12, top + 115);
+    outbound.forEach((letter, i) => {
+      ctx.fillStyle = COLORS.cipher;
+      ctx.fillText(`${letter}→`, centre(i + 1) - 12, top + 120);
+    });
+
+    ctx.fillStyle = COLORS.text;
+    ctx.font = '16px monospace';
+    ctx.fillText(`Key ${step.input} → lamp ${step.output}`, width - 210, 30);
+  }
+
+  drawTitle(ctx, 'Enigma I', `Rotors step before each letter (window ${windows}); the middle rotor double steps`, height);
+}
+
+/**
+ * Draws the classical cipher's mechanism, or a hint when its key is not usable yet
+ */
+export function drawClassicalVisualization(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  state: ClassicalDrawingState
+) {
+  try {
+    switch (state.cipher) {
+      case ClassicalCipher.Caesar:
+        return drawCaesar(ctx, width, height, state);
+      case ClassicalCipher.Atbash:
+        return drawAtbash(ctx, width, height, state);
+      case ClassicalCipher.Vigenere:
+        return drawVigenere(ctx, width, height, state);
+      case ClassicalCipher.Playfair:
+        return drawPlayfair(ctx, width, height, state);
+      case ClassicalCipher.RailFence:
+        return drawRailFence(ctx, width, height, state);
+      case ClassicalCipher.Columnar:
+        return drawColumnar(ctx, width, height, state);
+      case ClassicalCipher.Enigma:
+        return drawEnigma(ctx, width, height, state);
+    }
+  } catch (err) {
+    ctx.clearRect(0, 0, width, height);
+    drawTitle(ctx, state.cipher, err instanceof Error ? err.message : String(err), height);
+  }
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { EncryptionResult } from '@/lib/crypto/encryption-service';
+import {
+  ClassicalCipher,
+  ClassicalParams,
+  classicalEncrypt,
+  classicalDecrypt
+} from '@/lib/crypto/classical-ciphers';
+
+interface UseClassicalCipherOptions {
+  typingSpeed?: number; // ms per output character, the visualizer follows along
+}
+
+export function useClassicalCipher(options: UseClassicalCipherOptions = {}) {
+  const { typingSpeed = 80 } = options;
+
+  const [input, setInput] = useState<string>('');
+  const [key, setKey] = useState<string>('');
+  const [cipher, setCipher] = useState<ClassicalCipher>(ClassicalCipher.Caesar);
+  const [params, setParams] = useState<ClassicalParams>({});
+  const [result, setResult] = useState<EncryptionResult | null>(null);
+  const [displayedOutput, setDisplayedOutput] = useState<string>('');
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keys mean something different for every cipher
+  useEffect(() => {
+    setKey('');
+    setResult(null);
+    setDisplayedOutput('');
+    setProgress(0);
+  }, [cipher]);
+
+  // Reveal the output one character at a time
+  useEffect(() => {
+    if (!result) return;
+
+    const output = [...result.result];
+    let currentIndex = 0;
+    const interval = setInterval(() => {
+      currentIndex += 1;
+      setDisplayedOutput(output.slice(0, currentIndex).join(''));
+      setProgress(Math.min(100, Math.floor((currentIndex / Math.max(1, output.length)) * 100)));
+      if (currentIndex >= output.length) {
+        clearInterval(interval);
+      }
+    }, typingSpeed);
+
+    return () => clearInterval(interval);
+  }, [result, typingSpeed]);
+
+  const run = useCallback(async (encrypt: boolean) => {
+    if (!input) {
+      setError(encrypt ? 'Enter text to encrypt' : 'Enter text to decrypt');
+      return;
+    }
+
+    setError(null);
+    setDisplayedOutput('');
+    setProgress(0);
+
+    try {
+      setResult(encrypt
+        ? await classicalEncrypt(input, key, cipher, params)
+        : await classicalDecrypt(input, key, cipher, params));
+    } catch (err) {
+      setResult(null);
+      setError(`${encrypt ? 'Encryption' : 'Decryption'} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [input, key, cipher, params]);
+
+  const handleEncrypt = useCallback(() => run(true), [run]);
+  const handleDecrypt = useCallback(() => run(false), [run]);
+
+  // Reset all states
+  const reset = useCallback(() => {
+    setInput('');
+    setResult(null);
+    setDisplayedOutput('');
+    setError(null);
+    setProgress(0);
+  }, []);
+
+  return {
+    input,
+    setInput,
+    key,
+    setKey,
+    cipher,
+    setCipher,
+    params,
+    setParams,
+    result,
+    isAnimating: result !== null && progress < 100,
+    displayedOutput,
+    progress,
+    error,
+    handleEncrypt,
+    handleDecrypt,
+    reset
+  };
+}
@@ -5,31 +5,44 @@ import {
   EncryptionAlgorithm, 
   EncryptionParams, 
   EncryptionResult,
-  measureKeyStrength
+  isAsymmetricAlgorithm
 } from '@/lib/crypto/encryption-service';
 
 // Import browser-native crypto implementation instead of CryptoJS
 import {
   browserEncrypt,
   browserDecrypt,
-  browserMeasureKeyStrength
+  browserGenerateKeyPair
 } from '@/lib/crypto/browser-crypto';
+import { getEnvelopeAlgorithm } from '@/lib/crypto/envelope';
+import {
+  OpenedSignedMessage,
+  createSignedMessage,
+  openSignedMessage
+} from '@/lib/crypto/signature-crypto';
 
 interface UseEncryptionOptions {
   liveTyping?: boolean;
   typingSpeed?: number;
   onComplete?: (result: EncryptionResult) => void;
+  signingKey?: string; // Private key to sign the plaintext with before encrypting
+  verificationKey?: string; // Sender's public key to check signed messages against
 }
 
 export function useEncryption(options: UseEncryptionOptions = {}) {
   const { 
     liveTyping = false,
     typingSpeed = 50, 
-    onComplete 
+    onComplete,
+    signingKey,
+    verificationKey
   } = options;
 
   const [input, setInput] = useState<string>('');
   const [key, setKey] = useState<string>('');
+  const [publicKey, setPublicKey] = useState<string>('');
+  const [privateKey, setPrivateKey] = useState<string>('');
+  const [isGeneratingKeys, setIsGeneratingKeys] = useState<boolean>(false);
   const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>(EncryptionAlgorithm.AES);
   const [params, setParams] = useState<EncryptionParams>({});
   const [isEncrypting, setIsEncrypting] = useState<boolean>(false);
@@ -39,17 +52,16 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0);
   const [displayedOutput, setDisplayedOutput] = useState<string>('');
-  const [keyStrength, setKeyStrength] = useState<number>(0);
+  const [signedMessage, setSignedMessage] = useState<OpenedSignedMessage | null>(null);
+
+  // Asymmetric algorithms encrypt with the public key and decrypt with the private key
+  const isAsymmetric = isAsymmetricAlgorithm(algorithm);
 
-  // Update key strength when key changes
+  // Key pairs are algorithm-specific, clear them when switching algorithms
   useEffect(() => {
-    if (key) {
-      // Use the browser implementation instead of CryptoJS
-      setKeyStrength(browserMeasureKeyStrength(key));
-    } else {
-      setKeyStrength(0);
-    }
-  }, [key]);
+    setPublicKey('');
+    setPrivateKey('');
+  }, [algorithm]);
 
   // Handle live typing animation for encryption
   useEffect(() => {
@@ -99,10 +111,27 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     }
   }, [decryptionResult, liveTyping, typingSpeed]);
 
+  // Function to generate a key pair for asymmetric algorithms
+  const generateKeyPair = useCallback(async (option: string) => {
+    setError(null);
+    setIsGeneratingKeys(true);
+    
+    try {
+      const keyPair = await browserGenerateKeyPair(algorithm, option);
+      setPublicKey(keyPair.publicKey);
+      setPrivateKey(keyPair.privateKey);
+    } catch (err) {
+      setError(`Key generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsGeneratingKeys(false);
+    }
+  }, [algorithm]);
+
   // Function to handle encryption
   const handleEncrypt = useCallback(async () => {
-    if (!input || !key) {
-      setError('Input and key are required');
+    const encryptionKey = isAsymmetric ? publicKey : key;
+    if (!input || !encryptionKey) {
+      setError(isAsymmetric ? 'Input and public key are required' : 'Input and key are required');
       return;
     }
 
@@ -126,8 +155,11 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
         }, 200);
       }
       
+      // Sign-then-encrypt: the signature travels inside the ciphertext
+      const plaintext = signingKey ? await createSignedMessage(input, signingKey) : input;
+      
       // Use browser crypto implementation instead of CryptoJS
-      const result = await browserEncrypt(input, key, algorithm, params);
+      const result = await browserEncrypt(plaintext, encryptionKey, algorithm, params);
       
       setEncryptionResult(result);
       setDecryptionResult(null);
@@ -146,12 +178,15 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     } finally {
       setIsEncrypting(false);
     }
-  }, [input, key, algorithm, params, liveTyping, onComplete]);
+  }, [input, key, publicKey, isAsymmetric, algorithm, params, liveTyping, onComplete, signingKey]);
 
   // Function to handle decryption
   const handleDecrypt = useCallback(async () => {
-    if (!input || !key) {
-      setError('Input and key are required');
+    // A pasted envelope names its algorithm, which decides the key whatever is selected
+    const needsPrivateKey = isAsymmetricAlgorithm(getEnvelopeAlgorithm(input) ?? algorithm);
+    const decryptionKey = needsPrivateKey ? privateKey : key;
+    if (!input || !decryptionKey) {
+      setError(needsPrivateKey ? 'Input and private key are required' : 'Input and key are required');
       return;
     }
 
@@ -159,6 +194,7 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     setIsDecrypting(true);
     setProgress(0);
     setDisplayedOutput('');
+    setSignedMessage(null);
     
     try {
       // If not using live typing animation, show a progress indicator
@@ -176,7 +212,14 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
       }
       
       // Use browser crypto implementation instead of CryptoJS
-      const result = await browserDecrypt(input, key, algorithm, params);
+      let result = await browserDecrypt(input, decryptionKey, algorithm, params);
+      
+      // Signed messages are verified automatically and unwrapped
+      const opened = await openSignedMessage(result.result, verificationKey || undefined);
+      if (opened) {
+        setSignedMessage(opened);
+        result = { ...result, result: opened.message };
+      }
       
       setDecryptionResult(result);
       setEncryptionResult(null);
@@ -195,7 +238,7 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     } finally {
       setIsDecrypting(false);
     }
-  }, [input, key, algorithm, params, liveTyping, onComplete]);
+  }, [input, key, privateKey, algorithm, params, liveTyping, onComplete, verificationKey]);
 
   // Reset all states
   const reset = useCallback(() => {
@@ -203,6 +246,7 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     setDisplayedOutput('');
     setEncryptionResult(null);
     setDecryptionResult(null);
+    setSignedMessage(null);
     setError(null);
     setProgress(0);
   }, []);
@@ -212,7 +256,13 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     setInput,
     key,
     setKey,
-    keyStrength,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isAsymmetric,
+    isGeneratingKeys,
+    generateKeyPair,
     algorithm,
     setAlgorithm,
     params,
@@ -222,6 +272,7 @@ export function useEncryption(options: UseEncryptionOptions = {}) {
     encryptionResult,
     decryptionResult,
     displayedOutput,
+    signedMessage,
     error,
     progress,
     handleEncrypt,
@@ -1,9 +1,10 @@
 "use client";
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { 
   EncryptionAlgorithm, 
-  EncryptionParams 
+  EncryptionParams,
+  isAsymmetricAlgorithm
 } from '@/lib/crypto/encryption-service';
 
 // Import browser-based implementations
@@ -15,6 +16,7 @@ import {
   FileBrowserEncryptionResult,
   readEncryptedFile
 } from '@/lib/crypto/browser-file-crypto';
+import { browserGenerateKeyPair } from '@/lib/crypto/browser-crypto';
 
 interface UseFileEncryptionOptions {
   onComplete?: (result: FileBrowserEncryptionResult) => void;
@@ -30,8 +32,12 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
   const [file, setFile] = useState<File | null>(null);
   const [encryptedData, setEncryptedData] = useState<string | null>(null);
   const [key, setKey] = useState<string>('');
+  const [publicKey, setPublicKey] = useState<string>('');
+  const [privateKey, setPrivateKey] = useState<string>('');
+  const [isGeneratingKeys, setIsGeneratingKeys] = useState<boolean>(false);
   const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>(defaultAlgorithm);
   const [params, setParams] = useState<EncryptionParams>({});
+  const [decryptionAad, setDecryptionAad] = useState<string>('');
   const [isEncrypting, setIsEncrypting] = useState<boolean>(false);
   const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
   const [encryptionResult, setEncryptionResult] = useState<FileBrowserEncryptionResult | null>(null);
@@ -39,10 +45,56 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0);
 
+  // Asymmetric algorithms encrypt with the public key
+  const isAsymmetric = isAsymmetricAlgorithm(algorithm);
+
+  // Key pairs are algorithm-specific, clear them when switching algorithms
+  useEffect(() => {
+    setPublicKey('');
+    setPrivateKey('');
+  }, [algorithm]);
+
+  // Algorithm recorded in the encrypted file's metadata, decides which key decrypts it
+  const encryptedAlgorithm = useMemo((): EncryptionAlgorithm | null => {
+    if (!encryptedData) return null;
+    try {
+      return JSON.parse(encryptedData).metadata?.algorithm || null;
+    } catch {
+      return null;
+    }
+  }, [encryptedData]);
+
+  // Files only record that they were encrypted with associated data, not the data itself
+  const encryptedAadRequired = useMemo((): boolean => {
+    if (!encryptedData) return false;
+    try {
+      return Boolean(JSON.parse(encryptedData).metadata?.aadRequired);
+    } catch {
+      return false;
+    }
+  }, [encryptedData]);
+
+  // Function to generate a key pair for asymmetric algorithms
+  const generateKeyPair = useCallback(async (option: string) => {
+    setError(null);
+    setIsGeneratingKeys(true);
+    
+    try {
+      const keyPair = await browserGenerateKeyPair(algorithm, option);
+      setPublicKey(keyPair.publicKey);
+      setPrivateKey(keyPair.privateKey);
+    } catch (err) {
+      setError(`Key generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsGeneratingKeys(false);
+    }
+  }, [algorithm]);
+
   // Function to handle file encryption
   const handleEncryptFile = useCallback(async () => {
-    if (!file || !key) {
-      setError('File and key are required');
+    const encryptionKey = isAsymmetric ? publicKey : key;
+    if (!file || !encryptionKey) {
+      setError(isAsymmetric ? 'File and public key are required' : 'File and key are required');
       return;
     }
 
@@ -52,7 +104,7 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
     
     try {
       // Use browser-based implementation
-      const result = await browserEncryptFile(file, key, algorithm, params, (p) => {
+      const result = await browserEncryptFile(file, encryptionKey, algorithm, params, (p) => {
         setProgress(p);
       });
       
@@ -69,12 +121,14 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
     } finally {
       setIsEncrypting(false);
     }
-  }, [file, key, algorithm, params, onComplete]);
+  }, [file, key, publicKey, isAsymmetric, algorithm, params, onComplete]);
 
   // Function to handle file decryption
   const handleDecryptFile = useCallback(async () => {
-    if (!encryptedData || !key) {
-      setError('Encrypted data and key are required');
+    const needsPrivateKey = encryptedAlgorithm !== null && isAsymmetricAlgorithm(encryptedAlgorithm);
+    const decryptionKey = needsPrivateKey ? privateKey : key;
+    if (!encryptedData || !decryptionKey) {
+      setError(needsPrivateKey ? 'Encrypted data and private key are required' : 'Encrypted data and key are required');
       return;
     }
 
@@ -83,10 +137,10 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
     setProgress(0);
     
     try {
-      console.log('Starting file decryption with key:', key.substring(0, 3) + '...');
+      console.log('Starting file decryption with key:', decryptionKey.substring(0, 3) + '...');
       
       // Use browser-based implementation
-      const result = await browserDecryptFile(encryptedData, key, (p) => {
+      const result = await browserDecryptFile(encryptedData, decryptionKey, decryptionAad || undefined, (p) => {
         setProgress(p);
       });
       
@@ -103,7 +157,7 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
     } finally {
       setIsDecrypting(false);
     }
-  }, [encryptedData, key, onComplete]);
+  }, [encryptedData, encryptedAlgorithm, key, privateKey, decryptionAad, onComplete]);
 
   // Function to handle file drop or selection
   const handleFileChange = useCallback((newFile: File | null) => {
@@ -187,12 +241,23 @@ export function useFileEncryption(options: UseFileEncryptionOptions = {}) {
   return {
     file,
     encryptedData,
+    encryptedAlgorithm,
+    encryptedAadRequired,
     key,
     setKey,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isAsymmetric,
+    isGeneratingKeys,
+    generateKeyPair,
     algorithm,
     setAlgorithm,
     params,
     setParams,
+    decryptionAad,
+    setDecryptionAad,
     isEncrypting,
     isDecrypting,
     encryptionResult,
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  SignatureAlgorithm,
+  VerificationResult,
+  generateSigningKeyPair,
+  signData,
+  verifySignature
+} from '@/lib/crypto/signature-crypto';
+
+export function useSignature() {
+  const [signatureAlgorithm, setSignatureAlgorithm] = useState<SignatureAlgorithm>('ECDSA-P256');
+  const [publicKey, setPublicKey] = useState<string>('');
+  const [privateKey, setPrivateKey] = useState<string>('');
+  const [isGeneratingKeys, setIsGeneratingKeys] = useState<boolean>(false);
+  const [signature, setSignature] = useState<string>('');
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Key pairs are algorithm-specific, clear them when switching algorithms
+  useEffect(() => {
+    setPublicKey('');
+    setPrivateKey('');
+  }, [signatureAlgorithm]);
+
+  // Function to generate a signing key pair
+  const generateKeyPair = useCallback(async () => {
+    setError(null);
+    setIsGeneratingKeys(true);
+
+    try {
+      const keyPair = await generateSigningKeyPair(signatureAlgorithm);
+      setPublicKey(keyPair.publicKey);
+      setPrivateKey(keyPair.privateKey);
+    } catch (err) {
+      setError(`Key generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsGeneratingKeys(false);
+    }
+  }, [signatureAlgorithm]);
+
+  // Function to sign text or file contents with the private key
+  const sign = useCallback(async (data: string | ArrayBuffer) => {
+    if (!privateKey) {
+      setError('A private key is required to sign');
+      return;
+    }
+
+    setError(null);
+    setIsSigning(true);
+    setSignature('');
+
+    try {
+      setSignature(await signData(data, privateKey));
+    } catch (err) {
+      setError(`Signing failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSigning(false);
+    }
+  }, [privateKey]);
+
+  // Function to check a detached signature with the public key
+  const verify = useCallback(async (data: string | ArrayBuffer, signatureToCheck: string) => {
+    if (!publicKey || !signatureToCheck) {
+      setError('A signature and public key are required to verify');
+      return;
+    }
+
+    setError(null);
+    setIsVerifying(true);
+    setVerification(null);
+
+    try {
+      setVerification(await verifySignature(data, signatureToCheck, publicKey));
+    } catch (err) {
+      setError(`Verification failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [publicKey]);
+
+  // Reset results but keep the keys
+  const reset = useCallback(() => {
+    setSignature('');
+    setVerification(null);
+    setError(null);
+  }, []);
+
+  return {
+    signatureAlgorithm,
+    setSignatureAlgorithm,
+    publicKey,
+    setPublicKey,
+    privateKey,
+    setPrivateKey,
+    isGeneratingKeys,
+    generateKeyPair,
+    signature,
+    setSignature,
+    verification,
+    isSigning,
+    isVerifying,
+    error,
+    sign,
+    verify,
+    reset
+  };
+}
@@ -1,4 +1,6 @@
 import { EncryptionAlgorithm } from "./crypto/encryption-service";
+import { HashAlgorithm } from "./crypto/hash-service";
+import { getCipherProviders } from "./crypto/cipher-registry";
 
 export interface AlgorithmStat {
     algorithm: EncryptionAlgorithm;
@@ -10,78 +12,99 @@ export interface AlgorithmStat {
     standardStatus: string;
 }
 
- // Base algorithm stats (these would ideally come from a backend service)
-export const baseStats: AlgorithmStat[] = [
+ // Base algorithm stats, declared by each cipher's provider (these would ideally come from a backend service)
+export const baseStats: AlgorithmStat[] = getCipherProviders().map(({ algorithm, stats }) => ({ algorithm, ...stats }));
+
+export interface HashStat {
+    algorithm: HashAlgorithm;
+    digestSize: number; // bits
+    collisionResistance: number; // bits of work for the best known collision attack
+    yearIntroduced: number;
+    collisionStatus: string;
+    broken: boolean;
+    standardStatus: string;
+}
+
+export const hashStats: HashStat[] = [
     {
-      algorithm: EncryptionAlgorithm.AES,
-      speed: 5, // Relative speed metric
-      security: 95,
-      complexity: 80,
-      keySize: 256,
-      yearIntroduced: 2001,
-      standardStatus: 'NIST Standard'
+      algorithm: HashAlgorithm.MD5,
+      digestSize: 128,
+      collisionResistance: 18, // Xie, Liu and Feng (2013) find collisions in about 2^18 MD5 computations
+      yearIntroduced: 1992,
+      collisionStatus: 'Broken: practical collisions (2004), chosen-prefix (2007)',
+      broken: true,
+      standardStatus: 'Deprecated'
     },
     {
-      algorithm: EncryptionAlgorithm.DES,
-      speed: 10,
-      security: 40, // Considered weak today
-      complexity: 65,
-      keySize: 56,
-      yearIntroduced: 1975,
+      algorithm: HashAlgorithm.SHA1,
+      digestSize: 160,
+      collisionResistance: 63, // SHAttered took about 2^63 SHA-1 computations
+      yearIntroduced: 1995,
+      collisionStatus: 'Broken: SHAttered collision (2017), chosen-prefix (2020)',
+      broken: true,
       standardStatus: 'Deprecated'
     },
     {
-      algorithm: EncryptionAlgorithm.TripleDES,
-      speed: 15,
-      security: 70,
-      complexity: 70,
-      keySize: 168,
-      yearIntroduced: 1995,
-      standardStatus: 'Legacy'
+      algorithm: HashAlgorithm.SHA256,
+      digestSize: 256,
+      collisionResistance: 128,
+      yearIntroduced: 2001,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'NIST Standard'
     },
     {
-      algorithm: EncryptionAlgorithm.RC4,
-      speed: 3,
-      security: 30, // Considered broken
-      complexity: 50,
-      keySize: 128,
-      yearIntroduced: 1987,
-      standardStatus: 'Deprecated'
+      algorithm: HashAlgorithm.SHA384,
+      digestSize: 384,
+      collisionResistance: 192,
+      yearIntroduced: 2001,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'NIST Standard'
+    },
+    {
+      algorithm: HashAlgorithm.SHA512,
+      digestSize: 512,
+      collisionResistance: 256,
+      yearIntroduced: 2001,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'NIST Standard'
     },
     {
-      algorithm: EncryptionAlgorithm.Rabbit,
-      speed: 2,
-      security: 75,
-      complexity: 60,
-      keySize: 128,
-      yearIntroduced: 2003,
-      standardStatus: 'eSTREAM Portfolio'
+      algorithm: HashAlgorithm.SHA3_256,
+      digestSize: 256,
+      collisionResistance: 128,
+      yearIntroduced: 2015,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'NIST Standard'
     },
     {
-      algorithm: EncryptionAlgorithm.OTP,
-      speed: 1,
-      security: 100, // Theoretically unbreakable if used correctly
-      complexity: 30,
-      keySize: Infinity, // Key must be as long as the message
-      yearIntroduced: 1882,
-      standardStatus: 'Theoretical'
+      algorithm: HashAlgorithm.SHA3_512,
+      digestSize: 512,
+      collisionResistance: 256,
+      yearIntroduced: 2015,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'NIST Standard'
     },
     {
-      algorithm: EncryptionAlgorithm.BLOWFISH,
-      speed: 6,
-      security: 70,
-      complexity: 65,
-      keySize: 448,
-      yearIntroduced: 1993,
-      standardStatus: 'Public Domain'
+      algorithm: HashAlgorithm.BLAKE2b,
+      digestSize: 512,
+      collisionResistance: 256,
+      yearIntroduced: 2012,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'RFC 7693'
     },
     {
-      algorithm: EncryptionAlgorithm.ChaCha20,
-      speed: 2,
-      security: 90,
-      complexity: 75,
-      keySize: 256,
-      yearIntroduced: 2008,
-      standardStatus: 'RFC 8439'
+      algorithm: HashAlgorithm.BLAKE3,
+      digestSize: 256,
+      collisionResistance: 128,
+      yearIntroduced: 2020,
+      collisionStatus: 'No known collisions',
+      broken: false,
+      standardStatus: 'IETF Draft'
     }
 ];
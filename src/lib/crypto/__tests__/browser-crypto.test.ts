@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from '../cipher-provider';
+import { browserDecrypt, browserEncrypt } from '../browser-crypto';
+import { arrayBufferToHex } from '../encoding';
+import { decodeEnvelope } from '../envelope';
+import { getStorableParams } from '../encryption-service';
+
+const PLAINTEXT = 'Attack at dawn';
+const KEY = 'correct horse';
+
+describe('chosen IV', () => {
+  it.each([
+    [EncryptionAlgorithm.AES, EncryptionMode.CBC, '000102030405060708090a0b0c0d0e0f'],
+    [EncryptionAlgorithm.AES, EncryptionMode.CTR, 'f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff'],
+    [EncryptionAlgorithm.TripleDES, EncryptionMode.OFB, '0011223344556677']
+  ])('%s-%s encrypts with the IV typed in', async (algorithm, mode, iv) => {
+    const { result, params } = await browserEncrypt(PLAINTEXT, KEY, algorithm, { mode, iv });
+    expect(arrayBufferToHex(decodeEnvelope(result).nonce!)).toBe(iv);
+    expect((await browserDecrypt(result, KEY, algorithm, params)).result).toBe(PLAINTEXT);
+  });
+
+  it('gives GCM a random nonce whatever IV is typed in', async () => {
+    const iv = '000102030405060708090a0b0c0d0e0f';
+    const { result } = await browserEncrypt(PLAINTEXT, KEY, EncryptionAlgorithm.AES, { mode: EncryptionMode.GCM, iv });
+    expect(arrayBufferToHex(decodeEnvelope(result).nonce!)).not.toBe(iv);
+  });
+
+  it('rejects an IV of the wrong length or not in hex', async () => {
+    const params = { mode: EncryptionMode.CBC, padding: PaddingMethod.PKCS7 };
+    await expect(browserEncrypt(PLAINTEXT, KEY, EncryptionAlgorithm.AES, { ...params, iv: '0001020304050607' }))
+      .rejects.toThrow('AES-CBC needs an IV of 16 bytes (32 hex digits), got 8 bytes');
+    await expect(browserEncrypt(PLAINTEXT, KEY, EncryptionAlgorithm.AES, { ...params, iv: 'not hex' }))
+      .rejects.toThrow('The IV must be hex');
+  });
+});
+
+describe('associated data', () => {
+  it.each([
+    [EncryptionAlgorithm.AES, { mode: EncryptionMode.GCM }],
+    [EncryptionAlgorithm.ChaCha20, {}]
+  ])('%s decrypts only with the same associated data', async (algorithm, params) => {
+    const { result } = await browserEncrypt(PLAINTEXT, KEY, algorithm, { ...params, aad: 'record-42' });
+    expect((await browserDecrypt(result, KEY, algorithm, { aad: 'record-42' })).result).toBe(PLAINTEXT);
+    await expect(browserDecrypt(result, KEY, algorithm, { aad: 'record-43' }))
+      .rejects.toThrow('authentication failed: associated data mismatch');
+    await expect(browserDecrypt(result, KEY, algorithm))
+      .rejects.toThrow('authentication failed: associated data mismatch');
+  });
+
+  it('is checked under the key, so the envelope does not give it away', async () => {
+    const params = { mode: EncryptionMode.GCM, aad: 'record-42', keyFormat: 'hex' };
+    const first = await browserEncrypt(PLAINTEXT, '00'.repeat(32), EncryptionAlgorithm.AES, params);
+    const second = await browserEncrypt(PLAINTEXT, '11'.repeat(32), EncryptionAlgorithm.AES, params);
+    expect(decodeEnvelope(first.result).aadCheck).not.toEqual(decodeEnvelope(second.result).aadCheck);
+    await expect(browserDecrypt(first.result, '22'.repeat(32), EncryptionAlgorithm.AES, params))
+      .rejects.toThrow('associated data mismatch or wrong key');
+  });
+
+  it('is refused by modes that do not authenticate', async () => {
+    await expect(browserEncrypt(PLAINTEXT, KEY, EncryptionAlgorithm.AES, { mode: EncryptionMode.CBC, aad: 'record-42' }))
+      .rejects.toThrow('AES-CBC cannot authenticate associated data');
+  });
+
+  it('is left out of parameters stored with a ciphertext', () => {
+    expect(getStorableParams({ mode: EncryptionMode.GCM, aad: 'record-42', salt: 'c2FsdA==' }))
+      .toEqual({ mode: EncryptionMode.GCM, salt: 'c2FsdA==' });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from '../cipher-provider';
+import { browserDecrypt, browserEncrypt } from '../browser-crypto';
+import { arrayBufferToHex, hexToArrayBuffer, stringToArrayBuffer } from '../encoding';
+import { blowfish } from '../ciphers/blowfish';
+import { chacha20, xchacha20 } from '../ciphers/chacha20';
+import { KeyDerivationFunction } from '../kdf';
+import { des } from '../ciphers/des';
+import { tripleDes } from '../ciphers/triple-des';
+import { rabbit } from '../ciphers/rabbit';
+import { rc4 } from '../ciphers/rc4';
+
+const ECB_UNPADDED = { mode: EncryptionMode.ECB, padding: PaddingMethod.NoPadding };
+
+describe('DES', () => {
+  it('matches the textbook single-block example', async () => {
+    const { ciphertext } = await des.encrypt({ key: hexToArrayBuffer('133457799bbcdff1') }, hexToArrayBuffer('0123456789abcdef'), ECB_UNPADDED);
+    expect(arrayBufferToHex(ciphertext)).toBe('85e813540f0ab405');
+  });
+});
+
+describe('3DES', () => {
+  it('matches the NIST SP 800-67 example', async () => {
+    const key = hexToArrayBuffer('0123456789abcdef23456789abcdef01456789abcdef0123');
+    const { ciphertext } = await tripleDes.encrypt({ key }, stringToArrayBuffer('The qufck brown fox jump'), ECB_UNPADDED);
+    expect(arrayBufferToHex(ciphertext)).toBe('a826fd8ce53b855fcce21c8112256fe668d5c05dd9b6b900');
+  });
+});
+
+describe('RC4', () => {
+  it('matches the "Key" / "Plaintext" test vector', async () => {
+    const { ciphertext } = await rc4.encrypt({ key: stringToArrayBuffer('Key') }, stringToArrayBuffer('Plaintext'), {});
+    expect(arrayBufferToHex(ciphertext)).toBe('bbf316e8d940af0ad3');
+  });
+});
+
+describe('Rabbit', () => {
+  // CryptoJS writes each 16-byte keystream block in the reverse byte order of
+  // RFC 4503; this is the first block of its all-zero key and IV vector
+  it('matches RFC 4503 with CryptoJS byte order', async () => {
+    const { ciphertext } = await rabbit.encrypt({ key: new Uint8Array(16) }, new Uint8Array(16), { iv: new Uint8Array(8) });
+    const rfcBlock = hexToArrayBuffer('c6a7275ef85495d87ccd5d376705b7ed');
+    expect(arrayBufferToHex(ciphertext)).toBe(arrayBufferToHex(rfcBlock.reverse()));
+  });
+});
+
+// AES-GCM output from before the envelope, made with Node's crypto module from
+// the passphrase "correct horse" and the IV 000102...0b
+describe('AES pre-envelope formats', () => {
+  it.each([
+    ['[IV][ciphertext] keyed with SHA-256 of the passphrase', 'AAECAwQFBgcICQoLTrOIAWgvQ0Cd1GfTCAigAc9fQUNBT9tDj+AUzroA'],
+    ['[PBK2][1000 iterations][salt][IV][ciphertext]', 'UEJLMgAAA+gRERERERERERERERERERERAAECAwQFBgcICQoL/Qltom1/Ki49tqMthLlZXiUMlPZVZ4dZTArOO9H4']
+  ])('decrypts %s', async (_, ciphertext) => {
+    const { result, params } = await browserDecrypt(ciphertext, 'correct horse', EncryptionAlgorithm.AES);
+    expect(result).toBe('Attack at dawn');
+    expect(params?.iv).toBe('AAECAwQFBgcICQoL');
+    await expect(browserDecrypt(ciphertext, 'wrong horse', EncryptionAlgorithm.AES)).rejects.toThrow('wrong key');
+  });
+});
+
+describe('Blowfish', () => {
+  // Eric Young's test vectors
+  it.each([
+    ['0000000000000000', '0000000000000000', '4ef997456198dd78'],
+    ['ffffffffffffffff', 'ffffffffffffffff', '51866fd5b85ecb8a'],
+    ['3000000000000000', '1000000000000001', '7d856f9a613063f2']
+  ])('key %s encrypts %s to %s', async (key, plaintext, ciphertext) => {
+    const encrypted = await blowfish.encrypt({ key: hexToArrayBuffer(key) }, hexToArrayBuffer(plaintext), ECB_UNPADDED);
+    expect(arrayBufferToHex(encrypted.ciphertext)).toBe(ciphertext);
+  });
+
+  it('derives keys of 32 to 448 bits', async () => {
+    expect((await blowfish.deriveKey('secret', { keySize: 1 })).key).toHaveLength(4);
+    expect((await blowfish.deriveKey('secret', { keySize: 14 })).key).toHaveLength(56);
+    await expect(blowfish.deriveKey('secret', { keySize: 15 })).rejects.toThrow('between 32 and 448 bits');
+  });
+
+  it.each([1, 14])('decrypts with a %i-word key size', async keySize => {
+    const { result, params } = await browserEncrypt('Attack at dawn', 'correct horse', EncryptionAlgorithm.BLOWFISH, { keySize });
+    const decrypted = await browserDecrypt(result, 'correct horse', EncryptionAlgorithm.BLOWFISH, params ?? {});
+    expect(decrypted.result).toBe('Attack at dawn');
+  });
+});
+
+// Shared by the RFC 8439 and XChaCha20 draft AEAD examples
+const AEAD_KEY = hexToArrayBuffer('808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f');
+const AEAD_PLAINTEXT = stringToArrayBuffer(
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it."
+);
+const AEAD_AAD = hexToArrayBuffer('50515253c0c1c2c3c4c5c6c7');
+
+describe('ChaCha20-Poly1305', () => {
+  const nonce = hexToArrayBuffer('070000004041424344454647');
+  const expected = {
+    ciphertext: 'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d63dbea45e8ca9671282fafb69da92728b' +
+      '1a71de0a9e060b2905d6a5b67ecd3b3692ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc3ff4' +
+      'def08e4b7a9de576d26586cec64b6116',
+    tag: '1ae10b594f09e26a7e902ecbd0600691'
+  };
+
+  it('matches RFC 8439 section 2.8.2', async () => {
+    const { ciphertext, tag } = await chacha20.encrypt({ key: AEAD_KEY }, AEAD_PLAINTEXT, { iv: nonce, aad: AEAD_AAD });
+    expect(arrayBufferToHex(ciphertext)).toBe(expected.ciphertext);
+    expect(arrayBufferToHex(tag!)).toBe(expected.tag);
+  });
+
+  it('rejects a tampered tag', async () => {
+    const tag = hexToArrayBuffer(expected.tag);
+    tag[0] ^= 1;
+    await expect(chacha20.decrypt(
+      { key: AEAD_KEY },
+      { ciphertext: hexToArrayBuffer(expected.ciphertext), iv: nonce, tag },
+      { aad: AEAD_AAD }
+    )).rejects.toThrow('authentication tag mismatch');
+  });
+});
+
+describe('XChaCha20-Poly1305', () => {
+  it('matches draft-irtf-cfrg-xchacha appendix A.3.1', async () => {
+    const nonce = hexToArrayBuffer('404142434445464748494a4b4c4d4e4f5051525354555657');
+    const { ciphertext, tag } = await xchacha20.encrypt({ key: AEAD_KEY }, AEAD_PLAINTEXT, { iv: nonce, aad: AEAD_AAD });
+    expect(arrayBufferToHex(ciphertext)).toBe(
+      'bd6d179d3e83d43b9576579493c0e939572a1700252bfaccbed2902c21396cbb731c7f1b0b4aa6440bf3a82f4eda7e39' +
+      'ae64c6708c54c216cb96b72e1213b4522f8c9ba40db5d945b11b69b982c1bb9e3f3fac2bc369488f76b2383565d3fff9' +
+      '21f9664c97637da9768812f615c68b13b52e'
+    );
+    expect(arrayBufferToHex(tag!)).toBe('c0875924c1c7987947deafd8780acf49');
+  });
+});
+
+describe('ChaCha key derivation', () => {
+  // Small memory costs keep the test fast, the salt and parameters travel in the envelope
+  it.each([
+    [KeyDerivationFunction.Scrypt, { memory: 1024 }],
+    [KeyDerivationFunction.Argon2id, { iterations: 2, memory: 256 }]
+  ])('round trips with a %s key', async (kdf, costs) => {
+    const algorithm = EncryptionAlgorithm.ChaCha20;
+    const { result } = await browserEncrypt('Attack at dawn ✓', 'correct horse', algorithm, { kdf, ...costs });
+    const decrypted = await browserDecrypt(result, 'correct horse', algorithm);
+    expect(decrypted.result).toBe('Attack at dawn ✓');
+    expect(decrypted.params).toMatchObject({ kdf, ...costs });
+    await expect(browserDecrypt(result, 'wrong horse', algorithm)).rejects.toThrow('authentication tag mismatch');
+  });
+});
+
+describe('passphrase round trips', () => {
+  it.each([
+    EncryptionAlgorithm.DES,
+    EncryptionAlgorithm.TripleDES,
+    EncryptionAlgorithm.Rabbit,
+    EncryptionAlgorithm.RC4,
+    EncryptionAlgorithm.ChaCha20,
+    EncryptionAlgorithm.XChaCha20
+  ])('%s decrypts what it encrypts', async algorithm => {
+    const { result, params } = await browserEncrypt('Attack at dawn ✓', 'correct horse', algorithm, {});
+    const decrypted = await browserDecrypt(result, 'correct horse', algorithm, params ?? {});
+    expect(decrypted.result).toBe('Attack at dawn ✓');
+  });
+});
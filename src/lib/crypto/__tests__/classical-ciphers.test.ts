@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ClassicalCipher, ClassicalParams, classicalDecrypt, classicalEncrypt } from '../classical-ciphers';
+import { ENIGMA_DEFAULTS, ENIGMA_REFLECTORS, runEnigma } from '../enigma';
+
+const encrypt = async (text: string, key: string, cipher: ClassicalCipher, params?: ClassicalParams) =>
+  (await classicalEncrypt(text, key, cipher, params)).result;
+const decrypt = async (text: string, key: string, cipher: ClassicalCipher, params?: ClassicalParams) =>
+  (await classicalDecrypt(text, key, cipher, params)).result;
+
+describe('classical ciphers', () => {
+  it.each([
+    [ClassicalCipher.Caesar, '3', 'The quick brown fox', 'Wkh txlfn eurzq ira'],
+    [ClassicalCipher.Atbash, '', 'Hello', 'Svool'],
+    [ClassicalCipher.Vigenere, 'LEMON', 'ATTACKATDAWN', 'LXFOPVEFRNHR'],
+    [ClassicalCipher.Vigenere, 'LEMON', 'Attack at dawn!', 'Lxfopv ef rnhr!'],
+    [ClassicalCipher.Playfair, 'playfair example', 'Hide the gold in the tree stump', 'BMODZBXDNABEKUDMUIXMMOUVIF'],
+    [ClassicalCipher.RailFence, '3', 'WEAREDISCOVEREDFLEEATONCE', 'WECRLTEERDSOEEFEAOCAIVDEN'],
+    [ClassicalCipher.Columnar, 'ZEBRAS', 'WEAREDISCOVEREDFLEEATONCEQKJEU', 'EVLNEACDTKESEAQROFOJDEECUWIREE'],
+    [ClassicalCipher.Columnar, 'ZEBRAS', 'WEAREDISCOVEREDFLEEATONCE', 'EVLNACDTESEAROFODEECWIREE']
+  ])('%s with key "%s" encrypts "%s" to "%s"', async (cipher, key, plaintext, ciphertext) => {
+    expect(await encrypt(plaintext, key, cipher)).toBe(ciphertext);
+  });
+
+  it.each([
+    [ClassicalCipher.Caesar, 'D'],
+    [ClassicalCipher.Vigenere, 'LEMON'],
+    [ClassicalCipher.RailFence, '4'],
+    [ClassicalCipher.Columnar, 'ZEBRAS']
+  ])('%s decrypts what it encrypts', async (cipher, key) => {
+    const plaintext = 'We are discovered, flee at once!';
+    expect(await decrypt(await encrypt(plaintext, key, cipher), key, cipher)).toBe(plaintext);
+  });
+
+  it('warns that Playfair loses the exact plaintext', async () => {
+    const { warnings } = await classicalEncrypt('balloon', 'KEYWORD', ClassicalCipher.Playfair);
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('Enigma I', () => {
+  it('encrypts AAAAA to BDZGO with rotors I-II-III, reflector B and everything at A', async () => {
+    expect(await encrypt('AAAAA', 'AAA', ClassicalCipher.Enigma)).toBe('BDZGO');
+  });
+
+  it('shifts the output with the ring settings', async () => {
+    expect(await encrypt('AAAAA', 'AAA', ClassicalCipher.Enigma, { ringSettings: 'BBB' })).toBe('EWTYX');
+  });
+
+  it('double steps the middle rotor', () => {
+    const steps = runEnigma('AAA', { ...ENIGMA_DEFAULTS, positions: 'ADU' });
+    expect(steps.map(step => step.positions)).toEqual(['ADV', 'AEW', 'BFX']);
+  });
+
+  it.each(Object.keys(ENIGMA_REFLECTORS))('has reflector %s swap letters in pairs', name => {
+    const wiring = ENIGMA_REFLECTORS[name];
+    [...wiring].forEach((letter, i) => {
+      const index = letter.charCodeAt(0) - 65;
+      expect(index).not.toBe(i);
+      expect(wiring.charCodeAt(index) - 65).toBe(i);
+    });
+  });
+
+  it('is its own inverse, plugboard included', async () => {
+    const params = { rotors: ['IV', 'II', 'V'] as [string, string, string], reflector: 'C', ringSettings: 'KXG', plugboard: 'AQ BJ CX' };
+    const ciphertext = await encrypt('ENIGMAREVEALED', 'BLA', ClassicalCipher.Enigma, params);
+    expect(ciphertext).not.toBe('ENIGMAREVEALED');
+    expect(await encrypt(ciphertext, 'BLA', ClassicalCipher.Enigma, params)).toBe('ENIGMAREVEALED');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ClassicalCipher, classicalEncrypt } from '../classical-ciphers';
+import { applySubstitution, breakCaesar, breakVigenere, solveSubstitution } from '../cryptanalysis';
+
+const PLAINTEXT =
+  'Quantum computing exploits superposition and entanglement to perform certain calculations exponentially ' +
+  'faster than classical machines. Building reliable qubits remains extremely difficult, however, because tiny ' +
+  'vibrations, stray magnetic fields or heat quickly destroy the fragile quantum states engineers work so hard ' +
+  'to prepare and measure.';
+const SUBSTITUTION_KEY = 'QWERTYUIOPASDFGHJKLZXCVBNM';
+
+describe('breakCaesar', () => {
+  it('ranks the right shift first', async () => {
+    const { result } = await classicalEncrypt(PLAINTEXT, '7', ClassicalCipher.Caesar);
+    const [best] = await breakCaesar(result);
+    expect(best.key).toBe('7 (H)');
+    expect(best.plaintext).toBe(PLAINTEXT);
+  });
+});
+
+describe('breakVigenere', () => {
+  it('recovers the keyword', async () => {
+    const { result } = await classicalEncrypt(PLAINTEXT, 'LEMON', ClassicalCipher.Vigenere);
+    const [best] = await breakVigenere(result);
+    expect(best.key).toBe('LEMON');
+    expect(best.plaintext).toBe(PLAINTEXT);
+  });
+});
+
+describe('solveSubstitution', () => {
+  // Letters missing from the text can end up anywhere in the key, so only
+  // the plaintext is compared
+  it('solves about 300 letters', async () => {
+    const ciphertext = applySubstitution(PLAINTEXT, SUBSTITUTION_KEY);
+    const [best] = await solveSubstitution(ciphertext);
+    expect(best.plaintext).toBe(PLAINTEXT);
+    expect(best.warning).toBeUndefined();
+  }, 60000);
+
+  it('warns that short texts are unreliable', async () => {
+    const ciphertext = applySubstitution('The weather turned cold early this year.', SUBSTITUTION_KEY);
+    const [best] = await solveSubstitution(ciphertext, undefined, 4);
+    expect(best.warning).toMatch(/^Only 33 letters/);
+  });
+});
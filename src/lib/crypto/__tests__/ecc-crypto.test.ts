@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ECC_CURVES, EccCurve, deriveSharedSecret, eciesDecrypt, eciesEncrypt, generateEccKeyPair } from '../ecc-crypto';
+
+const MESSAGE = 'Attack at dawn ✓';
+
+describe('ECIES', () => {
+  it.each<EccCurve>([...ECC_CURVES])('round trips on %s', async curve => {
+    const { publicKey, privateKey } = await generateEccKeyPair(curve);
+    const ciphertext = await eciesEncrypt(MESSAGE, publicKey);
+    expect(await eciesDecrypt(ciphertext, privateKey)).toBe(MESSAGE);
+
+    // A fresh ephemeral key each time
+    expect(await eciesEncrypt(MESSAGE, publicKey)).not.toBe(ciphertext);
+  });
+
+  it('needs the private key the message was encrypted for', async () => {
+    const recipient = await generateEccKeyPair('P-256');
+    const ciphertext = await eciesEncrypt(MESSAGE, recipient.publicKey);
+    await expect(eciesDecrypt(ciphertext, (await generateEccKeyPair('P-256')).privateKey))
+      .rejects.toThrow('wrong private key or corrupted ciphertext');
+    await expect(eciesDecrypt(ciphertext, (await generateEccKeyPair('X25519')).privateKey))
+      .rejects.toThrow('Ciphertext was encrypted for a P-256 key, but the private key is X25519');
+  });
+});
+
+describe('deriveSharedSecret', () => {
+  it.each<EccCurve>([...ECC_CURVES])('gives both parties the same secret on %s', async curve => {
+    const alice = await generateEccKeyPair(curve);
+    const bob = await generateEccKeyPair(curve);
+    const fromAlice = await deriveSharedSecret(alice.privateKey, bob.publicKey);
+    const fromBob = await deriveSharedSecret(bob.privateKey, alice.publicKey);
+
+    expect(fromAlice).toEqual(fromBob);
+    expect(fromAlice.sharedSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect((await deriveSharedSecret(alice.privateKey, alice.publicKey)).sharedSecret).not.toBe(fromAlice.sharedSecret);
+  });
+
+  it('refuses keys on different curves', async () => {
+    const p256 = await generateEccKeyPair('P-256');
+    const p384 = await generateEccKeyPair('P-384');
+    await expect(deriveSharedSecret(p256.privateKey, p384.publicKey))
+      .rejects.toThrow('Curve mismatch: your key is P-256, the peer\'s key is P-384');
+  });
+});
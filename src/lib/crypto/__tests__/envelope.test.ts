@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from '../cipher-provider';
+import { browserDecrypt, browserEncrypt } from '../browser-crypto';
+import { arrayBufferToBase64, base64ToArrayBuffer, hexToArrayBuffer } from '../encoding';
+import { ENVELOPE_VERSION, decodeEnvelope, encodeEnvelope, getEnvelopeAlgorithm, isEnvelope } from '../envelope';
+import { KeyDerivationFunction } from '../kdf';
+
+// AES-CBC with PKCS7, a 256-bit key from PBKDF2 (100,000 iterations), a
+// 2-byte salt, a 2-byte IV and 3 bytes of ciphertext
+const envelope = {
+  algorithm: EncryptionAlgorithm.AES,
+  mode: EncryptionMode.CBC,
+  padding: PaddingMethod.PKCS7,
+  keySize: 8,
+  kdfParams: { kdf: KeyDerivationFunction.PBKDF2, iterations: 100000, memory: 0, parallelism: 1 },
+  salt: hexToArrayBuffer('aabb'),
+  nonce: hexToArrayBuffer('ccdd'),
+  ciphertext: hexToArrayBuffer('010203')
+};
+const encoded = (version: number, aadCheck: string) => arrayBufferToBase64(hexToArrayBuffer(
+  '434745' + // "CGE"
+  version.toString(16).padStart(2, '0') +
+  '01' + '02' + '02' + '08' + // AES, CBC, PKCS7, 8 words
+  '01' + '000186a0' + '00000000' + '01' + // PBKDF2, iterations, memory, parallelism
+  '02aabb' + '02ccdd' + '00' + // salt, nonce, no tag
+  aadCheck +
+  '010203'
+));
+
+describe('ciphertext envelope', () => {
+  it('writes the documented layout', () => {
+    expect(encodeEnvelope(envelope)).toBe(encoded(ENVELOPE_VERSION, '00'));
+  });
+
+  it('reads back what it writes', () => {
+    const aadCheck = hexToArrayBuffer('0102030405060708');
+    const decoded = decodeEnvelope(encodeEnvelope({ ...envelope, aadCheck }));
+    expect(decoded).toEqual({
+      ...envelope,
+      version: ENVELOPE_VERSION,
+      rawKey: false,
+      tag: undefined,
+      aadCheck
+    });
+  });
+
+  it('reads version 1, which has no AAD check', () => {
+    const decoded = decodeEnvelope(encoded(1, ''));
+    expect(decoded.version).toBe(1);
+    expect(decoded.aadCheck).toBeUndefined();
+    expect(decoded.ciphertext).toEqual(envelope.ciphertext);
+  });
+
+  it('rejects newer versions and truncated data', () => {
+    expect(() => decodeEnvelope(encoded(ENVELOPE_VERSION + 1, '00'))).toThrow('Unsupported ciphertext envelope version');
+    const truncated = arrayBufferToBase64(base64ToArrayBuffer(encoded(ENVELOPE_VERSION, '00')).slice(0, 22));
+    expect(() => decodeEnvelope(truncated)).toThrow('truncated');
+  });
+
+  it('tells envelopes from other Base64', () => {
+    expect(isEnvelope(encodeEnvelope(envelope))).toBe(true);
+    expect(isEnvelope(arrayBufferToBase64(hexToArrayBuffer('53616c7465645f5f0102030405060708')))).toBe(false);
+    expect(getEnvelopeAlgorithm('not base64!')).toBeNull();
+  });
+
+  it('carries everything but the key', async () => {
+    const params = { mode: EncryptionMode.CBC, padding: PaddingMethod.ISO10126, kdf: KeyDerivationFunction.Scrypt, memory: 1024 };
+    const { result } = await browserEncrypt('Attack at dawn', 'correct horse', EncryptionAlgorithm.AES, params);
+    expect(getEnvelopeAlgorithm(result)).toBe(EncryptionAlgorithm.AES);
+
+    // Decrypting with none of the parameters
+    const decrypted = await browserDecrypt(result, 'correct horse', EncryptionAlgorithm.AES);
+    expect(decrypted.result).toBe('Attack at dawn');
+  });
+});
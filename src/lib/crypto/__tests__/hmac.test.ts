@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { HashAlgorithm } from '../hash-service';
+import { KeyFormat } from '../key-import';
+import { arrayBufferToHex, stringToArrayBuffer } from '../encoding';
+import { HmacAlgorithm, SignatureStyle, computeHmac, parseSignature, verifySignature } from '../hmac';
+
+// GitHub's "Validating webhook deliveries" example
+const GITHUB = {
+  body: 'Hello, World!',
+  key: "It's a Secret to Everybody",
+  signature: 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17'
+};
+
+// Stripe signs "<t>.<body>"; tag computed with Node's crypto.createHmac
+const STRIPE = {
+  body: '{"id":"evt_1","object":"event"}',
+  key: 'whsec_test_secret',
+  timestamp: 1700000000,
+  signature: 't=1700000000,v1=0c8670ed117751cc551a20e35839447075c42800ea3cf3e8a2fbda99cd1e6edd'
+};
+
+const check = (overrides: Partial<Parameters<typeof verifySignature>[0]>) => verifySignature({
+  body: GITHUB.body,
+  key: GITHUB.key,
+  keyFormat: KeyFormat.Passphrase,
+  signature: GITHUB.signature,
+  algorithm: HashAlgorithm.SHA256,
+  ...overrides
+});
+
+describe('computeHmac', () => {
+  it.each<[HmacAlgorithm, string]>([
+    [HashAlgorithm.SHA256, '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'],
+    [HashAlgorithm.SHA512, '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75' +
+      'c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737']
+  ])('matches RFC 4231 test case 2 with %s', (algorithm, expected) => {
+    expect(arrayBufferToHex(computeHmac(algorithm, stringToArrayBuffer('Jefe'), 'what do ya want for nothing?'))).toBe(expected);
+  });
+});
+
+describe('verifySignature', () => {
+  it('accepts the GitHub example, header name included', () => {
+    const result = check({ signature: `X-Hub-Signature-256: ${GITHUB.signature}` });
+    expect(result.valid).toBe(true);
+    expect(result.style).toBe(SignatureStyle.GitHub);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('accepts a Stripe signature within the tolerance', () => {
+    const result = check({ ...STRIPE, now: STRIPE.timestamp + 60 });
+    expect(result.valid).toBe(true);
+    expect(result.signedPayload).toBe(`${STRIPE.timestamp}.${STRIPE.body}`);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('refuses a replayed Stripe signature even when the tag matches', () => {
+    const result = check({ ...STRIPE, now: STRIPE.timestamp + 3600 });
+    expect(result.valid).toBe(false);
+    expect(result.status).toBe('stale');
+    expect(result.problems).toEqual([expect.stringContaining('60 minutes in the past')]);
+  });
+
+  it('explains a body that was pretty-printed after signing', () => {
+    const result = check({ ...STRIPE, body: JSON.stringify(JSON.parse(STRIPE.body), null, 2), now: STRIPE.timestamp });
+    expect(result.valid).toBe(false);
+    expect(result.problems).toEqual([expect.stringContaining('was pretty-printed')]);
+  });
+
+  it('explains a body with an extra trailing newline', () => {
+    const result = check({ body: `${GITHUB.body}\n` });
+    expect(result.valid).toBe(false);
+    expect(result.problems).toEqual([expect.stringContaining('trailing whitespace')]);
+  });
+
+  it('explains a secret pasted with whitespace', () => {
+    const result = check({ key: `${GITHUB.key} ` });
+    expect(result.valid).toBe(false);
+    expect(result.problems).toEqual(['The secret has leading or trailing whitespace.']);
+  });
+});
+
+describe('parseSignature', () => {
+  it('points the legacy sha1= header to X-Hub-Signature-256', () => {
+    expect(() => parseSignature('sha1=0123456789abcdef0123456789abcdef01234567')).toThrow('X-Hub-Signature-256');
+  });
+
+  it('keeps every v1 tag of a Stripe header while a secret is rolled', () => {
+    const parsed = parseSignature(`${STRIPE.signature},v1=${'ab'.repeat(32)}`);
+    expect(parsed.tags).toHaveLength(2);
+    expect(parsed.timestamp).toBe(STRIPE.timestamp);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { KdfParams, KeyDerivationFunction, decodeKdfParams, deriveKeyBytes, encodeKdfParams, validateKdfParams } from '../kdf';
+import { arrayBufferToHex, stringToArrayBuffer } from '../encoding';
+
+// Derived keys are 32 bytes, so longer published outputs are cut to their
+// first 32 bytes (a prefix of PBKDF2's output, which all three end with)
+const derive = async (password: string, salt: string, kdfParams: KdfParams) =>
+  arrayBufferToHex(await deriveKeyBytes(password, stringToArrayBuffer(salt), kdfParams));
+
+describe('deriveKeyBytes', () => {
+  it.each([
+    [1, '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'],
+    [4096, 'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a']
+  ])('matches the PBKDF2-HMAC-SHA256 vector with %i iterations', async (iterations, expected) => {
+    expect(await derive('password', 'salt', { kdf: KeyDerivationFunction.PBKDF2, iterations, memory: 0, parallelism: 1 })).toBe(expected);
+  });
+
+  it('matches RFC 7914 scrypt with N = 1024, r = 8, p = 16', async () => {
+    const key = await derive('password', 'NaCl', { kdf: KeyDerivationFunction.Scrypt, iterations: 1, memory: 1024, parallelism: 16 });
+    expect(key).toBe('fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162');
+  }, 30000);
+
+  // From the Argon2 reference implementation's test suite (version 0x13)
+  it.each([
+    [1, '9dfeb910e80bad0311fee20f9c0e2b12c17987b4cac90c2ef54d5b3021c68bfe'],
+    [2, '6d093c501fd5999645e0ea3bf620d7b8be7fd2db59c20d9fff9539da2bf57037']
+  ])('matches Argon2id with t = 2, m = 256 KiB and %i lanes', async (parallelism, expected) => {
+    const key = await derive('password', 'somesalt', { kdf: KeyDerivationFunction.Argon2id, iterations: 2, memory: 256, parallelism });
+    expect(key).toBe(expected);
+  });
+});
+
+describe('KDF parameters', () => {
+  it('survive a ciphertext header round trip', () => {
+    const kdfParams = { kdf: KeyDerivationFunction.Argon2id, iterations: 3, memory: 19456, parallelism: 2 };
+    expect(decodeKdfParams(encodeKdfParams(kdfParams))).toEqual(kdfParams);
+  });
+
+  it('reject scrypt memory that is not a power of two', () => {
+    expect(() => validateKdfParams({ kdf: KeyDerivationFunction.Scrypt, iterations: 1, memory: 1000, parallelism: 1 }))
+      .toThrow('power of two');
+  });
+
+  it('reject headers asking for more memory than the tab can spare', () => {
+    const header = encodeKdfParams({ kdf: KeyDerivationFunction.Argon2id, iterations: 1, memory: 2 ** 30, parallelism: 1 });
+    expect(() => decodeKdfParams(header)).toThrow('memory (KiB) must be between');
+  });
+});
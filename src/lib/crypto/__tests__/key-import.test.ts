@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm } from '../cipher-provider';
+import { browserDecrypt, browserEncrypt } from '../browser-crypto';
+import { arrayBufferToHex } from '../encoding';
+import { KeyFormat, decodeRawKey, parseRawKey } from '../key-import';
+
+// 32 bytes whose Base64 form has both + and /, written as - and _ in a JWK
+const KEY_HEX = 'fbff' + '00'.repeat(28) + 'fbff';
+const KEY_BASE64 = '+/8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA+/8=';
+const KEY_JWK = JSON.stringify({ kty: 'oct', k: '-_8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA-_8' });
+
+describe('decodeRawKey', () => {
+  it.each<[KeyFormat, string]>([
+    [KeyFormat.Hex, KEY_HEX],
+    [KeyFormat.Hex, `0x${KEY_HEX.toUpperCase()}`],
+    [KeyFormat.Base64, KEY_BASE64],
+    [KeyFormat.JWK, KEY_JWK]
+  ])('reads a %s key', (format, key) => {
+    expect(arrayBufferToHex(decodeRawKey(key, format))).toBe(KEY_HEX);
+  });
+
+  it('takes only symmetric JWKs', () => {
+    const ecKey = JSON.stringify({ kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' });
+    expect(() => decodeRawKey(ecKey, KeyFormat.JWK)).toThrow('Expected a symmetric JWK (kty "oct") with a "k" value, got kty "EC"');
+    expect(() => decodeRawKey('{"kty":', KeyFormat.JWK)).toThrow('JWK key is not valid JSON');
+  });
+});
+
+describe('parseRawKey', () => {
+  it('checks the length against the key sizes of the algorithm', () => {
+    expect(parseRawKey(KEY_HEX, KeyFormat.Hex, EncryptionAlgorithm.AES)).toHaveLength(32);
+    expect(() => parseRawKey('00'.repeat(20), KeyFormat.Hex, EncryptionAlgorithm.AES))
+      .toThrow('AES keys must be 16, 24 or 32 bytes (32 recommended), got 20 bytes');
+    expect(() => parseRawKey(KEY_HEX, KeyFormat.Hex, EncryptionAlgorithm.DES))
+      .toThrow('DES keys must be 8 bytes, got 32 bytes');
+  });
+
+  it('refuses algorithms that take their keys as entered', () => {
+    expect(() => parseRawKey(KEY_HEX, KeyFormat.Hex, EncryptionAlgorithm.OTP)).toThrow('OTP only takes a passphrase');
+  });
+});
+
+describe('raw keys', () => {
+  it.each<[EncryptionAlgorithm, KeyFormat, string]>([
+    [EncryptionAlgorithm.AES, KeyFormat.JWK, KEY_JWK],
+    [EncryptionAlgorithm.ChaCha20, KeyFormat.Base64, KEY_BASE64],
+    [EncryptionAlgorithm.TripleDES, KeyFormat.Hex, '0123456789abcdef'.repeat(3)],
+    [EncryptionAlgorithm.RC4, KeyFormat.Hex, KEY_HEX]
+  ])('%s round trips with a %s key', async (algorithm, keyFormat, key) => {
+    const { result } = await browserEncrypt('Attack at dawn', key, algorithm, { keyFormat });
+    expect((await browserDecrypt(result, key, algorithm, { keyFormat })).result).toBe('Attack at dawn');
+    await expect(browserDecrypt(result, key, algorithm))
+      .rejects.toThrow('encrypted with a raw key; choose the hex, Base64 or JWK key format');
+  });
+});
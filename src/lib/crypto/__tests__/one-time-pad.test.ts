@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm } from '../cipher-provider';
+import { browserDecrypt, browserEncrypt } from '../browser-crypto';
+import { stringToArrayBuffer } from '../encoding';
+import {
+  formatPad,
+  generatePad,
+  getMessageLength,
+  getPadReuseWarning,
+  parsePad,
+  recordPadUse,
+  xorWithPad
+} from '../one-time-pad';
+
+// 15 UTF-16 code units but 23 UTF-8 bytes
+const MESSAGE = 'Grüße, 世界 🔐 ok';
+
+describe('one-time pad', () => {
+  it('round trips multi-byte UTF-8 with a pad as long as its bytes', async () => {
+    expect(getMessageLength(MESSAGE)).toBeGreaterThan(MESSAGE.length);
+    const pad = formatPad(generatePad(getMessageLength(MESSAGE)));
+    const { result } = await browserEncrypt(MESSAGE, pad, EncryptionAlgorithm.OTP);
+    expect((await browserDecrypt(result, pad, EncryptionAlgorithm.OTP)).result).toBe(MESSAGE);
+  });
+
+  it('refuses a pad shorter than the message in bytes', async () => {
+    const pad = generatePad(MESSAGE.length);
+    expect(() => xorWithPad(stringToArrayBuffer(MESSAGE), pad))
+      .toThrow(`One-time pad is ${MESSAGE.length} bytes but the message is ${getMessageLength(MESSAGE)} bytes`);
+    await expect(browserEncrypt(MESSAGE, formatPad(pad), EncryptionAlgorithm.OTP))
+      .rejects.toThrow('the pad must be at least as long as the message');
+  });
+
+  it('reads pads from Base64 only', () => {
+    expect(parsePad('AAEC /w==')).toEqual(new Uint8Array([0, 1, 2, 255]));
+    expect(() => parsePad('not a pad!')).toThrow('One-time pad must be Base64');
+    expect(() => parsePad('')).toThrow('cannot be empty');
+  });
+
+  it('counts the uses of a pad in this session', async () => {
+    const pad = generatePad(32);
+    expect(await recordPadUse(pad)).toBe(0);
+    expect(await recordPadUse(pad)).toBe(1);
+    expect(await recordPadUse(generatePad(32))).toBe(0);
+  });
+
+  it('warns when a pad encrypts a second message', async () => {
+    const pad = formatPad(generatePad(64));
+    const first = await browserEncrypt('first message', pad, EncryptionAlgorithm.OTP);
+    const second = await browserEncrypt('second message', pad, EncryptionAlgorithm.OTP);
+    expect(first.warnings).toBeUndefined();
+    expect(second.warnings).toEqual([getPadReuseWarning(1)]);
+    expect(getPadReuseWarning(1)).toContain('already used 1 time in this session');
+  });
+});
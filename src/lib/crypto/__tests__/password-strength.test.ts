@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getDicewareWordlist } from '../eff-wordlist';
+import { PasswordPattern, estimatePasswordStrength } from '../password-strength';
+
+const patterns = (password: string) => estimatePasswordStrength(password).sequence.map(match => match.pattern);
+
+// Six words spread over the list, as the generator would pick them at random
+const passphrase = (separator: string) => {
+  const words = getDicewareWordlist();
+  return [11, 1300, 2600, 3900, 5200, 6500].map(i => words[i]).join(separator);
+};
+
+describe('estimatePasswordStrength', () => {
+  it.each(['password', 'qwerty123', 'P@ssw0rd2024', 'a1b2c3d4e5'])('rates "%s" weak', password => {
+    const strength = estimatePasswordStrength(password);
+    expect(strength.label).toBe('Weak');
+    expect(strength.entropy).toBeLessThan(20);
+  });
+
+  it('finds the pattern behind common passwords', () => {
+    expect(patterns('password')).toEqual([PasswordPattern.Dictionary]);
+    expect(patterns('zxcvbnm,./')).toEqual([PasswordPattern.Spatial]);
+    expect(patterns('a1b2c3d4e5')).toEqual([PasswordPattern.Sequence]);
+  });
+
+  it('rates random characters by their length', () => {
+    const strength = estimatePasswordStrength('q8#Lm2!vZr9@Tp4&Xw7k');
+    expect(strength.label).toBe('Strong');
+    expect(strength.sequence.every(match => match.pattern === PasswordPattern.Bruteforce)).toBe(true);
+  });
+
+  it.each(['-', ' ', ''])('scores a six-word diceware passphrase per word with separator "%s"', separator => {
+    const strength = estimatePasswordStrength(passphrase(separator));
+    expect(strength.sequence).toEqual([expect.objectContaining({ pattern: PasswordPattern.Passphrase, words: 6 })]);
+    // log2(7776) bits per word
+    expect(strength.entropy).toBeCloseTo(6 * Math.log2(7776), 0);
+    expect(strength.label).toBe('Good');
+  });
+
+  it('does not reward repeating a weak password', () => {
+    expect(estimatePasswordStrength('x'.repeat(1000)).label).toBe('Weak');
+    expect(estimatePasswordStrength('password'.repeat(200)).label).toBe('Weak');
+  });
+
+  it('catches a run of one letter followed by an interleaved sequence', () => {
+    const strength = estimatePasswordStrength('aaaaaaaaaaaaaaaaBbCcDdEeFfGg');
+    expect(strength.label).toBe('Weak');
+    expect(strength.sequence.map(match => match.pattern)).toEqual([PasswordPattern.Repeat, PasswordPattern.Sequence]);
+  });
+
+  it('handles an empty password', () => {
+    expect(estimatePasswordStrength('')).toMatchObject({ entropy: 0, label: 'Weak', sequence: [] });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToArrayBuffer } from '../encoding';
+import { generateRsaKeyPair, rsaDecrypt, rsaEncrypt } from '../rsa-crypto';
+
+// RSA-OAEP with SHA-256 fits 2048 / 8 - 2 * 32 - 2 = 190 bytes
+const formatOf = (ciphertext: string) => new Uint8Array(base64ToArrayBuffer(ciphertext))[0];
+
+describe('RSA', () => {
+  it.each([
+    ['a short message with RSA-OAEP alone', 'Attack at dawn ✓', 0x01],
+    ['190 bytes with RSA-OAEP alone', 'a'.repeat(190), 0x01],
+    ['a longer message with RSA and AES-GCM', 'a'.repeat(191), 0x02],
+    ['several kilobytes with RSA and AES-GCM', 'Attack at dawn ✓ '.repeat(500), 0x02]
+  ])('encrypts %s', async (_, message, format) => {
+    const { publicKey, privateKey } = await generateRsaKeyPair(2048);
+    const ciphertext = await rsaEncrypt(message, publicKey);
+    expect(formatOf(ciphertext)).toBe(format);
+    expect(await rsaDecrypt(ciphertext, privateKey)).toBe(message);
+  });
+
+  it('needs the matching private key', async () => {
+    const recipient = await generateRsaKeyPair(2048);
+    const other = await generateRsaKeyPair(2048);
+    const ciphertext = await rsaEncrypt('a'.repeat(300), recipient.publicKey);
+    await expect(rsaDecrypt(ciphertext, other.privateKey)).rejects.toThrow('wrong private key or corrupted ciphertext');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SIGNATURE_ALGORITHMS,
+  SignatureAlgorithm,
+  createSignedMessage,
+  generateSigningKeyPair,
+  openSignedMessage,
+  signData,
+  verifySignature
+} from '../signature-crypto';
+
+const MESSAGE = 'Pay Bob 10 EUR';
+
+describe('signatures', () => {
+  it.each<SignatureAlgorithm>([...SIGNATURE_ALGORITHMS])('%s verifies its own signature and no other message', async algorithm => {
+    const { publicKey, privateKey } = await generateSigningKeyPair(algorithm);
+    const signature = await signData(MESSAGE, privateKey);
+
+    const result = await verifySignature(MESSAGE, signature, publicKey);
+    expect(result.status).toBe('valid');
+    expect(result.algorithm).toBe(algorithm);
+    expect(result.signerFingerprint).toBe(result.keyFingerprint);
+    expect((await verifySignature('Pay Bob 99 EUR', signature, publicKey)).status).toBe('invalid');
+  });
+
+  it('tells a signature by another key from a bad one', async () => {
+    const signer = await generateSigningKeyPair('Ed25519');
+    const other = await generateSigningKeyPair('Ed25519');
+    const signature = await signData(MESSAGE, signer.privateKey);
+
+    const result = await verifySignature(MESSAGE, signature, other.publicKey);
+    expect(result.status).toBe('wrong-key');
+    expect(result.signerFingerprint).not.toBe(result.keyFingerprint);
+  });
+
+  it('reports a key of another algorithm as the wrong key', async () => {
+    const signer = await generateSigningKeyPair('ECDSA-P256');
+    const other = await generateSigningKeyPair('Ed25519');
+    const signature = await signData(MESSAGE, signer.privateKey);
+    expect((await verifySignature(MESSAGE, signature, other.publicKey)).status).toBe('wrong-key');
+  });
+});
+
+describe('signed messages', () => {
+  it('open with the embedded key or the expected signer', async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair('ECDSA-P256');
+    const signed = await createSignedMessage(MESSAGE, privateKey);
+
+    const embedded = await openSignedMessage(signed);
+    expect(embedded).toMatchObject({ message: MESSAGE, signerKnown: false, verification: { status: 'valid' } });
+    const known = await openSignedMessage(signed, publicKey);
+    expect(known).toMatchObject({ message: MESSAGE, signerKnown: true, verification: { status: 'valid' } });
+  });
+
+  it('catch a changed message and a different signer', async () => {
+    const signer = await generateSigningKeyPair('ECDSA-P256');
+    const other = await generateSigningKeyPair('ECDSA-P256');
+    const signed = await createSignedMessage(MESSAGE, signer.privateKey);
+
+    const tampered = JSON.stringify({ ...JSON.parse(signed), message: 'Pay Mallory 10 EUR' });
+    expect((await openSignedMessage(tampered))?.verification.status).toBe('invalid');
+    expect((await openSignedMessage(signed, other.publicKey))?.verification.status).toBe('wrong-key');
+  });
+
+  it('leave other text alone', async () => {
+    expect(await openSignedMessage(MESSAGE)).toBeNull();
+    expect(await openSignedMessage('{"type":"something-else"}')).toBeNull();
+  });
+});
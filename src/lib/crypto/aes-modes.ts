@@ -0,0 +1,277 @@
+"use client";
+
+import { ecb, cbc, cfb } from '@noble/ciphers/aes.js';
+import { EncryptionMode, PaddingMethod } from './cipher-provider';
+
+// AES in every mode the UI offers, on raw key bytes.
+// Web Crypto covers CBC with PKCS7, CTR and GCM; ECB, CFB, OFB and CBC with
+// the other paddings use the @noble/ciphers TypeScript AES with our padding.
+
+// Constants
+export const AES_BLOCK_SIZE = 16;
+const GCM_IV_LENGTH = 12; // bytes
+const GCM_TAG_LENGTH = 16; // bytes
+const CTR_COUNTER_BITS = 64; // low half of the counter block, the high half is a random nonce
+
+// AES output split into the parts stored in the ciphertext envelope
+export interface AesCiphertext {
+  ciphertext: Uint8Array<ArrayBuffer>;
+  iv?: Uint8Array<ArrayBuffer>;
+  tag?: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * IV (or nonce / initial counter block) length in bytes for a mode, 0 for ECB
+ */
+export function getAesIvLength(mode: EncryptionMode): number {
+  switch (mode) {
+    case EncryptionMode.ECB:
+      return 0;
+    case EncryptionMode.GCM:
+      return GCM_IV_LENGTH;
+    default:
+      return AES_BLOCK_SIZE;
+  }
+}
+
+/**
+ * Pads data to a whole number of blocks
+ */
+export function padData(
+  data: Uint8Array,
+  padding: PaddingMethod,
+  blockSize: number = AES_BLOCK_SIZE
+): Uint8Array<ArrayBuffer> {
+  if (padding === PaddingMethod.NoPadding) {
+    if (data.length % blockSize !== 0) {
+      throw new Error(`NoPadding needs a multiple of ${blockSize} bytes, got ${data.length}; choose a padding method`);
+    }
+    return new Uint8Array(data);
+  }
+
+  // Zero padding only fills the last block, the others always add 1 to blockSize bytes
+  const padLength = padding === PaddingMethod.ZeroPadding
+    ? (blockSize - data.length % blockSize) % blockSize
+    : blockSize - data.length % blockSize;
+  const padded = new Uint8Array(data.length + padLength);
+  padded.set(data);
+
+  switch (padding) {
+    case PaddingMethod.PKCS7:
+      padded.fill(padLength, data.length);
+      break;
+    case PaddingMethod.ISO10126:
+      window.crypto.getRandomValues(padded.subarray(data.length, padded.length - 1));
+      padded[padded.length - 1] = padLength;
+      break;
+    case PaddingMethod.AnsiX923:
+      padded[padded.length - 1] = padLength;
+      break;
+    case PaddingMethod.ZeroPadding:
+      break;
+    default:
+      throw new Error(`Unsupported padding method: ${padding}`);
+  }
+
+  return padded;
+}
+
+/**
+ * Removes padding added by padData, throwing if it is malformed
+ */
+export function unpadData(
+  data: Uint8Array,
+  padding: PaddingMethod,
+  blockSize: number = AES_BLOCK_SIZE
+): Uint8Array<ArrayBuffer> {
+  if (data.length % blockSize !== 0) {
+    throw new Error(`Padded data must be a multiple of ${blockSize} bytes, got ${data.length}`);
+  }
+
+  switch (padding) {
+    case PaddingMethod.NoPadding:
+      return new Uint8Array(data);
+    case PaddingMethod.ZeroPadding: {
+      let end = data.length;
+      while (end > 0 && data[end - 1] === 0) {
+        end--;
+      }
+      return data.slice(0, end);
+    }
+    case PaddingMethod.PKCS7:
+    case PaddingMethod.ISO10126:
+    case PaddingMethod.AnsiX923: {
+      const padLength = data[data.length - 1];
+      if (!padLength || padLength > blockSize || padLength > data.length) {
+        throw new Error(`Invalid ${padding} padding`);
+      }
+
+      // ISO 10126 fills with random bytes, so only the length byte can be checked
+      const fill = data.subarray(data.length - padLength, data.length - 1);
+      const valid = padding === PaddingMethod.PKCS7
+        ? fill.every(byte => byte === padLength)
+        : padding === PaddingMethod.AnsiX923
+          ? fill.every(byte => byte === 0)
+          : true;
+      if (!valid) {
+        throw new Error(`Invalid ${padding} padding`);
+      }
+      return data.slice(0, data.length - padLength);
+    }
+    default:
+      throw new Error(`Unsupported padding method: ${padding}`);
+  }
+}
+
+function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+// OFB keystream: O1 = E(IV), Oi = E(Oi-1), which is CBC encryption of zero blocks
+function ofbKeystream(key: Uint8Array, iv: Uint8Array, length: number): Uint8Array {
+  const blocks = Math.ceil(length / AES_BLOCK_SIZE);
+  return cbc(key, iv, { disablePadding: true }).encrypt(new Uint8Array(blocks * AES_BLOCK_SIZE));
+}
+
+async function importAesKey(key: Uint8Array<ArrayBuffer>, name: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey('raw', key, { name }, false, ['encrypt', 'decrypt']);
+}
+
+// Only GCM authenticates, refuse associated data the other modes would ignore
+function checkAad(mode: EncryptionMode, aad?: Uint8Array) {
+  if (aad && aad.length > 0 && mode !== EncryptionMode.GCM) {
+    throw new Error(`AES-${mode} cannot authenticate associated data; use GCM`);
+  }
+}
+
+/**
+ * Encrypts with AES in the given mode and padding. A random IV is generated
+ * unless one is passed in; aad is only accepted by GCM.
+ */
+export async function aesEncrypt(
+  key: Uint8Array<ArrayBuffer>,
+  plaintext: Uint8Array<ArrayBuffer>,
+  mode: EncryptionMode,
+  padding: PaddingMethod,
+  iv?: Uint8Array<ArrayBuffer>,
+  aad?: Uint8Array<ArrayBuffer>
+): Promise<AesCiphertext> {
+  checkAad(mode, aad);
+  const ivLength = getAesIvLength(mode);
+  if (iv && iv.length !== ivLength) {
+    throw new Error(`AES-${mode} needs a ${ivLength}-byte IV, got ${iv.length} bytes`);
+  }
+  const resolvedIv = ivLength > 0
+    ? iv ?? window.crypto.getRandomValues(new Uint8Array(ivLength))
+    : undefined;
+
+  switch (mode) {
+    case EncryptionMode.GCM: {
+      const encrypted = new Uint8Array(await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: resolvedIv!, ...(aad && { additionalData: aad }) },
+        await importAesKey(key, 'AES-GCM'),
+        plaintext
+      ));
+      return {
+        ciphertext: encrypted.slice(0, encrypted.length - GCM_TAG_LENGTH),
+        iv: resolvedIv,
+        tag: encrypted.slice(encrypted.length - GCM_TAG_LENGTH)
+      };
+    }
+    case EncryptionMode.CTR: {
+      // Only the low 64 bits count, start a random nonce at counter zero
+      const counter = resolvedIv!;
+      if (!iv) {
+        counter.fill(0, AES_BLOCK_SIZE - CTR_COUNTER_BITS / 8);
+      }
+      const encrypted = await window.crypto.subtle.encrypt(
+        { name: 'AES-CTR', counter, length: CTR_COUNTER_BITS },
+        await importAesKey(key, 'AES-CTR'),
+        plaintext
+      );
+      return { ciphertext: new Uint8Array(encrypted), iv: counter };
+    }
+    case EncryptionMode.CBC: {
+      // Web Crypto AES-CBC always applies PKCS7
+      if (padding === PaddingMethod.PKCS7) {
+        const encrypted = await window.crypto.subtle.encrypt(
+          { name: 'AES-CBC', iv: resolvedIv! },
+          await importAesKey(key, 'AES-CBC'),
+          plaintext
+        );
+        return { ciphertext: new Uint8Array(encrypted), iv: resolvedIv };
+      }
+      const encrypted = cbc(key, resolvedIv!, { disablePadding: true }).encrypt(padData(plaintext, padding));
+      return { ciphertext: new Uint8Array(encrypted), iv: resolvedIv };
+    }
+    case EncryptionMode.ECB:
+      return { ciphertext: new Uint8Array(ecb(key, { disablePadding: true }).encrypt(padData(plaintext, padding))) };
+    case EncryptionMode.CFB:
+      return { ciphertext: new Uint8Array(cfb(key, resolvedIv!).encrypt(plaintext)), iv: resolvedIv };
+    case EncryptionMode.OFB:
+      return { ciphertext: xorBytes(plaintext, ofbKeystream(key, resolvedIv!, plaintext.length)), iv: resolvedIv };
+    default:
+      throw new Error(`Unsupported mode of operation: ${mode}`);
+  }
+}
+
+/**
+ * Decrypts AES output from aesEncrypt. Only GCM detects tampering; the other
+ * modes fail on malformed padding at best.
+ */
+export async function aesDecrypt(
+  key: Uint8Array<ArrayBuffer>,
+  { ciphertext, iv, tag }: AesCiphertext,
+  mode: EncryptionMode,
+  padding: PaddingMethod,
+  aad?: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  checkAad(mode, aad);
+  const ivLength = getAesIvLength(mode);
+  if ((iv?.length ?? 0) !== ivLength) {
+    throw new Error(`AES-${mode} needs a ${ivLength}-byte IV, got ${iv?.length ?? 0} bytes`);
+  }
+
+  switch (mode) {
+    case EncryptionMode.GCM: {
+      if (!tag || tag.length !== GCM_TAG_LENGTH) {
+        throw new Error(`AES-GCM needs a ${GCM_TAG_LENGTH}-byte authentication tag`);
+      }
+      const encrypted = new Uint8Array(ciphertext.length + tag.length);
+      encrypted.set(ciphertext);
+      encrypted.set(tag, ciphertext.length);
+      return new Uint8Array(await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: iv!, ...(aad && { additionalData: aad }) },
+        await importAesKey(key, 'AES-GCM'),
+        encrypted
+      ));
+    }
+    case EncryptionMode.CTR:
+      return new Uint8Array(await window.crypto.subtle.decrypt(
+        { name: 'AES-CTR', counter: iv!, length: CTR_COUNTER_BITS },
+        await importAesKey(key, 'AES-CTR'),
+        ciphertext
+      ));
+    case EncryptionMode.CBC:
+      if (padding === PaddingMethod.PKCS7) {
+        return new Uint8Array(await window.crypto.subtle.decrypt(
+          { name: 'AES-CBC', iv: iv! },
+          await importAesKey(key, 'AES-CBC'),
+          ciphertext
+        ));
+      }
+      return unpadData(cbc(key, iv!, { disablePadding: true }).decrypt(ciphertext), padding);
+    case EncryptionMode.ECB:
+      return unpadData(ecb(key, { disablePadding: true }).decrypt(ciphertext), padding);
+    case EncryptionMode.CFB:
+      return new Uint8Array(cfb(key, iv!).decrypt(ciphertext));
+    case EncryptionMode.OFB:
+      return xorBytes(ciphertext, ofbKeystream(key, iv!, ciphertext.length));
+    default:
+      throw new Error(`Unsupported mode of operation: ${mode}`);
+  }
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from './encryption-service';
+import { getCipherProvider } from './cipher-registry';
+import { aesEncrypt, getAesIvLength } from './aes-modes';
+import { xorWithPad } from './one-time-pad';
+
+// The avalanche effect: flipping one input bit of a good cipher should flip
+// about half of the output bits, each with probability 1/2, wherever it is.
+// Each trial encrypts a random message twice with the same key and IV, once
+// with one bit flipped in the plaintext (or the key), and compares the outputs.
+
+// Constants
+export const AVALANCHE_MESSAGE_LENGTH = 32; // bytes, two AES blocks or four DES blocks
+const FLIP_RANGE = 8; // plaintext bits are flipped in the first 8 bytes, the first block of every cipher here
+const CHACHA_NONCE_LENGTH = 12;
+const DES_BLOCK_LENGTH = 8;
+const YIELD_EVERY = 10; // trials between progress reports
+
+// What gets one bit flipped
+export enum AvalancheInput {
+  Plaintext = 'plaintext',
+  Key = 'key'
+}
+
+// An algorithm and mode under test, encrypting with a fixed key and IV
+export interface AvalancheSetup {
+  id: string;
+  label: string;
+  algorithm: EncryptionAlgorithm;
+  keyLength: number; // bytes
+  ivLength: number; // bytes, 0 when unused
+  encrypt: (key: Uint8Array<ArrayBuffer>, plaintext: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>) => Promise<Uint8Array>;
+}
+
+// Statistics over all trials of one setup
+export interface AvalancheResult {
+  setupId: string;
+  input: AvalancheInput;
+  trials: number;
+  outputBits: number;
+  meanFraction: number; // of output bits flipped, 0.5 is ideal
+  meanBits: number;
+  variance: number; // of the number of flipped bits
+  bitFlipRates: Float64Array; // per output bit, how often it flipped; 0.5 is ideal
+}
+
+// How often each output byte of an all-zero message was zero, 1 is ideal
+export interface ZeroByteBias {
+  setupId: string;
+  trials: number;
+  ratios: Float64Array; // per output byte, zero count over the 1/256 expected of random bytes
+}
+
+const aesSetup = (mode: EncryptionMode): AvalancheSetup => ({
+  id: `aes-${mode.toLowerCase()}`,
+  label: `AES-128-${mode}`,
+  algorithm: EncryptionAlgorithm.AES,
+  keyLength: 16,
+  ivLength: getAesIvLength(mode),
+  encrypt: async (key, plaintext, iv) => {
+    const { ciphertext, tag } = await aesEncrypt(key, plaintext, mode, PaddingMethod.NoPadding, iv.length > 0 ? iv : undefined);
+    // The GCM tag is part of the output an attacker sees
+    return tag ? new Uint8Array([...ciphertext, ...tag]) : ciphertext;
+  }
+});
+
+const desSetup = (mode: EncryptionMode): AvalancheSetup => ({
+  id: `des-${mode.toLowerCase()}`,
+  label: `DES-${mode}`,
+  algorithm: EncryptionAlgorithm.DES,
+  keyLength: 8,
+  ivLength: mode === EncryptionMode.ECB ? 0 : DES_BLOCK_LENGTH,
+  encrypt: async (key, plaintext, iv) => (await getCipherProvider(EncryptionAlgorithm.DES).encrypt(
+    { key },
+    plaintext,
+    { mode, padding: PaddingMethod.NoPadding, iv }
+  )).ciphertext
+});
+
+export const AVALANCHE_SETUPS: AvalancheSetup[] = [
+  aesSetup(EncryptionMode.ECB),
+  aesSetup(EncryptionMode.CBC),
+  aesSetup(EncryptionMode.CTR),
+  aesSetup(EncryptionMode.GCM),
+  desSetup(EncryptionMode.ECB),
+  desSetup(EncryptionMode.CBC),
+  {
+    id: 'rc4',
+    label: 'RC4',
+    algorithm: EncryptionAlgorithm.RC4,
+    keyLength: 16,
+    ivLength: 0,
+    encrypt: async (key, plaintext) => (await getCipherProvider(EncryptionAlgorithm.RC4).encrypt({ key }, plaintext, {})).ciphertext
+  },
+  {
+    id: 'chacha20',
+    label: 'ChaCha20-Poly1305',
+    algorithm: EncryptionAlgorithm.ChaCha20,
+    keyLength: 32,
+    ivLength: CHACHA_NONCE_LENGTH,
+    encrypt: async (key, plaintext, iv) => chacha20poly1305(key, iv).encrypt(plaintext)
+  },
+  {
+    id: 'otp',
+    label: 'One-Time Pad',
+    algorithm: EncryptionAlgorithm.OTP,
+    keyLength: AVALANCHE_MESSAGE_LENGTH,
+    ivLength: 0,
+    encrypt: async (key, plaintext) => xorWithPad(plaintext, key)
+  }
+];
+
+const random = (length: number) => window.crypto.getRandomValues(new Uint8Array(length));
+
+function flipRandomBit(bytes: Uint8Array<ArrayBuffer>, withinBytes: number): Uint8Array<ArrayBuffer> {
+  const flipped = bytes.slice();
+  const bit = Math.floor(Math.random() * Math.min(withinBytes, bytes.length) * 8);
+  flipped[bit >> 3] ^= 0x80 >> (bit & 7);
+  return flipped;
+}
+
+/**
+ * Runs trials of one setup and collects the flip statistics. onProgress gets
+ * the statistics so far every few trials, between which the browser can repaint.
+ */
+export async function measureAvalanche(
+  setup: AvalancheSetup,
+  input: AvalancheInput,
+  trials: number,
+  onProgress?: (result: AvalancheResult) => void
+): Promise<AvalancheResult> {
+  let flipCounts: Uint32Array | null = null;
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  const summarize = (done: number): AvalancheResult => {
+    const outputBits = flipCounts?.length ?? 0;
+    const meanBits = done > 0 ? sum / done : 0;
+    return {
+      setupId: setup.id,
+      input,
+      trials: done,
+      outputBits,
+      meanFraction: outputBits > 0 ? meanBits / outputBits : 0,
+      meanBits,
+      variance: done > 0 ? sumOfSquares / done - meanBits ** 2 : 0,
+      bitFlipRates: Float64Array.from(flipCounts ?? [], count => count / Math.max(1, done))
+    };
+  };
+
+  for (let trial = 0; trial < trials; trial++) {
+    const key = random(setup.keyLength);
+    const plaintext = random(AVALANCHE_MESSAGE_LENGTH);
+    const iv = random(setup.ivLength);
+
+    const a = await setup.encrypt(key, plaintext, iv);
+    const b = input === AvalancheInput.Plaintext
+      ? await setup.encrypt(key, flipRandomBit(plaintext, FLIP_RANGE), iv)
+      : await setup.encrypt(flipRandomBit(key, setup.keyLength), plaintext, iv);
+
+    flipCounts ??= new Uint32Array(Math.min(a.length, b.length) * 8);
+    let distance = 0;
+    for (let bit = 0; bit < flipCounts.length; bit++) {
+      if (((a[bit >> 3] ^ b[bit >> 3]) << (bit & 7)) & 0x80) {
+        flipCounts[bit]++;
+        distance++;
+      }
+    }
+    sum += distance;
+    sumOfSquares += distance ** 2;
+
+    if (onProgress && (trial + 1) % YIELD_EVERY === 0) {
+      onProgress(summarize(trial + 1));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return summarize(trials);
+}
+
+/**
+ * Encrypts all-zero messages under random keys and counts zero output bytes
+ * per position. Bit flips do not show biases in a cipher's output itself,
+ * such as RC4's second byte being zero twice as often as it should be.
+ */
+export async function measureZeroByteBias(
+  setup: AvalancheSetup,
+  trials: number,
+  onProgress?: (result: ZeroByteBias) => void
+): Promise<ZeroByteBias> {
+  const plaintext = new Uint8Array(AVALANCHE_MESSAGE_LENGTH);
+  let zeroCounts: Uint32Array | null = null;
+  const summarize = (done: number): ZeroByteBias => ({
+    setupId: setup.id,
+    trials: done,
+    ratios: Float64Array.from(zeroCounts ?? [], count => (count / Math.max(1, done)) * 256)
+  });
+
+  for (let trial = 0; trial < trials; trial++) {
+    const output = await setup.encrypt(random(setup.keyLength), plaintext, random(setup.ivLength));
+    zeroCounts ??= new Uint32Array(output.length);
+    output.forEach((byte, i) => {
+      if (byte === 0 && i < zeroCounts!.length) zeroCounts![i]++;
+    });
+
+    if (onProgress && (trial + 1) % (YIELD_EVERY * 10) === 0) {
+      onProgress(summarize(trial + 1));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return summarize(trials);
+}
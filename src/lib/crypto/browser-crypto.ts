@@ -1,180 +1,186 @@
 "use client";
 
-import { EncryptionAlgorithm, EncryptionParams, EncryptionResult } from './encryption-service';
+import {
+  CipherKey,
+  CipherKind,
+  EncryptionAlgorithm,
+  EncryptionMode,
+  EncryptionParams,
+  IV_MODES,
+  KeyPairPem,
+  getKeyBytes
+} from './cipher-provider';
+import { EncryptionResult, resolveModeAndPadding, supportsAssociatedData } from './encryption-service';
+import { getCipherProvider, getCipherProviders } from './cipher-registry';
+import { stringToArrayBuffer, arrayBufferToBase64, hexToArrayBuffer } from './encoding';
+import { CiphertextEnvelope, encodeEnvelope, decodeEnvelope, isEnvelope } from './envelope';
+import { getRawKey } from './key-import';
 
-// Constants for Web Crypto API
-const IV_LENGTH = 16; // 128 bits
-const SALT_LENGTH = 16; // 128 bits
-const KEY_LENGTH = 256; // 256 bits
+// Encryption and decryption of text for any registered cipher (see
+// cipher-registry.ts). All output is wrapped in a ciphertext envelope (see
+// envelope.ts); ciphertext from before the envelope is left to the cipher's
+// own decryptLegacy.
 
-// Helper functions for working with Base64 and binary data
-function stringToArrayBuffer(str: string): Uint8Array {
-  const encoder = new TextEncoder();
-  return encoder.encode(str);
-}
+// Bytes of HMAC-SHA256(key, "aad-check" || AAD) kept in the envelope to report
+// an AAD mismatch as such. It is keyed so that guessable associated data (a
+// record id, say) cannot be confirmed offline without the key.
+const AAD_CHECK_LENGTH = 8;
+const AAD_CHECK_LABEL = stringToArrayBuffer('aad-check');
+const AAD_MISMATCH_ERROR = 'authentication failed: associated data mismatch';
+const KEYED_AAD_CHECK_VERSION = 3; // version 2 stored an unkeyed SHA-256 of the AAD
 
-function arrayBufferToString(buffer: ArrayBuffer | Uint8Array): string {
-  const decoder = new TextDecoder();
-  return decoder.decode(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+// Associated data as bytes, undefined when there is none
+function getAadBytes(params: EncryptionParams): Uint8Array<ArrayBuffer> | undefined {
+  return params.aad ? stringToArrayBuffer(params.aad) : undefined;
 }
 
-// Pure utility to convert between ArrayBuffer and Base64
-function arrayBufferToBase64(buffer: ArrayBuffer | ArrayBufferLike | Uint8Array): string {
-  const byteArray = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < byteArray.byteLength; i++) {
-    binary += String.fromCharCode(byteArray[i]);
+// Short MAC of the associated data under the message key, stored in the envelope
+async function computeAadCheck(
+  key: CipherKey,
+  algorithm: EncryptionAlgorithm,
+  aad?: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  if (!aad) {
+    return undefined;
   }
-  return btoa(binary);
+  const hmacKey = await window.crypto.subtle.importKey(
+    'raw',
+    getKeyBytes(key, algorithm),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const message = new Uint8Array(AAD_CHECK_LABEL.length + aad.length);
+  message.set(AAD_CHECK_LABEL);
+  message.set(aad, AAD_CHECK_LABEL.length);
+  const mac = await window.crypto.subtle.sign('HMAC', hmacKey, message);
+  return new Uint8Array(mac, 0, AAD_CHECK_LENGTH).slice();
 }
 
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  try {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes.buffer;
-  } catch (error) {
-    console.error('Error in base64ToArrayBuffer:', error);
-    throw new Error('Failed to decode Base64 string: ' + 
-      (error instanceof Error ? error.message : String(error)));
-  }
+// The unkeyed check of version 2 envelopes
+async function computeLegacyAadCheck(aad: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const hash = await window.crypto.subtle.digest('SHA-256', aad);
+  return new Uint8Array(hash, 0, AAD_CHECK_LENGTH).slice();
 }
 
-// Safe Base64 functions for text data (handles Unicode)
-function safeBase64Encode(str: string): string {
-  try {
-    return btoa(unescape(encodeURIComponent(str)));
-  } catch (error) {
-    console.error('Error in safeBase64Encode:', error);
-    throw new Error('Failed to encode string to Base64: ' + 
-      (error instanceof Error ? error.message : String(error)));
-  }
+function checksMatch(expected: Uint8Array, actual: Uint8Array): boolean {
+  return expected.length === actual.length && expected.every((byte, i) => byte === actual[i]);
 }
 
-function safeBase64Decode(base64: string): string {
-  try {
-    return decodeURIComponent(escape(atob(base64)));
-  } catch (error) {
-    console.error('Error in safeBase64Decode:', error);
-    throw new Error('Failed to decode Base64 string: ' + 
-      (error instanceof Error ? error.message : String(error)));
-  }
+// The ciphers and modes that authenticate associated data, for error messages
+function describeAeadOptions(): string {
+  const options = getCipherProviders().flatMap(({ algorithm, label, capabilities }) =>
+    capabilities.kind === CipherKind.AEAD
+      ? [label]
+      : capabilities.authenticatedModes.map(mode => `${algorithm}-${mode}`)
+  );
+  return options.length > 1
+    ? `${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}`
+    : options.join('');
 }
 
-// Generate random IV (12 bytes for AES-GCM)
-function generateIV(): Uint8Array {
-  return window.crypto.getRandomValues(new Uint8Array(12));
+// Mode and padding for ciphers that have modes of operation
+function getModeAndPadding(algorithm: EncryptionAlgorithm, params: EncryptionParams) {
+  return getCipherProvider(algorithm).capabilities.modes.length > 0
+    ? resolveModeAndPadding(algorithm, params)
+    : undefined;
 }
 
-// Generate random salt for key derivation
-function generateSalt(): Uint8Array {
-  return window.crypto.getRandomValues(new Uint8Array(16));
-}
+// The IV typed in hex for a mode that takes one, undefined to draw a random one
+function getChosenIv(algorithm: EncryptionAlgorithm, params: EncryptionParams, mode?: EncryptionMode) {
+  if (!params.iv || !mode || !IV_MODES.includes(mode)) {
+    return undefined;
+  }
 
-// Key derivation function
-async function deriveKey(
-  password: string,
-  salt: Uint8Array,
-  iterations: number = 100000
-): Promise<CryptoKey> {
+  let iv: Uint8Array<ArrayBuffer>;
   try {
-    // Convert password to key material
-    const encoder = new TextEncoder();
-    const passwordBuffer = encoder.encode(password);
-    
-    // Import the password as a key
-    const baseKey = await window.crypto.subtle.importKey(
-      'raw',
-      passwordBuffer,
-      { name: 'PBKDF2' },
-      false,
-      ['deriveKey']
-    );
-    
-    // Derive the actual key using PBKDF2
-    const key = await window.crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: iterations,
-        hash: 'SHA-256'
-      },
-      baseKey,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    );
-    
-    return key;
-  } catch (error) {
-    console.error('Key derivation error:', error);
-    throw new Error('Failed to derive key: ' + 
-      (error instanceof Error ? error.message : String(error)));
+    iv = hexToArrayBuffer(params.iv.trim());
+  } catch {
+    throw new Error('The IV must be hex, or left empty for a random one');
   }
+  const { blockSize } = getCipherProvider(algorithm).capabilities;
+  if (iv.length !== blockSize) {
+    throw new Error(`${algorithm}-${mode} needs an IV of ${blockSize} bytes (${blockSize! * 2} hex digits), got ${iv.length} bytes`);
+  }
+  return iv;
 }
 
-// Import a string key for AES
-async function importKey(key: string): Promise<CryptoKey> {
+// Unauthenticated ciphers cannot tell a wrong key from the right one, so a
+// result that is empty or not valid UTF-8 is treated as a wrong key
+function decodePlaintext(algorithm: EncryptionAlgorithm, plaintext: Uint8Array): string {
   try {
-    const keyData = stringToArrayBuffer(key);
-    // Use SHA-256 to create a consistent key length
-    const hash = await window.crypto.subtle.digest('SHA-256', keyData);
-    
-    // Import the key
-    return window.crypto.subtle.importKey(
-      'raw',
-      hash,
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt', 'decrypt']
-    );
-  } catch (error) {
-    console.error('Key import error:', error);
-    throw new Error('Failed to import key: ' + 
-      (error instanceof Error ? error.message : String(error)));
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+    if (text) {
+      return text;
+    }
+  } catch (decodeError) {
+    console.error(`${algorithm} plaintext is not UTF-8:`, decodeError);
   }
+  throw new Error(`${algorithm} decryption failed: wrong key or corrupted ciphertext`);
 }
 
-// One-time pad implementation
-function oneTimePad(text: string, key: string, encrypt: boolean): string {
-  try {
-    // Ensure key is at least as long as the text
-    let fullKey = key;
-    while (fullKey.length < text.length) {
-      fullKey += key;
-    }
-    
-    // Input validation
-    if (!text || text.length === 0) {
-      throw new Error('Text cannot be empty');
-    }
-    
-    if (!key || key.length === 0) {
-      throw new Error('Key cannot be empty');
-    }
-    
-    let result = '';
-    for (let i = 0; i < text.length; i++) {
-      const textChar = text.charCodeAt(i);
-      const keyChar = fullKey.charCodeAt(i);
-      
-      // XOR operation
-      const resultChar = textChar ^ keyChar;
-      result += String.fromCharCode(resultChar);
-    }
-    
-    return encrypt ? safeBase64Encode(result) : result;
-  } catch (error) {
-    console.error('One-time pad error:', error);
-    throw new Error('One-time pad operation failed: ' + 
-      (error instanceof Error ? error.message : String(error)));
+// Decrypt an envelope with the algorithm and parameters it names, ignoring the
+// UI selection; only the key format and associated data come from the caller
+async function decryptEnvelope(
+  envelope: CiphertextEnvelope,
+  key: string,
+  options: EncryptionParams
+): Promise<{ text: string; params: EncryptionParams }> {
+  const { algorithm, salt, nonce, tag, kdfParams, ciphertext } = envelope;
+  const provider = getCipherProvider(algorithm);
+  
+  // Version 1 envelopes carry no AAD check, a mismatch then shows up as a failed tag
+  const aad = getAadBytes(options);
+  if (envelope.version >= 2 && Boolean(envelope.aadCheck) !== Boolean(aad)) {
+    throw new Error(AAD_MISMATCH_ERROR);
+  }
+  if (envelope.version === 2 && envelope.aadCheck && aad &&
+      !checksMatch(envelope.aadCheck, await computeLegacyAadCheck(aad))) {
+    throw new Error(AAD_MISMATCH_ERROR);
+  }
+  
+  // The key has to be entered the way the message was keyed
+  const rawKey = getRawKey(key, algorithm, options);
+  if (provider.capabilities.rawKeys && envelope.rawKey && !rawKey) {
+    throw new Error('This message was encrypted with a raw key; choose the hex, Base64 or JWK key format');
+  }
+  if (provider.capabilities.rawKeys && !envelope.rawKey && rawKey) {
+    throw new Error('This message was encrypted with a passphrase; choose the passphrase key format');
   }
+  
+  const params: EncryptionParams = {
+    ...(envelope.mode && { mode: envelope.mode }),
+    ...(envelope.padding && { padding: envelope.padding }),
+    ...(envelope.keySize && { keySize: envelope.keySize }),
+    ...(nonce && { iv: arrayBufferToBase64(nonce) }),
+    ...(salt && { salt: arrayBufferToBase64(salt) }),
+    ...kdfParams
+  };
+  
+  const cipherKey: CipherKey = rawKey
+    ? { key: rawKey, rawKey: true }
+    : await provider.deriveKey(key, options, {
+      salt,
+      kdfParams,
+      keySize: envelope.keySize,
+      rawKey: envelope.rawKey
+    });
+  
+  // The keyed check also fails for a wrong key, which the tag could not tell apart either
+  if (envelope.version >= KEYED_AAD_CHECK_VERSION && envelope.aadCheck && aad &&
+      !checksMatch(envelope.aadCheck, (await computeAadCheck(cipherKey, algorithm, aad))!)) {
+    throw new Error(`${AAD_MISMATCH_ERROR} or wrong key`);
+  }
+  
+  const plaintext = await provider.decrypt(
+    cipherKey,
+    { ciphertext, iv: nonce, tag },
+    { ...getModeAndPadding(algorithm, params), aad }
+  );
+  return { text: decodePlaintext(algorithm, plaintext), params };
 }
 
-// AES encryption with detailed debugging
+// Encrypt text with any registered cipher into a ciphertext envelope
 export async function browserEncrypt(
   text: string,
   key: string,
@@ -194,79 +200,66 @@ export async function browserEncrypt(
       throw new Error('Encryption key cannot be empty');
     }
     
-    // Handle OTP separately
-    if (algorithm === EncryptionAlgorithm.OTP) {
-      console.log('Using OTP algorithm');
-      const result = oneTimePad(text, key, true);
-      const endTime = performance.now();
-      return {
-        result,
-        timeTaken: endTime - startTime,
-        algorithm: EncryptionAlgorithm.OTP
-      };
-    }
+    const provider = getCipherProvider(algorithm);
     
-    // For AES, use the Web Crypto API
-    if (algorithm === EncryptionAlgorithm.AES) {
-      console.log('Using AES algorithm with Web Crypto API');
-      
-      // Generate a random IV
-      const iv = generateIV();
-      console.log('Generated IV:', Array.from(iv));
-      
-      // Import the key
-      console.log('Importing key...');
-      const cryptoKey = await importKey(key);
-      
-      // Convert the text to ArrayBuffer
-      console.log('Converting text to ArrayBuffer...');
-      const textEncoder = new TextEncoder();
-      const textBuffer = textEncoder.encode(text);
-      
-      // Encrypt the data
-      console.log('Encrypting data...');
-      const encryptedBuffer = await window.crypto.subtle.encrypt(
-        {
-          name: 'AES-GCM',
-          iv
-        },
-        cryptoKey,
-        textBuffer
-      );
-      
-      // Combine IV and encrypted data
-      console.log('Combining IV and encrypted data...');
-      const combinedBuffer = new Uint8Array(iv.length + encryptedBuffer.byteLength);
-      combinedBuffer.set(iv, 0);
-      combinedBuffer.set(new Uint8Array(encryptedBuffer), iv.length);
-      
-      // Convert to Base64 for storage/transmission
-      console.log('Converting to Base64...');
-      const base64Result = arrayBufferToBase64(combinedBuffer);
-      
-      const endTime = performance.now();
-      console.log('Encryption completed successfully');
-      
-      return {
-        result: base64Result,
-        timeTaken: endTime - startTime,
-        algorithm: EncryptionAlgorithm.AES,
-        params: { 
-          ...params, 
-          iv: arrayBufferToBase64(iv) 
-        }
-      };
+    // Associated data is only authenticated by AEAD constructions
+    const aad = getAadBytes(params);
+    if (aad && !supportsAssociatedData(algorithm, params)) {
+      throw new Error(`${algorithm}${params.mode ? `-${params.mode}` : ''} cannot authenticate associated data; use ${describeAeadOptions()}`);
     }
     
-    // Fallback for other algorithms (not recommended for production)
-    console.log(`Using fallback for algorithm ${algorithm}`);
-    const result = safeBase64Encode(text + key);
+    const modeAndPadding = getModeAndPadding(algorithm, params);
+    const chosenIv = getChosenIv(algorithm, params, modeAndPadding?.mode);
+    console.log(`Using ${provider.label}${modeAndPadding ? ` in ${modeAndPadding.mode} with ${modeAndPadding.padding}` : ''}`);
+    
+    // Raw hex, Base64 or JWK keys are used as-is, anything else goes through
+    // the cipher's own key derivation
+    const rawKey = getRawKey(key, algorithm, params);
+    const cipherKey: CipherKey = rawKey
+      ? { key: rawKey, rawKey: true, keySize: rawKey.length / 4 }
+      : await provider.deriveKey(key, params);
+    
+    // Encrypt the data
+    console.log('Encrypting data...');
+    const { ciphertext, iv, tag } = await provider.encrypt(
+      cipherKey,
+      stringToArrayBuffer(text),
+      { ...modeAndPadding, iv: chosenIv, aad }
+    );
+    
+    // An IV derived along with the key is derived again on decryption, so
+    // only a chosen or random one is stored
+    const nonce = cipherKey.iv && !chosenIv ? undefined : iv;
+    const result = encodeEnvelope({
+      algorithm,
+      mode: modeAndPadding?.mode,
+      padding: modeAndPadding?.padding,
+      keySize: cipherKey.keySize,
+      kdfParams: cipherKey.kdfParams,
+      rawKey: cipherKey.rawKey,
+      salt: cipherKey.salt,
+      nonce,
+      tag,
+      aadCheck: await computeAadCheck(cipherKey, algorithm, aad),
+      ciphertext
+    });
+    const warnings = await provider.getWarnings?.(cipherKey) ?? [];
+    
     const endTime = performance.now();
+    console.log('Encryption completed successfully');
+    
     return {
       result,
       timeTaken: endTime - startTime,
       algorithm,
-      params
+      params: {
+        ...params,
+        ...modeAndPadding,
+        ...(nonce && { iv: arrayBufferToBase64(nonce) }),
+        ...(cipherKey.salt && { salt: arrayBufferToBase64(cipherKey.salt) }),
+        ...cipherKey.kdfParams
+      },
+      ...(warnings.length > 0 && { warnings })
     };
   } catch (error) {
     console.error('Encryption error:', error);
@@ -274,7 +267,7 @@ export async function browserEncrypt(
   }
 }
 
-// AES decryption with detailed debugging
+// Decrypt an envelope, or ciphertext from before the envelope for the chosen algorithm
 export async function browserDecrypt(
   ciphertext: string,
   key: string,
@@ -294,101 +287,38 @@ export async function browserDecrypt(
       throw new Error('Decryption key cannot be empty');
     }
     
-    // Handle OTP separately
-    if (algorithm === EncryptionAlgorithm.OTP) {
-      console.log('Using OTP algorithm');
-      const decodedText = safeBase64Decode(ciphertext);
-      const result = oneTimePad(decodedText, key, false);
+    // Envelopes name their own algorithm and parameters
+    if (isEnvelope(ciphertext)) {
+      const envelope = decodeEnvelope(ciphertext);
+      console.log(`Using ${envelope.algorithm} from ciphertext envelope v${envelope.version}`);
+      const { text, params: envelopeParams } = await decryptEnvelope(envelope, key, params);
       const endTime = performance.now();
       return {
-        result,
+        result: text,
         timeTaken: endTime - startTime,
-        algorithm: EncryptionAlgorithm.OTP
+        algorithm: envelope.algorithm,
+        params: envelopeParams
       };
     }
     
-    // For AES, use the Web Crypto API
-    if (algorithm === EncryptionAlgorithm.AES) {
-      console.log('Using AES algorithm with Web Crypto API');
-      
-      // Import the key
-      console.log('Importing key...');
-      const cryptoKey = await importKey(key);
-      
-      // Decode the Base64 ciphertext to an array buffer
-      console.log('Decoding Base64 ciphertext...');
-      let combinedArray: Uint8Array;
-      
-      try {
-        const buffer = base64ToArrayBuffer(ciphertext);
-        combinedArray = new Uint8Array(buffer);
-        console.log('Decoded ciphertext length:', combinedArray.length);
-      } catch (decodeError) {
-        console.error('Error decoding Base64:', decodeError);
-        throw new Error(`Failed to decode Base64 ciphertext: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`);
-      }
-      
-      // Ensure we have enough data for IV and ciphertext
-      if (combinedArray.length <= 12) {
-        throw new Error(`Invalid ciphertext length: ${combinedArray.length} bytes (must be > 12 bytes)`);
-      }
-      
-      // Extract IV (first 12 bytes) and ciphertext
-      console.log('Extracting IV and ciphertext...');
-      const iv = combinedArray.slice(0, 12);
-      const encryptedBuffer = combinedArray.slice(12).buffer;
-      
-      console.log('IV:', Array.from(iv));
-      console.log('Encrypted data length:', encryptedBuffer.byteLength);
-      
-      // Decrypt the data
-      console.log('Decrypting data...');
-      try {
-        const decryptedBuffer = await window.crypto.subtle.decrypt(
-          {
-            name: 'AES-GCM',
-            iv
-          },
-          cryptoKey,
-          encryptedBuffer
-        );
-        
-        // Convert the decrypted ArrayBuffer back to a string
-        console.log('Converting decrypted data to string...');
-        const textDecoder = new TextDecoder();
-        const result = textDecoder.decode(decryptedBuffer);
-        
-        const endTime = performance.now();
-        console.log('Decryption completed successfully');
-        
-        return {
-          result,
-          timeTaken: endTime - startTime,
-          algorithm: EncryptionAlgorithm.AES,
-          params: { ...params, iv: arrayBufferToBase64(iv) }
-        };
-      } catch (decryptError) {
-        console.error('Web Crypto decrypt error:', decryptError);
-        throw new Error(`AES decryption failed: ${decryptError instanceof Error ? decryptError.message : String(decryptError)}`);
-      }
+    // Anything else predates the envelope and is in the cipher's own format
+    const provider = getCipherProvider(algorithm);
+    if (!provider.decryptLegacy) {
+      throw new Error(`${algorithm} ciphertext must be a ciphertext envelope`);
     }
+    console.log(`Using ${provider.label} (pre-envelope format)`);
+    const { plaintext, params: legacyParams } = await provider.decryptLegacy(ciphertext, key, params);
+    const result = decodePlaintext(algorithm, plaintext);
     
-    // Fallback for other algorithms (not recommended for production)
-    console.log(`Using fallback for algorithm ${algorithm}`);
-    try {
-      const decodedText = safeBase64Decode(ciphertext);
-      const result = decodedText.substring(0, decodedText.length - key.length);
-      const endTime = performance.now();
-      return {
-        result,
-        timeTaken: endTime - startTime,
-        algorithm,
-        params
-      };
-    } catch (fallbackError) {
-      console.error('Fallback decryption error:', fallbackError);
-      throw new Error(`Fallback decryption failed: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
-    }
+    const endTime = performance.now();
+    console.log('Decryption completed successfully');
+    
+    return {
+      result,
+      timeTaken: endTime - startTime,
+      algorithm,
+      params: legacyParams
+    };
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error(`Decryption failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -401,15 +331,19 @@ export function browserGenerateSecureKey(length: number = 32): string {
   return arrayBufferToBase64(randomValues.buffer);
 }
 
-// Function to measure key strength
-export function browserMeasureKeyStrength(key: string): number {
-  // Simple key strength measurement based on length and character diversity
-  const uniqueChars = new Set(key.split('')).size;
-  const length = key.length;
-  
-  // Heuristic: score from 0-100
-  const lengthScore = Math.min(length / 16, 1) * 40; // Length contributes 40% of score
-  const entropyScore = Math.min(uniqueChars / 64, 1) * 60; // Entropy contributes 60% of score
-  
-  return Math.round(lengthScore + entropyScore);
-} 
\ No newline at end of file
+// Key pair options for an asymmetric algorithm (RSA modulus lengths or ECC curves)
+export function getKeyPairOptions(algorithm: EncryptionAlgorithm): { value: string; label: string }[] {
+  return getCipherProvider(algorithm).keyPairOptions ?? [];
+}
+
+// Function to generate a key pair for an asymmetric algorithm
+export async function browserGenerateKeyPair(
+  algorithm: EncryptionAlgorithm,
+  option: string
+): Promise<KeyPairPem> {
+  const provider = getCipherProvider(algorithm);
+  if (!provider.generateKeyPair) {
+    throw new Error(`${algorithm} does not use key pairs`);
+  }
+  return provider.generateKeyPair(option);
+}
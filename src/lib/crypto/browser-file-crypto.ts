@@ -8,7 +8,8 @@ import {
 import {
   EncryptionAlgorithm,
   EncryptionParams,
-  EncryptionResult
+  EncryptionResult,
+  getStorableParams
 } from './encryption-service';
 
 // Constants
@@ -141,12 +142,14 @@ export async function browserEncryptFile(
       
       if (onProgress) onProgress(70);
       
-      // Create metadata to store with the encrypted file
+      // Create metadata to store with the encrypted file, the AAD only as a
+      // flag since it has to come from whoever decrypts
       const metadata = {
         originalFileName: file.name,
         originalFileType: file.type || 'application/octet-stream',
         algorithm,
-        params: encryptResult.params || params
+        params: getStorableParams(encryptResult.params || params),
+        aadRequired: Boolean(params.aad)
       };
       
       // Combine metadata and encrypted data
@@ -232,11 +235,13 @@ export function readEncryptedFile(file: File): Promise<string> {
 }
 
 /**
- * Decrypts an encrypted file
+ * Decrypts an encrypted file, aad is the associated data it was encrypted with
+ * (files only record that there was some)
  */
 export async function browserDecryptFile(
   encryptedData: string,
   key: string,
+  aad?: string,
   onProgress?: (progress: number) => void
 ): Promise<FileBrowserEncryptionResult> {
   console.log('Starting file decryption process');
@@ -289,7 +294,8 @@ export async function browserDecryptFile(
       originalFileName, 
       originalFileType, 
       algorithm, 
-      params 
+      params,
+      aadRequired
     } = metadata;
     
     console.log('Metadata:', {
@@ -303,6 +309,10 @@ export async function browserDecryptFile(
       throw new Error('Missing required metadata in encrypted file');
     }
     
+    if (aadRequired && !aad) {
+      throw new Error('The file was encrypted with associated data, which it does not store: enter it to decrypt');
+    }
+    
     if (onProgress) onProgress(30);
     
     // Decrypt the file data
@@ -310,7 +320,7 @@ export async function browserDecryptFile(
     console.log(`Encrypted data length: ${data.length} chars`);
     
     try {
-      const decryptResult = await browserDecrypt(data, key, algorithm, params);
+      const decryptResult = await browserDecrypt(data, key, algorithm, { ...params, aad });
       console.log('File decryption completed successfully');
       
       if (onProgress) onProgress(70);
@@ -443,4 +453,29 @@ export function downloadEncryptedFile(
     console.error('Error downloading encrypted file:', error);
     throw new Error(`Failed to download encrypted file: ${error instanceof Error ? error.message : String(error)}`);
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Downloads a detached signature as a .sig file next to the signed file's name
+ */
+export function downloadSignatureFile(signature: string, fileName: string): void {
+  try {
+    const blob = new Blob([signature], { type: 'text/plain' });
+    
+    // Create a download link
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.sig`;
+    document.body.appendChild(a);
+    a.click();
+    
+    // Clean up
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 100);
+  } catch (error) {
+    console.error('Error downloading signature file:', error);
+    throw new Error(`Failed to download signature: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
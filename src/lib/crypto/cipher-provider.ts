@@ -0,0 +1,190 @@
+"use client";
+
+import type { KdfParams } from './kdf';
+import type { AlgorithmStat } from '../base-data';
+
+// What a cipher is, independent of any one implementation. Each cipher is a
+// module in ./ciphers that implements CipherProvider, collected by
+// cipher-registry.ts; services and components read capabilities from there.
+
+// Define the encryption parameters interface
+export interface EncryptionParams {
+  mode?: string;
+  padding?: string;
+  iv?: string;
+  salt?: string;
+  iterations?: number;
+  keySize?: number;
+  kdf?: string; // KeyDerivationFunction, PBKDF2 when unset
+  memory?: number; // KiB, for scrypt and Argon2id
+  parallelism?: number; // scrypt and Argon2id
+  aad?: string; // Additional authenticated data for AEAD modes, not stored in the ciphertext
+  keyFormat?: string; // KeyFormat, passphrase when unset
+}
+
+// Define supported algorithms
+export enum EncryptionAlgorithm {
+  AES = 'AES',
+  DES = 'DES',
+  TripleDES = '3DES',
+  Rabbit = 'Rabbit',
+  RC4 = 'RC4',
+  ChaCha20 = 'ChaCha20',
+  XChaCha20 = 'XChaCha20',
+  OTP = 'OTP',
+  RSA = 'RSA',
+  ECC = 'ECC',
+  BLOWFISH = 'Blowfish'
+}
+
+// Define modes of operation
+export enum EncryptionMode {
+  ECB = 'ECB',
+  CBC = 'CBC',
+  CFB = 'CFB',
+  OFB = 'OFB',
+  CTR = 'CTR',
+  GCM = 'GCM'
+}
+
+// Define padding methods
+export enum PaddingMethod {
+  NoPadding = 'NoPadding',
+  PKCS7 = 'PKCS7',
+  ISO10126 = 'ISO10126',
+  AnsiX923 = 'AnsiX923',
+  ZeroPadding = 'ZeroPadding'
+}
+
+// Modes that turn a block cipher into a stream cipher, so they take no padding
+export const STREAM_MODES: EncryptionMode[] = [
+  EncryptionMode.CFB,
+  EncryptionMode.OFB,
+  EncryptionMode.CTR,
+  EncryptionMode.GCM
+];
+
+// Modes that take a one-block IV the user may choose; GCM always gets a fresh
+// random nonce, as reusing one gives away the authentication key
+export const IV_MODES: EncryptionMode[] = [
+  EncryptionMode.CBC,
+  EncryptionMode.CFB,
+  EncryptionMode.OFB,
+  EncryptionMode.CTR
+];
+
+// PEM-encoded key pair (SPKI public key, PKCS#8 private key)
+export interface KeyPairPem {
+  publicKey: string;
+  privateKey: string;
+}
+
+export enum CipherKind {
+  Block = 'block', // takes a mode of operation and padding
+  Stream = 'stream',
+  AEAD = 'aead', // stream cipher with a built-in authenticator
+  OneTimePad = 'one-time-pad',
+  PublicKey = 'public-key' // encrypts to the holder of a key pair
+}
+
+// How a passphrase becomes a key
+export enum KeyDerivation {
+  Kdf = 'kdf', // PBKDF2, scrypt or Argon2id with a random salt (see kdf.ts)
+  OpenSsl = 'openssl', // EVP_BytesToKey with an 8-byte salt, also deriving the IV
+  None = 'none' // the key is used as entered (pads, PEM keys)
+}
+
+export interface CipherCapabilities {
+  kind: CipherKind;
+  modes: EncryptionMode[]; // empty when the cipher has no modes of operation
+  defaultMode?: EncryptionMode;
+  authenticatedModes: EncryptionMode[]; // modes that detect tampering
+  paddings: PaddingMethod[]; // empty when the cipher never pads
+  blockSize?: number; // bytes
+  keySizes: number[]; // bytes, empty when any length is accepted
+  recommendedKeySize: number; // bytes
+  nonceSize: number; // bytes of IV or nonce, 0 when there is none
+  keyDerivation: KeyDerivation;
+  rawKeys: boolean; // accepts hex, Base64 and JWK keys of one of keySizes
+  files: boolean; // offered for file encryption
+}
+
+// A key ready for use, with the values that have to be stored to derive it again
+export interface CipherKey {
+  key: Uint8Array<ArrayBuffer> | string; // key bytes, or a key used as text (PEM keys, legacy pads)
+  iv?: Uint8Array<ArrayBuffer>; // derived along with the key, so never stored
+  salt?: Uint8Array<ArrayBuffer>;
+  kdfParams?: KdfParams;
+  keySize?: number; // 32-bit words, stored when the cipher needs it to derive the key
+  rawKey?: boolean; // key bytes were used directly, no KDF or hashing
+}
+
+// Key parameters stored with a message, given back when decrypting it
+export type StoredKeyParams = Omit<CipherKey, 'key' | 'iv'>;
+
+export interface CipherOptions {
+  mode?: EncryptionMode;
+  padding?: PaddingMethod;
+  iv?: Uint8Array<ArrayBuffer>; // random when unset, unless derived with the key
+  aad?: Uint8Array<ArrayBuffer>;
+}
+
+export interface CipherOutput {
+  ciphertext: Uint8Array<ArrayBuffer>;
+  iv?: Uint8Array<ArrayBuffer>;
+  tag?: Uint8Array<ArrayBuffer>;
+}
+
+// Shown with the cipher's parameters
+export interface CipherNote {
+  text: string;
+  level: 'info' | 'warning' | 'danger';
+  link?: { href: string; label: string };
+}
+
+export interface CipherProvider {
+  algorithm: EncryptionAlgorithm;
+  label: string;
+  envelopeId: number; // part of the envelope format, never reuse one (see envelope.ts)
+  capabilities: CipherCapabilities;
+  stats: Omit<AlgorithmStat, 'algorithm'>;
+  notes: CipherNote[];
+
+  // Turns a passphrase (or pad, or PEM key) into a key. Decryption passes the
+  // stored parameters, encryption leaves them out to get fresh ones.
+  deriveKey(key: string, params: EncryptionParams, stored?: StoredKeyParams): Promise<CipherKey>;
+  encrypt(key: CipherKey, plaintext: Uint8Array<ArrayBuffer>, options: CipherOptions): Promise<CipherOutput>;
+  decrypt(key: CipherKey, encrypted: CipherOutput, options: CipherOptions): Promise<Uint8Array<ArrayBuffer>>;
+
+  // Ciphertext from before the envelope, in the cipher's own format
+  decryptLegacy?(
+    ciphertext: string,
+    key: string,
+    params: EncryptionParams
+  ): Promise<{ plaintext: Uint8Array<ArrayBuffer>; params: EncryptionParams }>;
+  // Warnings to show with a result, e.g. a reused one-time pad
+  getWarnings?(key: CipherKey): Promise<string[]>;
+
+  keyPairOptions?: { value: string; label: string }[];
+  generateKeyPair?(option: string): Promise<KeyPairPem>;
+}
+
+/**
+ * The key bytes of a derived key, for ciphers that cannot take a text key
+ */
+export function getKeyBytes(key: CipherKey, algorithm: EncryptionAlgorithm): Uint8Array<ArrayBuffer> {
+  if (typeof key.key === 'string') {
+    throw new Error(`${algorithm} needs key bytes, not a text key`);
+  }
+  return key.key;
+}
+
+/**
+ * The text of a key used as entered, such as a PEM key
+ */
+export function getKeyText(key: CipherKey, algorithm: EncryptionAlgorithm): string {
+  if (typeof key.key !== 'string') {
+    throw new Error(`${algorithm} needs a text key, not key bytes`);
+  }
+  return key.key;
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { CipherProvider, EncryptionAlgorithm } from './cipher-provider';
+import { aes } from './ciphers/aes';
+import { chacha20, xchacha20 } from './ciphers/chacha20';
+import { tripleDes } from './ciphers/triple-des';
+import { blowfish } from './ciphers/blowfish';
+import { des } from './ciphers/des';
+import { rabbit } from './ciphers/rabbit';
+import { rc4 } from './ciphers/rc4';
+import { oneTimePad } from './ciphers/one-time-pad';
+import { rsa } from './ciphers/rsa';
+import { ecc } from './ciphers/ecc';
+
+// Every cipher, in the order the algorithm pickers list them. Adding a cipher
+// means adding its module to ./ciphers and its provider here.
+const PROVIDERS: CipherProvider[] = [
+  aes,
+  chacha20,
+  xchacha20,
+  tripleDes,
+  blowfish,
+  des,
+  rabbit,
+  rc4,
+  oneTimePad,
+  rsa,
+  ecc
+];
+
+const byAlgorithm = new Map<EncryptionAlgorithm, CipherProvider>();
+const byEnvelopeId = new Map<number, CipherProvider>();
+for (const provider of PROVIDERS) {
+  if (byAlgorithm.has(provider.algorithm)) {
+    throw new Error(`${provider.algorithm} is registered twice`);
+  }
+  if (byEnvelopeId.has(provider.envelopeId)) {
+    throw new Error(`${provider.algorithm} reuses envelope id ${provider.envelopeId} of ${byEnvelopeId.get(provider.envelopeId)!.algorithm}`);
+  }
+  byAlgorithm.set(provider.algorithm, provider);
+  byEnvelopeId.set(provider.envelopeId, provider);
+}
+
+/**
+ * All registered ciphers
+ */
+export function getCipherProviders(): CipherProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * The provider of an algorithm, throwing for one that is not registered
+ */
+export function getCipherProvider(algorithm: EncryptionAlgorithm): CipherProvider {
+  const provider = byAlgorithm.get(algorithm);
+  if (!provider) {
+    throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+  return provider;
+}
+
+/**
+ * The provider with an envelope id, or undefined for an unknown id
+ */
+export function getCipherProviderByEnvelopeId(id: number): CipherProvider | undefined {
+  return byEnvelopeId.get(id);
+}
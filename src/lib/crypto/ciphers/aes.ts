@@ -0,0 +1,227 @@
+"use client";
+
+import {
+  CipherKind,
+  CipherProvider,
+  EncryptionAlgorithm,
+  EncryptionMode,
+  EncryptionParams,
+  KeyDerivation,
+  PaddingMethod,
+  getKeyBytes
+} from '../cipher-provider';
+import { AES_BLOCK_SIZE, aesDecrypt, aesEncrypt } from '../aes-modes';
+import {
+  KdfParams,
+  KeyDerivationFunction,
+  KDF_HEADER_LENGTH,
+  deriveKeyBytes,
+  getKdfParams,
+  validateKdfParams,
+  decodeKdfParams
+} from '../kdf';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from '../encoding';
+
+const SALT_LENGTH = 16; // 128 bits
+
+// AES ciphertexts from before the envelope:
+// - [KDF1][KDF parameters][salt][IV][ciphertext]
+// - [PBK2][iterations, uint32 big-endian][salt][IV][ciphertext] (PBKDF2 only)
+// - [IV][ciphertext] with a SHA-256 hash of the password as the key
+// All three are AES-GCM with the tag at the end of the ciphertext.
+const AES_KDF_MAGIC = stringToArrayBuffer('KDF1');
+const AES_PBKDF2_MAGIC = stringToArrayBuffer('PBK2');
+const AES_IV_LENGTH = 12; // bytes for AES-GCM
+const GCM_TAG_LENGTH = 16;
+const AES_HEADER_LENGTH = AES_KDF_MAGIC.length + KDF_HEADER_LENGTH + SALT_LENGTH + AES_IV_LENGTH;
+const AES_PBKDF2_HEADER_LENGTH = AES_PBKDF2_MAGIC.length + 4 + SALT_LENGTH + AES_IV_LENGTH;
+
+// Plaintext and the parameters recovered from a pre-envelope ciphertext
+interface AesDecryption {
+  plaintext: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array;
+  salt?: Uint8Array;
+  kdfParams?: KdfParams;
+}
+
+// Key derivation function (PBKDF2, scrypt or Argon2id)
+async function deriveAesKeyBytes(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  kdfParams: KdfParams
+): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    return await deriveKeyBytes(password, salt, kdfParams);
+  } catch (error) {
+    console.error('Key derivation error:', error);
+    throw new Error('Failed to derive key: ' +
+      (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+// Whether decoded AES output starts with the given magic and is long enough for its header
+function hasHeader(data: Uint8Array, magic: Uint8Array, headerLength: number): boolean {
+  return data.length > headerLength &&
+    magic.every((byte, i) => data[i] === byte);
+}
+
+// Decrypt AES-GCM with the tag at the end, turning the generic error into a readable message
+async function decryptAesGcm(
+  key: Uint8Array<ArrayBuffer>,
+  iv: Uint8Array<ArrayBuffer>,
+  encrypted: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    const tagStart = encrypted.length - GCM_TAG_LENGTH;
+    return await aesDecrypt(
+      key,
+      { ciphertext: encrypted.slice(0, tagStart), iv, tag: encrypted.slice(tagStart) },
+      EncryptionMode.GCM,
+      PaddingMethod.NoPadding
+    );
+  } catch (decryptError) {
+    console.error('AES-GCM decrypt error:', decryptError);
+    throw new Error('AES decryption failed: wrong key or corrupted ciphertext');
+  }
+}
+
+// Decrypt [magic][KDF parameters][salt][IV][ciphertext]
+async function decryptAesWithKdf(data: Uint8Array<ArrayBuffer>, key: string): Promise<AesDecryption> {
+  let offset = AES_KDF_MAGIC.length;
+  const kdfParams = decodeKdfParams(data.slice(offset, offset + KDF_HEADER_LENGTH));
+  offset += KDF_HEADER_LENGTH;
+  const salt = data.slice(offset, offset + SALT_LENGTH);
+  const iv = data.slice(offset + SALT_LENGTH, AES_HEADER_LENGTH);
+
+  console.log(`Deriving key with ${kdfParams.kdf}...`);
+  const keyBytes = await deriveAesKeyBytes(key, salt, kdfParams);
+  const plaintext = await decryptAesGcm(keyBytes, iv, data.slice(AES_HEADER_LENGTH));
+  return { plaintext, iv, salt, kdfParams };
+}
+
+// Decrypt [PBK2][iterations][salt][IV][ciphertext] with a PBKDF2-derived key
+async function decryptAesPbkdf2(data: Uint8Array<ArrayBuffer>, key: string): Promise<AesDecryption> {
+  const offset = AES_PBKDF2_MAGIC.length;
+  const kdfParams = validateKdfParams({
+    kdf: KeyDerivationFunction.PBKDF2,
+    iterations: new DataView(data.buffer, data.byteOffset).getUint32(offset),
+    memory: 0,
+    parallelism: 1
+  });
+  const salt = data.slice(offset + 4, offset + 4 + SALT_LENGTH);
+  const iv = data.slice(offset + 4 + SALT_LENGTH, AES_PBKDF2_HEADER_LENGTH);
+
+  const keyBytes = await deriveAesKeyBytes(key, salt, kdfParams);
+  const plaintext = await decryptAesGcm(keyBytes, iv, data.slice(AES_PBKDF2_HEADER_LENGTH));
+  return { plaintext, iv, salt, kdfParams };
+}
+
+// Decrypt the old unsalted [IV][ciphertext] format keyed with SHA-256(password)
+async function decryptAesLegacy(data: Uint8Array<ArrayBuffer>, key: string): Promise<AesDecryption> {
+  if (data.length <= AES_IV_LENGTH) {
+    throw new Error(`Invalid ciphertext length: ${data.length} bytes (must be > ${AES_IV_LENGTH} bytes)`);
+  }
+
+  const iv = data.slice(0, AES_IV_LENGTH);
+  const hash = new Uint8Array(await window.crypto.subtle.digest('SHA-256', stringToArrayBuffer(key)));
+  const plaintext = await decryptAesGcm(hash, iv, data.slice(AES_IV_LENGTH));
+  return { plaintext, iv };
+}
+
+export const aes: CipherProvider = {
+  algorithm: EncryptionAlgorithm.AES,
+  label: 'AES (Recommended)',
+  envelopeId: 0x01,
+  capabilities: {
+    kind: CipherKind.Block,
+    modes: Object.values(EncryptionMode),
+    defaultMode: EncryptionMode.GCM,
+    authenticatedModes: [EncryptionMode.GCM],
+    paddings: Object.values(PaddingMethod),
+    blockSize: AES_BLOCK_SIZE,
+    keySizes: [16, 24, 32],
+    recommendedKeySize: 32,
+    nonceSize: AES_IV_LENGTH,
+    keyDerivation: KeyDerivation.Kdf,
+    rawKeys: true,
+    files: true
+  },
+  stats: {
+    speed: 5, // Relative speed metric
+    security: 95,
+    complexity: 80,
+    keySize: 256,
+    yearIntroduced: 2001,
+    standardStatus: 'NIST Standard'
+  },
+  notes: [
+    { text: 'AES-256 in GCM mode provides authenticated encryption.', level: 'info' },
+    { text: 'Use a random IV for each encryption operation.', level: 'info' },
+    { text: 'The key is derived with the chosen KDF and a random salt stored with each message.', level: 'info' }
+  ],
+
+  // Derive the key with the chosen KDF from a fresh random salt, or the stored one
+  async deriveKey(key, params, stored) {
+    const kdfParams = stored ? stored.kdfParams : getKdfParams(params);
+    const salt = stored ? stored.salt : window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    if (!kdfParams || !salt) {
+      throw new Error(`AES ciphertext is missing its ${kdfParams ? 'salt' : 'KDF parameters'}`);
+    }
+
+    console.log(`Deriving key with ${kdfParams.kdf}...`);
+    const keyBytes = await deriveAesKeyBytes(key, salt, kdfParams);
+    return { key: keyBytes, salt, kdfParams, keySize: keyBytes.length / 4 };
+  },
+
+  async encrypt(key, plaintext, { mode = EncryptionMode.GCM, padding = PaddingMethod.NoPadding, iv, aad }) {
+    return aesEncrypt(getKeyBytes(key, EncryptionAlgorithm.AES), plaintext, mode, padding, iv, aad);
+  },
+
+  // Unauthenticated modes cannot tell a wrong key from the right one, that is
+  // left to the UTF-8 check of the plaintext
+  async decrypt(key, encrypted, { mode = EncryptionMode.GCM, padding = PaddingMethod.NoPadding, aad }) {
+    try {
+      return await aesDecrypt(getKeyBytes(key, EncryptionAlgorithm.AES), encrypted, mode, padding, aad);
+    } catch (decryptError) {
+      console.error(`AES-${mode} decrypt error:`, decryptError);
+      throw new Error('AES decryption failed: wrong key or corrupted ciphertext');
+    }
+  },
+
+  async decryptLegacy(ciphertext, key, params) {
+    let data: Uint8Array<ArrayBuffer>;
+    try {
+      data = new Uint8Array(base64ToArrayBuffer(ciphertext));
+    } catch (decodeError) {
+      console.error('Error decoding Base64:', decodeError);
+      throw new Error(`Failed to decode Base64 ciphertext: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`);
+    }
+
+    // Salted output carries its own salt and KDF parameters
+    const decryptSalted = hasHeader(data, AES_KDF_MAGIC, AES_HEADER_LENGTH)
+      ? decryptAesWithKdf
+      : hasHeader(data, AES_PBKDF2_MAGIC, AES_PBKDF2_HEADER_LENGTH)
+        ? decryptAesPbkdf2
+        : null;
+
+    let decrypted: AesDecryption;
+    if (decryptSalted) {
+      try {
+        decrypted = await decryptSalted(data, key);
+      } catch (saltedError) {
+        // A legacy random IV can start with the header bytes by chance
+        decrypted = await decryptAesLegacy(data, key).catch(() => { throw saltedError; });
+      }
+    } else {
+      decrypted = await decryptAesLegacy(data, key);
+    }
+
+    const recovered: EncryptionParams = {
+      ...params,
+      iv: arrayBufferToBase64(decrypted.iv),
+      ...(decrypted.salt && { salt: arrayBufferToBase64(decrypted.salt) }),
+      ...decrypted.kdfParams
+    };
+    return { plaintext: decrypted.plaintext, params: recovered };
+  }
+};
@@ -0,0 +1,44 @@
+"use client";
+
+import { EncryptionAlgorithm } from '../cipher-provider';
+import { CRYPTOJS_BLOCK_CAPABILITIES, createCryptoJSCipher } from './cryptojs';
+
+// Blowfish key size limits in 32-bit words (32 to 448 bits)
+const BLOWFISH_MIN_KEY_SIZE = 32 / 32;
+const BLOWFISH_MAX_KEY_SIZE = 448 / 32;
+
+// Validate a Blowfish key size (in 32-bit words), defaulting to the full 448 bits
+function getBlowfishKeySize(keySize?: number): number {
+  const size = keySize ?? BLOWFISH_MAX_KEY_SIZE;
+  if (!Number.isInteger(size) || size < BLOWFISH_MIN_KEY_SIZE || size > BLOWFISH_MAX_KEY_SIZE) {
+    throw new Error(`Blowfish key size must be between 32 and 448 bits, got ${size * 32} bits`);
+  }
+  return size;
+}
+
+export const blowfish = createCryptoJSCipher({
+  algorithm: EncryptionAlgorithm.BLOWFISH,
+  cipher: 'Blowfish',
+  label: 'Blowfish',
+  envelopeId: 0x0b,
+  capabilities: {
+    ...CRYPTOJS_BLOCK_CAPABILITIES,
+    keySizes: Array.from(
+      { length: BLOWFISH_MAX_KEY_SIZE - BLOWFISH_MIN_KEY_SIZE + 1 },
+      (_, i) => (BLOWFISH_MIN_KEY_SIZE + i) * 4
+    ),
+    recommendedKeySize: BLOWFISH_MAX_KEY_SIZE * 4
+  },
+  stats: {
+    speed: 6,
+    security: 70,
+    complexity: 65,
+    keySize: 448,
+    yearIntroduced: 1993,
+    standardStatus: 'Public Domain'
+  },
+  notes: [
+    { text: 'Blowfish has a 64-bit block; avoid encrypting more than a few gigabytes under one key.', level: 'info' }
+  ],
+  getKeySize: getBlowfishKeySize
+});
@@ -0,0 +1,160 @@
+"use client";
+
+import { chacha20poly1305, xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import {
+  CipherKind,
+  CipherNote,
+  CipherProvider,
+  EncryptionAlgorithm,
+  KeyDerivation,
+  getKeyBytes
+} from '../cipher-provider';
+import type { AlgorithmStat } from '../../base-data';
+import { deriveKeyBytes, getKdfParams } from '../kdf';
+import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer } from '../encoding';
+
+// ChaCha20-Poly1305 (RFC 8439) and XChaCha20-Poly1305, which extends the
+// nonce from 12 to 24 bytes. Neither is in Web Crypto, @noble/ciphers has both.
+const KEY_LENGTH = 32;
+const POLY1305_TAG_LENGTH = 16;
+const SALT_LENGTH = 16; // 128 bits
+
+// Hash a passphrase down to 32 raw key bytes, how ChaCha was keyed before it
+// used the KDF; only for reading those messages
+async function hashKey(key: string): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await window.crypto.subtle.digest('SHA-256', stringToArrayBuffer(key)));
+}
+
+function createChaChaCipher(
+  algorithm: EncryptionAlgorithm,
+  aead: typeof chacha20poly1305,
+  definition: {
+    label: string;
+    envelopeId: number;
+    nonceLength: number;
+    stats: Omit<AlgorithmStat, 'algorithm'>;
+    notes: CipherNote[];
+  }
+): CipherProvider {
+  const { nonceLength } = definition;
+
+  // Decrypt ciphertext with its trailing tag
+  const open = (key: Uint8Array, nonce: Uint8Array, encrypted: Uint8Array, aad?: Uint8Array) => {
+    try {
+      return new Uint8Array(aead(key, nonce, aad).decrypt(encrypted));
+    } catch (decryptError) {
+      console.error(`${algorithm} decrypt error:`, decryptError);
+      throw new Error(`${algorithm} decryption failed: authentication tag mismatch (wrong key or corrupted ciphertext)`);
+    }
+  };
+
+  return {
+    algorithm,
+    label: definition.label,
+    envelopeId: definition.envelopeId,
+    capabilities: {
+      kind: CipherKind.AEAD,
+      modes: [],
+      authenticatedModes: [],
+      paddings: [],
+      keySizes: [KEY_LENGTH],
+      recommendedKeySize: KEY_LENGTH,
+      nonceSize: nonceLength,
+      keyDerivation: KeyDerivation.Kdf,
+      rawKeys: true,
+      files: true
+    },
+    stats: definition.stats,
+    notes: [
+      ...definition.notes,
+      { text: 'The key is derived with the chosen KDF and a random salt stored with each message.', level: 'info' }
+    ],
+
+    // Derive the key with the chosen KDF from a fresh random salt, or the
+    // stored one; envelopes without KDF parameters were keyed with SHA-256
+    async deriveKey(key, params, stored) {
+      if (stored && !stored.kdfParams && !stored.salt) {
+        const keyBytes = await hashKey(key);
+        return { key: keyBytes, keySize: keyBytes.length / 4 };
+      }
+
+      const kdfParams = stored ? stored.kdfParams : getKdfParams(params);
+      const salt = stored ? stored.salt : window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+      if (!kdfParams || !salt) {
+        throw new Error(`${algorithm} ciphertext is missing its ${kdfParams ? 'salt' : 'KDF parameters'}`);
+      }
+
+      console.log(`Deriving key with ${kdfParams.kdf}...`);
+      const keyBytes = await deriveKeyBytes(key, salt, kdfParams);
+      return { key: keyBytes, salt, kdfParams, keySize: keyBytes.length / 4 };
+    },
+
+    // Poly1305 appends its tag to the ciphertext, split off for the envelope
+    async encrypt(key, plaintext, { iv, aad }) {
+      const nonce = iv ?? window.crypto.getRandomValues(new Uint8Array(nonceLength));
+      const encrypted = new Uint8Array(aead(getKeyBytes(key, algorithm), nonce, aad).encrypt(plaintext));
+      return {
+        ciphertext: encrypted.slice(0, encrypted.length - POLY1305_TAG_LENGTH),
+        iv: nonce,
+        tag: encrypted.slice(encrypted.length - POLY1305_TAG_LENGTH)
+      };
+    },
+
+    async decrypt(key, { ciphertext, iv, tag }, { aad }) {
+      if (!iv || !tag) {
+        throw new Error(`${algorithm} ciphertext is missing its ${iv ? 'tag' : 'nonce'}`);
+      }
+      const encrypted = new Uint8Array(ciphertext.length + tag.length);
+      encrypted.set(ciphertext);
+      encrypted.set(tag, ciphertext.length);
+      return open(getKeyBytes(key, algorithm), iv, encrypted, aad);
+    },
+
+    // Bare [nonce][ciphertext][tag] keyed with SHA-256(passphrase)
+    async decryptLegacy(ciphertext, key, params) {
+      const data = new Uint8Array(base64ToArrayBuffer(ciphertext));
+      if (data.length < nonceLength + POLY1305_TAG_LENGTH) {
+        throw new Error(`Invalid ciphertext length: ${data.length} bytes (must be at least ${nonceLength + POLY1305_TAG_LENGTH} bytes)`);
+      }
+
+      const nonce = data.slice(0, nonceLength);
+      const plaintext = open(await hashKey(key), nonce, data.slice(nonceLength));
+      return { plaintext, params: { ...params, iv: arrayBufferToBase64(nonce) } };
+    }
+  };
+}
+
+export const chacha20 = createChaChaCipher(EncryptionAlgorithm.ChaCha20, chacha20poly1305, {
+  label: 'ChaCha20-Poly1305',
+  envelopeId: 0x06,
+  nonceLength: 12,
+  stats: {
+    speed: 2,
+    security: 90,
+    complexity: 75,
+    keySize: 256,
+    yearIntroduced: 2008,
+    standardStatus: 'RFC 8439'
+  },
+  notes: [
+    { text: 'Poly1305 authenticates every message; tampered ciphertext fails to decrypt.', level: 'info' }
+  ]
+});
+
+export const xchacha20 = createChaChaCipher(EncryptionAlgorithm.XChaCha20, xchacha20poly1305, {
+  label: 'XChaCha20-Poly1305',
+  envelopeId: 0x07,
+  nonceLength: 24,
+  stats: {
+    speed: 2,
+    security: 92,
+    complexity: 75,
+    keySize: 256,
+    yearIntroduced: 2018,
+    standardStatus: 'IETF Draft'
+  },
+  notes: [
+    { text: 'Poly1305 authenticates every message; tampered ciphertext fails to decrypt.', level: 'info' },
+    { text: 'The 24-byte nonce is safe to generate at random for any number of messages.', level: 'info' }
+  ]
+});
@@ -0,0 +1,259 @@
+"use client";
+
+import {
+  CipherCapabilities,
+  CipherKind,
+  CipherNote,
+  CipherProvider,
+  EncryptionAlgorithm,
+  EncryptionMode,
+  KeyDerivation,
+  PaddingMethod,
+  STREAM_MODES,
+  getKeyBytes
+} from '../cipher-provider';
+import type { AlgorithmStat } from '../../base-data';
+import { arrayBufferToBase64, arrayBufferToHex, base64ToArrayBuffer, hexToArrayBuffer, stringToArrayBuffer } from '../encoding';
+
+// Ciphers without a Web Crypto equivalent run on CryptoJS. A passphrase is
+// turned into the key and IV with OpenSSL's EVP_BytesToKey and an 8-byte salt,
+// as CryptoJS' own password-based helpers do, so output from before the
+// envelope (OpenSSL "Salted__" format) still decrypts. Raw keys are used as
+// given, with a random IV.
+
+// Instead of importing CryptoJS directly at the top, we'll use dynamic imports
+// import CryptoJS from 'crypto-js';
+
+// Safe dynamic import of CryptoJS
+async function getCryptoJS() {
+  try {
+    // Only import in browser environment
+    if (typeof window !== 'undefined') {
+      // Create a safe environment for CryptoJS to initialize in
+      if (!globalThis.crypto) {
+        // Provide a minimal implementation if crypto is not available
+        globalThis.crypto = {
+          getRandomValues: function(buf: Uint8Array) {
+            const bytes = new Uint8Array(buf.length);
+            for (let i = 0; i < buf.length; i++) {
+              bytes[i] = Math.floor(Math.random() * 256);
+            }
+            buf.set(bytes);
+            return buf;
+          }
+        } as Crypto;
+      }
+
+      // Dynamically import CryptoJS
+      try {
+        const CryptoJS = await import('crypto-js');
+        return CryptoJS.default || CryptoJS; // Handle both ESM and CommonJS
+      } catch (importError) {
+        console.error('Error importing CryptoJS:', importError);
+
+        // As a fallback, try loading it from window if already loaded
+        if ((window as any).CryptoJS) {
+          return (window as any).CryptoJS;
+        }
+
+        throw importError;
+      }
+    }
+    throw new Error('CryptoJS can only be used in browser environment');
+  } catch (error) {
+    console.error('Error loading CryptoJS:', error);
+    throw error;
+  }
+}
+
+// Names of our modes and paddings in CryptoJS
+const CRYPTOJS_MODES: Partial<Record<EncryptionMode, string>> = {
+  [EncryptionMode.ECB]: 'ECB',
+  [EncryptionMode.CBC]: 'CBC',
+  [EncryptionMode.CFB]: 'CFB',
+  [EncryptionMode.OFB]: 'OFB',
+  [EncryptionMode.CTR]: 'CTR'
+};
+
+const CRYPTOJS_PADDINGS: Record<PaddingMethod, string> = {
+  [PaddingMethod.NoPadding]: 'NoPadding',
+  [PaddingMethod.PKCS7]: 'Pkcs7',
+  [PaddingMethod.ISO10126]: 'Iso10126',
+  [PaddingMethod.AnsiX923]: 'AnsiX923',
+  [PaddingMethod.ZeroPadding]: 'ZeroPadding'
+};
+
+// OpenSSL "Salted__" framing written by CryptoJS before the envelope
+const OPENSSL_SALTED_MAGIC = stringToArrayBuffer('Salted__');
+const OPENSSL_SALT_LENGTH = 8;
+
+function toWordArray(CryptoJS: any, bytes: Uint8Array) {
+  return CryptoJS.enc.Hex.parse(arrayBufferToHex(bytes));
+}
+
+function fromWordArray(CryptoJS: any, words: any): Uint8Array<ArrayBuffer> {
+  return hexToArrayBuffer(words.toString(CryptoJS.enc.Hex));
+}
+
+// Configuration object for a CryptoJS cipher, leaving CryptoJS' defaults for unset values
+function getCryptoConfig(CryptoJS: any, mode?: EncryptionMode, padding?: PaddingMethod, iv?: Uint8Array) {
+  const config: any = {};
+  if (mode) {
+    const name = CRYPTOJS_MODES[mode];
+    if (!name) {
+      throw new Error(`Unsupported mode of operation: ${mode}`);
+    }
+    config.mode = CryptoJS.mode[name];
+  }
+  if (padding) {
+    config.padding = CryptoJS.pad[CRYPTOJS_PADDINGS[padding]];
+  }
+  if (iv) {
+    config.iv = toWordArray(CryptoJS, iv);
+  }
+  return config;
+}
+
+// Split CryptoJS output ("Salted__" + salt + ciphertext) into salt and ciphertext
+function splitOpenSslSalted(base64: string) {
+  const data = new Uint8Array(base64ToArrayBuffer(base64));
+  const isSalted = data.length >= OPENSSL_SALTED_MAGIC.length + OPENSSL_SALT_LENGTH &&
+    OPENSSL_SALTED_MAGIC.every((byte, i) => data[i] === byte);
+  if (!isSalted) {
+    throw new Error('Expected OpenSSL salted output from CryptoJS');
+  }
+  return {
+    salt: data.slice(OPENSSL_SALTED_MAGIC.length, OPENSSL_SALTED_MAGIC.length + OPENSSL_SALT_LENGTH),
+    ciphertext: data.slice(OPENSSL_SALTED_MAGIC.length + OPENSSL_SALT_LENGTH)
+  };
+}
+
+export interface CryptoJSCipherDefinition {
+  algorithm: EncryptionAlgorithm;
+  cipher: 'DES' | 'TripleDES' | 'Blowfish' | 'Rabbit' | 'RC4'; // name in CryptoJS
+  label: string;
+  envelopeId: number;
+  capabilities: Omit<CipherCapabilities, 'keyDerivation' | 'rawKeys' | 'files'>;
+  stats: Omit<AlgorithmStat, 'algorithm'>;
+  notes: CipherNote[];
+  // Passphrase key size in 32-bit words from the requested one, for ciphers
+  // with a variable key; the size is then stored with each message
+  getKeySize?: (keySize?: number) => number;
+}
+
+/**
+ * A provider for a CryptoJS cipher. Keys come from a passphrase or are raw
+ * bytes of one of the key sizes: the stream ciphers (Rabbit, RC4) ignore mode
+ * and padding, the block ciphers take a random IV when none was derived or given.
+ */
+export function createCryptoJSCipher(definition: CryptoJSCipherDefinition): CipherProvider {
+  const { algorithm, capabilities } = definition;
+  const wrongKeyError = () => new Error(`${algorithm} decryption failed: wrong key or corrupted ciphertext`);
+
+  const provider: CipherProvider = {
+    algorithm,
+    label: definition.label,
+    envelopeId: definition.envelopeId,
+    capabilities: {
+      ...capabilities,
+      keyDerivation: KeyDerivation.OpenSsl,
+      rawKeys: true,
+      files: true
+    },
+    stats: definition.stats,
+    notes: definition.notes,
+
+    async deriveKey(key, params, stored) {
+      if (stored && !stored.salt) {
+        throw new Error(`${algorithm} ciphertext is missing its salt`);
+      }
+
+      // CryptoJS' password-based helper always derives its default key size,
+      // so the OpenSSL KDF is run here to honour a selectable one
+      const CryptoJS = await getCryptoJS();
+      const cipher = CryptoJS.algo[definition.cipher];
+      const keySize = definition.getKeySize?.(stored ? stored.keySize : params.keySize) ?? cipher.keySize;
+      const derived = CryptoJS.kdf.OpenSSL.execute(
+        key,
+        keySize,
+        cipher.ivSize,
+        stored?.salt && toWordArray(CryptoJS, stored.salt)
+      );
+
+      return {
+        key: fromWordArray(CryptoJS, derived.key),
+        ...(cipher.ivSize > 0 && { iv: fromWordArray(CryptoJS, derived.iv) }),
+        salt: fromWordArray(CryptoJS, derived.salt),
+        ...(definition.getKeySize && { keySize })
+      };
+    },
+
+    async encrypt(key, plaintext, { mode, padding, iv }) {
+      // CryptoJS silently truncates an unpadded partial block in ECB and CBC
+      const { blockSize } = capabilities;
+      if (blockSize && padding === PaddingMethod.NoPadding && !STREAM_MODES.includes(mode ?? EncryptionMode.CBC) &&
+          plaintext.length % blockSize !== 0) {
+        throw new Error(`NoPadding needs a multiple of ${blockSize} bytes, got ${plaintext.length}; choose a padding method`);
+      }
+
+      const CryptoJS = await getCryptoJS();
+      const usesIv = capabilities.nonceSize > 0 && mode !== EncryptionMode.ECB;
+      const resolvedIv = usesIv
+        ? iv ?? key.iv ?? window.crypto.getRandomValues(new Uint8Array(capabilities.nonceSize))
+        : undefined;
+      const encrypted = CryptoJS[definition.cipher].encrypt(
+        toWordArray(CryptoJS, plaintext),
+        toWordArray(CryptoJS, getKeyBytes(key, algorithm)),
+        getCryptoConfig(CryptoJS, mode, padding, resolvedIv)
+      );
+      return { ciphertext: fromWordArray(CryptoJS, encrypted.ciphertext), iv: resolvedIv };
+    },
+
+    // CryptoJS does not authenticate: a wrong key only shows as bad padding
+    // (an empty result) or as plaintext that is not UTF-8
+    async decrypt(key, { ciphertext, iv }, { mode, padding }) {
+      const CryptoJS = await getCryptoJS();
+      try {
+        const decrypted = CryptoJS[definition.cipher].decrypt(
+          CryptoJS.lib.CipherParams.create({ ciphertext: toWordArray(CryptoJS, ciphertext) }),
+          toWordArray(CryptoJS, getKeyBytes(key, algorithm)),
+          getCryptoConfig(CryptoJS, mode, padding, iv ?? key.iv)
+        );
+        return fromWordArray(CryptoJS, decrypted);
+      } catch (decryptError) {
+        console.error('CryptoJS decrypt error:', decryptError);
+        throw wrongKeyError();
+      }
+    },
+
+    // Bare OpenSSL output; CryptoJS then defaulted to CBC with PKCS7, whatever the mode
+    async decryptLegacy(ciphertext, key, params) {
+      let parts: ReturnType<typeof splitOpenSslSalted>;
+      try {
+        parts = splitOpenSslSalted(ciphertext);
+      } catch (parseError) {
+        console.error('CryptoJS decrypt error:', parseError);
+        throw wrongKeyError();
+      }
+
+      const derived = await provider.deriveKey(key, params, { salt: parts.salt, keySize: params.keySize });
+      const plaintext = await provider.decrypt(derived, { ciphertext: parts.ciphertext }, {
+        mode: (params.mode as EncryptionMode) || EncryptionMode.CBC,
+        padding: (params.padding as PaddingMethod) || PaddingMethod.PKCS7
+      });
+      return { plaintext, params: { ...params, salt: arrayBufferToBase64(parts.salt) } };
+    }
+  };
+  return provider;
+}
+
+// Block ciphers on 64-bit blocks: GCM is defined for 128-bit blocks only
+export const CRYPTOJS_BLOCK_CAPABILITIES: Omit<CryptoJSCipherDefinition['capabilities'], 'keySizes' | 'recommendedKeySize'> = {
+  kind: CipherKind.Block,
+  modes: [EncryptionMode.ECB, EncryptionMode.CBC, EncryptionMode.CFB, EncryptionMode.OFB, EncryptionMode.CTR],
+  defaultMode: EncryptionMode.CBC,
+  authenticatedModes: [],
+  paddings: Object.values(PaddingMethod),
+  blockSize: 8,
+  nonceSize: 8
+};
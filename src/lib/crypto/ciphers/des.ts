@@ -0,0 +1,27 @@
+"use client";
+
+import { EncryptionAlgorithm } from '../cipher-provider';
+import { CRYPTOJS_BLOCK_CAPABILITIES, createCryptoJSCipher } from './cryptojs';
+
+export const des = createCryptoJSCipher({
+  algorithm: EncryptionAlgorithm.DES,
+  cipher: 'DES',
+  label: 'DES (Not Secure)',
+  envelopeId: 0x02,
+  capabilities: {
+    ...CRYPTOJS_BLOCK_CAPABILITIES,
+    keySizes: [8], // 64 bits, of which 56 are key bits (weak by modern standards)
+    recommendedKeySize: 8
+  },
+  stats: {
+    speed: 10,
+    security: 40, // Considered weak today
+    complexity: 65,
+    keySize: 56,
+    yearIntroduced: 1975,
+    standardStatus: 'Deprecated'
+  },
+  notes: [
+    { text: 'DES is considered insecure. Consider using AES instead.', level: 'warning' }
+  ]
+});
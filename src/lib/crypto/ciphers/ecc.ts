@@ -0,0 +1,60 @@
+"use client";
+
+import { CipherKind, CipherProvider, EncryptionAlgorithm, KeyDerivation, getKeyText } from '../cipher-provider';
+import { eciesEncrypt, eciesDecrypt, generateEccKeyPair, ECC_CURVES, EccCurve } from '../ecc-crypto';
+import { arrayBufferToBase64, arrayBufferToString, base64ToArrayBuffer, stringToArrayBuffer } from '../encoding';
+
+// ECIES (ECDH + HKDF + AES-GCM) to the recipient's PEM public key
+export const ecc: CipherProvider = {
+  algorithm: EncryptionAlgorithm.ECC,
+  label: 'ECIES (ECDH + AES-GCM)',
+  envelopeId: 0x0a,
+  capabilities: {
+    kind: CipherKind.PublicKey,
+    modes: [],
+    authenticatedModes: [],
+    paddings: [], // AES-GCM handles its own padding
+    keySizes: [32, 48], // P-256 and X25519, P-384
+    recommendedKeySize: 256 / 8,
+    nonceSize: 0,
+    keyDerivation: KeyDerivation.None,
+    rawKeys: false,
+    files: true
+  },
+  stats: {
+    speed: 12,
+    security: 90,
+    complexity: 90,
+    keySize: 256, // Comparable to a 3072-bit RSA key
+    yearIntroduced: 1985,
+    standardStatus: 'NIST Standard'
+  },
+  notes: [
+    {
+      text: 'ECIES: a fresh ephemeral key pair is combined with the recipient\'s public key (ECDH), the shared secret is expanded with HKDF-SHA256 into an AES-256-GCM key, and the ephemeral public key is stored with the ciphertext.',
+      level: 'info'
+    }
+  ],
+  keyPairOptions: ECC_CURVES.map(curve => ({ value: curve, label: curve })),
+
+  async deriveKey(key) {
+    return { key };
+  },
+
+  async encrypt(key, plaintext) {
+    const encrypted = await eciesEncrypt(arrayBufferToString(plaintext), getKeyText(key, EncryptionAlgorithm.ECC));
+    return { ciphertext: new Uint8Array(base64ToArrayBuffer(encrypted)) };
+  },
+
+  async decrypt(key, { ciphertext }) {
+    return stringToArrayBuffer(await eciesDecrypt(arrayBufferToBase64(ciphertext), getKeyText(key, EncryptionAlgorithm.ECC)));
+  },
+
+  async decryptLegacy(ciphertext, key, params) {
+    return { plaintext: stringToArrayBuffer(await eciesDecrypt(ciphertext, key)), params };
+  },
+
+  async generateKeyPair(option) {
+    return generateEccKeyPair(option as EccCurve);
+  }
+};
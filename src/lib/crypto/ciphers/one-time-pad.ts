@@ -0,0 +1,92 @@
+"use client";
+
+import { CipherKind, CipherProvider, EncryptionAlgorithm, KeyDerivation, getKeyBytes } from '../cipher-provider';
+import { parsePad, xorWithPad, recordPadUse, getPadReuseWarning } from '../one-time-pad';
+import { stringToArrayBuffer, arrayBufferToBase64 } from '../encoding';
+
+// Safe Base64 decoding for text data (handles Unicode), used by legacy OTP
+function safeBase64Decode(base64: string): string {
+  try {
+    return decodeURIComponent(escape(atob(base64)));
+  } catch (error) {
+    console.error('Error in safeBase64Decode:', error);
+    throw new Error('Failed to decode Base64 string: ' +
+      (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+// Repeating-key XOR of UTF-16 code units, which is what one-time pad messages
+// were before pads became random bytes; kept so old ciphertexts still decrypt
+function legacyOneTimePadDecrypt(text: string, key: string): string {
+  let fullKey = key;
+  while (fullKey.length < text.length) {
+    fullKey += key;
+  }
+
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    result += String.fromCharCode(text.charCodeAt(i) ^ fullKey.charCodeAt(i));
+  }
+  return result;
+}
+
+// XOR of the UTF-8 bytes with a random pad at least as long. The raw key flag
+// marks such a pad in the envelope, older envelopes hold the legacy XOR.
+export const oneTimePad: CipherProvider = {
+  algorithm: EncryptionAlgorithm.OTP,
+  label: 'One-Time Pad',
+  envelopeId: 0x08,
+  capabilities: {
+    kind: CipherKind.OneTimePad,
+    modes: [],
+    authenticatedModes: [],
+    paddings: [],
+    keySizes: [], // as long as the message
+    recommendedKeySize: 64,
+    nonceSize: 0,
+    keyDerivation: KeyDerivation.None,
+    rawKeys: false,
+    files: false
+  },
+  stats: {
+    speed: 1,
+    security: 100, // Theoretically unbreakable if used correctly
+    complexity: 30,
+    keySize: Infinity, // Key must be as long as the message
+    yearIntroduced: 1882,
+    standardStatus: 'Theoretical'
+  },
+  notes: [
+    {
+      text: 'Note: One-Time Pad is only perfectly secret with a random pad at least as long as the message (in UTF-8 bytes) that is never used again.',
+      level: 'warning',
+      link: { href: '/labs', label: 'See how two messages under one pad give each other away.' }
+    }
+  ],
+
+  async deriveKey(key, params, stored) {
+    return stored && !stored.rawKey
+      ? { key }
+      : { key: parsePad(key), rawKey: true };
+  },
+
+  async encrypt(key, plaintext) {
+    return { ciphertext: xorWithPad(plaintext, getKeyBytes(key, EncryptionAlgorithm.OTP)) };
+  },
+
+  async decrypt(key, { ciphertext }) {
+    return typeof key.key === 'string'
+      ? stringToArrayBuffer(legacyOneTimePadDecrypt(safeBase64Decode(arrayBufferToBase64(ciphertext)), key.key))
+      : xorWithPad(ciphertext, key.key);
+  },
+
+  // Bare Base64 ciphertext predates the envelope and random pads
+  async decryptLegacy(ciphertext, key, params) {
+    return { plaintext: stringToArrayBuffer(legacyOneTimePadDecrypt(safeBase64Decode(ciphertext), key)), params };
+  },
+
+  async getWarnings(key) {
+    const previousUses = await recordPadUse(getKeyBytes(key, EncryptionAlgorithm.OTP));
+    return previousUses > 0 ? [getPadReuseWarning(previousUses)] : [];
+  }
+};
@@ -0,0 +1,29 @@
+"use client";
+
+import { CipherKind, EncryptionAlgorithm } from '../cipher-provider';
+import { createCryptoJSCipher } from './cryptojs';
+
+export const rabbit = createCryptoJSCipher({
+  algorithm: EncryptionAlgorithm.Rabbit,
+  cipher: 'Rabbit',
+  label: 'Rabbit',
+  envelopeId: 0x04,
+  capabilities: {
+    kind: CipherKind.Stream,
+    modes: [],
+    authenticatedModes: [],
+    paddings: [],
+    keySizes: [16],
+    recommendedKeySize: 16, // 128 bits
+    nonceSize: 8
+  },
+  stats: {
+    speed: 2,
+    security: 75,
+    complexity: 60,
+    keySize: 128,
+    yearIntroduced: 2003,
+    standardStatus: 'eSTREAM Portfolio'
+  },
+  notes: []
+});
@@ -0,0 +1,31 @@
+"use client";
+
+import { CipherKind, EncryptionAlgorithm } from '../cipher-provider';
+import { createCryptoJSCipher } from './cryptojs';
+
+export const rc4 = createCryptoJSCipher({
+  algorithm: EncryptionAlgorithm.RC4,
+  cipher: 'RC4',
+  label: 'RC4 (Not Secure)',
+  envelopeId: 0x05,
+  capabilities: {
+    kind: CipherKind.Stream,
+    modes: [],
+    authenticatedModes: [],
+    paddings: [],
+    keySizes: [32],
+    recommendedKeySize: 32, // 256 bits (though RC4 is considered weak)
+    nonceSize: 0 // RC4 has no IV, so a key must never be reused
+  },
+  stats: {
+    speed: 3,
+    security: 30, // Considered broken
+    complexity: 50,
+    keySize: 128,
+    yearIntroduced: 1987,
+    standardStatus: 'Deprecated'
+  },
+  notes: [
+    { text: 'RC4 is cryptographically broken. Use for educational purposes only.', level: 'danger' }
+  ]
+});
@@ -0,0 +1,60 @@
+"use client";
+
+import { CipherKind, CipherProvider, EncryptionAlgorithm, KeyDerivation, getKeyText } from '../cipher-provider';
+import { rsaEncrypt, rsaDecrypt, generateRsaKeyPair, RSA_MODULUS_LENGTHS, RsaModulusLength } from '../rsa-crypto';
+import { arrayBufferToBase64, arrayBufferToString, base64ToArrayBuffer, stringToArrayBuffer } from '../encoding';
+
+// RSA-OAEP to the recipient's PEM public key, decrypted with the PEM private key
+export const rsa: CipherProvider = {
+  algorithm: EncryptionAlgorithm.RSA,
+  label: 'RSA-OAEP (Public Key)',
+  envelopeId: 0x09,
+  capabilities: {
+    kind: CipherKind.PublicKey,
+    modes: [],
+    authenticatedModes: [],
+    paddings: [], // OAEP handles its own padding
+    keySizes: RSA_MODULUS_LENGTHS.map(length => length / 8),
+    recommendedKeySize: 2048 / 8,
+    nonceSize: 0,
+    keyDerivation: KeyDerivation.None,
+    rawKeys: false,
+    files: true
+  },
+  stats: {
+    speed: 20, // Public-key operations are orders of magnitude slower
+    security: 85,
+    complexity: 90,
+    keySize: 2048,
+    yearIntroduced: 1977,
+    standardStatus: 'RFC 8017'
+  },
+  notes: [
+    {
+      text: 'RSA-OAEP with SHA-256. Messages longer than the OAEP limit (190 bytes for a 2048-bit key) are encrypted with a random AES-256-GCM key that is itself encrypted with RSA.',
+      level: 'info'
+    }
+  ],
+  keyPairOptions: RSA_MODULUS_LENGTHS.map(length => ({ value: String(length), label: `${length} bits` })),
+
+  async deriveKey(key) {
+    return { key };
+  },
+
+  async encrypt(key, plaintext) {
+    const encrypted = await rsaEncrypt(arrayBufferToString(plaintext), getKeyText(key, EncryptionAlgorithm.RSA));
+    return { ciphertext: new Uint8Array(base64ToArrayBuffer(encrypted)) };
+  },
+
+  async decrypt(key, { ciphertext }) {
+    return stringToArrayBuffer(await rsaDecrypt(arrayBufferToBase64(ciphertext), getKeyText(key, EncryptionAlgorithm.RSA)));
+  },
+
+  async decryptLegacy(ciphertext, key, params) {
+    return { plaintext: stringToArrayBuffer(await rsaDecrypt(ciphertext, key)), params };
+  },
+
+  async generateKeyPair(option) {
+    return generateRsaKeyPair(parseInt(option, 10) as RsaModulusLength);
+  }
+};
@@ -0,0 +1,27 @@
+"use client";
+
+import { EncryptionAlgorithm } from '../cipher-provider';
+import { CRYPTOJS_BLOCK_CAPABILITIES, createCryptoJSCipher } from './cryptojs';
+
+export const tripleDes = createCryptoJSCipher({
+  algorithm: EncryptionAlgorithm.TripleDES,
+  cipher: 'TripleDES',
+  label: 'Triple DES',
+  envelopeId: 0x03,
+  capabilities: {
+    ...CRYPTOJS_BLOCK_CAPABILITIES,
+    keySizes: [24], // 192 bits, of which 168 are key bits
+    recommendedKeySize: 24
+  },
+  stats: {
+    speed: 15,
+    security: 70,
+    complexity: 70,
+    keySize: 168,
+    yearIntroduced: 1995,
+    standardStatus: 'Legacy'
+  },
+  notes: [
+    { text: 'TripleDES is slower than AES but still considered secure for legacy applications.', level: 'info' }
+  ]
+});
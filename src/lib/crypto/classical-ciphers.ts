@@ -0,0 +1,312 @@
+"use client";
+
+import { EncryptionResult } from './encryption-service';
+import { EnigmaConfig, ENIGMA_DEFAULTS, runEnigma } from './enigma';
+
+// Classical (pen-and-paper and rotor machine) ciphers for teaching. None of
+// these are secure; the cryptanalysis tools break all of them.
+
+export enum ClassicalCipher {
+  Caesar = 'Caesar',
+  Atbash = 'Atbash',
+  Vigenere = 'Vigenère',
+  Playfair = 'Playfair',
+  RailFence = 'Rail Fence',
+  Columnar = 'Columnar Transposition',
+  Enigma = 'Enigma I'
+}
+
+// Settings beyond the key; only Enigma has any
+export interface ClassicalParams {
+  rotors?: [string, string, string];
+  reflector?: string;
+  ringSettings?: string;
+  plugboard?: string;
+}
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const PLAYFAIR_FILLER = 'X';
+
+// What the key field holds for each cipher
+export const CLASSICAL_KEY_HINTS: Record<ClassicalCipher, string | null> = {
+  [ClassicalCipher.Caesar]: 'Shift: 0-25 or a letter (3 or D)',
+  [ClassicalCipher.Atbash]: null,
+  [ClassicalCipher.Vigenere]: 'Keyword, e.g. LEMON',
+  [ClassicalCipher.Playfair]: 'Keyword, e.g. PLAYFAIR EXAMPLE',
+  [ClassicalCipher.RailFence]: 'Number of rails, e.g. 3',
+  [ClassicalCipher.Columnar]: 'Keyword, e.g. ZEBRAS',
+  [ClassicalCipher.Enigma]: 'Start positions, e.g. AAA'
+};
+
+const isUpper = (char: string) => char >= 'A' && char <= 'Z';
+const isLower = (char: string) => char >= 'a' && char <= 'z';
+const mod26 = (n: number) => ((n % 26) + 26) % 26;
+
+// Shift one letter keeping its case, anything else is returned unchanged
+function shiftLetter(char: string, shift: number): string {
+  if (isUpper(char)) {
+    return ALPHABET[mod26(char.charCodeAt(0) - 65 + shift)];
+  }
+  if (isLower(char)) {
+    return ALPHABET[mod26(char.charCodeAt(0) - 97 + shift)].toLowerCase();
+  }
+  return char;
+}
+
+// Upper-case letters of a keyword
+function keywordLetters(key: string, cipher: ClassicalCipher): string {
+  const letters = key.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) {
+    throw new Error(`${cipher} needs a keyword of letters`);
+  }
+  return letters;
+}
+
+/**
+ * Caesar shift from a number or a letter (A = 0)
+ */
+export function getCaesarShift(key: string): number {
+  const value = key.trim();
+  if (/^-?\d+$/.test(value)) {
+    return mod26(parseInt(value, 10));
+  }
+  if (/^[a-z]$/i.test(value)) {
+    return value.toUpperCase().charCodeAt(0) - 65;
+  }
+  throw new Error('Caesar needs a shift from 0 to 25 or a single letter');
+}
+
+function caesar(text: string, shift: number): string {
+  return [...text].map(char => shiftLetter(char, shift)).join('');
+}
+
+function atbash(text: string): string {
+  return [...text].map(char => {
+    if (isUpper(char)) return ALPHABET[25 - (char.charCodeAt(0) - 65)];
+    if (isLower(char)) return ALPHABET[25 - (char.charCodeAt(0) - 97)].toLowerCase();
+    return char;
+  }).join('');
+}
+
+// The key only advances on letters, so spacing survives
+function vigenere(text: string, key: string, encrypt: boolean): string {
+  const shifts = [...keywordLetters(key, ClassicalCipher.Vigenere)].map(char => char.charCodeAt(0) - 65);
+  let k = 0;
+  return [...text].map(char => {
+    if (!isUpper(char) && !isLower(char)) return char;
+    const shift = shifts[k++ % shifts.length];
+    return shiftLetter(char, encrypt ? shift : -shift);
+  }).join('');
+}
+
+/**
+ * The 5x5 Playfair square for a keyword, row by row, with J merged into I
+ */
+export function buildPlayfairSquare(key: string): string {
+  const letters = (key.toUpperCase() + ALPHABET).replace(/J/g, 'I').replace(/[^A-Z]/g, '');
+  return [...new Set(letters)].join('');
+}
+
+/**
+ * Splits text into Playfair digraphs: letters only, J as I, and an X between
+ * doubled letters and at the end of an odd-length message
+ */
+export function getPlayfairDigraphs(text: string): string[] {
+  const letters = text.toUpperCase().replace(/J/g, 'I').replace(/[^A-Z]/g, '');
+  const digraphs: string[] = [];
+  for (let i = 0; i < letters.length;) {
+    const a = letters[i];
+    const b = letters[i + 1];
+    if (b === undefined || a === b) {
+      digraphs.push(a + (a === PLAYFAIR_FILLER ? 'Q' : PLAYFAIR_FILLER));
+      i += 1;
+    } else {
+      digraphs.push(a + b);
+      i += 2;
+    }
+  }
+  return digraphs;
+}
+
+function playfair(text: string, key: string, encrypt: boolean): string {
+  const square = buildPlayfairSquare(key);
+  const step = encrypt ? 1 : 4; // +1 or -1 modulo 5
+  const digraphs = encrypt
+    ? getPlayfairDigraphs(text)
+    : (text.toUpperCase().replace(/[^A-Z]/g, '').match(/.{1,2}/g) ?? []);
+
+  return digraphs.map(pair => {
+    if (pair.length !== 2 || pair[0] === pair[1] || pair.includes('J')) {
+      throw new Error(`"${pair}" is not a Playfair digraph; ciphertext has an even number of letters, no J and no doubled pairs`);
+    }
+    const [a, b] = [square.indexOf(pair[0]), square.indexOf(pair[1])];
+    const [rowA, colA, rowB, colB] = [Math.floor(a / 5), a % 5, Math.floor(b / 5), b % 5];
+    if (rowA === rowB) {
+      return square[rowA * 5 + (colA + step) % 5] + square[rowB * 5 + (colB + step) % 5];
+    }
+    if (colA === colB) {
+      return square[((rowA + step) % 5) * 5 + colA] + square[((rowB + step) % 5) * 5 + colB];
+    }
+    return square[rowA * 5 + colB] + square[rowB * 5 + colA];
+  }).join('');
+}
+
+/**
+ * Number of rails from the key, at least 2
+ */
+export function getRailCount(key: string): number {
+  const rails = parseInt(key.trim(), 10);
+  if (!/^\d+$/.test(key.trim()) || rails < 2) {
+    throw new Error('Rail Fence needs a number of rails of at least 2');
+  }
+  return rails;
+}
+
+/**
+ * Rail of each position when writing length characters in a zigzag
+ */
+export function getRailPattern(length: number, rails: number): number[] {
+  const cycle = 2 * (rails - 1);
+  return Array.from({ length }, (_, i) => {
+    const offset = i % cycle;
+    return offset < rails ? offset : cycle - offset;
+  });
+}
+
+// Positions in the order they are read off: rail by rail, left to right
+function railReadOrder(length: number, rails: number): number[] {
+  const pattern = getRailPattern(length, rails);
+  return Array.from({ length: rails }, (_, rail) =>
+    pattern.flatMap((r, i) => (r === rail ? [i] : []))
+  ).flat();
+}
+
+/**
+ * Column read order for a keyword: alphabetical, ties left to right
+ */
+export function getColumnOrder(key: string): number[] {
+  const letters = keywordLetters(key, ClassicalCipher.Columnar);
+  return [...letters]
+    .map((char, i) => ({ char, i }))
+    .sort((a, b) => a.char.localeCompare(b.char) || a.i - b.i)
+    .map(({ i }) => i);
+}
+
+// Positions in the order they are read off: column by column in key order
+function columnarReadOrder(length: number, key: string): number[] {
+  const width = keywordLetters(key, ClassicalCipher.Columnar).length;
+  return getColumnOrder(key).flatMap(column => {
+    const positions: number[] = [];
+    for (let i = column; i < length; i += width) {
+      positions.push(i);
+    }
+    return positions;
+  });
+}
+
+// Transpositions keep every character: encrypting reads positions in order,
+// decrypting puts them back
+function transpose(text: string, order: number[], encrypt: boolean): string {
+  const chars = [...text];
+  if (encrypt) {
+    return order.map(i => chars[i]).join('');
+  }
+  const result = new Array<string>(chars.length);
+  order.forEach((position, i) => { result[position] = chars[i]; });
+  return result.join('');
+}
+
+/**
+ * Enigma settings with the key as start positions and defaults filled in
+ */
+export function getEnigmaConfig(key: string, params: ClassicalParams): EnigmaConfig {
+  return {
+    rotors: params.rotors ?? ENIGMA_DEFAULTS.rotors,
+    reflector: params.reflector ?? ENIGMA_DEFAULTS.reflector,
+    ringSettings: params.ringSettings || ENIGMA_DEFAULTS.ringSettings,
+    positions: key || ENIGMA_DEFAULTS.positions,
+    plugboard: params.plugboard ?? ENIGMA_DEFAULTS.plugboard
+  };
+}
+
+function runCipher(
+  text: string,
+  key: string,
+  cipher: ClassicalCipher,
+  params: ClassicalParams,
+  encrypt: boolean
+): string {
+  const length = [...text].length;
+  switch (cipher) {
+    case ClassicalCipher.Caesar: {
+      const shift = getCaesarShift(key);
+      return caesar(text, encrypt ? shift : -shift);
+    }
+    case ClassicalCipher.Atbash:
+      return atbash(text);
+    case ClassicalCipher.Vigenere:
+      return vigenere(text, key, encrypt);
+    case ClassicalCipher.Playfair:
+      return playfair(text, key, encrypt);
+    case ClassicalCipher.RailFence:
+      return transpose(text, railReadOrder(length, getRailCount(key)), encrypt);
+    case ClassicalCipher.Columnar:
+      return transpose(text, columnarReadOrder(length, key), encrypt);
+    case ClassicalCipher.Enigma:
+      return runEnigma(text, getEnigmaConfig(key, params)).map(step => step.output).join('');
+    default:
+      throw new Error(`Unsupported classical cipher: ${cipher}`);
+  }
+}
+
+// Ciphers that cannot give back the exact plaintext
+function getWarnings(cipher: ClassicalCipher): string[] | undefined {
+  switch (cipher) {
+    case ClassicalCipher.Playfair:
+      return ['Playfair keeps only letters, merges J into I and inserts X between doubled letters.'];
+    case ClassicalCipher.Enigma:
+      return ['Enigma only has letter keys: text is upper-cased and other characters are left as they are.'];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Encrypts text with a classical cipher
+ */
+export async function classicalEncrypt(
+  text: string,
+  key: string,
+  cipher: ClassicalCipher,
+  params: ClassicalParams = {}
+): Promise<EncryptionResult> {
+  const startTime = performance.now();
+  const result = runCipher(text, key, cipher, params, true);
+  const warnings = getWarnings(cipher);
+
+  return {
+    result,
+    timeTaken: performance.now() - startTime,
+    algorithm: cipher,
+    ...(warnings && { warnings })
+  };
+}
+
+/**
+ * Decrypts text encrypted with classicalEncrypt
+ */
+export async function classicalDecrypt(
+  ciphertext: string,
+  key: string,
+  cipher: ClassicalCipher,
+  params: ClassicalParams = {}
+): Promise<EncryptionResult> {
+  const startTime = performance.now();
+  const result = runCipher(ciphertext, key, cipher, params, false);
+
+  return {
+    result,
+    timeTaken: performance.now() - startTime,
+    algorithm: cipher
+  };
+}
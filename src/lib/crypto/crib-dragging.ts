@@ -0,0 +1,117 @@
+"use client";
+
+import { EncryptionAlgorithm } from './encryption-service';
+import { browserEncrypt } from './browser-crypto';
+import { decodeEnvelope } from './envelope';
+import { getEnglishWords } from './english-corpus';
+import { formatPad, generatePad, getMessageLength } from './one-time-pad';
+import { scoreEnglish } from './cryptanalysis';
+import { stringToArrayBuffer } from './encoding';
+
+// The two-time pad: XORing two ciphertexts made with the same pad cancels
+// the pad and leaves the XOR of the plaintexts. Guessing a word ("crib") in
+// one message at some position then reveals the other message there.
+
+// Constants
+const MAX_SUGGESTIONS = 15;
+const PLAUSIBLE_CHAR = /^[A-Za-z .,'!?-]$/;
+
+// Two messages encrypted with one pad, as an attacker would intercept them
+export interface KeyReuseChallenge {
+  pad: string; // Base64, for checking the answer
+  ciphertexts: [string, string]; // OTP envelopes
+  xor: Uint8Array<ArrayBuffer>; // ciphertext A XOR ciphertext B = plaintext A XOR plaintext B
+}
+
+// A crib at one position and what it reveals in the other message
+export interface CribPlacement {
+  crib: string;
+  position: number;
+  fragment: string;
+  score: number;
+}
+
+/**
+ * Encrypts both messages with one freshly generated pad, as long as the longer one
+ */
+export async function createKeyReuseChallenge(messageA: string, messageB: string): Promise<KeyReuseChallenge> {
+  const pad = formatPad(generatePad(Math.max(getMessageLength(messageA), getMessageLength(messageB))));
+  const a = await browserEncrypt(messageA, pad, EncryptionAlgorithm.OTP);
+  const b = await browserEncrypt(messageB, pad, EncryptionAlgorithm.OTP);
+  return {
+    pad,
+    ciphertexts: [a.result, b.result],
+    xor: xorCiphertexts(a.result, b.result)
+  };
+}
+
+/**
+ * XOR of two OTP envelopes' ciphertext bytes, as long as the shorter one
+ */
+export function xorCiphertexts(a: string, b: string): Uint8Array<ArrayBuffer> {
+  const bytesA = decodeEnvelope(a).ciphertext;
+  const bytesB = decodeEnvelope(b).ciphertext;
+  const length = Math.min(bytesA.length, bytesB.length);
+  const xor = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    xor[i] = bytesA[i] ^ bytesB[i];
+  }
+  return xor;
+}
+
+/**
+ * Bytes as characters, one per byte, with unprintable ones shown as a dot
+ */
+export function bytesToDisplay(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '·')).join('');
+}
+
+/**
+ * What a crib at position reveals in the other message, or null if it does not fit
+ */
+export function dragCrib(xor: Uint8Array, crib: string, position: number): string | null {
+  const cribBytes = stringToArrayBuffer(crib);
+  if (cribBytes.length === 0 || position < 0 || position + cribBytes.length > xor.length) {
+    return null;
+  }
+  return bytesToDisplay(cribBytes.map((byte, i) => byte ^ xor[position + i]));
+}
+
+// How much a revealed fragment looks like English text, -Infinity if it cannot be
+function scoreFragment(fragment: string): number {
+  if (![...fragment].every(char => PLAUSIBLE_CHAR.test(char))) {
+    return -Infinity;
+  }
+  const words = fragment.toLowerCase().match(/[a-z']+/g) ?? [];
+  const known = getEnglishWords();
+  const wordBonus = words.filter(word => known.includes(word)).length;
+  // Punctuation is possible but much rarer than letters and spaces
+  const punctuation = fragment.replace(/[A-Za-z ]/g, '').length;
+  return scoreEnglish(fragment) + wordBonus - punctuation;
+}
+
+/**
+ * Every position of one crib, most English-looking fragments first
+ */
+export function dragCribEverywhere(xor: Uint8Array, crib: string): CribPlacement[] {
+  const placements: CribPlacement[] = [];
+  for (let position = 0; position + stringToArrayBuffer(crib).length <= xor.length; position++) {
+    const fragment = dragCrib(xor, crib, position)!;
+    placements.push({ crib, position, fragment, score: scoreFragment(fragment) });
+  }
+  return placements.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Tries dictionary words (with the spaces around them) everywhere and keeps
+ * the placements whose fragment is itself plausible English
+ */
+export function suggestCribs(xor: Uint8Array, limit: number = MAX_SUGGESTIONS): CribPlacement[] {
+  const suggestions: CribPlacement[] = [];
+  for (const word of getEnglishWords()) {
+    for (const crib of [` ${word} `, `${word[0].toUpperCase()}${word.slice(1)} `]) {
+      suggestions.push(...dragCribEverywhere(xor, crib).filter(({ score }) => score > -Infinity));
+    }
+  }
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
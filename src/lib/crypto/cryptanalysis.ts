@@ -0,0 +1,335 @@
+"use client";
+
+import { ClassicalCipher, classicalDecrypt } from './classical-ciphers';
+import { ENGLISH_REFERENCE_TEXT } from './english-corpus';
+import { ENGLISH_QUADGRAMS } from './english-quadgrams';
+import {
+  ALPHABET,
+  ENGLISH_LETTER_FREQUENCIES,
+  chiSquaredEnglish,
+  indexOfCoincidence,
+  toLetters
+} from './text-statistics';
+
+// Automated attacks on the classical ciphers: Caesar brute force, Vigenère
+// key length (Kasiski and index of coincidence) and key recovery, and hill
+// climbing for monoalphabetic substitution. Candidates are ranked by how
+// English their plaintext looks to a trigram model, or a quadgram model for
+// substitution, where trigrams from the short reference text are too coarse.
+
+// Constants
+const NGRAM_LENGTH = 3;
+const MAX_VIGENERE_KEY_LENGTH = 20;
+const KASISKI_MIN_REPEAT = 3;
+const HILL_CLIMB_RESTARTS = 200;
+const MIN_SUBSTITUTION_LETTERS = 200; // below this the best-scoring key is often not the real one
+
+// A possible decryption, higher scores look more like English
+export interface CryptanalysisCandidate {
+  method: string;
+  key: string;
+  plaintext: string;
+  score: number;
+  warning?: string; // why this candidate may not be the real plaintext
+}
+
+// Evidence for one Vigenère key length
+export interface KeyLengthEstimate {
+  length: number;
+  kasiskiVotes: number; // repeated-sequence distances it divides
+  averageIoc: number; // of the columns the key length splits the text into
+}
+
+let ngramTable: Float64Array | null = null;
+let ngramFloor = 0;
+
+// log10 probability of every trigram in the reference text, built on first use
+function getNgramTable(): Float64Array {
+  if (!ngramTable) {
+    const letters = toLetters(ENGLISH_REFERENCE_TEXT);
+    const counts = new Float64Array(26 ** NGRAM_LENGTH);
+    for (let i = 0; i + NGRAM_LENGTH <= letters.length; i++) {
+      counts[ngramIndex(letters, i)]++;
+    }
+    const total = letters.length - NGRAM_LENGTH + 1;
+    ngramFloor = Math.log10(0.01 / total);
+    ngramTable = counts.map(count => (count > 0 ? Math.log10(count / total) : ngramFloor));
+  }
+  return ngramTable;
+}
+
+let quadgramTable: Float64Array | null = null;
+
+// log10 probability of every quadgram, unlisted ones get half the rarest count
+function getQuadgramTable(): Float64Array {
+  if (!quadgramTable) {
+    const fields = ENGLISH_QUADGRAMS.trim().split(/\s+/);
+    const entries: [string, number][] = [];
+    for (let i = 0; i < fields.length; i += 2) {
+      entries.push([fields[i], Number(fields[i + 1])]);
+    }
+    const total = entries.reduce((sum, [, count]) => sum + count, 0);
+    const rarest = Math.min(...entries.map(([, count]) => count));
+    quadgramTable = new Float64Array(26 ** 4).fill(Math.log10(rarest / 2 / total));
+    for (const [quadgram, count] of entries) {
+      let index = 0;
+      for (let j = 0; j < 4; j++) {
+        index = index * 26 + quadgram.charCodeAt(j) - 65;
+      }
+      quadgramTable[index] = Math.log10(count / total);
+    }
+  }
+  return quadgramTable;
+}
+
+function ngramIndex(letters: string, i: number): number {
+  let index = 0;
+  for (let j = 0; j < NGRAM_LENGTH; j++) {
+    index = index * 26 + letters.charCodeAt(i + j) - 65;
+  }
+  return index;
+}
+
+/**
+ * Log-likelihood that text is English, per trigram so texts of different
+ * lengths compare; letters only, case and punctuation are ignored
+ */
+export function scoreEnglish(text: string): number {
+  const table = getNgramTable();
+  const letters = toLetters(text);
+  const count = letters.length - NGRAM_LENGTH + 1;
+  if (count <= 0) {
+    return ngramFloor;
+  }
+  let score = 0;
+  for (let i = 0; i < count; i++) {
+    score += table[ngramIndex(letters, i)];
+  }
+  return score / count;
+}
+
+// Quadgram log-likelihood of ciphertext letter indices decrypted with key,
+// the hot loop of hill climbing
+function scoreQuadgrams(letters: Uint8Array, key: Uint8Array, table: Float64Array): number {
+  let score = 0;
+  for (let i = 0; i + 4 <= letters.length; i++) {
+    score += table[((key[letters[i]] * 26 + key[letters[i + 1]]) * 26 + key[letters[i + 2]]) * 26 + key[letters[i + 3]]];
+  }
+  return score;
+}
+
+const byScore = (a: CryptanalysisCandidate, b: CryptanalysisCandidate) => b.score - a.score;
+
+/**
+ * Decrypts with all 26 Caesar shifts, best first
+ */
+export async function breakCaesar(ciphertext: string): Promise<CryptanalysisCandidate[]> {
+  const candidates = await Promise.all(ALPHABET.split('').map(async (_, shift) => {
+    const { result } = await classicalDecrypt(ciphertext, String(shift), ClassicalCipher.Caesar);
+    return { method: 'Caesar', key: `${shift} (${ALPHABET[shift]})`, plaintext: result, score: scoreEnglish(result) };
+  }));
+  return candidates.sort(byScore);
+}
+
+// Every keyLength-th letter starting at offset
+function column(letters: string, keyLength: number, offset: number): string {
+  let result = '';
+  for (let i = offset; i < letters.length; i += keyLength) {
+    result += letters[i];
+  }
+  return result;
+}
+
+/**
+ * Kasiski examination: distances between repeated letter sequences, which are
+ * usually multiples of the key length
+ */
+export function kasiskiDistances(ciphertext: string): number[] {
+  const letters = toLetters(ciphertext);
+  const seen = new Map<string, number>();
+  const distances: number[] = [];
+  for (let i = 0; i + KASISKI_MIN_REPEAT <= letters.length; i++) {
+    const sequence = letters.slice(i, i + KASISKI_MIN_REPEAT);
+    const previous = seen.get(sequence);
+    if (previous !== undefined) {
+      distances.push(i - previous);
+    }
+    seen.set(sequence, i);
+  }
+  return distances;
+}
+
+/**
+ * Likely Vigenère key lengths, best first. Lengths are ranked by the index of
+ * coincidence of their columns (near 0.067 when every column is a single
+ * Caesar shift); Kasiski votes are counted alongside as independent evidence.
+ */
+export function estimateKeyLengths(ciphertext: string, maxLength: number = MAX_VIGENERE_KEY_LENGTH): KeyLengthEstimate[] {
+  const letters = toLetters(ciphertext);
+  const distances = kasiskiDistances(ciphertext);
+  const estimates: KeyLengthEstimate[] = [];
+
+  for (let length = 1; length <= Math.min(maxLength, Math.floor(letters.length / 2)); length++) {
+    const columns = Array.from({ length }, (_, offset) => column(letters, length, offset));
+    estimates.push({
+      length,
+      kasiskiVotes: distances.filter(distance => distance % length === 0).length,
+      averageIoc: columns.reduce((sum, col) => sum + indexOfCoincidence(col), 0) / length
+    });
+  }
+
+  // Multiples of the real length score just as well, so prefer the shortest
+  // length whose IoC is close to the best one
+  const bestIoc = Math.max(0, ...estimates.map(e => e.averageIoc));
+  return estimates.sort((a, b) => {
+    const aClose = a.averageIoc >= bestIoc * 0.9;
+    const bClose = b.averageIoc >= bestIoc * 0.9;
+    if (aClose !== bClose) return aClose ? -1 : 1;
+    if (aClose) return a.length - b.length;
+    return b.averageIoc - a.averageIoc;
+  });
+}
+
+/**
+ * Recovers a Vigenère key for each likely key length by solving every column
+ * as a Caesar shift against English letter frequencies
+ */
+export async function breakVigenere(ciphertext: string, lengthsToTry: number = 3): Promise<CryptanalysisCandidate[]> {
+  const letters = toLetters(ciphertext);
+  const candidates = await Promise.all(
+    estimateKeyLengths(ciphertext).slice(0, lengthsToTry).map(async ({ length }) => {
+      const key = Array.from({ length }, (_, offset) => {
+        const col = column(letters, length, offset);
+        let bestShift = 0;
+        let bestChi = Infinity;
+        for (let shift = 0; shift < 26; shift++) {
+          const shifted = [...col].map(char => ALPHABET[(char.charCodeAt(0) - 65 - shift + 26) % 26]).join('');
+          const chi = chiSquaredEnglish(shifted);
+          if (chi < bestChi) {
+            bestChi = chi;
+            bestShift = shift;
+          }
+        }
+        return ALPHABET[bestShift];
+      }).join('');
+
+      const { result } = await classicalDecrypt(ciphertext, key, ClassicalCipher.Vigenere);
+      return { method: `Vigenère (key length ${length})`, key, plaintext: result, score: scoreEnglish(result) };
+    })
+  );
+  return candidates.sort(byScore);
+}
+
+/**
+ * Applies a substitution key (the plaintext letter for each ciphertext letter
+ * A-Z), keeping case and non-letters
+ */
+export function applySubstitution(ciphertext: string, key: string): string {
+  return [...ciphertext].map(char => {
+    const upper = char.toUpperCase();
+    const index = upper.length === 1 ? ALPHABET.indexOf(upper) : -1;
+    if (index < 0) return char;
+    return char === upper ? key[index] : key[index].toLowerCase();
+  }).join('');
+}
+
+// Starting key that maps ciphertext letters to English letters by frequency rank
+function frequencyKey(letters: Uint8Array): Uint8Array {
+  const counts = new Array<number>(26).fill(0);
+  letters.forEach(letter => counts[letter]++);
+  const cipherOrder = [...counts.keys()].sort((a, b) => counts[b] - counts[a]);
+  const englishOrder = [...ENGLISH_LETTER_FREQUENCIES.keys()]
+    .sort((a, b) => ENGLISH_LETTER_FREQUENCIES[b] - ENGLISH_LETTER_FREQUENCIES[a]);
+  const key = new Uint8Array(26);
+  cipherOrder.forEach((cipherLetter, rank) => { key[cipherLetter] = englishOrder[rank]; });
+  return key;
+}
+
+function shuffledKey(): Uint8Array {
+  const key = Uint8Array.from({ length: 26 }, (_, i) => i);
+  for (let i = 25; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [key[i], key[j]] = [key[j], key[i]];
+  }
+  return key;
+}
+
+const keyToString = (key: Uint8Array) => Array.from(key, letter => ALPHABET[letter]).join('');
+
+// Tries every swap of two key letters, keeping any that improves the score,
+// until no swap does
+function climb(letters: Uint8Array, key: Uint8Array, table: Float64Array): number {
+  let score = scoreQuadgrams(letters, key, table);
+  for (let improved = true; improved;) {
+    improved = false;
+    for (let a = 0; a < 25; a++) {
+      for (let b = a + 1; b < 26; b++) {
+        [key[a], key[b]] = [key[b], key[a]];
+        const next = scoreQuadgrams(letters, key, table);
+        if (next > score) {
+          score = next;
+          improved = true;
+        } else {
+          [key[a], key[b]] = [key[b], key[a]];
+        }
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * Solves a monoalphabetic substitution by hill climbing: swap two letters of
+ * the key, keep the swap if the quadgram score improves. The first climb starts
+ * from a frequency match, the rest from random keys. onProgress gets the best
+ * candidate after every restart; the browser gets a chance to repaint between them.
+ *
+ * The best candidate carries a warning when the text is short or only one
+ * restart reached its key: the search then often stops on a key that reads
+ * almost like English but is not the real one.
+ */
+export async function solveSubstitution(
+  ciphertext: string,
+  onProgress?: (best: CryptanalysisCandidate, restart: number, restarts: number) => void,
+  restarts: number = HILL_CLIMB_RESTARTS
+): Promise<CryptanalysisCandidate[]> {
+  const table = getQuadgramTable();
+  const letters = Uint8Array.from(toLetters(ciphertext), char => char.charCodeAt(0) - 65);
+  if (letters.length < 4) {
+    throw new Error('Substitution solving needs at least a few letters of ciphertext');
+  }
+  const quadgramCount = letters.length - 3;
+
+  // Restarts often land on the same key, count how many reach each one
+  const candidates = new Map<string, CryptanalysisCandidate>();
+  const hits = new Map<string, number>();
+  let best: CryptanalysisCandidate | null = null;
+  for (let restart = 0; restart < restarts; restart++) {
+    const key = restart === 0 ? frequencyKey(letters) : shuffledKey();
+    const score = climb(letters, key, table) / quadgramCount;
+
+    const keyString = keyToString(key);
+    hits.set(keyString, (hits.get(keyString) ?? 0) + 1);
+    if (!candidates.has(keyString)) {
+      const plaintext = applySubstitution(ciphertext, keyString);
+      candidates.set(keyString, { method: 'Substitution (hill climbing)', key: keyString, plaintext, score });
+    }
+    if (!best || score > best.score) {
+      best = candidates.get(keyString)!;
+    }
+    onProgress?.(best, restart + 1, restarts);
+
+    // Yield to the event loop so progress can be drawn
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const ranked = [...candidates.values()].sort(byScore);
+  const top = ranked[0];
+  if (letters.length < MIN_SUBSTITUTION_LETTERS) {
+    top.warning = `Only ${letters.length} letters: substitution solving is unreliable below about ` +
+      `${MIN_SUBSTITUTION_LETTERS}, so treat this as a partial guess`;
+  } else if (restarts > 1 && hits.get(top.key) === 1) {
+    top.warning = 'Only one restart reached this key, so a better one may exist; try solving again';
+  }
+  return ranked;
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import {
+  stringToArrayBuffer,
+  arrayBufferToString,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  arrayBufferToHex,
+  arrayBufferToPem,
+  pemToArrayBuffer
+} from './encoding';
+import { KeyPairPem } from './cipher-provider';
+
+// Supported curves for ECDH / ECIES
+export const ECC_CURVES = ['P-256', 'P-384', 'X25519'] as const;
+export type EccCurve = typeof ECC_CURVES[number];
+
+// Result of an ECDH key agreement between two parties
+export interface SharedSecret {
+  curve: EccCurve;
+  sharedSecret: string; // Hex of the HKDF-derived 256-bit key
+  fingerprint: string; // Short hex digest to compare between both parties
+}
+
+// Constants
+const AES_IV_LENGTH = 12; // bytes for AES-GCM
+const HKDF_INFO_ECIES = 'crypto-grapher ECIES v1';
+const HKDF_INFO_AGREEMENT = 'crypto-grapher ECDH agreement v1';
+
+// Curve ids stored in the first byte of the ECIES output
+const CURVE_IDS: Record<EccCurve, number> = {
+  'P-256': 0x01,
+  'P-384': 0x02,
+  'X25519': 0x03
+};
+
+// DER-encoded curve OIDs, used to recognise the curve of a PEM key
+const CURVE_OIDS: Record<EccCurve, number[]> = {
+  'P-256': [0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07], // 1.2.840.10045.3.1.7
+  'P-384': [0x06, 0x05, 0x2b, 0x81, 0x04, 0x00, 0x22], // 1.3.132.0.34
+  'X25519': [0x06, 0x03, 0x2b, 0x65, 0x6e] // 1.3.101.110
+};
+
+// Shared secret size in bits for each curve
+const SHARED_SECRET_BITS: Record<EccCurve, number> = {
+  'P-256': 256,
+  'P-384': 384,
+  'X25519': 256
+};
+
+// Web Crypto algorithm parameters for a curve
+function getAlgorithm(curve: EccCurve): EcKeyImportParams | Algorithm {
+  return curve === 'X25519'
+    ? { name: 'X25519' }
+    : { name: 'ECDH', namedCurve: curve };
+}
+
+// Find the curve OID inside an SPKI or PKCS#8 structure
+function detectCurve(der: ArrayBuffer): EccCurve {
+  const bytes = new Uint8Array(der);
+  for (const curve of ECC_CURVES) {
+    const oid = CURVE_OIDS[curve];
+    for (let i = 0; i <= bytes.length - oid.length; i++) {
+      if (oid.every((byte, j) => bytes[i + j] === byte)) {
+        return curve;
+      }
+    }
+  }
+  throw new Error(`Unsupported curve, expected one of ${ECC_CURVES.join(', ')}`);
+}
+
+function getCurveById(id: number): EccCurve {
+  const curve = ECC_CURVES.find(c => CURVE_IDS[c] === id);
+  if (!curve) {
+    throw new Error(`Unknown curve id in ciphertext: ${id}`);
+  }
+  return curve;
+}
+
+// Rethrow Web Crypto's NotSupportedError with a readable message
+function wrapCurveError(curve: EccCurve, error: unknown): Error {
+  if (error instanceof DOMException && error.name === 'NotSupportedError') {
+    return new Error(`${curve} is not supported by this browser`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Import a PEM public key, detecting its curve
+async function importPublicKey(pem: string): Promise<{ key: CryptoKey; curve: EccCurve }> {
+  const der = pemToArrayBuffer(pem, 'PUBLIC KEY');
+  const curve = detectCurve(der);
+  try {
+    const key = await window.crypto.subtle.importKey('spki', der, getAlgorithm(curve), true, []);
+    return { key, curve };
+  } catch (error) {
+    console.error('ECC public key import error:', error);
+    throw new Error('Invalid ECC public key: ' + wrapCurveError(curve, error).message);
+  }
+}
+
+// Import a PEM private key, detecting its curve
+async function importPrivateKey(pem: string): Promise<{ key: CryptoKey; curve: EccCurve }> {
+  const der = pemToArrayBuffer(pem, 'PRIVATE KEY');
+  const curve = detectCurve(der);
+  try {
+    const key = await window.crypto.subtle.importKey('pkcs8', der, getAlgorithm(curve), false, ['deriveBits']);
+    return { key, curve };
+  } catch (error) {
+    console.error('ECC private key import error:', error);
+    throw new Error('Invalid ECC private key: ' + wrapCurveError(curve, error).message);
+  }
+}
+
+// Run ECDH and expand the raw shared secret into an AES-256-GCM key with HKDF-SHA256
+async function deriveAesKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  curve: EccCurve,
+  salt: Uint8Array<ArrayBuffer>,
+  info: string,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const sharedBits = await window.crypto.subtle.deriveBits(
+    { name: curve === 'X25519' ? 'X25519' : 'ECDH', public: publicKey },
+    privateKey,
+    SHARED_SECRET_BITS[curve]
+  );
+
+  const hkdfKey = await window.crypto.subtle.importKey('raw', sharedBits, 'HKDF', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: stringToArrayBuffer(info) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    usages
+  );
+}
+
+/**
+ * Generates an ECDH key pair on the given curve and exports it as PEM
+ */
+export async function generateEccKeyPair(curve: EccCurve = 'P-256'): Promise<KeyPairPem> {
+  console.log(`Generating ${curve} key pair`);
+
+  try {
+    const keyPair = await window.crypto.subtle.generateKey(
+      getAlgorithm(curve),
+      true,
+      ['deriveBits']
+    ) as CryptoKeyPair;
+
+    const publicKey = await window.crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const privateKey = await window.crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+    return {
+      publicKey: arrayBufferToPem(publicKey, 'PUBLIC KEY'),
+      privateKey: arrayBufferToPem(privateKey, 'PRIVATE KEY')
+    };
+  } catch (error) {
+    console.error('ECC key generation error:', error);
+    throw wrapCurveError(curve, error);
+  }
+}
+
+/**
+ * Encrypts text for a recipient's public key (ECIES): an ephemeral ECDH key pair
+ * is generated, the shared secret is expanded with HKDF into an AES-256-GCM key,
+ * and the ephemeral public key is stored in front of the ciphertext.
+ *
+ * Output layout: [curve id][ephemeral key length][ephemeral public key][IV][AES-GCM ciphertext]
+ */
+export async function eciesEncrypt(text: string, publicKeyPem: string): Promise<string> {
+  const { key: recipientKey, curve } = await importPublicKey(publicKeyPem);
+
+  let ephemeral: CryptoKeyPair;
+  try {
+    ephemeral = await window.crypto.subtle.generateKey(getAlgorithm(curve), true, ['deriveBits']) as CryptoKeyPair;
+  } catch (error) {
+    throw wrapCurveError(curve, error);
+  }
+  const ephemeralPublic = new Uint8Array(await window.crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  // The ephemeral public key doubles as the HKDF salt, binding the key to this message
+  const aesKey = await deriveAesKey(ephemeral.privateKey, recipientKey, curve, ephemeralPublic, HKDF_INFO_ECIES, ['encrypt']);
+  const iv = window.crypto.getRandomValues(new Uint8Array(AES_IV_LENGTH));
+  const encrypted = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, stringToArrayBuffer(text));
+
+  const combined = new Uint8Array(2 + ephemeralPublic.length + iv.length + encrypted.byteLength);
+  combined[0] = CURVE_IDS[curve];
+  combined[1] = ephemeralPublic.length;
+  combined.set(ephemeralPublic, 2);
+  combined.set(iv, 2 + ephemeralPublic.length);
+  combined.set(new Uint8Array(encrypted), 2 + ephemeralPublic.length + iv.length);
+  return arrayBufferToBase64(combined);
+}
+
+/**
+ * Decrypts the output of eciesEncrypt with the recipient's private key
+ */
+export async function eciesDecrypt(ciphertext: string, privateKeyPem: string): Promise<string> {
+  const { key: privateKey, curve } = await importPrivateKey(privateKeyPem);
+  const combined = new Uint8Array(base64ToArrayBuffer(ciphertext));
+
+  if (combined.length < 2) {
+    throw new Error(`Invalid ciphertext length: ${combined.length} bytes`);
+  }
+
+  const messageCurve = getCurveById(combined[0]);
+  if (messageCurve !== curve) {
+    throw new Error(`Ciphertext was encrypted for a ${messageCurve} key, but the private key is ${curve}`);
+  }
+
+  const ephemeralLength = combined[1];
+  if (combined.length <= 2 + ephemeralLength + AES_IV_LENGTH) {
+    throw new Error(`Invalid ciphertext length: ${combined.length} bytes`);
+  }
+
+  const ephemeralPublic = combined.slice(2, 2 + ephemeralLength);
+  const iv = combined.slice(2 + ephemeralLength, 2 + ephemeralLength + AES_IV_LENGTH);
+  const encrypted = combined.slice(2 + ephemeralLength + AES_IV_LENGTH);
+
+  try {
+    const ephemeralKey = await window.crypto.subtle.importKey('raw', ephemeralPublic, getAlgorithm(curve), true, []);
+    const aesKey = await deriveAesKey(privateKey, ephemeralKey, curve, ephemeralPublic, HKDF_INFO_ECIES, ['decrypt']);
+    const decrypted = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv }, aesKey, encrypted);
+    return arrayBufferToString(decrypted);
+  } catch (error) {
+    console.error('ECIES decrypt error:', error);
+    throw new Error('ECC decryption failed: wrong private key or corrupted ciphertext');
+  }
+}
+
+/**
+ * Derives the same shared secret on both sides of an ECDH exchange: each party
+ * combines their own private key with the other party's public key.
+ */
+export async function deriveSharedSecret(
+  privateKeyPem: string,
+  peerPublicKeyPem: string
+): Promise<SharedSecret> {
+  const { key: privateKey, curve } = await importPrivateKey(privateKeyPem);
+  const { key: peerKey, curve: peerCurve } = await importPublicKey(peerPublicKeyPem);
+
+  if (curve !== peerCurve) {
+    throw new Error(`Curve mismatch: your key is ${curve}, the peer's key is ${peerCurve}`);
+  }
+
+  // No salt: both sides must reach the same key from the same inputs
+  const aesKey = await deriveAesKey(privateKey, peerKey, curve, new Uint8Array(0), HKDF_INFO_AGREEMENT, ['encrypt', 'decrypt']);
+  const rawKey = new Uint8Array(await window.crypto.subtle.exportKey('raw', aesKey));
+  const digest = new Uint8Array(await window.crypto.subtle.digest('SHA-256', rawKey));
+
+  return {
+    curve,
+    sharedSecret: arrayBufferToHex(rawKey),
+    fingerprint: arrayBufferToHex(digest.slice(0, 8)).match(/.{4}/g)!.join(' ')
+  };
+}
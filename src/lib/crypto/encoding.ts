@@ -0,0 +1,69 @@
+"use client";
+
+// Helper functions for working with Base64 and binary data
+export function stringToArrayBuffer(str: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  return encoder.encode(str);
+}
+
+export function arrayBufferToString(buffer: ArrayBuffer | Uint8Array): string {
+  const decoder = new TextDecoder();
+  return decoder.decode(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+}
+
+// Pure utility to convert between ArrayBuffer and Base64
+export function arrayBufferToBase64(buffer: ArrayBuffer | ArrayBufferLike | Uint8Array): string {
+  const byteArray = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < byteArray.byteLength; i++) {
+    binary += String.fromCharCode(byteArray[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  try {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+  } catch (error) {
+    console.error('Error in base64ToArrayBuffer:', error);
+    throw new Error('Failed to decode Base64 string: ' + 
+      (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+export function arrayBufferToHex(buffer: ArrayBuffer | Uint8Array): string {
+  const byteArray = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return Array.from(byteArray, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToArrayBuffer(hex: string): Uint8Array<ArrayBuffer> {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// Wrap DER bytes in a PEM block (64-character lines)
+export function arrayBufferToPem(buffer: ArrayBuffer, label: string): string {
+  const base64 = arrayBufferToBase64(buffer);
+  const lines = base64.match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----`;
+}
+
+// Extract the DER bytes from a PEM block, checking its label
+export function pemToArrayBuffer(pem: string, label: string): ArrayBuffer {
+  const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`));
+  if (!match) {
+    throw new Error(`Expected a PEM block of type "${label}"`);
+  }
+  return base64ToArrayBuffer(match[1].replace(/\s+/g, ''));
+}
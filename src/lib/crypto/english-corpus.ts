@@ -0,0 +1,161 @@
+"use client";
+
+// Plain English prose the n-gram scorer learns from, and the word list the
+// crib-dragging lab and the password strength estimator share. Any ordinary
+// English works; it only has to be long and varied enough for the common
+// letter triples to show up in roughly their usual proportions.
+
+// Constants
+const MIN_WORD_LENGTH = 3;
+
+let words: string[] | null = null;
+
+export const ENGLISH_REFERENCE_TEXT = `
+It was late in the afternoon when the old man came down from the hills with his
+dog and a basket of apples. The village had changed since he was a boy. There
+were more houses now, and a new road ran along the river where the mill used to
+stand. He stopped at the bridge and looked at the water for a long time. The
+children who played by the bank did not know who he was, but they waved to him
+anyway, and he lifted his hat to them as his father had taught him to do.
+
+In those days most people in the valley worked on the farms or in the quarry on
+the other side of the hill. The work was hard and the pay was poor, but there was
+always enough bread on the table and a fire in the evening. His mother used to
+say that a family which eats together will never be truly poor. She said many
+things like that, and he had forgotten most of them, but that one had stayed
+with him through the war and the long years in the city that followed.
+
+When he reached the square he sat down on the bench in front of the church and
+opened the letter again. He had read it so many times that the paper was soft at
+the folds. His sister had written that the house was empty now, that the roof
+needed work before the winter, and that she could not look after it any longer.
+Would he come home, she asked, and decide what should be done with it? He had not
+answered. He had simply packed a bag, bought a ticket and taken the morning train.
+
+The history of secret writing is almost as old as writing itself. Soldiers,
+merchants, lovers and spies have all had reasons to hide what they wrote from
+the eyes of other people. The simplest methods replace each letter of a message
+with another letter according to a fixed rule. Julius Caesar is said to have
+shifted every letter three places along the alphabet, so that A became D and B
+became E. Such a cipher is easy to use, but it is just as easy to break, because
+there are only twenty five possible shifts and an enemy can simply try them all.
+
+A more careful writer might mix up the whole alphabet instead of shifting it.
+There are so many ways to arrange twenty six letters that nobody could try them
+one by one. For centuries this was thought to be safe. Then scholars in the
+Arab world noticed that some letters appear far more often than others. In
+English the letter E is the most common, followed by T, A, O, I and N, while
+letters such as Q, X and Z are rare. If a secret message is long enough, the
+most frequent symbol in it probably stands for E, and the rest of the message
+can be worked out piece by piece, like a puzzle with a picture on the box.
+
+To defeat this kind of attack, later writers used several alphabets in turn.
+The method that is now named after Blaise de Vigenere uses a keyword to decide
+which alphabet should be used for each letter. For almost three hundred years it
+was called the indecipherable cipher. It was finally broken in the nineteenth
+century by Charles Babbage and by a Prussian officer named Friedrich Kasiski, who
+noticed that repeated words in the message are sometimes encrypted in the same
+way, and that the distance between them reveals the length of the keyword.
+
+The morning was clear and cold. He walked out along the lane past the school and
+the baker's shop and the small garden where the priest grew his roses. Nothing
+seemed to have changed here at all. The same stone walls lined the road, covered
+in the same green moss, and the same gate stood open at the bottom of the field.
+He could see the house from the gate. It looked smaller than he remembered, as
+houses always do, but it was still standing, and there was smoke coming from the
+chimney, which meant that someone had lit a fire for him before he arrived.
+
+His sister was waiting in the kitchen. She was older than he had expected, with
+grey hair tied back from her face, but her voice had not changed at all. They
+talked for hours about their parents, about the neighbours who had moved away or
+died, and about the children she had raised in the town by the sea. Neither of
+them mentioned the reason why he had stayed away for so long. There would be
+time for that later, she said, and for once he was happy to agree with her.
+
+Science begins with careful observation. A good scientist looks at the world
+without deciding in advance what she expects to find, writes down what she sees,
+and then asks why it should be so. From these questions come ideas, and from the
+ideas come experiments that can show whether an idea is right or wrong. Most
+ideas turn out to be wrong, and that is not a failure but the whole point of
+the method. Each wrong answer narrows the search, and over many years the small
+steps of many people add up to knowledge that no single person could have found.
+
+The weather in the mountains can change very quickly. A walker who sets out in
+bright sunshine may find herself in thick cloud within an hour, unable to see
+more than a few steps ahead. Experienced guides always carry a map, a compass,
+warm clothes and something to eat, even on the shortest walk. They also tell
+someone where they are going and when they expect to return. These simple rules
+have saved many lives, and they cost nothing except a little time and thought.
+
+During the Second World War the German armed forces relied on a machine called
+Enigma to protect their radio messages. It looked like a typewriter in a wooden
+box. When the operator pressed a key, an electric current passed through a set
+of rotating wheels and lit a lamp showing the encrypted letter. After every key
+press the wheels turned, so the same letter was encrypted differently each time.
+The number of possible settings was enormous, and the Germans believed that the
+machine could not be broken. They were wrong. Polish mathematicians found the
+first weaknesses before the war began, and their work was carried on at Bletchley
+Park in England, where thousands of people worked in secret for years to read the
+messages. Their success is thought to have shortened the war by many months.
+
+Modern computers have changed the problem completely. Today a message is turned
+into numbers, and the numbers are mixed with a secret key using operations that
+are fast to perform but practically impossible to reverse without that key. The
+security of these systems does not depend on keeping the method hidden. On the
+contrary, the best methods are published openly so that experts all over the
+world can study them and look for weaknesses. Only the key must remain secret,
+and a good key is chosen at random from so many possibilities that even the
+fastest machines could not try more than a tiny fraction of them.
+
+That evening they walked down to the river together. The light was fading and
+the air smelled of wood smoke and wet leaves. His sister told him that she had
+been offered a good price for the house by a young couple from the city who
+wanted to move to the country and raise their children there. She thought he
+should accept. He listened without saying anything, watching the water move
+slowly under the bridge. When she had finished he said that he would like to
+stay for a few weeks first, to mend the roof and clear the garden, and then they
+could decide. She smiled as if she had known all along what he would say.
+
+The market opened early on Saturday mornings. Farmers came in from the
+surrounding villages with cheese, eggs, honey and vegetables, and set up their
+tables under the trees in the square. By eight o'clock the place was full of
+people talking, laughing and arguing about prices. He bought bread and a piece of
+cheese and sat by the fountain to eat his breakfast. An old woman at the next
+table recognised him and asked if he was the son of the schoolteacher. When he
+said that he was, she took his hand and told him that his mother had taught her
+to read, and that she had never forgotten how kind and patient she had been.
+
+Learning a language as an adult is slow and often frustrating. Children seem to
+pick up new words without any effort, while grown men and women struggle for
+years with grammar, spelling and pronunciation. Yet adults have advantages of
+their own. They can read, they can use a dictionary, and they understand how
+language works in general. The most important thing is practice. Those who speak
+every day, even badly, improve much faster than those who study in silence and
+wait until they feel ready. Mistakes are not a sign of failure but part of the
+process, and most people are happy to help a stranger who is trying to learn.
+
+By the end of the summer the roof was finished and the garden was clear. He had
+repaired the fence, painted the windows and planted a row of young trees along
+the wall where his father had once kept bees. In the evenings he sat on the step
+with a glass of wine and watched the swallows circling above the barn. He knew
+now that he would not sell the house. He wrote to his sister to tell her so, and
+to ask whether she and her family would come and spend the winter holidays with
+him. Her answer arrived a week later. It was only one line long, but it was the
+answer he had hoped for, and he read it again and again until it was dark.
+`;
+
+/**
+ * Words of the reference text, most frequent first
+ */
+export function getEnglishWords(): string[] {
+  if (!words) {
+    const counts = new Map<string, number>();
+    for (const word of ENGLISH_REFERENCE_TEXT.toLowerCase().match(/[a-z']+/g) ?? []) {
+      if (word.length >= MIN_WORD_LENGTH) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+    }
+    words = [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+  }
+  return words;
+}
@@ -0,0 +1,1144 @@
+"use client";
+
+// English quadgram (four-letter sequence) frequencies for scoring substitution
+// ciphers: the 10,000 most common quadgrams, each followed by how often it
+// occurs per ten million. Counted over a stream of words drawn in proportion to
+// the SUBTLEX-US word frequencies (Brysbaert & New, 2009), with spaces and
+// punctuation removed; they cover 75% of the quadgrams in that stream.
+export const ENGLISH_QUADGRAMS = `
+THAT 39310 HERE 32440 THER 28589 WHAT 28140 THIN 25220 EYOU 25045 ETHE 24004
+THIS 23041 YOUR 22772 IGHT 20880 TYOU 18980 HAVE 18194 HING 17459 KNOW 17369
+YOUT 17151 THEY 16988 TTHE 16871 WITH 15473 OULD 15320 OTHE 14047 EVER 13491
+JUST 13270 SYOU 12946 SOME 12850 STHE 12070 THET 12063 RIGH 11735 LIKE 11670
+OUTH 11099 ETHI 11059 INGT 10653 YOUI 10419 COME 10324 TION 10258 BOUT 10160
+ABOU 10104 WANT 9901 NYOU 9699 HATT 9588 THEM 9572 THEI 9513 THES 9450 VERY 9413
+YOUA 9294 KING 9251 YOUS 9185 HETH 9102 NTHE 8977 ETHA 8913 DYOU 8900 OING 8880
+INGS 8869 HINK 8663 WELL 8638 ALLY 8611 METH 8599 YEAH 8391 YOUW 8247 THEA 8084
+THAN 7983 TING 7877 YYOU 7866 ATHE 7850 LOOK 7822 DTHE 7803 GOOD 7711 TAND 7663
+OUGH 7448 OMET 7381 ITHE 7238 INGI 7145 TIME 7116 OYOU 7109 EALL 7107 EAND 7022
+YTHE 6973 RYOU 6875 REAL 6746 ATTH 6711 YOUY 6697 RETH 6644 YTHI 6541 HEYO 6514
+NGTH 6497 THEN 6481 TTHA 6471 YOUH 6392 TAKE 6377 WILL 6367 RTHE 6337 WOUL 6319
+WHER 6317 EFOR 6249 NOTH 6201 UTHE 6158 YOUM 6143 GOIN 6103 THEW 6065 OURS 5981
+INGA 5976 BACK 5962 HATI 5947 ANDT 5914 UYOU 5903 OUYO 5888 TELL 5817 WHEN 5812
+MEAN 5746 IYOU 5700 ONNA 5696 FROM 5669 OVER 5666 GONN 5545 OKAY 5523 TOTH 5521
+WERE 5494 ERET 5481 COUL 5450 OUND 5394 HATS 5360 INGW 5325 HATA 5294 ONTH 5244
+YOUO 5219 EWHA 5202 HANK 5133 ITTH 5004 TTHI 4991 EREA 4912 UGHT 4909 ERTH 4891
+ATIO 4873 STHA 4867 HEAR 4854 THOU 4835 HATW 4832 BEEN 4811 ANDI 4725 TTLE 4720
+NEVE 4688 THEH 4661 OTHI 4660 MAKE 4640 LLTH 4629 DIDN 4619 NING 4618 DOWN 4609
+NDTH 4599 TTER 4581 LYOU 4555 ISTH 4540 YOUD 4539 OUTO 4523 YOUB 4484 ANDS 4477
+CALL 4453 HIST 4427 REAT 4427 NEED 4420 LEAS 4399 NDER 4390 LING 4306 INGY 4305
+GYOU 4303 LITT 4302 ATYO 4294 REYO 4285 LOVE 4261 MENT 4240 YING 4230 TALK 4211
+MORE 4189 ERES 4166 RING 4116 AUSE 4110 SAND 4108 YOUC 4093 NGYO 4079 ORRY 4078
+INGH 4074 THEO 4048 EDON 4043 ERYO 4042 ITTL 4037 AYOU 4031 INGO 4018 NIGH 4003
+CAUS 3994 ITHA 3974 GIVE 3972 TWHA 3958 INGM 3937 HATY 3935 STAN 3922 PLEA 3900
+SHOU 3899 EHER 3894 HAPP 3890 LTHE 3828 YOUN 3825 DING 3817 BODY 3815 SURE 3810
+YOUG 3803 WORK 3792 ENOT 3782 ANDA 3777 HATH 3771 GTHE 3769 OURT 3761 EASE 3747
+EDTH 3739 YOUL 3678 ONEY 3678 STHI 3669 NTHA 3656 ANTH 3639 DOES 3616 EHAV 3604
+HELL 3585 HATM 3584 THEL 3577 HOUL 3539 EREI 3526 OUTT 3522 ESTH 3516 EVEN 3496
+NOWT 3486 LLYO 3474 APPE 3437 ITHI 3437 INTO 3428 HESE 3422 THED 3388 HETO 3387
+HTHE 3366 ITYO 3362 BECA 3346 EARE 3343 GETT 3342 FORT 3331 URSE 3313 SORR 3304
+THEB 3304 RYTH 3302 READ 3276 TOYO 3276 HYOU 3274 YOUF 3250 UTTH 3237 ECAU 3229
+SIDE 3226 OPLE 3218 ECOM 3218 GHTT 3210 HAND 3210 ANYT 3208 ISTE 3197 IONS 3181
+OWTH 3170 EWAS 3159 REST 3154 EKNO 3146 ORTH 3136 DOIN 3127 TFOR 3113 ENTH 3111
+DTHA 3101 HATO 3098 WAIT 3092 VING 3090 NYTH 3081 ULDN 3069 ESTI 3058 HELP 3049
+UNDE 3047 ANDW 3046 SAID 3044 THEC 3035 OUIT 3030 ERST 3015 ONLY 3002 PEOP 3001
+EOPL 2999 ANCE 2996 OTHA 2985 AYBE 2978 LONG 2966 INTH 2965 GOTT 2961 HOUG 2958
+EWIT 2955 FORE 2952 GAIN 2945 REME 2943 INGD 2941 MYOU 2934 NDYO 2930 STAR 2926
+ETTE 2925 SELF 2918 EONE 2912 HEIT 2909 OUSE 2902 LLIN 2902 ONYO 2900 INGB 2899
+ESHE 2896 STTH 2889 ANGE 2882 ISYO 2880 RIEN 2870 ELLO 2867 OURI 2867 ERED 2865
+TILL 2856 AVET 2855 TNOT 2854 VETH 2853 GREA 2842 ECAN 2832 EITH 2829 RAND 2826
+ETTH 2825 ANYO 2821 THEG 2806 NTHI 2803 STER 2800 ANDO 2785 MEYO 2779 MBER 2778
+ENTI 2765 AGAI 2762 EGET 2758 YTHA 2755 INGL 2744 PPEN 2740 ANDY 2730 ELLI 2728
+ARET 2726 UTHA 2724 SHOW 2713 HERI 2711 MUCH 2711 ROUN 2705 PART 2700 EREW 2697
+ATCH 2693 TDON 2687 TALL 2682 ALLT 2681 SHER 2680 DONT 2680 THAV 2670 FRIE 2667
+IEND 2655 NOWS 2654 ATHA 2646 EREN 2642 ERYT 2642 NAND 2641 MAYB 2631 INGC 2629
+HATD 2627 SING 2626 SWHA 2619 HERT 2616 EREM 2614 CARE 2608 OUHE 2604 EATH 2603
+KILL 2600 OUTI 2599 ATTO 2591 NGTO 2590 FEEL 2587 WAYS 2586 OFTH 2584 HATB 2583
+IRST 2578 FYOU 2570 STOP 2563 RTHA 2557 CHAN 2551 NOWI 2548 ASTH 2543 YOUP 2541
+WAST 2541 EARS 2537 YEAR 2530 OUTA 2530 HISI 2526 HATC 2523 OUTS 2523 RETO 2519
+ESOM 2515 HOME 2515 FIND 2515 HEHE 2514 ELLT 2506 EWHE 2504 ANDM 2503 DAND 2497
+TTIN 2495 THRO 2482 OTTH 2480 MTHE 2479 OUWH 2479 IEVE 2473 HONE 2473 ALLI 2461
+OUAN 2456 KYOU 2455 DERS 2452 HENO 2447 HEAN 2445 HEWH 2435 TWAS 2428 EDYO 2425
+BETT 2421 GHTS 2421 INGG 2421 GIRL 2408 NAME 2407 STIL 2406 EJUS 2402 ISHE 2400
+HOSE 2394 MISS 2394 TKNO 2386 DTHI 2385 THEF 2379 WYOU 2369 FIRS 2364 LIST 2355
+FTHE 2352 ISTO 2349 HEAD 2348 ITHO 2348 ATIN 2347 LIVE 2345 KEEP 2345 LATE 2340
+HISA 2337 TEVE 2336 ELIE 2334 LIFE 2333 FUCK 2332 HERS 2332 MING 2331 GETH 2324
+ILLI 2322 GHTI 2319 DONE 2316 BEFO 2316 HATE 2313 ANDH 2300 ANKS 2300 HISS 2295
+AYTH 2291 ONET 2289 NDON 2289 ESTO 2288 ATTE 2285 ERSO 2280 EBUT 2280 NOWA 2279
+TARE 2276 EGOT 2268 LAST 2268 USTT 2267 EADY 2266 OMES 2264 HEYT 2263 ABLE 2262
+ENCE 2260 EREY 2256 TWIT 2251 LACE 2251 BELI 2242 OUDO 2242 NOTT 2237 HEDO 2231
+AWAY 2229 EOUT 2227 ROUG 2226 ENTS 2226 RESS 2219 FTER 2209 LLED 2205 ESTA 2203
+SETH 2195 OURA 2194 INTE 2193 AFTE 2188 REIT 2187 AKES 2185 ONES 2184 URTH 2180
+TOLD 2178 HATG 2176 SION 2173 CANT 2169 KTHE 2167 SFOR 2166 ATIT 2154 EWAN 2154
+LAND 2151 AROU 2149 YAND 2148 PLAC 2147 BUTT 2142 EDID 2138 INGF 2134 ERIG 2134
+THOS 2133 ATER 2131 OMIN 2129 THRE 2125 EART 2124 RSTA 2122 TCAN 2118 EREH 2116
+ESYO 2114 NTER 2109 PORT 2103 FORG 2098 LEAV 2091 WETH 2089 OOKI 2089 ELIK 2086
+ECON 2085 NFOR 2084 OMEO 2081 LIEV 2078 OWHA 2076 TAIN 2075 ANTS 2073 NGIT 2073
+WTHE 2069 HATL 2069 ANOT 2062 ERIN 2058 TGET 2056 HOUS 2055 ALLS 2053 NESS 2050
+INES 2048 NGIN 2044 OMAN 2044 TCOM 2043 MUST 2042 STEN 2039 HISW 2035 UTYO 2031
+NWHA 2028 OWYO 2023 OAND 2021 PRES 2020 MONE 2019 NDIN 2018 EAVE 2016 INGN 2016
+ITHT 2015 RECO 2013 OUNO 2012 LETH 2011 FORM 2011 COMP 2006 OURE 2004 TREA 1999
+AYIN 1999 EYEA 1996 TERS 1995 ALWA 1994 LWAY 1991 EMBE 1990 YONE 1988 OUGO 1985
+REHE 1985 SNOT 1982 PROB 1968 RTHI 1960 PLAY 1958 TOTO 1956 VERT 1955 UALL 1954
+KIND 1951 EABO 1950 ITIN 1950 NTED 1948 KETH 1945 NTTH 1941 UTHI 1938 ALKI 1935
+ALLE 1934 HANG 1932 AREA 1929 NICE 1926 TSHE 1926 HEIR 1923 HEGO 1922 TONE 1920
+AVEN 1918 GUYS 1910 ERTO 1906 EMEM 1906 INYO 1905 SDON 1905 HTTH 1903 TURE 1901
+EING 1898 HATF 1897 AKIN 1896 RONG 1896 EANY 1895 INGR 1892 COUR 1887 TART 1887
+ANTE 1887 ENOW 1886 STYO 1876 MEON 1874 OUTW 1872 USTI 1871 NETH 1869 RYIN 1869
+DWHA 1868 EEVE 1865 ESHO 1865 INKI 1860 NOTI 1859 AVEI 1858 OWIT 1858 NOWH 1858
+EWEL 1857 ONTO 1856 TURN 1855 ETIM 1852 AVES 1852 OUWE 1849 ISIT 1845 LYTH 1843
+RGET 1840 CKIN 1838 OGET 1838 EHIM 1838 GHTA 1835 ESEE 1833 ATWH 1832 THEP 1830
+NNOT 1829 ATHI 1827 ETTI 1825 ITTO 1824 ETYO 1824 REDO 1822 OESN 1820 ANDL 1818
+VEYO 1817 OUWA 1816 FINE 1812 STOR 1811 AREN 1811 ELLA 1811 HATN 1809 HEWE 1807
+EMAN 1803 STAY 1803 MINU 1802 USTH 1801 EREO 1801 REWH 1797 REAN 1795 SHIT 1791
+ATAN 1789 LESS 1789 OMEA 1786 EACH 1785 HERA 1784 TSOM 1783 ELLS 1783 ROOM 1780
+SHAV 1780 DONI 1778 CHAR 1777 TJUS 1775 MOTH 1772 INUT 1771 EMEN 1766 NOWW 1766
+LLTO 1765 RIED 1765 EYES 1764 MEMB 1762 NUTE 1761 GETS 1759 OUBE 1758 EHOW 1756
+LKIN 1751 HEWA 1750 ECOU 1747 IOUS 1745 NGHE 1744 FATH 1744 TERT 1743 HEIN 1741
+FORI 1738 ARES 1737 IMES 1735 OMEN 1730 PERS 1729 OOKS 1727 RNIN 1727 OUHA 1727
+TGOT 1727 AINT 1727 OMEW 1726 SKNO 1726 TOIT 1722 SHET 1720 ULDT 1720 RENT 1717
+TBUT 1715 ENED 1714 STIN 1708 NDIT 1706 HEBE 1705 ANTI 1705 CAME 1704 LLIT 1703
+ALLA 1702 VERS 1700 OUST 1698 NGWH 1696 INST 1692 OUIN 1691 ETOT 1689 RSEL 1687
+TLET 1684 BEIN 1683 NGAN 1682 OURW 1680 NDTO 1677 OUSO 1676 OUNT 1674 ENYO 1673
+USTA 1672 ESSI 1670 MOST 1666 OMEB 1665 LOSE 1665 INGE 1664 HEME 1663 MIND 1661
+LLOW 1661 DONA 1659 OKIN 1659 NALL 1658 ANTO 1657 ANDD 1657 MOVE 1656 MANY 1656
+YWHA 1654 MADE 1651 IKET 1648 OMEI 1646 HEMA 1646 SWIT 1646 BETH 1646 UAND 1645
+LDTH 1643 ERIT 1643 INGP 1642 HISY 1641 HEHA 1641 OUIS 1638 EYTH 1635 ANDB 1635
+RENO 1635 GHTW 1634 ILLT 1633 ENOU 1632 TERI 1632 GHTH 1632 TOUT 1631 OINT 1630
+METO 1630 TRIG 1630 STRA 1627 COMI 1623 IDEN 1622 USIN 1621 USED 1620 IDEA 1620
+OFYO 1618 HEST 1618 ATED 1618 HOLE 1617 SWAS 1614 MYTH 1612 AVEA 1612 EREC 1611
+TLIK 1610 ICAL 1608 FORW 1608 ITIT 1606 OTYO 1606 HATR 1606 HISH 1605 EWHO 1600
+BREA 1598 TWHE 1598 TONI 1596 WASN 1593 HOLD 1593 ALON 1592 IONA 1592 OTTA 1591
+SHEA 1591 IAND 1589 ORYO 1589 LONE 1588 TWAN 1588 NGDO 1587 ONAL 1586 ANNA 1583
+DENT 1583 THTH 1582 CTIO 1581 OUCO 1577 HROU 1577 TITH 1575 REAS 1574 ATDO 1573
+OUME 1573 YBOD 1570 FORA 1565 OFFI 1564 OUOF 1560 HEIS 1560 SCAN 1559 MIGH 1557
+ILLE 1557 ARED 1557 CTOR 1556 HEOF 1556 ALLO 1555 SARE 1554 OWHE 1553 GUES 1553
+PENE 1551 AREI 1551 ENDS 1551 EREB 1550 ANTT 1547 EWOR 1546 SPEC 1543 RDER 1542
+ANDC 1541 HREE 1540 FORS 1540 NGER 1540 HECO 1539 SALL 1539 AINS 1539 EDIT 1537
+ANTA 1536 ARRI 1534 YOUE 1530 HESO 1529 OWER 1526 MAND 1526 AKET 1526 LETT 1524
+ECTI 1523 TYEA 1523 RETT 1523 EGOO 1522 EHEA 1520 IONT 1519 ASYO 1517 EREL 1516
+LTHA 1516 RSON 1516 ENIN 1513 HISM 1511 NHER 1511 GOTH 1510 ITCH 1509 NKNO 1509
+WRON 1507 ORGE 1507 PLAN 1505 TDID 1504 REWE 1502 MEWH 1501 GTHA 1501 NDAN 1500
+IVES 1499 GHTY 1498 STRE 1497 TOGE 1496 DOTH 1494 TODA 1493 SEVE 1492 TABO 1492
+USTO 1489 ORNI 1488 SUPP 1488 ONIT 1487 ONEI 1485 OWAN 1479 EINT 1478 ERAN 1469
+ATNO 1466 ERAT 1466 NGON 1466 DONS 1464 LEAR 1462 ARTH 1461 RESE 1461 HEYI 1459
+CONT 1457 SIST 1457 ENTO 1457 ELOO 1457 TOMO 1457 ESTE 1456 REDI 1456 HARD 1455
+HATP 1455 HERW 1451 COUN 1451 DFOR 1448 ONCE 1447 DREA 1446 HTHA 1445 NOWY 1443
+NGRE 1443 REGO 1442 SSHE 1440 HOWT 1440 ISTA 1439 ALLW 1439 DHER 1438 BABY 1437
+TOAN 1437 TSTH 1431 TRYI 1431 OUSA 1431 FFER 1429 AVEW 1427 WANN 1426 EDTO 1426
+THIM 1421 AYYO 1421 HIMT 1421 NGNO 1418 BLEM 1418 AUGH 1417 CHIN 1416 HENT 1413
+COND 1412 FFIC 1412 HOUT 1410 INCE 1408 TNOW 1406 OUTY 1405 RWHA 1404 NKIN 1404
+VERI 1404 TWEL 1402 TOHE 1402 IBLE 1400 SGET 1400 ODAY 1399 ERHE 1398 MEET 1398
+PING 1397 LLAN 1395 ATGO 1394 POSE 1393 TOWH 1393 SECO 1393 ITAN 1391 ONDE 1390
+AVIN 1388 SCOM 1388 ELET 1386 REAM 1385 EREG 1385 NOUG 1384 OUON 1383 ETOO 1383
+ANDG 1379 WASI 1379 ERNO 1379 ONST 1376 MEIT 1376 NGST 1376 YOUK 1375 HICH 1372
+TEST 1369 DNOT 1366 ESIT 1366 CANI 1366 ENTA 1366 EITT 1364 HECA 1363 STAT 1363
+PRET 1362 NEYO 1361 ESSA 1360 YFOR 1358 TIVE 1357 MATT 1356 COMM 1356 HISO 1355
+OUCA 1354 SEEM 1353 ETHO 1353 NOTA 1352 SEYO 1352 DONW 1352 ONEA 1351 ETEL 1351
+DEAD 1350 ASON 1349 HEON 1349 WHIC 1348 WHOL 1348 UTTO 1345 NGGO 1345 BEST 1343
+REWA 1342 EARD 1340 CETH 1340 SOUT 1340 DAYS 1338 ISSI 1337 ITWH 1337 HERO 1336
+GHTE 1336 NHAV 1336 UESS 1334 ONIG 1334 OUSH 1334 ASTE 1334 OURY 1334 SAME 1334
+ELLY 1334 ATWE 1333 WORL 1333 ORLD 1331 LEFT 1331 REAK 1330 ONSI 1329 WATC 1328
+NGWE 1326 NOWM 1323 ISON 1323 EFIN 1322 HEYA 1320 HALL 1319 ERAL 1319 ATES 1318
+ERWH 1318 ESSE 1317 ESST 1317 UEST 1314 ITAL 1313 RSTH 1313 EANT 1312 RESO 1312
+TSEE 1311 NDRE 1310 RAIN 1309 ELSE 1307 DDON 1307 UPPO 1305 OWIN 1304 ENTL 1303
+EDAN 1302 ONDO 1302 EHEL 1302 TSHO 1299 HEAL 1299 TELY 1299 SSIN 1297 EETH 1297
+TORE 1297 LLWH 1296 ATWA 1295 REBE 1295 ENTT 1294 CLEA 1294 LLHE 1294 SSOM 1292
+HEYS 1291 RFOR 1291 TCOU 1291 INIT 1290 OURH 1290 SSTH 1290 ONEW 1290 WASS 1288
+NDHE 1287 ANYW 1287 EMEA 1286 LIGH 1285 TOWE 1284 EAST 1283 NEXT 1282 GHTM 1280
+REIN 1280 VERA 1279 PYOU 1278 USTS 1277 OMOR 1277 ILLS 1277 REMA 1276 RIST 1276
+EPAR 1275 CKED 1274 ANDR 1273 EANS 1272 AREW 1272 ELLW 1272 NOWO 1271 NOTO 1270
+INDO 1270 YHER 1269 NGWA 1268 WOMA 1268 SHED 1268 EMOR 1268 IVER 1267 GETI 1266
+ONHE 1265 ALTH 1265 WEYO 1265 SJUS 1264 MANT 1264 ERHA 1261 WENT 1261 HEAT 1261
+NTYO 1260 EPLA 1260 OFOR 1260 REHA 1258 OURM 1258 MORN 1256 ANDF 1256 PECT 1256
+TONO 1255 ESTR 1255 TORY 1255 OURO 1255 OUTM 1254 RDON 1254 TANY 1252 CANS 1252
+NWAS 1251 MARR 1251 NGET 1251 SEEN 1250 OUMA 1247 RESI 1246 TWOR 1245 WASH 1245
+TTOT 1245 CANA 1245 LLYT 1243 SSED 1242 TODO 1242 NTIN 1241 YOUU 1240 DHAV 1239
+OREA 1239 ONAN 1239 EGOI 1238 CKTH 1238 ATBE 1237 ATSO 1237 OBLE 1236 SAYS 1235
+ESSO 1235 OODT 1234 NARE 1233 ISAN 1232 NGHA 1229 WASA 1228 ICAN 1228 ANNO 1228
+ATRE 1228 ACTI 1225 SCAR 1225 DARE 1225 NGBE 1225 ERDO 1223 NGSO 1223 ONGO 1222
+NOTS 1221 RROW 1220 EGON 1218 ORRO 1218 ONWH 1217 REVE 1217 UCKI 1217 HTYO 1217
+URYO 1215 ASTO 1215 RATE 1214 ASHE 1214 ETTY 1214 NDWH 1214 ORTA 1214 INKT 1210
+EMIN 1209 KEYO 1209 DONO 1209 ETAL 1209 EWIL 1209 TERE 1208 OPEN 1208 EWOU 1208
+SAYI 1208 TRAI 1206 THEE 1205 FERE 1205 ORET 1204 USTW 1204 ATME 1203 SWER 1202
+LREA 1202 TOOK 1201 ETAK 1199 RERE 1199 UWHA 1198 ILLA 1197 SOTH 1195 GAND 1194
+OWTO 1193 OUCH 1192 ATIS 1192 ITDO 1192 ISWH 1192 GHTO 1192 TENT 1191 GONE 1190
+MEHE 1190 EREF 1190 ARTI 1189 ODON 1189 ROMI 1189 ESPE 1188 GETA 1188 SBUT 1187
+LTHI 1187 DAMN 1186 EAHT 1186 VENT 1185 INDI 1184 IWHA 1184 AMIL 1183 OTTO 1183
+GENT 1182 RRIE 1181 ICHA 1181 HESH 1180 SHES 1180 FOUN 1179 EFRO 1179 HEYW 1179
+PPOS 1179 ROTH 1176 WEEK 1174 TINT 1174 SHEL 1173 ESAY 1172 AVEY 1171 EALI 1171
+SITT 1170 SENT 1167 TSTO 1166 OWAS 1166 TERR 1165 HENI 1165 MEBO 1165 CHIL 1164
+INIS 1164 GTHI 1164 YNOT 1163 OMEH 1163 HOUR 1163 NCOM 1161 HELI 1161 IKES 1160
+USET 1160 THOW 1160 ROBL 1160 TUAL 1159 CLOS 1158 MEDI 1158 SHEI 1158 ITHS 1157
+EHIS 1157 HIMS 1157 OUSI 1157 NOTW 1157 ISCO 1157 CHOO 1156 CUSE 1155 AVEH 1155
+INKS 1155 ATOF 1154 TWHO 1154 SITI 1154 HEMY 1153 WORD 1153 REOF 1152 LYYO 1152
+LLDO 1152 SGOT 1152 EXPE 1149 PTHE 1149 UNTI 1148 INAL 1148 SHEY 1147 OULI 1143
+IFOR 1143 DKNO 1141 ATCO 1141 FAMI 1140 SITH 1139 IVIN 1139 EATT 1138 DGET 1138
+YDON 1136 ORIT 1136 NOWN 1136 STIT 1136 DWAS 1135 YEST 1134 HISD 1134 ERYB 1134
+TOWA 1133 HEMI 1132 OSED 1131 HEWI 1131 HEFO 1131 OHER 1131 CENT 1130 ISIN 1130
+TLOO 1130 RESH 1129 BRIN 1128 WASW 1126 TGOO 1126 ULDI 1126 REIS 1126 SIGN 1125
+EPRO 1124 ADTH 1124 ENSE 1124 ANDN 1124 ACKT 1124 OUWI 1123 HECK 1121 ONOT 1120
+EDIS 1120 ERTA 1120 SCHO 1120 NCAN 1119 IVET 1119 BEYO 1118 ERSA 1117 QUES 1117
+ILLY 1117 SRIG 1116 EENT 1116 EWHY 1116 BUTI 1116 BOTH 1115 EHEY 1113 MEDO 1112
+NGOF 1112 ATON 1111 ELIN 1111 TOGO 1110 LINE 1110 SSHO 1109 OUFO 1109 SLIK 1108
+NGME 1108 FORY 1108 WORR 1108 TERA 1108 ETTO 1107 HERM 1107 WOND 1105 WEAR 1105
+AVEM 1105 RELI 1104 ISDO 1104 ORMA 1103 NDDO 1103 YHAV 1103 RECA 1103 ITIO 1102
+FORC 1102 TANT 1101 WALK 1101 IKEI 1100 TSTA 1100 OUPL 1100 ITGO 1099 NDSO 1099
+ANDE 1099 JACK 1099 SWAN 1098 HISB 1098 DALL 1098 SONE 1097 STON 1097 ETWE 1096
+MYSE 1096 ERWE 1095 RHER 1094 URES 1094 NGIS 1094 OWNT 1094 LEYO 1093 ASSI 1093
+IMET 1093 EBAC 1093 DONY 1092 OMEY 1092 PLET 1091 FICE 1090 WING 1090 STIC 1090
+HOPE 1089 TITT 1089 TTOO 1089 ICKE 1088 DIFF 1088 NNAT 1087 SINC 1086 SNOW 1085
+ARRY 1085 NDST 1084 ETOI 1084 EDHE 1084 NWIT 1083 IONI 1083 ERGO 1081 PHON 1081
+EBOD 1080 NGCO 1080 HILE 1080 CHEC 1080 GING 1078 ININ 1077 ISHA 1076 ENAN 1076
+CIAL 1075 PARE 1075 OUTR 1074 NCES 1071 RIVE 1071 ARTE 1071 TOHA 1071 EXCU 1071
+HERH 1070 DONH 1069 EOFF 1069 MENO 1068 XCUS 1068 IDTH 1067 STAK 1067 TCHE 1067
+YWHE 1067 CANW 1067 TOWN 1067 ALLH 1067 EATI 1064 ITNO 1064 POIN 1063 OUAL 1062
+ETIN 1062 EWER 1062 LDYO 1060 STIO 1060 AMES 1059 ETON 1058 DEAL 1058 STTO 1057
+HISC 1057 MPLE 1056 ORDE 1056 SDID 1055 NGSH 1054 ESEN 1054 ALLM 1053 LEAN 1053
+ETIT 1053 WHIL 1053 HERY 1052 OKNO 1052 EAUT 1052 RNOT 1050 EREP 1050 RINK 1050
+EITO 1049 EYYO 1049 NONE 1048 AREY 1047 TMAN 1047 MILY 1046 AREM 1046 NKTH 1046
+EDIN 1045 OUBL 1045 EDOW 1045 TOME 1045 VERE 1044 ERSI 1044 HEMO 1044 SWHE 1044
+ITHW 1044 KNEW 1043 EASO 1042 VETO 1042 EMON 1042 TRAN 1040 SABO 1038 RATI 1038
+DOOR 1037 OOKT 1036 EBET 1035 ERWA 1035 TOBE 1035 ANDP 1034 ETOW 1033 SSIO 1033
+FORH 1032 SLEE 1031 YOUJ 1031 ORKI 1031 AAND 1031 YKNO 1030 SYEA 1030 MORR 1030
+NSID 1030 RACT 1030 NATH 1029 UTIT 1029 LLGO 1028 CONS 1028 ACTU 1027 LLNO 1026
+DONM 1026 ISNO 1025 ATCA 1024 ERMA 1024 ATEV 1023 ESID 1023 ITWE 1022 DCAN 1022
+ERER 1022 POLI 1021 ANIT 1021 HILD 1019 SINE 1018 NDIS 1018 BEAU 1017 AVED 1015
+APPY 1015 NSHE 1015 ALRE 1014 EIYO 1013 UTIF 1013 OWNO 1013 YWAS 1013 REON 1012
+NTOT 1012 DWIT 1012 EDWH 1012 HOWI 1011 NISH 1010 STAL 1010 ESAN 1010 CIDE 1009
+EATE 1009 THYO 1008 OMEM 1008 ACKS 1007 GETW 1007 NGLI 1007 ULDS 1006 ISHO 1006
+ENTE 1006 OHAV 1005 LEEP 1004 ENDI 1004 WAYT 1003 TMEN 1003 INSI 1002 HTHI 1001
+RKIN 1001 SHIM 1000 CTUA 1000 SONA 1000 BUTS 1000 ORES 999 ORTO 998 INNE 998
+ONSH 998 VEST 998 EARI 997 ONIN 996 TOOF 996 RYBO 996 OFFE 995 ISWE 995 WIFE 995
+SWEE 995 SWEL 995 NGCA 995 NDNO 995 MYYO 995 EBEE 995 BUTA 993 ERSH 993 HOOL 993
+SERV 992 OFTO 992 ERRI 992 SEET 991 ELLH 991 FORD 990 RGOT 989 DRIN 989 ISGO 988
+EPRE 988 ERRE 987 ULDA 986 AREH 986 USTY 986 TOIN 985 ATST 984 HISG 984 HEYE 983
+YSEL 983 ITWA 982 DSHE 981 STOO 979 MESS 979 TERN 978 UNDS 978 RARE 978 LCOM 977
+MINE 975 RELA 973 MEST 973 NNER 973 SCOU 973 FACE 973 NOWB 973 TIRE 972 ERIO 971
+EMAK 971 BROT 971 ASTA 970 TEDT 970 IDON 969 TTEN 969 AMER 968 MTHA 968 GOTI 968
+RALL 968 ERIC 968 EOKA 968 ONNO 966 ARLI 966 NDGO 966 NOWD 965 THEK 965 AITI 965
+CHTH 964 PICK 964 FIRE 964 EELI 963 DSOM 963 OURC 963 NDID 962 TGOI 962 DCOM 961
+ONSO 961 ELLM 960 STRI 960 UREA 959 NSTA 959 OMED 959 RKNO 958 URET 958 NSWE 957
+TERM 957 SREA 956 SHIP 956 LICE 955 ERIS 955 HESA 954 NSOM 954 IALL 954 NTIL 954
+LLWE 953 TCHI 953 LLWA 953 ARDS 952 ONWE 951 ITBE 950 SEEI 950 TOCO 950 ASTI 949
+TLEA 948 LETO 948 STRO 947 EITI 947 URIT 947 MERI 946 OMIS 946 OLDI 946 NJUS 946
+AKEI 946 ONEL 946 RESP 945 UTES 945 ATAL 944 ATTA 944 TMEA 943 NGOT 943 YARE 943
+ORSE 943 OUTB 942 ITRE 942 ACKI 940 HEHO 940 MONT 940 ISSE 939 OUAR 939 OUHO 939
+RYON 938 ESIN 937 NOTY 937 CASE 937 KIDS 937 ATMA 936 ENEV 935 HENA 935 ATEL 935
+LOCK 935 TCHA 934 ODTH 933 ONTR 932 LASS 932 WHOA 932 ERFU 931 SWOR 931 ESHA 931
+HEDI 930 ERSE 930 IKEA 930 MANA 929 TOMA 929 FECT 929 ATHO 929 RHAV 928 BUSI 928
+DIDT 928 OUTD 928 REFO 928 RYYO 928 EDRE 928 TWOU 927 UNOT 927 YWAY 927 ELEA 927
+HOWS 926 ETOA 926 DRES 926 FTHA 925 SOON 925 NCET 925 HOWA 925 TUFF 925 ELIT 924
+ITIS 923 STUF 923 BAND 923 IHER 923 TSYO 922 ARIN 922 SOUN 922 ECIA 922 INOT 921
+DJUS 921 WASY 920 AINI 920 HEYY 919 NGLE 919 TTAK 918 LWHA 918 MEGO 918 UFOR 917
+ERBE 917 NATI 917 ITOF 917 UHER 917 OFIT 917 HAVI 917 NOWC 916 NOWL 916 VEIT 916
+ONEM 916 SSEE 915 TOON 915 TWIL 915 REET 914 STED 914 TIST 913 CANY 913 ETOS 913
+TORI 912 DEAT 911 OUHI 910 HEYH 910 OURB 910 UPTH 909 UBLE 909 AYST 908 ECAR 908
+TGON 907 RMAN 907 EDDO 907 IFFE 907 NSTH 907 OULO 906 NDWE 906 EARL 904 GHTD 904
+GHTB 904 HELO 904 YWIT 904 ONBE 903 OSSI 903 LLIS 903 NGSA 902 VERW 901 METI 901
+TABL 900 OPER 900 ONEH 899 LLHA 899 ISHI 898 IMTH 898 ATSH 897 RSTO 897 ERME 897
+UTAN 897 NDBE 897 REWI 896 ULDW 896 INGU 895 NBUT 895 ONED 895 STOT 895 AMET 894
+CTLY 894 FOUR 894 EEDS 894 AUTI 893 AVEO 892 THEU 892 LATI 892 ATOR 891 ECAL 891
+ERCO 891 BALL 890 HEHI 890 OODS 890 OUMY 889 TFRO 888 ETOM 888 TSAY 888 NGMA 888
+ANSW 887 LUCK 887 ITSO 887 LDRE 887 SIBL 887 SHOT 887 HIMI 887 YCAN 886 HIGH 886
+QUIT 886 USHE 886 RIOU 886 OUTE 885 FINI 885 OURD 884 SSTO 884 WHOT 883 ISTI 883
+OLIC 883 TERY 883 ESWE 883 TERW 883 UPLE 883 PASS 883 LLBE 882 AKEA 882 EITS 882
+ISSO 882 RRYT 881 SERI 881 DOYO 881 UMBE 880 INDA 880 YALL 880 EITA 880 INGK 880
+HISL 879 INDT 879 ESCA 879 TTIM 879 RICA 879 TIFU 879 ARTY 878 OUWO 878 AREF 878
+VENI 878 WARD 877 ECHA 877 IMPO 877 ONWA 876 CAND 876 HURT 876 HANC 876 AVEL 876
+GWHA 876 EMET 876 SPEA 875 ITON 875 OMPL 874 LLAR 874 FALL 874 EMTH 873 IFUL 873
+OTAL 873 NLIK 872 PPED 871 CREA 871 TOIS 871 OBAB 870 NEST 870 OOKA 870 RWAS 869
+KTHA 869 RSHE 869 WHYT 869 MESO 869 OUDI 869 SHEW 869 ISWA 868 TOFO 868 FIGH 867
+ESWH 867 FULL 867 MEWA 867 ISBE 866 TOSO 866 NDWA 866 ITME 866 STEA 865 TATH 865
+ESOR 865 EIST 864 OUTC 864 NNIN 863 LEME 863 NDOF 862 FORO 862 TITI 862 USTM 862
+ENIT 862 ETOF 861 ARGE 861 HEWO 861 ATUR 861 CEYO 861 INAN 861 ENDO 860 ASSE 860
+MEWE 860 ANTW 860 HENS 859 SANY 859 IFTH 858 ISST 858 LLSO 858 EOFT 857 ILIT 857
+ORGO 856 EAHI 856 NDSH 856 IRED 855 OCTO 854 RITE 854 HENE 853 RIES 853 EDGO 853
+TWHY 853 IKEW 853 TATI 852 NDHA 852 ITCO 852 TATE 852 EIGH 852 MERE 852 LLSH 851
+CANN 851 FREE 851 ANWH 851 PERF 851 YSHE 850 SETO 850 EAHA 850 DRIV 849 ESNO 849
+LDON 849 YGET 848 ANAN 848 IRTH 848 JOHN 847 SKIN 847 BOOK 847 WISH 847 WASM 847
+DOCT 847 ABLY 847 TTEL 846 ATWI 846 ETWO 846 HIMA 845 OWNS 845 OREI 845 GRAN 845
+ATFO 844 OWWH 844 EASY 844 LLOF 843 USES 843 ESON 843 ISIS 843 RANG 843 DSTH 842
+OARE 842 UTWH 842 NEIT 841 ITST 841 ADYO 840 LDIN 839 AYTO 839 LLST 839 NOWG 839
+YMOR 839 NOUT 838 RNED 838 GHTC 838 NOYO 838 VENO 838 GAME 837 TPRO 837 GREE 837
+EADI 836 ELON 836 LLRE 836 EDNO 835 OODI 835 DDIN 835 NTAL 834 MALL 834 UDON 834
+INNO 833 TETH 833 NGFO 831 ONGE 831 IENT 830 NDME 830 ETER 830 ONIS 830 PROM 830
+OALL 830 NDLE 829 BUTW 829 EDOI 829 EDWA 829 ONME 828 DITH 828 EHAD 826 SSYO 826
+NOTM 825 ISRE 825 ANHE 825 WRIT 825 FRAN 825 ONHA 825 ITHY 825 GOTA 824 MEBE 824
+STHO 823 HEYM 823 INHE 823 POSS 822 RTAN 822 TEND 822 CHES 822 UHAV 822 TOFF 822
+NYON 822 DEAR 822 YCOM 821 LLON 821 EROF 821 GETY 821 EETI 821 LLYI 821 TLEM 820
+INAT 820 LLCO 818 UMAN 818 EWAY 817 OCAN 817 CESS 816 MOVI 816 DIST 815 REMO 814
+OURG 814 SMAN 814 CHRI 814 OUTG 813 URAN 813 YSTH 813 ILLW 812 OURN 812 OMTH 812
+RWIT 812 NRIG 811 TTOM 811 NITH 811 HEMT 811 HISF 810 ITCA 810 VEHE 810 ELLE 810
+SINT 809 ROBA 809 TBET 808 HESI 808 TROU 807 INET 807 WTHA 807 OUMO 807 OVED 807
+NTLE 807 OLDT 807 NEWS 806 OSET 806 TBAC 805 NUMB 805 TRAC 805 RENC 805 UARE 804
+ONRE 804 MANI 803 NWAN 802 ETAN 802 TOKA 802 PECI 802 TWER 802 NYWA 802 NWHE 801
+NOBO 801 SGOO 801 ONOF 801 NERA 800 OFIN 800 NDCO 800 PRIS 799 TITO 799 TDOW 799
+GETO 798 ATLI 798 MEIN 798 INDS 797 TYES 797 UTSI 797 DGOT 796 WEET 796 ISOF 796
+TREE 796 OUKN 795 ASKE 794 REAR 794 SUCH 794 ESDO 794 SONT 793 ESUR 793 CKYO 793
+NYEA 793 ERFO 793 ANIN 793 DBUT 793 PEAK 792 STIM 792 NGSI 792 GHTL 792 LLME 792
+INWH 791 TIYO 791 ERGE 791 ITHH 790 ENDE 790 MEHA 790 AVEB 790 TTHO 789 EMAY 789
+ANYM 789 NDMA 789 FIVE 789 ISME 789 ONCO 788 SHAL 788 CANH 788 DEVE 788 TTOI 787
+EARN 787 OUBU 786 COVE 786 ERON 786 ENTY 785 AWHA 785 ERFE 785 OTIT 785 UTHO 785
+ORAN 785 TRES 784 NGWI 784 EINS 784 HISN 784 ALLB 784 LOST 784 RCAN 783 SSTA 783
+NTIO 782 LETI 782 CRAZ 782 CANM 781 IMEA 781 TTOW 781 EROU 780 IHAV 780 ENER 780
+HERD 780 ITTI 779 UNCH 779 FORB 779 EMAR 778 ALLD 778 IVED 778 KAYT 778 TPLA 777
+OBOD 777 BABL 777 PENS 777 ANYB 777 HEKN 776 AGET 776 SWHO 776 OUSL 776 ETWH 776
+ESER 776 IONW 776 ENEE 776 NTIT 775 DONL 775 LITY 775 ITTE 775 ETHR 775 ROMT 775
+URTO 774 HEBU 774 UWAS 773 DOUT 773 ORIG 773 GOTS 773 MISE 772 AREO 772 OVES 771
+RESA 771 TOCA 771 TFIN 771 ESIS 771 OCOM 770 TICK 770 RSYO 770 ITHM 769 REPO 769
+ESHI 769 UTDO 768 OUTL 768 BOYS 768 HATK 768 LAIN 768 CERT 768 YJUS 768 ALSO 767
+OUAT 767 VEDO 767 HELE 767 AHTH 767 GOTO 767 SHUT 767 HAIR 766 ODYO 766 EOUR 765
+ERVE 765 EBEC 765 OUNG 765 AKEN 765 AHEA 764 MEME 764 CANO 764 FAST 763 AVER 763
+NREA 763 VEWH 763 OODA 762 DONC 762 DONB 762 EDWE 762 IKNO 762 LETS 761 INFO 761
+ASIT 761 OURL 759 SHOO 759 REHO 759 NCER 758 OWNI 758 HERB 758 VEAN 758 EGRE 758
+NDOW 758 OUYE 758 STWH 758 CEPT 757 YSOM 757 WALL 757 SCRE 757 GHER 757 OHTH 757
+EANI 755 TOUR 755 RETA 755 ROUT 755 EOVE 755 EANO 754 DITI 754 MTHI 754 OWHO 754
+RAZY 754 MECO 754 HRIS 753 FACT 753 EDAY 753 EMIS 753 EDEA 753 IWAS 752 MANS 751
+PERI 751 NABO 751 ETOL 749 UTIN 749 ESTT 749 ELOV 749 URED 749 ICAT 748 RUST 748
+TEDI 748 WATE 748 SLOO 748 OUTF 747 SSIB 747 BLES 747 IDES 747 DANC 747 TMOR 746
+RONT 746 DLIK 746 MEOF 746 NTTO 746 EGIV 745 ONTA 744 EENO 744 MIST 743 ESCO 743
+IVEI 743 LYIN 742 ELAT 742 TBEE 742 TOFI 742 GHTG 742 NNOW 741 KETO 741 RTAI 741
+WETO 741 CTUR 740 OTEL 740 RCOM 739 ADON 739 INED 739 AREL 739 EXAC 739 HERF 738
+AVEC 738 NCOU 738 XACT 738 GETM 737 HOOT 737 EDOF 737 TAKI 737 ESAI 736 URIN 736
+ENHE 736 GARE 736 IONE 735 ESSH 735 REDA 735 LOOD 735 TOTA 735 TWEE 735 BLOO 735
+YBUT 735 AKEW 735 RAID 734 HTER 734 IEST 733 TTAL 733 WASO 733 OWDO 732 ONON 732
+STMA 732 ITAR 732 OUGE 732 ISCA 731 UKNO 731 RITY 731 DRIG 731 DWHE 730 APER 730
+TCAR 730 ICET 729 MFOR 729 EFUL 728 ROVE 728 RIDE 728 SEIT 728 NHIM 727 TLES 726
+TTOA 726 TERD 726 LETA 726 NGAL 726 ATET 726 SSOR 725 SHIN 725 FTHI 724 NDSA 724
+DYEA 724 GFOR 723 STOM 723 TOVE 723 ONER 723 TOST 723 DDID 722 OOTH 722 CTED 722
+NETO 722 EPLE 722 HTTO 722 MEIS 722 TRUE 721 ISTR 720 ELLD 719 EITW 719 BERT 719
+ITED 718 ALIT 718 HEGE 718 ITSH 718 HEAS 717 HEOU 717 PRIN 717 ULDY 717 OFHE 717
+HATU 717 HERC 717 ATWO 717 ESGO 716 LENT 716 EDOE 716 ACKA 716 LEVE 716 OLLO 716
+THEJ 715 ECRE 715 DAYT 715 ONEO 715 SEND 715 IARE 714 ETOH 714 OJUS 714 DISC 714
+EEDI 713 DWAN 713 OSIT 713 ENSI 713 ORDI 712 URNE 712 LFOR 712 DOND 711 DEST 711
+ERCA 711 MESH 711 RTED 710 RRYI 710 LLYW 710 AFRA 710 HENW 710 EDBE 710 DABO 709
+ONDI 708 SWEA 708 TTON 708 ORWA 708 GHTF 708 TITS 708 DIES 708 TCON 708 TTOS 708
+NKYO 707 NDCA 707 CONF 707 ACHE 706 EHAP 706 USEI 706 USTR 706 EMYO 706 MPOR 705
+EGUY 705 RITI 704 LOWE 704 LACK 704 EATS 704 IRLS 704 AREB 704 ELLB 704 BEAT 703
+FRAI 703 INCO 703 ERMI 703 AYIT 702 URDE 702 BECO 702 ASAN 701 OSTA 701 DERI 701
+SSUR 701 REMI 700 OFAN 700 OKTH 700 ANGO 700 SHAR 700 HISP 700 REWO 700 ACTL 700
+VERH 699 LLYS 699 GENE 699 NTST 699 USEA 699 REMY 699 HOWW 699 WAND 699 NTRO 698
+STRU 698 REAC 698 AREC 697 NGAR 696 ROMA 696 UTGO 696 ERWI 696 ULDM 696 RELE 696
+TMAK 696 TRIC 695 VERM 695 NSHO 695 OTIN 695 WHOS 695 TITA 694 GOTW 694 RTIN 693
+RTTH 693 OVET 693 SEES 692 LADY 692 OSOM 692 NWEL 692 EPER 691 BILL 691 INKA 691
+HWHA 691 NOWF 690 LEST 690 KTHI 690 ESTS 690 FAND 690 CAPT 689 LLYA 689 YBET 689
+UTWE 689 ONSA 688 PAIN 688 LLCA 687 ALMO 687 PERA 687 YLIK 687 UNNY 687 ISSH 687
+EDHA 686 SHEH 686 ALLC 686 SEDO 686 COUP 686 OLET 686 RANK 685 ADIN 685 CHED 685
+ONCA 685 ULDH 684 AMED 684 TICA 684 SLET 684 CANC 684 HETA 684 YGOT 684 UITE 683
+ENWH 683 ANIS 683 RATH 683 ETRE 682 ETDO 682 OWGO 682 SAYT 681 ETUR 681 ATRI 681
+TOSH 681 NTRY 681 YITH 681 ONGT 680 HARE 680 ONSE 680 IWIT 680 NGHO 680 NSEE 680
+ENTW 679 TOOT 679 THAD 679 SPEN 679 STUP 678 OMER 677 GHTN 677 DYTH 677 SEAT 677
+IKEY 676 LYTO 676 GAVE 676 BUTY 676 ROUB 675 HISR 675 ACHI 675 IKED 675 RANC 674
+OTAN 674 STOL 674 KAND 674 IMEI 673 DHIM 673 OUOU 672 RELO 672 STOF 672 ATSA 672
+AVEG 672 UTNO 672 IDYO 672 ENTR 671 HIMW 671 OUAS 671 ICES 671 OSHE 670 OEVE 669
+OODB 668 ELLC 668 CKET 668 OBUT 668 ORRI 668 TUPI 668 VISI 667 TSID 667 OODY 667
+SONS 666 HOTH 666 LNOT 666 PEND 666 TERH 666 GNOT 665 SENS 665 ISMA 665 FELL 665
+SBAN 665 SEAR 665 NTHO 664 OTWH 664 TOLE 664 EXPL 664 EELS 664 THIT 663 ALLL 663
+ETOD 663 IATE 662 ITMA 662 ESWA 661 OCKE 661 EEPI 661 STDO 661 ENDA 661 HADT 661
+ORHE 660 TRIE 660 SAVE 660 YWAN 659 REDT 659 RJUS 659 DNOW 659 FIGU 659 NDAR 659
+NTOO 659 BEHI 658 UCAN 658 OWEL 658 SSES 658 EDSO 658 EWET 657 IGUR 657 ETOY 657
+OWON 657 NSTO 657 NNAI 657 BLET 656 EDDI 656 AMEA 656 ASET 655 REFU 655 ORIN 655
+RISE 654 FUNN 654 ASIN 654 ATMY 654 DIDI 654 TOFT 654 ROSS 654 EAHS 654 LLMA 654
+SMEA 653 ECOR 653 SMAR 653 EATO 653 EALT 652 OUJU 652 OWNA 652 OODW 652 ASTT 652
+USTB 651 TSIT 651 POWE 651 ANNE 651 EAYO 651 CKER 651 HALF 651 WEIT 651 ITWI 651
+ATAR 650 TRUS 650 REHI 650 LOTH 650 FFOR 650 EYTO 650 ILET 650 HOWH 650 DECI 649
+NTOW 649 CITY 649 ESME 649 OUTN 649 BUTH 649 ALLG 649 NDSI 648 UTEL 648 SITO 648
+BUTM 648 LHER 648 OURF 648 DERE 648 OMPA 648 HOWE 647 ESOF 647 YRIG 647 NITY 647
+EWHI 647 VERO 647 WAYI 646 USAN 646 HEYD 646 TIES 646 NEWH 646 MECA 646 ILLH 646
+ITAT 646 OTTE 646 ORDO 646 EENA 646 WASB 646 NEAR 645 INGJ 645 TOWI 645 TMIN 645
+COLL 645 ASSA 645 RINT 645 UWIT 645 NGLO 645 OMEL 644 ESPO 644 SOYO 644 OFWH 644
+SHEM 643 ORDS 643 NOTB 643 ORWH 643 REPA 643 RSOM 642 IVEA 642 HEYB 642 NDWI 642
+ANTY 642 CORD 641 ASHI 641 RANT 641 DSEE 641 ESIR 641 PULL 641 IKEH 641 MEMO 641
+OGOT 640 ESMA 640 ORST 640 NOWR 640 USBA 639 OLLE 639 SKED 639 TECT 639 YYEA 638
+LETE 638 EAHW 638 ILLO 638 EHAS 638 AIRS 638 CONC 637 VERN 637 UNIT 637 EAWA 637
+AYHE 637 NOWE 637 DSTO 637 OMEC 637 UTON 637 CHYO 636 NGMY 636 LARE 636 ARTM 636
+TERO 636 HETI 636 OOKE 635 RBUT 635 SWIL 635 EENI 635 ERLI 635 OOUT 634 HITT 634
+INKW 634 EWON 633 OICE 633 NYBO 633 FORL 632 EONL 632 SGOI 632 KEIT 632 ROTE 632
+OULE 632 OUNE 632 GURE 632 DATE 632 AFOR 632 CTIV 632 IMIN 631 VEME 631 UGET 631
+DINN 631 EARO 631 OWWE 631 TCAL 630 AKEY 629 NDED 629 TOLI 629 STEL 629 MAKI 629
+WTHI 629 TICE 629 OWWA 629 AKED 629 PLAI 629 NTAN 629 ASKI 628 TORS 628 NTIM 628
+EDCO 628 ESBE 628 IGET 627 EBEL 627 SSAY 627 UCOM 627 REYE 626 HERG 626 ITFO 626
+FORN 625 HERL 625 LKNO 625 ONEB 625 AITH 624 YDID 624 ESET 624 NGWO 624 MOME 624
+UTOF 624 ARCH 624 EGOD 623 LLAS 623 GROU 623 STGO 623 ULDO 623 SEDT 622 DADD 622
+STWE 622 RUTH 622 HITE 622 ISED 621 NGHI 621 ETNO 621 MESA 621 YABO 621 ARTS 620
+RFUL 620 ULAT 620 LHAV 620 TEAC 620 UCKE 619 OWST 619 ANTM 619 INWE 619 LION 619
+MEAL 619 HATJ 619 ATLO 619 OFDO 619 DELI 618 TSUR 618 ATSE 618 SHIS 618 NCEI 618
+EDME 618 FINA 617 OMEG 617 EBEA 617 YSTE 617 GEST 617 PENI 616 EEDT 616 IONY 616
+IKEM 616 ARDI 616 ETRA 616 NGSE 615 DIDA 615 DONN 615 NTOI 615 SENO 615 EDRI 615
+CANB 615 DONG 615 WASD 614 TDOI 614 USTD 614 ANSO 614 HEDA 614 EFIR 614 RECT 614
+SELL 614 YREA 614 GOES 614 EDST 614 ASHA 614 MYTO 614 ASSH 614 RPRI 613 NTON 613
+ACKW 613 SGON 613 ETST 613 SORT 612 EADS 612 NANY 612 UREI 611 TNEE 611 SAFE 610
+TTHR 610 USYO 610 TSOR 610 GDON 609 NYMO 609 DWEL 609 ESOU 609 STNO 609 LECT 609
+ETGO 609 NIST 609 KEDO 608 REBU 608 ONTI 608 OUBA 608 DSHO 607 OITH 607 ONEC 607
+TEDA 607 AYWH 607 UTRE 607 ITSA 606 UTBE 606 HENY 606 LDTO 606 OLIK 606 LANE 606
+NEWA 606 LMOS 606 NHOW 606 RMIN 605 NTRA 605 NOTD 605 DCOU 605 LLSA 605 ICOM 604
+GOYO 604 ITEL 604 NGOO 604 SEDI 603 NAYO 603 SOFT 603 IMYO 603 ACES 603 ILLM 603
+MARK 603 IONH 603 UTWA 603 ITWO 603 SWOU 602 OTHO 602 EDIC 602 LLLI 602 OWBE 601
+AHER 601 HEBA 601 NDAL 601 EPOR 601 MART 601 AREG 601 ESUS 601 ANBE 600 ASWH 600
+LLER 600 HERR 600 CATI 600 SPLA 600 ANST 600 SHAD 600 OONE 599 GALL 599 MELL 599
+TOHI 599 GHAV 599 ISIO 598 STAI 598 AINL 598 HTIT 598 ISSA 598 MICH 598 NANT 598
+MOUT 598 UNDT 598 ITLI 598 ATMO 597 DTOT 597 ONGI 597 EADT 596 ATEA 596 EENS 596
+VEGO 596 APTA 596 IDNT 596 TEDS 596 COLO 595 ARDT 595 WIND 595 ELLG 595 OREM 595
+OUMI 595 ITNE 595 YNOW 594 ONMA 594 THAS 594 WHOI 593 OWED 593 RFEC 593 ANHA 593
+ONNE 593 YESI 593 TAST 593 SPRO 593 ACKE 593 TOUC 593 SEHE 592 IREA 592 ORRE 592
+WNTH 592 HEJU 592 EWEA 592 OYEA 591 SFRO 591 PROV 591 AMIN 591 LEDO 591 RWHE 591
+EQUI 591 BETW 591 HTIN 590 ONAR 590 TOHO 590 OWRE 590 DANY 590 ITHD 590 RDID 590
+UTAL 590 COOL 590 USTL 589 ESRE 589 NNAA 589 ONOW 589 NEDT 589 ORED 589 OTDO 589
+RETE 588 PTAI 588 SWHY 588 TLIT 588 ITSE 588 ELLL 588 REKN 587 DISA 587 MWHA 587
+ROWN 587 TMET 587 ATDI 587 RLIK 587 RACE 587 FOLL 587 LLIO 587 ISFO 587 ELIV 587
+HIMY 587 RITH 587 LEAD 587 BLAC 587 AMEI 586 SBAC 586 EINO 586 LLWI 586 ANWE 586
+LLFO 586 UNDA 586 ONLI 586 APPR 585 ATAT 585 TOAL 585 EXCE 585 OUAB 585 IBUT 585
+OLOG 584 EITY 584 ANWA 584 ARDO 583 NWHO 583 RTER 583 LRIG 583 SEAN 583 ILES 583
+DREN 583 WOME 583 ETOG 583 UJUS 582 WASC 582 TLOV 582 ISWI 582 RDIN 582 HIND 582
+HUSB 581 EFEE 581 RHAP 581 ELCO 581 RLIN 581 OSEE 581 OREW 581 TOFA 581 THTO 581
+LLEN 580 MEMA 580 ORNO 580 IDER 580 TENA 580 TREM 579 NINT 579 NEDO 579 ODYT 579
+OUFI 579 UCHT 579 WEEN 579 ITHB 578 HEMS 578 NSHI 578 CELL 578 NOTC 578 INWA 577
+ARLY 577 STEP 577 ICER 577 OTON 576 INKY 576 IVEW 576 VEWE 576 ISLI 576 TROL 576
+OMYO 576 ONAT 576 CHAE 576 UTSO 575 DROP 575 IMAN 575 SITS 575 YHOW 575 ROKE 575
+AIDT 575 TBEC 575 EEYO 575 HONO 574 ATKN 574 MURD 574 URRE 574 AVEF 574 SEWH 574
+UCKY 574 TAGE 574 MEHO 574 MELI 573 AYAN 573 PICT 573 ESEA 573 OURR 573 YSTO 573
+HEYC 573 INDE 572 YEVE 572 YHIM 572 HEFI 571 PPIN 571 SEEA 571 STWA 571 SONI 571
+TMAY 571 NGKN 571 BUIL 570 USTE 570 HEAB 570 NDLI 570 RETI 570 BETO 570 RYEA 570
+TTOL 570 HOWY 570 HINE 570 LYIT 570 ROAD 570 HAEL 570 NTOS 569 KISS 569 MAGI 569
+ANKT 569 HYTH 569 LISH 569 ONEN 569 HERN 568 MESI 568 DHOW 567 DLET 567 ALYO 567
+ERNE 567 REEN 567 DERF 567 WEAN 567 AKEH 567 ODID 567 OWSO 567 RREA 567 SYES 566
+RDAY 566 VESO 566 NGAT 566 OABO 566 AINA 566 TRUT 566 ARRE 565 NGBU 565 YWEL 565
+WHIT 565 PAPE 565 IENC 565 NSTE 565 NITT 565 ILDR 564 EALO 564 ORME 564 NDFO 564
+ONGS 564 GKNO 564 FRON 564 RTME 564 ICTU 564 NWOR 564 ADDY 564 TACT 563 TSIN 563
+IONM 563 KSTH 563 USTC 563 EPUT 563 USEW 562 NNAS 562 RICH 562 BITC 562 TEAM 562
+DWHO 561 MILL 561 TWAY 561 YSTA 561 STWO 561 STOI 561 DNTH 561 OUIF 561 SOUR 561
+CRET 560 IJUS 560 NGMO 560 ERYW 560 TGIV 560 SITA 560 THON 560 NOTE 560 TRUC 560
+VEWA 560 ENCO 560 NLOO 560 LWAS 560 EAKI 559 DSYO 559 EDGE 559 OKED 559 ARYO 559
+SECR 559 STUD 559 ETSO 559 SIMP 559 EDCA 559 EATA 559 GLAD 559 EARC 558 STBE 558
+INHA 558 AKEM 558 DITT 558 WHOW 557 EWAI 557 TOMY 557 ENGO 557 YSHO 557 NDAT 557
+VEHA 556 IFIC 556 AYSO 556 ENOF 556 OWME 556 HARL 556 SSIT 556 ACET 556 WEWH 556
+UPID 556 YSEE 556 UITH 555 ONFO 555 CONV 555 ORCE 555 VEIN 555 ERAR 555 ETRY 555
+ONWI 555 IREC 555 NNAM 555 JECT 555 EMES 554 ORIS 554 RESU 554 MSEL 554 NTEL 554
+OWOU 554 HEIF 553 UTCO 553 TITW 553 SPIT 553 GHTR 552 ASSO 552 RRIG 552 WEST 552
+INSO 552 OWAR 552 WAYA 552 AGEN 552 OUPR 551 ATBU 551 ENDT 551 TINS 551 VERB 551
+BUTO 551 RONE 551 IVEN 551 RDTH 551 DGOO 551 MANW 551 EMOT 550 ORKS 550 VEBE 550
+MATE 550 RANS 550 ISOM 549 VIDE 549 OFRE 549 ATYE 549 EDAR 549 POSI 549 HENH 548
+GWAS 548 OWCO 548 MEAT 548 DMAN 548 ENNO 548 ORTU 548 OFWE 548 LAYI 548 EALW 548
+SCON 548 EMOV 548 GOTY 547 MEFO 547 USOM 547 ERYI 547 OFGO 547 RYWH 547 OTGO 547
+ESTU 547 XPEC 547 OULL 547 MEWI 546 TNEV 546 IMEN 546 NHEA 545 OHIM 545 ERVI 545
+NTOF 545 UTME 545 URPR 545 ASNO 545 PLES 545 AYSA 545 VERD 544 CLAS 544 TEYO 544
+GOTM 544 ONGR 544 REGE 544 ASDO 543 ONOR 543 TYTH 543 ENON 543 ERHO 543 OUDE 543
+SCAL 543 EHET 543 LDIT 543 INBE 543 ERSW 542 STOW 542 UPYO 542 RWAN 542 DWOR 542
+EDSH 542 YTOT 542 ERDA 542 ITOR 542 RYTO 542 WEHE 542 THAP 541 HOWM 541 EHOU 541
+OWNW 541 ETWA 541 NGDI 541 EYIT 541 ESSW 541 NCEA 540 AINE 540 OSTO 540 ANKI 540
+AINW 539 RNOW 539 RWEL 539 REPR 539 OTNO 539 UGOT 539 SEST 539 YESA 539 HEYG 539
+NATO 539 NITI 539 TEDO 539 INEI 538 NTOA 538 NEDI 538 EPEO 538 EMYT 538 NOWP 538
+UBUT 538 EREE 538 UGHI 538 OWOF 538 OVEL 538 LEGE 538 TSON 537 NGRA 537 WHYI 537
+TVER 537 TAYO 537 SHOR 536 NSYO 536 LETW 536 RITT 536 BULL 536 LLET 535 STME 535
+TDOE 535 HENM 535 TOSA 535 ERSS 535 SDOW 534 ONEG 534 NGYE 534 OTOF 534 ETOU 534
+ERTI 534 HAST 533 AHAV 533 ANOF 533 ENWE 533 TMAR 533 ATGE 533 DSTA 533 OTOT 533
+EHIN 533 ENIG 533 RACK 532 GETB 532 UCHA 532 REOU 532 DLOO 532 ALLF 532 ASES 532
+OSES 532 ITHC 531 TSHA 531 NMAN 531 IMPL 531 GETD 531 INEA 531 IDDI 531 USTG 531
+NDAY 530 SBET 530 NTWH 530 ATSI 530 DONF 530 OSTI 530 SOKA 529 NGGE 529 OOKW 529
+HFOR 529 ETBE 529 EBEI 529 ITLE 529 MILE 529 OWIS 529 HROW 529 AYDO 528 SDAY 528
+IKEO 528 SHEO 528 LEIT 528 TEDW 528 EITM 528 EHAN 528 WASG 528 ERRY 528 LLAT 528
+ENSO 528 ARST 527 HURR 527 INME 527 BROK 527 HITH 527 RSIT 527 OPPE 527 URIG 527
+SPAR 527 SBEE 527 SIYO 527 ALKE 527 IGOT 526 DETH 526 NLYT 526 AYSI 526 RABO 526
+ASST 526 VICE 526 FORF 526 EORG 526 NTEN 526 OUFR 526 URHE 525 SFIN 525 AITT 525
+NATE 525 EISI 525 TPLE 525 USIC 524 EISA 524 OURP 524 CHER 524 ICUL 524 OFNO 524
+USEE 523 RRES 523 CROS 523 TMON 523 ISAL 523 ERIF 523 EMUS 523 OODH 523 EENW 523
+RHIM 522 ATOU 522 ONFI 522 WELC 522 NOTL 522 OLIT 522 SPER 522 MUSI 521 CETO 521
+TGUY 521 UWAN 521 OUSU 521 FWHA 521 UTIS 521 AKNO 520 OUPA 520 HIMH 520 EEDO 520
+ENIC 520 ESSS 520 ANDK 520 RICK 520 EONT 520 TOSE 520 TTOY 520 IDIN 519 PEAR 519
+ALLN 519 UTST 518 OVIE 518 DINT 518 MATI 517 YCOU 517 AKEO 517 NOTG 517 EINI 517
+EIIT 517 ESUP 517 OUTP 517 EARA 517 KEHE 516 ESWI 516 RECI 516 FAIR 516 IFET 516
+PUTT 516 BERS 516 EDMA 516 SSON 516 NTOM 516 NENO 516 CHIC 515 AGES 515 OLLA 515
+NMEA 515 SOFF 515 ETIS 515 DOTO 515 LLAL 515 TAIR 515 EOFI 514 ATTI 514 ENWA 514
+OODM 514 EBES 514 NLET 513 ITHR 513 TSTI 513 TENO 513 NGTA 513 RENE 513 GCAN 513
+URGE 512 NGED 512 DIDS 512 PENT 512 INOF 512 NITE 512 RSHO 512 DHEA 512 EAGA 512
+WAYW 511 SEEW 511 OFWA 511 NSTR 511 URWH 511 SAGE 511 ENEW 511 SONG 510 WASL 510
+ATTR 510 RADI 510 RISO 510 ESTY 510 URRY 510 ERLO 510 ENTM 510 TDEA 510 OWOR 510
+KEDI 510 AYSH 510 HEPR 510 RAVE 509 ASHO 509 NEAN 509 ALIV 509 KEST 509 TOAR 509
+ELLF 509 ANME 508 TORT 508 ASUR 508 LWIT 508 OREH 508 SATH 508 LYHE 508 NEHE 508
+NNAW 508 NHEL 507 IECE 507 KENO 507 ORBE 507 PONS 507 YGOO 507 ANON 507 TTOD 507
+DIRE 507 TPRE 507 YSYO 507 KEDT 507 ITMY 507 OUDA 506 LLYE 506 ANRE 506 OODO 505
+APAR 505 SOLD 505 LLHO 505 FLOO 505 MANH 505 ATEN 505 HTAN 505 DERT 505 OTWA 505
+PROP 504 SEAS 504 KWHA 504 IDNA 504 PITA 504 EAHE 504 AWAS 504 INRE 503 UICK 503
+HETR 503 EDOT 503 KEWH 503 HEYL 503 LLYY 503 EISO 503 ENST 503 NAGE 502 LOUS 502
+OGRA 502 OMEP 502 OLUT 502 LCAN 502 TWET 502 YANY 502 LLYH 502 OTWE 502 UNTR 502
+ITLO 502 STST 501 GODD 501 ETRI 501 ORTI 501 RIME 501 TOLO 501 RAGE 501 STOS 501
+MAIN 501 ELIS 501 HIMM 500 NMEN 500 QUIC 500 NGOI 500 HOWO 500 IDNI 500 BUTC 500
+ESLI 500 GSHE 499 OFBE 499 DAUG 499 TENI 499 ECTE 499 OTRE 499 URST 499 ULIK 498
+UTCA 498 TWON 498 STSO 498 ORKE 498 TONL 498 HECH 498 UCHI 498 UNDI 498 EMAT 498
+ULDB 498 CATE 498 ERWO 498 EDIA 498 ANCA 497 GERS 497 ESAL 497 HEFR 497 SICK 497
+INKH 497 EREV 496 OTBE 496 HTWH 496 ANCO 496 NITO 496 TITY 496 EAHO 496 FAVO 495
+NGEL 495 TPAR 495 LEDT 495 IONO 495 HHER 495 TRET 495 EEMS 495 ENBE 495 CANG 495
+KEAN 495 EDAL 494 WWHA 494 ILIK 494 ORWE 494 SMAK 494 USHO 494 SEME 493 TSAI 493
+MPAN 493 ATEI 493 ICEI 493 TAWA 493 TBEA 493 SMOR 493 SETT 492 NEWI 492 HEDE 492
+ISSU 492 KAYI 492 NSIT 492 WHOM 492 ICKI 491 WEDO 491 UREM 491 RLIE 491 IMAG 491
+OHYO 491 OMEF 491 AKER 491 UWHE 491 AWIT 491 MINA 490 OTIC 490 ENHA 490 TTTH 490
+IWAN 490 FISH 490 ARTT 490 PTHA 490 UNDR 490 EOFS 490 STCO 490 NGAS 489 ESEC 489
+OCOU 489 MYIT 489 AHYO 489 MAST 489 WARE 489 PANY 489 ERYE 489 CARD 488 RSEE 488
+DTOO 488 VESH 488 LSTH 488 WHYS 488 EEIN 488 BELO 488 PROT 488 IMEW 488 TMAS 488
+ORNE 488 ERYA 488 NWIL 487 ERHI 487 NVER 487 VECO 487 ASWE 487 STIS 487 ERMO 487
+ELLN 487 INSA 487 NERS 487 GWIT 487 EISH 487 KIDD 487 SEDA 486 SITY 486 OWSH 486
+ETAR 486 PROF 486 NTDO 486 UDID 486 ITIM 486 STOA 486 GHTP 485 EMUC 485 IDET 485
+OUSW 485 GGET 485 USLY 485 TGOD 485 NOON 485 RETU 484 EWIN 484 ATAS 484 WORS 484
+ENGE 484 SHEB 484 SHAP 484 OMMA 484 OLDS 484 OUUP 484 EOTH 484 SPRE 484 ROPE 483
+EBEF 483 DOLL 483 SUAL 483 EWEI 483 UREW 483 ENIS 483 IMSE 483 CTIN 483 SAYO 483
+EAHY 483 OFFO 483 ECAM 483 AYWE 482 SONO 482 YESS 482 IFYO 482 ARTO 482 RRYA 482
+LDAN 482 OWCA 482 ASED 481 MEDA 481 ISAR 481 ANSH 481 AMTH 481 MEWO 481 IDID 481
+ERDI 481 ERMY 481 TFIR 481 NDSE 480 TEMP 480 PREC 480 UOUT 480 DICA 480 EQUE 480
+EKIN 480 RTYO 479 LITI 479 TSAN 479 META 479 ASGO 479 TSWE 479 WERS 478 ARRA 478
+LORD 478 NFRO 478 IRIG 478 EDAT 478 AMEW 477 EPIN 477 FESS 477 ORAT 477 LAUG 477
+ECUR 477 URAL 477 LLSI 477 HNOT 477 TONT 477 ETCO 477 VELO 477 HETE 477 UILD 477
+MESE 476 CKTO 476 LGET 476 TOAS 476 DONR 476 INCA 476 VEIS 476 NKST 476 NCON 476
+REBA 476 AGOT 475 ANAL 475 IOUT 475 YINT 475 PIEC 475 INEW 475 IKEL 475 EFRI 475
+NTRE 475 SECU 475 BUTD 475 EMYS 475 NTSO 475 ALLR 475 EOFA 475 MELO 475 EACT 474
+YWHO 474 IRES 474 URNO 474 INON 474 REJU 474 ISTM 474 ANDU 474 PPER 473 ONOU 473
+SIVE 473 UPER 473 RCOU 473 ENAM 473 IWHE 473 EYHE 473 SCHA 473 GINE 473 SATI 473
+DENC 473 ERAS 473 ICKS 473 NDMO 472 AGRE 472 OLON 472 OANY 472 IDED 472 ERAB 472
+HOTO 472 INTI 472 EUND 472 GEOR 471 IONL 471 ACKY 471 SHOP 471 HDON 471 THOM 471
+EHOM 471 RRYS 471 NTAK 471 SONL 471 ATAB 471 UTEN 470 ROCK 470 TTOH 470 UCKS 470
+UYEA 470 CARR 470 SPON 470 OREY 470 LDNO 469 INOW 469 TOKN 469 LIVI 469 VERC 469
+DIED 469 DMEA 469 BEAN 469 HESU 469 MITT 469 EAHM 469 OUEV 469 HEYF 469 ACKM 468
+LYWH 468 EKEE 468 EASK 468 HHAV 468 YLOO 468 TSTR 467 OLDA 467 LLLO 467 VELI 467
+ONHO 467 EASS 467 LYAN 467 OWNE 467 TATO 467 PERH 467 VEOF 467 TSHI 467 ESSM 467
+IVEY 466 ETME 466 HANT 466 ANSA 466 EMED 466 EADA 466 LDWH 466 MEAR 466 ARER 466
+RIBL 466 TERB 465 MANO 465 UITT 465 REAB 465 BROU 465 ORAL 465 ISTS 465 REFI 465
+IITH 465 LLSE 465 BEIT 465 INKN 465 TTAC 464 EADO 464 DHEL 464 NDHO 464 BUTB 464
+CATC 464 AYGO 464 DTIM 464 ASEA 464 CANL 464 ICEA 464 LDHE 463 RYIT 463 SHEC 463
+NCEW 463 SNEE 463 ALIS 463 ULDD 463 YWOR 463 ELIF 462 ONEE 462 RERI 462 ITSI 462
+AGIN 462 NTHS 462 RGIV 462 GETC 462 EKIL 462 RRIB 462 WEAT 461 ISMY 461 OWLI 461
+NGOU 461 LEWH 461 OWHI 461 NDMY 461 ENAT 461 TINO 460 RSTI 460 ENCH 460 SUND 460
+TOBU 460 YTOO 460 URNI 460 LIZE 460 EGIR 460 NTOH 460 WASF 460 RANY 460 ACCO 460
+TTRA 460 DGOI 460 ETOB 460 ONMY 460 EBRO 459 NCED 459 ONEV 459 GCOM 459 EASU 459
+OVIN 459 NOTF 459 UTOT 459 DERA 459 REPL 459 XPLA 459 ELES 459 OHOW 458 EATW 458
+ULAR 458 NDRI 458 ONGA 458 RTOT 458 BEHA 458 ULDC 458 EDLI 457 ARSH 457 NDHI 457
+ETSH 457 ITYE 457 ATJU 457 OFHA 457 LSOM 457 LEHE 457 HUMA 457 UHIM 457 NEYT 457
+LLHI 457 INKM 457 NDLO 457 HIMO 457 ISLO 456 ASWA 456 SURP 456 FFEE 456 NTME 456
+EBOY 456 LEDI 456 TOOH 456 AARE 456 HEUP 456 EREK 455 CEIT 455 NSTI 455 PARA 455
+NOTR 455 OFFT 455 LLIA 455 TOOU 455 DHIS 455 KAYS 455 NEGO 455 DIDW 455 EHOL 455
+LSHE 455 HTDO 454 TWEA 454 OHIS 454 TOWO 454 ROLL 454 IGGE 454 REDE 454 ITHG 454
+TRAT 454 VESA 453 OSHO 453 NEWT 453 WHYA 453 LLMY 453 TRIP 453 NCHA 453 EEPT 453
+TERC 453 SEGO 453 SSIS 453 EEPS 453 ATNE 453 ADMI 453 ALIN 452 OWMA 452 STCA 452
+TWHI 452 ITOU 452 OKYO 452 TWAI 452 TOYE 452 IKEB 452 EAMS 452 ACAN 452 URDO 452
+IYEA 451 SEWE 451 ERYS 451 ORON 451 HEEV 451 EDWI 451 UTTI 451 EEND 451 SITW 451
+ANGI 451 TFEE 451 STOH 451 ILLD 451 DDAM 451 LDER 451 GETL 450 IABO 450 UNOW 450
+ELTH 450 NPRO 450 VERG 450 TTOG 450 RRYW 449 TODI 449 OSEA 449 AYNO 449 EDAD 449
+USEM 449 ETEN 449 ORSO 449 MMAN 449 ATLE 449 EIHE 448 LALL 448 PARK 448 WENO 448
+ISAT 448 AVEP 448 NTLY 448 USEY 448 ELVE 448 ROMS 448 DWOU 448 NWHY 447 FORR 447
+EDFO 447 ULLY 447 SMIN 447 NWOU 446 TOPE 446 THAR 446 EEKS 446 GSTH 446 ECHE 446
+OFOF 446 RUNN 445 LANT 445 ACKH 445 REFE 445 USEH 445 MMER 445 TTWO 445 BEAR 444
+ETRU 444 RECE 444 ECHI 444 ERIE 444 YMAN 444 FOOD 444 OVEI 444 ASBE 444 EAHH 444
+OTSO 444 SMEL 444 ONHI 444 ATIM 444 NDWO 444 DAYO 444 ILLB 444 ELLR 444 REED 444
+GETG 444 ENRE 444 RAIG 443 THWH 443 ITHL 443 EMAD 443 NTGO 443 INAR 443 NBAC 443
+CING 443 UABO 443 SINS 442 BOAR 442 HEND 442 NGJU 442 YTIM 442 RWOR 442 HARG 442
+SGIV 441 DIDO 441 SSAN 441 ARDE 441 ORHA 441 UNNI 441 EANA 441 UEVE 441 UTSH 441
+ONEF 441 HWAS 441 NGLA 441 TBEL 441 ONDA 441 LADI 440 EYAN 440 ATFI 440 EINA 440
+ARAN 440 FORP 440 COFF 439 RSHA 439 LLYM 439 NTSI 439 DOIT 439 USTF 439 TOAT 439
+TLEI 439 OFME 439 YHEA 439 NTSA 439 LVES 439 HENR 439 ATEM 439 ANTL 439 RETR 439
+TOPA 439 MARE 439 NGFI 438 OTST 438 ESLE 438 NSUR 438 AYME 438 ISDI 438 EARM 438
+RTHO 438 NSAY 438 ERBU 437 RHEA 437 OTIS 437 REDS 437 OUSS 437 ITMO 437 NHIS 437
+TERF 437 ADIT 437 LLWO 437 LIES 437 HREA 437 ICOU 437 ESIG 437 EISN 436 PAST 436
+OSIN 436 EYWH 436 CEAN 436 NSAN 436 OUSY 436 ANTR 436 REFR 436 OWAL 435 NTIS 435
+IVEH 435 ENME 435 OTOO 435 MEAS 435 ITDI 435 OARD 435 ERUN 435 ESAM 435 TRON 435
+AINY 435 AKEB 435 NGBA 435 TISI 435 WHOO 434 OGOO 434 HEVE 434 VECA 434 MHER 434
+DTAK 434 KAYA 434 TISH 434 ECID 434 HADI 434 OLOO 434 BEGI 434 TDAY 434 ONVE 433
+TIAN 433 IONB 433 TERG 433 RWHO 433 VEON 433 NYWH 433 UTTA 433 OFIS 433 YITT 433
+HEYN 433 IMEY 433 YESW 433 NICA 433 LLOU 432 REIF 432 TELE 432 RINC 432 YLET 432
+EAVI 432 LAYE 432 IANY 432 ANCI 432 OSPI 432 TATT 431 ATBA 431 LLDI 431 DGON 431
+TALI 431 ITOT 431 OLVE 431 PETE 431 ARIS 431 SOLU 431 HOWD 431 DANG 430 ESSY 430
+ADTO 430 NGNE 430 SMET 430 TINE 430 NGAB 430 WEGO 430 AMON 430 NGRI 430 VERL 430
+STAB 430 EGRA 430 SMAL 430 OVEA 430 INDW 430 OWNY 430 AYWA 429 PERT 429 ATIV 429
+EDIF 429 RIAL 429 RTOO 429 OWSA 429 SHOL 429 RELL 428 RMAT 428 ESCH 428 TEDY 428
+ORTS 428 ECTO 428 GOVE 428 NALI 428 ODDA 428 YMEA 427 OUFA 427 UTIO 427 BLOW 427
+KEGO 427 EKID 427 THHE 427 OTCO 427 ESFO 427 AYHA 427 NEWE 427 ITHF 427 NNAY 426
+ASTS 426 INTA 426 UTWO 426 IHIM 426 ELAS 426 ZING 426 EDSA 426 EISS 426 EMEI 426
+VICT 426 EDOU 426 NDOU 426 EADE 426 EASI 426 MYWH 425 NDKN 425 DWIL 425 MONS 425
+ETCA 425 WESO 425 SSAG 425 URGO 425 VENA 425 ALKT 425 NHEY 425 HTNO 425 HISE 425
+MEMY 425 WHYW 425 NFIN 424 NTNO 424 EVEL 424 OWIL 424 MILI 424 SUIT 424 AVOR 424
+EEDE 424 ESTW 424 SESO 424 INSH 424 LYDO 424 ONLO 423 OFCO 423 EHAR 423 LKED 423
+OHEA 423 EETO 423 USTN 423 OFSO 423 ERKN 423 LITH 423 LABO 423 TIMA 422 ALIZ 422
+ISMO 422 RTUN 422 NCLE 422 MNOT 422 LENO 422 EBRI 422 ITKN 422 ASME 422 ALAN 422
+AULT 422 OOKY 422 RGOO 421 NYES 421 STLE 421 ERSY 421 HEPA 421 SLIT 421 ORTE 421
+HEAV 421 EIAN 421 WAYY 421 GRAT 421 ESSU 421 OSTH 421 SAPP 421 LLKN 421 OMMY 421
+ISOU 421 TENS 421 MEHI 421 NDDI 421 DITO 421 TINI 421 CANF 420 ANTB 420 RASS 420
+IDNO 420 HORS 420 BEHE 420 ETWI 420 REES 420 SEEY 420 ONWO 420 DAYI 419 ONIC 419
+LBUT 419 ANTD 419 RHOW 419 LOGI 418 LOWI 418 GJUS 418 ISWO 418 TOSI 418 PPEA 418
+TANO 418 DSAY 418 UTMA 418 BYTH 418 INVE 418 ESAR 418 SANT 417 UCOU 417 ADIE 417
+IWEL 417 ISEE 417 LDID 417 IOND 417 DYYO 417 IVEM 417 EAFT 417 NGSW 417 ETSA 417
+EENY 417 MYHE 417 TGRE 417 OSER 417 SCEN 417 LLEG 417 BLEW 416 NGIF 416 IONC 416
+SWAY 416 EIWH 416 TOMI 416 NOIT 416 AMEN 416 ITGE 416 FREA 415 TINY 415 NOFF 415
+RITA 415 OTME 415 DFRO 415 FARE 415 SOVE 414 OOKM 414 LETY 414 NTSH 414 CURI 414
+HOSP 414 STLI 414 ASIS 414 RESC 414 OULA 414 ITBU 414 VEDI 413 STSH 413 OUII 413
+HORT 413 ENJO 412 DBAC 412 AINH 412 EWAT 412 ACOM 412 XPER 412 IMIT 412 ORCO 412
+OUBO 412 PAND 412 ISKN 412 HEPL 412 SEWA 412 TPEO 412 EXTR 412 WEWE 412 SDOI 412
+IKEC 411 FHER 411 NOTN 411 SERE 411 STEM 411 EEDA 411 ALLP 411 ILDI 411 AIDI 411
+ROMW 410 OSEI 410 INTR 410 TSPE 410 IMON 410 LDDO 410 ELLP 410 HEII 410 MYAN 410
+ARNE 410 GBUT 410 UWEL 410 NGSS 410 TIFI 410 ROUS 410 MANC 410 STOD 410 TMIS 409
+GGOT 409 EYDO 409 OEST 409 ONYE 409 DOUB 409 ACCE 409 ANAG 409 GROW 408 ONTE 408
+ATMI 408 GSOM 408 TOFR 408 INMA 408 HISK 408 DONP 408 SPIR 408 OMME 408 OOKH 408
+AIGH 408 AREP 408 OTIM 408 FOOL 408 BELL 408 EAMI 408 EUSE 407 TWOT 407 ANYA 407
+RLOO 407 PHER 407 KERS 407 GUAR 407 LLBU 407 HEFA 407 AINM 406 ANYI 406 KNOT 406
+OREV 406 IMME 406 ANSI 406 OPIN 406 NATU 406 DOHE 406 TERL 406 BURN 406 IDTO 405
+BLEI 405 ERPR 405 SHAN 405 BUTG 405 SPLE 405 ETOC 405 SICA 405 EAME 405 REPE 405
+EAIN 405 BILI 405 ITRI 404 HTGO 404 UREY 404 ITAB 404 HEYR 404 NTWE 404 VELY 404
+TPER 403 RTAL 403 IMEH 403 RSTT 403 UTWI 403 YHEL 403 HKNO 403 OMMI 403 EGIN 403
+MANM 403 SCHE 403 DPRO 403 BUTL 403 JESU 403 ASEI 403 ERIA 403 IEDT 403 USPE 403
+GGER 403 NCEM 402 ORGI 402 NORM 402 NTWO 402 TITM 402 TONA 402 NWER 402 SEBE 402
+LESO 402 SSHA 402 HEMW 402 AGON 401 MEYE 401 IKEG 401 UTFO 401 LLIK 401 TITL 401
+OROF 401 LEMA 401 FEET 401 CKIT 401 OWNH 401 RYAN 400 NITS 400 TEAR 400 ESCR 400
+STHR 400 NGMI 399 OLDW 399 EATM 399 ERSU 399 EYON 399 NOKA 399 HEOR 399 HERP 399
+BESI 399 NOHE 399 INTS 399 ONDS 399 NITA 399 TWOM 399 YORK 399 ANMA 399 HEBO 399
+NION 399 SMAY 399 YBEA 398 TACK 398 ASOF 398 SHEG 398 URIS 397 WORT 397 HICK 397
+IMEM 397 SLOV 397 EPHO 397 EBIG 397 AALL 397 ONKN 397 ASCO 397 SLEA 397 ITTA 397
+ASSU 397 EEME 396 VESI 396 NDYE 396 LOUT 396 ERLE 396 ETOR 396 SEIN 396 PATI 396
+LYNO 396 YTAK 396 NTOY 396 ADAM 396 HTWE 396 OUKI 396 LLMO 396 MYDO 395 ANTC 395
+ILLG 395 NCHE 395 OWFO 395 ODUC 395 TISA 395 EALS 395 LJUS 395 NPLA 395 PLEI 394
+COLD 394 UTTE 394 NTWA 394 OCAL 394 SCRI 394 ANNI 394 TASK 394 OUSC 394 NNAH 394
+ORKT 394 ULDG 394 KFOR 394 EREU 394 WNYO 394 DAYA 394 ONBU 394 EATY 394 KAYW 394
+DEFE 393 UGHS 393 GOTC 393 OUIA 393 HOWB 393 EDHO 393 LGOT 393 PTIO 393 TSIR 393
+ENTD 393 HUND 393 IRIT 393 YBAC 393 TANC 392 AYOF 392 UONE 392 FDON 392 DDLE 392
+HELA 392 EWTH 392 EITB 392 LUTE 392 THOR 392 RKED 392 GOTD 392 CHEE 392 ERSM 391
+NTOL 391 CRED 391 HAPS 391 EWES 391 URBE 391 WFOR 391 NMOR 391 EWAL 391 NKTO 391
+EDWO 391 EENH 391 URWE 391 YGOI 390 REQU 390 ICKT 390 WAKE 390 NOVE 390 DWHY 390
+WAYH 390 OTEC 390 ECTS 390 CRIM 390 BEWH 390 DETE 390 UATI 390 HOST 389 OREO 389
+HEOH 389 MDON 389 THOL 389 HENB 389 OUSM 389 ITAS 389 OSTT 389 NOUR 389 STOC 388
+HENC 388 OFON 388 IDAN 388 AYSW 388 CREW 388 OITT 388 FNOT 388 CART 387 CEST 387
+NBET 387 YWHY 387 NLES 387 IDAY 387 TEDH 387 VEMA 387 OWAT 387 EFOU 387 NCEY 387
+MWAS 387 YBEI 387 OTWO 387 SAWA 387 YHIS 387 NESE 387 NBEE 387 EOFW 387 ASTY 387
+JOIN 386 ASTR 386 ULDE 386 RLET 386 ELPI 386 UTUR 386 INKO 386 METE 386 NEDA 386
+ENTU 386 ISMI 386 WEWA 386 KHER 386 ELFT 385 ITHN 385 GIVI 385 TWEI 385 ONMO 385
+EWAR 385 OFCA 385 RODU 385 OFRO 385 RYHE 385 HADA 385 TINA 385 RSET 385 OREC 385
+NTBE 384 UREL 384 LWHE 384 EMER 384 BERE 384 VENS 384 KESO 384 AYED 384 HENG 384
+ORSH 384 NDBU 384 NGTI 384 SSWE 384 SIAN 384 REGU 384 ISOR 384 KEDA 384 ATIF 383
+EPRI 383 ARTN 383 BEDO 383 KICK 383 NSOR 383 ITER 383 UTLI 383 ACKO 383 ULDL 383
+NSON 383 UWHO 383 SEHA 383 IFIN 383 YGON 383 MACH 383 TAGA 382 ENCA 382 ESAT 382
+ATOH 382 OOSE 382 ONAB 382 TNIG 382 STOU 382 ENLI 382 CEHE 382 NCAR 382 TTYO 382
+OUOH 382 CEME 382 ABSO 382 ANYS 382 INSU 382 ISBU 382 DOKA 382 INDY 381 NORT 381
+ICEW 381 ATEW 381 SESS 381 NDIF 381 FOOT 381 TSWH 381 ANKN 381 WEBE 381 EGEN 381
+OCKS 381 TCHT 381 ENSH 381 INNI 381 LDNT 381 SRES 381 EANW 381 BOTT 381 YWOU 380
+UINT 380 OURU 380 HASI 380 GLAS 380 NFIR 380 MEKN 380 NIYO 380 NTAI 380 MELE 380
+MERA 380 IZED 380 TONY 380 DHEY 380 EEXC 379 OWWI 379 RATO 379 ESLO 379 UTIM 379
+TNEW 379 NAWA 379 WEIN 379 KARE 379 DTEL 379 ENTB 378 AYSS 378 ULLE 378 STEV 378
+TMUS 378 HIMB 378 HADS 378 ANAT 378 DIDY 378 URSO 378 AZIN 378 ETMA 378 DYES 378
+AYCO 378 ROMO 378 HARM 378 ASCA 378 DESE 378 OWNM 377 LYGO 377 NGRY 377 STWI 377
+AMEY 377 LYEA 377 EDSE 377 EENM 377 OHEL 377 EFUC 377 UMOR 377 LYWE 377 SONW 377
+KEWE 377 YFRI 377 GETF 376 RCHA 376 ISAS 376 NIMA 376 EIDO 376 DSIT 376 AKEC 376
+HTWA 376 ULLS 376 RSHI 376 UHOW 376 NGPR 376 SIRT 376 TISO 376 DBET 376 TOPI 376
+ROFE 376 AGED 376 ANIM 376 TIAL 376 ANFO 376 UREH 376 DFIN 375 SEEH 375 ERBA 375
+TMUC 375 LETM 375 EDSI 375 DTOI 375 OLEA 375 SCRA 375 LLTA 375 ONSC 374 OUIM 374
+HTST 374 MEBU 374 DTHO 374 ARDA 374 LLOO 374 FFTH 374 CIAT 374 EITC 374 MYST 374
+SEOF 374 VEAL 373 ALIK 373 OTCA 373 ALTO 373 OREL 373 ITOH 373 IVEL 373 YWIL 373
+REGI 373 ATIE 373 DARL 373 ETLI 373 SOFI 372 EVIL 372 UITS 372 THDO 372 LESH 372
+NOIS 372 EPTH 372 SMIS 372 CKHE 372 CERE 372 RTIM 372 ISEA 372 RIAN 372 ATPR 372
+TORA 372 USUA 372 ISYE 372 TEDM 372 EMOM 372 AYRE 372 MHAV 371 OATH 371 ATFR 371
+DRED 371 DOFF 371 NERE 371 ANDJ 371 KEWA 371 IMPR 371 SNTH 371 IMAT 371 WAYO 371
+OUPE 371 EDRO 371 TUND 371 UDGE 371 YFRO 371 ADYT 371 NESO 371 ISLE 370 DITS 370
+DDOW 370 HEIA 370 MITH 370 IHOW 370 SOTO 370 DOWH 370 BSOL 370 IMAL 370 YBES 370
+TYYO 370 HTON 370 TBRO 370 AJUS 369 DDEN 369 UBLI 369 HCAN 369 NGLL 369 EIRD 369
+ILLC 369 EDLO 369 ETSI 369 AYEA 368 UIET 368 IPPE 368 ORHO 368 TOPP 368 HTOF 368
+DPLA 368 ECUT 368 ARIT 368 TIEN 368 EARW 368 ANTG 368 YSIT 368 LWAN 368 ICTI 368
+SDOE 368 IDNS 368 RAIS 368 VIOU 368 GETN 368 EEIT 367 QUIE 367 NGTR 367 POOR 367
+ABUT 367 ORCA 367 SBEC 367 DAYW 367 BIRT 367 UANY 366 MARI 366 WAYM 366 SSEN 366
+TBES 366 DBYE 366 LLGE 366 ELPT 366 IDIT 366 EITD 366 THUR 366 ULET 366 KSYO 366
+FHAV 366 KSHE 366 THDA 366 GOTB 365 CEDO 365 DIYO 365 YESH 365 TMES 365 ITES 365
+EAPO 365 BERI 365 VEFO 365 NDAS 365 RADE 364 ENSA 364 HESW 364 TPUT 364 NOAN 364
+USIT 364 IMTO 364 VEHI 364 SGUY 364 KEBE 364 SHEN 364 WASR 364 OGOI 364 RITO 364
+ICED 364 ASRE 363 LAME 363 OTIO 363 HWIT 363 TBEI 363 UNLE 363 EISW 363 LEDA 363
+RSES 363 OLES 363 MKNO 363 OFES 363 RGOI 363 NDGE 363 BLEA 363 GLIK 363 WHYY 363
+NJOY 363 TTOB 363 FRIG 363 LANC 363 ILLL 362 SNEV 362 EDMY 362 ULDF 362 DYIN 362
+THNO 362 EETS 362 AIDA 362 BANK 362 OUPO 362 OVEM 362 YOUV 362 OODD 362 ANWI 361
+SAYA 361 QUAR 361 BOSS 361 ASTW 361 ARME 361 IGOO 361 EYNO 361 ISPE 361 HIMD 361
+EINW 361 GODO 361 LLOT 361 NHAD 361 TSNO 360 TLEW 360 TIIT 360 ARKE 360 TUDE 360
+TSOU 360 NTOD 360 YHEY 360 OTAK 360 TSDO 360 YPRO 360 SINO 360 CIEN 360 NDNE 360
+USEL 359 EBRA 359 XCEP 359 WEHA 359 DMOR 359 YESM 359 HTBE 359 TTOR 359 OODN 359
+EAGO 359 CELE 359 ELYO 359 TOJU 359 ETCH 359 THIR 359 ISGE 359 HOWC 359 EWED 359
+ESMO 359 WECO 359 ODYI 359 HITS 359 ALKS 359 ELYT 358 NDTA 358 OWSI 358 LLNE 358
+HADO 358 GWAN 358 ASOM 358 NDSW 358 TMYS 358 OUSP 358 HDAY 358 INLI 358 USEO 358
+EFRE 357 THWA 357 ARTA 357 EDHI 357 HTRE 357 INEY 357 INLY 357 TFRI 357 DATH 357
+IVEO 357 THWE 357 TAIL 357 AINO 357 ULOO 357 YOFF 357 LESA 357 FING 357 TISS 357
+RSIN 357 RELY 357 DRUN 356 TOPT 356 YTEL 356 RGON 356 ANLI 356 TINC 356 AREE 356
+NTAS 356 ITBA 356 ATLL 356 JUDG 356 AMAN 355 FELT 355 NEIN 355 ITYT 355 ECOL 355
+AWHE 355 WEME 355 INWI 355 NEME 355 RRYY 355 EMIL 355 OFLI 355 TERP 355 THEV 354
+BLIN 354 NTRI 354 INDH 354 MEGE 354 GABO 354 HEKI 354 BATH 354 ETIC 354 AITS 354
+DMAK 354 SBEA 354 LOTS 354 NEBE 354 OTSH 354 SSAI 354 TOOI 354 RYDO 354 LEGO 354
+MANN 354 IMED 353 AKEG 353 USHI 353 SELV 353 CKSO 353 IANT 353 SSHI 353 ERNA 353
+UNTE 353 ENFO 353 GODT 353 EENG 353 ROWI 353 HOTE 353 YTHO 353 PPRE 353 ONSU 353
+OSAY 353 SHEF 352 IWHO 352 OHAN 352 IONG 352 ANCH 352 TEAL 352 NDSS 352 GITH 352
+OFST 352 EETT 352 GWHE 351 CANR 351 CTIC 351 ITIE 351 NORE 351 EYGO 351 FWAS 351
+TSCA 351 BUCK 351 ERSC 351 REUP 351 EYWE 351 RCHI 351 ARSA 350 EHEI 350 ISNE 350
+AYIS 350 ONEP 350 WELI 350 WONT 350 TNAM 350 PERM 350 ODBY 350 URNS 350 OVEW 350
+ITIC 350 TSTU 350 ACEI 350 NKIT 350 AIDS 350 SMIL 350 MPER 350 SESH 350 TITU 350
+SEDW 350 IKEF 350 HARR 350 DERW 350 REEV 350 ONGW 350 IRET 350 DCAR 349 HASN 349
+NGFR 349 WHOY 349 LEON 349 CHTO 349 GOUT 349 TASS 349 HIMC 349 MPRE 349 NCEN 349
+OGON 348 ETOP 348 WHOH 348 CEWH 348 SYST 348 EWEN 348 USTP 348 MYGO 348 RSAN 348
+TBEF 348 WNOT 348 ATUP 348 KERE 348 LYWA 348 OSEW 348 PUSH 348 DBEE 348 SEED 348
+TOBA 348 RULE 348 DAVI 347 ITET 347 CHAI 347 UGOO 347 URWA 347 RECH 347 ECLO 347
+OTMA 347 NCEH 347 NMAK 347 AMEM 347 LLIF 347 OWLE 347 PRIV 347 GEVE 347 TLED 347
+ARDW 347 THGO 347 DWER 347 STSA 346 VERF 346 RILL 346 HYYO 346 DIDH 346 ORSA 346
+YSAY 346 HEIM 346 OFMA 346 TOFS 346 REBO 346 TWEN 346 YBEC 346 EWIS 346 OFFA 345
+ONAS 345 UTAT 345 THAL 345 ATDE 345 ESOT 345 NEHA 345 KHAV 345 LIAN 345 ISAP 345
+RTAK 345 FULT 345 ATDA 345 BOAT 345 NGEV 345 DNYO 345 OMFO 345 CHOI 345 GOLD 345
+HADW 345 IWOR 345 ISCH 344 LDIS 344 NGDE 344 WHYM 344 NGSU 344 SVER 344 LDGO 344
+AWAN 344 INVI 344 RMEA 344 UTOO 344 OLDE 344 UTER 344 BASE 344 UTSA 344 NDEA 344
+AOUT 344 NCEL 344 TOOD 344 CKST 344 ATIC 344 UPST 344 ATSU 343 HEYP 343 ANNY 343
+NTIR 343 NGAG 343 TSIS 343 TTRY 343 IELD 343 EROO 343 TMYT 343 AYON 343 EYBE 343
+DCON 343 WEOF 343 DINA 343 GETR 343 ESWO 343 BLUE 343 VERR 343 ANKA 343 EFAT 343
+VEWI 342 DITA 342 WASP 342 DMIN 342 ATLA 342 EITG 342 RTNE 342 NTCO 342 EEXP 342
+CHIE 342 ELIG 342 ADES 342 INEV 341 ELOT 341 EYWA 341 SMON 341 EREJ 341 SSWH 341
+YFIN 341 LLAB 341 YYES 341 TEIT 341 ANOW 341 DLEA 341 IDGE 341 WEIS 341 STOY 341
+CHAM 341 WHYH 341 OUTU 341 UHEA 341 SDEA 341 LEBE 341 UNCL 341 URCH 340 GRIG 340
+ATOT 340 TKID 340 HCOM 340 INDM 340 IINT 340 TLON 340 LOTT 340 RDYO 340 UPRE 340
+ASMA 340 OOKO 340 BARR 340 EONI 340 KEHA 340 ENAL 340 NTHR 340 AKEL 340 LLYD 339
+EMEW 339 DTOW 339 UPTO 339 BENO 339 ETAI 339 CANP 339 HTSO 339 NOFT 339 WEVE 339
+OTWI 339 URME 339 LICA 339 YTOW 339 VIEW 339 SHAS 339 LDWE 339 MENI 339 DOAN 339
+DOVE 339 USEC 339 EOFY 338 ERJU 338 LINT 338 ONSW 338 ITOO 338 EDOO 338 YESY 338
+HOWG 338 TROO 338 UWOR 338 STFO 338 ASLE 338 SLOW 338 ISLA 338 SEDS 338 ISFI 338
+LUNC 338 STAG 338 RHEL 338 PTHI 338 SWET 337 HILL 337 PPOR 337 OACH 337 MWIT 337
+PUBL 337 ISAY 337 SSTI 337 EONA 337 CLOT 337 SEEO 337 LARS 337 NOSE 337 LTHO 336
+NDAB 336 SIRE 336 ESMY 336 UGHA 336 TOPR 336 ASEM 336 KDON 336 REGR 336 ANAR 336
+LYBE 336 MEOU 336 OSEC 336 URHA 336 ENMA 336 KESH 336 TISN 336 SEMA 336 HEPE 336
+CUTE 336 EBRE 336 DODO 336 LDBE 336 SONY 336 NGOH 336 NEDS 335 YDOW 335 ECRA 335
+TNER 335 UITA 335 SSTR 335 REDW 335 GNOW 335 SOIT 335 EOLD 335 HITI 335 ELFI 335
+ODTO 335 OWSE 335 AMYO 335 NGDA 335 ECES 335 GOTG 334 TSMA 334 SSNO 334 ENOR 334
+STUR 334 UCTI 334 AHIM 334 WHIS 334 ODAN 334 SEIS 334 PPRO 334 INSE 333 LESI 333
+NYYO 333 RWIL 333 INEE 333 DNIG 333 OAST 333 TKIL 333 ICEM 333 MYNO 333 TLEF 333
+LLLE 333 ETFO 333 LLYB 333 SUSP 333 BUDD 333 ELEV 333 YBEE 333 ORDA 332 EIWA 332
+NEAT 332 TALO 332 WEIR 332 UTLO 332 CIOU 332 RMAL 332 OTOS 332 OUBR 332 LIEN 332
+EAHB 332 HGET 332 ROMH 332 KEIN 332 ISES 332 RFRO 332 OUAM 332 AYMA 332 LNOW 332
+BUSY 332 DEFI 332 TETO 332 CHEA 332 NONO 332 EIGO 332 BJEC 332 EDOH 331 TSUP 331
+OODL 331 LOOR 331 ONJU 331 OUNC 331 HANY 331 OPRO 331 EDMO 331 GHIM 331 EIDE 331
+USSI 331 YWER 331 HEAM 331 NGPA 331 MAJO 331 BEGO 331 RRYM 331 ISAB 331 WDON 331
+RITS 331 IGON 331 HENL 331 DIDM 331 MENE 331 YPLA 331 LSTO 331 CHIT 330 EDNE 330
+SITM 330 CKAN 330 ADAN 330 AYCA 330 WOOD 330 OUIW 330 EWOM 329 EYIN 329 ENCY 329
+LLBA 329 INKB 329 AJOR 329 BRAI 329 ICEN 329 HTIS 329 GYEA 329 SWHI 329 EAMA 329
+NOTP 329 ARIG 328 ASEE 328 ORAR 328 APOL 328 UITI 328 RENI 328 EDYE 328 OOLI 328
+NGCH 328 YATH 328 IVEB 328 UPON 328 PLEN 328 IDNW 328 OKEN 328 HEMU 328 AMEH 328
+EIWE 328 LEWE 328 BEWA 328 ROMY 328 UCKT 328 OONT 328 ILLN 328 UMEA 327 OTFO 327
+PACK 327 RWOU 327 TOPS 327 TLIF 327 SPRI 327 REEA 327 LHIM 327 LFRI 327 ULDR 327
+EMAI 327 ADED 327 RYNO 327 TOAB 327 NSPE 327 KEIS 327 EITR 327 HOWL 327 EWRO 327
+TWES 327 CLUB 327 ERTE 327 WEDD 327 HTMA 327 BIGG 327 TMOV 327 DARK 327 INKL 327
+OLDM 327 EWEW 327 EAHD 327 GDID 327 NDOI 327 CKWH 327 SUPE 326 LYHA 326 ITEA 326
+EADW 326 TOOW 326 LOWS 326 INEM 326 RSAY 326 IITT 326 TDIS 326 IFES 326 NEWO 326
+NANO 326 ENTC 326 TOLL 326 ADHE 326 CKNO 326 SFIR 326 ENGL 326 ACKD 325 TSCO 325
+EEDW 325 ETEA 325 RIVA 325 EPOS 325 KECO 325 MINI 325 RWAR 325 OREG 325 TALW 325
+GSTO 325 KEME 325 UTAR 325 ITMI 325 NECO 324 EDBU 324 RUNK 324 INKD 324 RGEN 324
+DEMO 324 RIFI 324 NLYI 324 JUMP 324 EARY 324 EDAM 324 OLDO 324 NEIG 324 ILEA 324
+TIWH 324 ULES 324 YTOI 324 EINC 324 EIBE 324 KAYY 324 KWAS 324 ILOO 324 NTAC 324
+DESI 324 UHEL 324 MYWE 324 RSWE 323 OYES 323 TTOF 323 NGSM 323 GGES 323 ANTF 323
+RKTH 323 EDLE 323 FKNO 323 ADET 323 RIDI 323 SUCK 323 EITL 323 NSIN 323 EDOC 323
+OUUS 323 ACKB 323 EAHC 323 KNOC 323 EMTO 323 HEUS 323 HTCO 323 ILED 323 ATEY 323
+RWHY 323 INHO 323 CENE 323 OFAL 322 OSTS 322 IKEN 322 TITC 322 LOCA 322 EDKN 322
+SSAR 322 NMIN 322 UILT 322 URCO 322 TIHE 322 HEBR 322 LDWA 322 INER 322 LYRE 322
+SKIL 322 TSOF 322 ASEW 322 ERFI 322 IFFI 322 LTOT 322 TOOA 322 EIRE 321 AITA 321
+ODYS 321 ADID 321 PATH 321 LIEU 321 HUNG 321 LIND 321 ACTE 321 SITU 321 NODO 321
+ITJU 321 ESDA 321 EDED 321 SESA 321 IMMY 321 UTSE 321 NGTE 321 TARO 320 HSOM 320
+OHEY 320 TMEI 320 HEIW 320 BUTF 320 ARAT 320 DTOS 320 OBAC 320 TEAD 320 DEYO 320
+OREN 320 NMET 320 SAYW 320 OBET 320 SGOD 320 EUTE 320 SEAL 320 LITA 320 TONS 320
+YOKA 319 UHIS 319 KEOF 319 MOTI 319 EOFM 319 EHON 319 HJUS 319 HIEF 319 DIAN 319
+EBUS 319 RPRO 319 TKEE 319 RMED 319 ONFE 319 CONG 319 NGEN 319 ICEH 319 ESPA 318
+LEIN 318 DSHI 318 USEN 318 WHAV 318 HOIC 318 UTOU 318 RENA 318 OOFF 318 INCI 318
+ERYY 318 ODIS 318 GODI 318 TARY 318 LEHA 318 AISE 318 OLLY 318 OLAT 318 YMAK 318
+RTHD 318 TITD 317 YIYO 317 ITHP 317 OUGU 317 LOSI 317 ARMY 317 YITO 317 HITA 317
+LSEE 317 HOYO 317 NNAO 317 HOWN 317 LSHI 317 SSMA 317 WERI 317 DTOA 317 ITUA 317
+TOIF 317 KESA 316 HTHO 316 MYBE 316 DEAS 316 OFSH 316 MEJU 316 DDOI 316 OFAT 316
+TREC 316 IMEO 316 LEIS 316 KKNO 316 GSHO 316 DORE 316 OTLI 316 MCAN 316 TEDD 316
+UGOI 316 NBEL 316 STRY 316 NAHE 315 EONS 315 PACE 315 TENE 315 HEAI 315 GWEL 315
+OLDH 315 OLDY 315 IVAT 315 ACTO 315 ODYA 315 GEAN 315 HTME 315 TOGR 314 NHAP 314
+TOUG 314 FCAN 314 HEGI 314 NEOF 314 FEAR 314 ARSO 314 UNTA 314 FFIN 314 LLRI 314
+TOPL 314 RMOR 314 UTAK 314 IEUT 314 IDEO 314 ATTL 314 SECA 314 TOFW 314 GEYO 314
+OMIT 314 HEMH 314 ICKL 313 EFEN 313 ORKN 313 AINB 313 GATI 313 EMYI 313 TKIN 313
+NTIC 313 AGER 313 NDPA 313 NOCK 313 HIML 313 NGUP 313 INCH 313 NSIS 313 LLYC 313
+HTAL 312 HEGU 312 ILLF 312 INKC 312 ESAW 312 NCRE 312 ENWI 312 HEEL 312 TDOT 312
+NBEC 312 TBOY 312 SITE 312 URSH 312 EMPT 312 NDBA 312 UARD 312 CALM 312 EYRE 312
+ANYE 312 NTAT 311 SSME 311 TGIR 311 HEDR 311 AYLI 311 ENOI 311 ERCH 311 ODIT 311
+DOGO 311 EMIG 311 CULT 311 DTAL 311 ERYH 311 ISJU 311 TAGO 311 ONLE 311 MARY 311
+TLAS 311 NNEE 310 ISTT 310 COST 310 REII 310 TMAD 310 RFUC 310 OFFS 310 CHAS 310
+RHIS 310 THBE 310 ESKN 310 CENO 310 HEMR 310 TEME 310 DHAD 310 ETRO 310 SCOR 310
+ARSI 310 VENE 310 HISU 309 MYWA 309 ERRO 309 ATPA 309 PEAC 309 OODC 309 RPLA 309
+DRAW 309 TSTE 309 REDR 309 MMIT 309 STOG 309 UROF 309 GSYO 309 DCAL 309 HERU 309
+MMON 309 MCOM 309 TSWA 309 TTOC 309 ATHR 309 UTMY 309 ESTM 309 DUCE 309 HIMG 309
+ISAI 309 COOK 309 ACKG 309 NDJU 309 LYSO 309 IDDO 309 HBUT 309 ADWH 309 KETS 309
+EMEE 308 MAMA 308 HEMM 308 RRAN 308 SELE 308 UPSE 308 THHA 308 SISI 308 ICIA 308
+ERCE 308 OTOW 308 ENEX 308 OTAT 308 INJU 308 NINS 308 TSME 307 OMEE 307 OBER 307
+TSGO 307 EBEH 307 ONSS 307 REDY 307 ETSE 307 LDHA 307 LLMI 307 BORN 307 LSHO 307
+MESW 307 RBAC 307 STSE 307 ICEY 307 TUSE 307 OMTO 307 LCOU 307 OPLA 307 LEWA 307
+OSEN 306 IRYO 306 ERID 306 GUYT 306 ATBO 306 DTOM 306 OUAI 306 NWAY 306 IGAT 306
+EMIT 306 LERE 306 NINE 306 IFTO 306 ARDL 305 OFAR 305 MIKE 305 KAYO 305 MOUN 305
+TWIN 305 WECA 305 LYCO 305 MYIN 305 OWLO 305 VATE 305 GTOT 305 NTOG 305 LSYO 305
+TTRU 305 ODOW 305 EISY 305 EEDY 305 UCHE 305 ERIM 305 ESDI 305 ELOS 305 ESSC 305
+DWAY 305 ISRI 305 RTIC 305 LEMS 305 ORLI 305 OUGI 305 EEPA 305 ILTH 305 ICLE 305
+SIRI 305 EIMA 305 NEIS 305 LYIS 305 EVID 304 NTOU 304 UCHW 304 TMAT 304 LYME 304
+ELAX 304 RSWH 304 SEON 304 AMEO 304 NCHI 304 HGOT 304 SHTH 304 ONFR 304 ANYH 304
+OITO 303 GOTL 303 ORWI 303 RASH 303 RINE 303 RUCK 303 VOIC 303 RTEL 303 TROY 303
+DSON 303 CORN 303 TOOS 303 OMON 303 NICK 303 ITAK 303 MEBA 302 SELI 302 OFWI 302
+SSDO 302 KESI 302 ATEH 302 GLET 302 EISM 302 SPEE 302 SHEP 302 AIND 302 NEDW 302
+ANET 302 ADDO 302 SOCI 302 LANY 302 RUSH 302 EYHA 302 TWAT 302 DOHA 302 DCHA 302
+NERV 302 THSO 301 YCON 301 MGET 301 OHTO 301 ITIF 301 ORGA 301 RSDO 301 NCAL 301
+HASS 301 YCAR 301 OITI 301 HSHE 301 ONRI 301 EFAC 301 FLOW 301 ISBA 301 TSEN 300
+NTIA 300 ONBA 300 TIDE 300 YITS 300 TBIG 300 SMOK 300 NKHE 300 TGRA 300 SGRE 300
+LECO 300 GINA 300 DNEE 300 FUTU 300 LLJU 300 GIST 300 EIIN 300 RATU 300 ADIS 300
+UNDO 300 RRYH 300 SCAP 300 NLEA 300 KAYH 300 DEEP 300 OWDI 300 TRAD 300 TAYI 300
+ANHO 300 AIDW 300 ERYM 299 AKEF 299 EBAD 299 USAY 299 RVIC 299 GERO 299 OHIT 299
+LDOF 299 KAYM 299 DISH 299 CKDO 299 EYOF 299 EAIT 299 SHEE 299 ACCI 299 VEAR 299
+ISCU 299 EIME 299 NGSC 298 DOWE 298 LYOF 298 IVEC 298 NSHA 298 IESI 298 OTOI 298
+UMME 298 TARD 298 BUTN 298 NMAY 298 EDES 298 IHEA 298 INEH 298 UREO 298 WEON 298
+AHTO 298 TINU 298 USHA 298 LWEL 298 GRAP 298 EYSO 298 EADM 298 EWEE 298 WEAP 298
+VEHO 298 IFEI 298 EBAB 298 THST 297 ANKW 297 GENC 297 NOWK 297 OREB 297 IWIL 297
+YTOA 297 OCON 297 REOH 297 UWIL 297 INEN 297 MYHA 297 WNTO 297 STIF 297 GCOU 297
+ERSP 297 EINF 297 LLYG 297 NGSY 297 ALET 297 BLED 297 TIDO 297 NOFI 297 YITI 297
+IGOI 297 ANGR 297 NDAM 296 VERP 296 RYGO 296 ACEA 296 RYWE 296 IAGE 296 UNTH 296
+MYME 296 NGES 296 ESBU 296 CAMP 296 BERA 296 ASLI 296 GETP 296 ACHA 296 ONGU 296
+ISGU 296 IONF 296 UGON 296 OBEE 296 UNDW 296 KEDS 296 TSEC 296 ASFO 296 AABO 296
+OFRI 296 UTCH 296 HEUN 296 OFTE 296 SFEE 296 UGGE 296 TAFT 295 ATIA 295 HESS 295
+SONH 295 ICHI 295 DOFT 295 TAHE 295 OVEY 295 NDFA 295 LLYL 295 DUDE 295 RMIS 295
+FGET 295 WITC 295 METR 295 YESO 295 VENW 295 ROSE 295 NTCA 295 NAST 295 WKNO 294
+SASS 294 SANO 294 CKLE 294 ENTG 294 OWHY 294 SSCA 294 GERM 294 GOIT 294 SREM 294
+MEPL 294 YTOS 294 NEMY 294 NRES 294 MEVE 294 NKSA 294 NSEN 294 DVER 294 PSTA 294
+OSTE 294 NDPR 294 ENOS 294 GRES 294 ACKL 294 CKWA 293 SOFA 293 EINY 293 BEBE 293
+OPTH 293 RTOI 293 EFIG 293 PRAC 293 NDSY 293 HTSH 293 NEMA 293 MANB 293 OUUN 293
+SWON 293 AHIS 293 URSA 292 ADEA 292 NGBO 292 DSOR 292 TOTR 292 UCHS 292 UGHW 292
+ACRO 292 NEON 292 TMOM 292 ANSE 292 ISPR 292 NDMI 292 EARR 292 IKER 292 KSTO 292
+LETB 292 HESC 292 EINH 292 DAYH 292 LDSO 292 CTTH 292 NGII 292 HEAG 292 IDST 292
+EIND 292 HOOD 292 FETH 292 ELAN 292 ANHI 292 ORFO 291 TAPE 291 NPLE 291 ONIF 291
+EALA 291 INHI 291 SHOE 291 ASWI 291 CONN 291 OTSA 291 TEDB 291 ENOB 291 AYSM 291
+RTON 291 ECEN 291 ATRO 291 ISPA 291 HESP 291 LLFI 291 CIRC 291 EPIC 291 IEDI 291
+UREC 291 BUTR 291 OOKB 291 EYCO 291 EOFH 291 KECA 291 OCAR 291 RAPH 291 DLES 291
+UDDY 291 RISI 291 DOWA 291 UNDY 291 AYER 291 IPLE 291 UWOU 290 TENC 290 LDCO 290
+NAIT 290 KEDW 290 DRUG 290 ALIF 290 MSHE 290 UTOH 290 NELI 290 ITFI 290 TFUC 290
+MPLA 290 EIOF 290 EDIE 290 AITO 290 UMEN 290 SPEO 290 NSIB 290 OSEY 290 DSHA 290
+SSPE 290 NGIV 290 ESEI 290 ATFA 290 RIVI 290 EVET 290 TITB 290 OUOK 290 URON 289
+HASA 289 ROMM 289 HRIG 289 ISHT 289 NKSO 289 USEB 289 NTIF 289 IDEI 289 GANY 289
+HEPO 289 TOTI 289 EELT 289 HIMF 289 OOFT 289 AILS 289 UMIN 289 EAKS 288 LTIM 288
+AGOO 288 NTUR 288 YITA 288 NGFA 288 NKSI 288 PREP 288 UTMO 288 GOHE 288 USTU 288
+URSI 288 EONC 288 HTCA 288 LEGA 288 ISUP 288 AVID 288 ENGI 288 STSI 288 ROCE 288
+ITHU 288 ANTN 288 OIYO 288 RABL 288 MOMM 288 OODG 288 EFUN 288 NKWH 288 DOFI 287
+NGAM 287 WEAL 287 RREC 287 SWAI 287 RYWA 287 TBRI 287 IDDL 287 ERFR 287 AEVE 287
+ORTT 287 ARTW 287 EIRI 287 OWNB 287 ILIN 287 NESH 287 NGPL 287 ELEC 287 LDNI 287
+EMEY 287 SISA 287 ATII 287 TINW 287 BLIC 287 ITSU 287 EDBA 287 NDSM 287 ASEY 287
+USER 287 OFOU 287 ESTL 287 URCA 287 THME 287 LIAR 287 DNEV 286 SPIC 286 WWAS 286
+ALRI 286 ETEC 286 AHAN 286 RWER 286 TSBE 286 IWOU 286 NLIT 286 ULDP 286 RHEY 286
+TBAL 286 NTSS 286 WEMA 286 TISW 286 SIIT 286 SEWI 286 ENTF 286 OTOA 286 IMIS 286
+YCHA 286 EHES 286 ICAR 286 OWMY 285 LTER 285 ITEM 285 EPEN 285 ECTT 285 KEON 285
+ETMY 285 CCID 285 TNES 285 ERPA 285 DMET 285 IALI 285 NKAN 285 LFTH 285 OUTK 285
+NERI 285 MANL 285 KWIT 285 IGHB 285 TRUN 285 APON 285 ESSL 285 HIMP 285 RFIN 285
+RTOW 285 NITW 285 FRES 285 IONN 285 GSEE 284 INCR 284 RIYO 284 URTA 284 DMAY 284
+OIST 284 OUAW 284 EIFO 284 OINS 284 EANH 284 IDOW 284 IATH 284 MANG 284 UTKN 284
+RGER 283 LETD 283 NOHA 283 UPLA 283 ERAI 283 UITO 283 NTMA 283 SESI 283 EONW 283
+IETH 283 EDTA 283 ORIE 283 ODYW 283 AMEL 283 TOTE 283 EENB 283 ETAB 283 NPRE 283
+ICTH 283 DIAT 283 UPRO 283 UTDI 283 MYRE 283 GOTR 282 NDFI 282 SINI 282 MYOF 282
+SWIN 282 INKG 282 EXCI 282 OTOU 282 AINC 282 ELPS 282 IESA 282 RTIS 282 REFA 282
+CULA 282 HOWF 282 WHYO 282 SBEL 282 SQUA 282 OROU 282 UYST 282 PLEW 282 DAYY 282
+LETC 282 RDOW 282 OWEV 282 UTBU 282 REDH 282 ESSB 282 OMMO 282 UWHY 282 IFEW 282
+NTAR 282 ANKE 282 ESYE 282 LLSU 281 OORS 281 TTAT 281 HEIY 281 LLOH 281 VEGE 281
+TLEY 281 TOPO 281 TNIC 281 DOBE 281 ELFA 281 DATI 281 HADY 281 XCIT 281 ANES 281
+TOCH 281 HETT 281 NLOV 281 NDSU 281 IHEL 281 IMEB 281 JOKE 281 HITO 281 STIG 281
+MSOM 281 RNOO 281 TEXC 281 TLIV 281 YIST 281 RBET 281 FILL 281 ITTR 281 EGUE 280
+ISET 280 ADER 280 INWO 280 APPL 280 HENN 280 OITA 280 MENA 280 ICON 280 PAUL 280
+ONAM 280 TFOU 280 ESOL 280 OWWO 280 NLYA 280 EMYA 280 MOUS 280 SOHE 280 OTOG 279
+SISS 279 NEYE 279 OFLO 279 STLO 279 SUMM 279 LEOF 279 ATUS 279 ERSB 279 UTRI 279
+HIMN 279 EDOM 279 CEGO 279 OLEN 279 TICS 279 OCKI 279 ITFR 279 OUMU 279 LEWI 279
+OUOR 279 HEAP 279 FWIT 279 FUSE 279 ERSD 278 MAYO 278 ONMI 278 GLIS 278 YHAD 278
+XTRA 278 NLYS 278 HWAN 278 OISO 278 IKEP 278 RSEA 278 AYFO 278 BATT 278 ORMY 278
+ULTH 278 EARH 278 SYCH 278 OWND 278 RYES 278 EDEV 278 UTFI 278 ACEY 278 ODHE 278
+NOGO 278 ETBA 278 OSSE 278 CREE 278 HIDE 278 LLAG 278 IDIS 278 ISTU 278 LDME 278
+RMON 278 NDFR 277 EASA 277 EOPE 277 NDSC 277 ROFF 277 AWYE 277 NECA 277 NCEO 277
+ONGY 277 ERSL 277 HEAC 277 OLIN 277 EFER 277 WOTH 277 IDHE 277 DSIN 277 ROKA 277
+PIRI 277 MATH 277 EANG 277 EBLO 277 NPAR 277 AITW 277 MPUT 277 LGOO 276 ITLL 276
+OUIH 276 UPIT 276 BEWE 276 GHBO 276 DAME 276 UALI 276 GSTA 276 ENHO 276 SSIR 276
+EITF 276 TRYT 276 EUPT 276 EOWN 276 HENF 276 OMAT 276 HWHE 276 ATPL 276 TODE 276
+NOWU 276 TCOL 276 GRAM 276 MBUT 276 RDAN 276 VEDA 276 ESPI 276 ULLI 276 OUAG 276
+DPRE 276 IFRO 275 NNEV 275 OUDR 275 DOME 275 ROWT 275 ENDW 275 FAUL 275 SONM 275
+RSTR 275 CESO 275 MEMI 275 TWOW 275 TSRE 275 AHIT 275 UFRO 275 OMAK 275 NNAD 275
+AMOU 275 RYBE 275 VOLV 275 OWKN 274 MUNI 274 SMEN 274 NTOR 274 MEAB 274 AWEL 274
+NTSW 274 VESS 274 UTOM 274 SSCO 274 OOKC 274 ANLO 274 NEYI 274 TCHO 274 PARI 274
+ADIO 274 HLIK 274 GRAD 274 SMYT 274 KALL 273 OTAR 273 EHEW 273 DIRT 273 EIHA 273
+DITY 273 SISO 273 REIA 273 ETLO 273 TILI 273 OTOH 273 HEAW 273 IPER 273 RBEE 273
+HADM 273 NGSP 273 TLEH 273 THOF 273 RIAG 273 MMED 273 AYWI 273 USEF 273 ANIC 273
+IDWH 273 IFEA 273 ROBE 273 OWBU 273 ORMO 273 LHOW 273 MEND 273 SPOR 273 OURK 273
+TLIS 273 EIIS 273 MYCO 272 MPLI 272 RSAT 272 ORSI 272 NWHI 272 FIEL 272 DTHR 272
+ENOH 272 NNAB 272 TOUP 272 NDOE 272 ILIA 272 NBEA 272 CHWH 272 NGIA 272 WINT 272
+ISIF 272 ITIA 272 CTHE 272 ITPR 272 IBET 272 ENAR 272 CEWE 272 IRLF 272 MONI 272
+OOKL 272 HETW 272 RVER 272 MMUN 271 EYME 271 BIGT 271 MSTH 271 UREB 271 EVES 271
+ANWO 271 FILE 271 VESE 271 RRYO 271 HORE 271 ABET 271 ENNE 271 ASEB 271 SPAC 271
+RESW 271 BLEY 271 OVEH 271 OITS 271 YMET 271 DIOT 271 EAMT 271 TEAS 271 SAGA 270
+INMY 270 OWMO 270 PSYC 270 PROC 270 NEYS 270 INLO 270 ADOW 270 TDRI 270 EICO 270
+HAMP 270 OTBA 270 DOUR 270 OTOM 270 OUNI 270 GWOR 270 EALE 270 LLPR 270 TEXP 270
+CHHE 270 ARLE 270 NVIT 270 ACTS 270 HEGR 269 BUST 269 REVI 269 YTAL 269 ERLL 269
+LDCA 269 VEMY 269 ANEV 269 INSP 269 LWHO 269 URMA 269 RROR 269 TSCH 269 OUIY 269
+ASAL 269 PROU 269 RTTO 269 RYRE 269 LAWY 269 ERAG 269 ETAT 269 OOKD 269 OWDE 269
+NKSH 269 DLOV 269 HYEA 269 ARMS 269 OOTI 269 DSUR 269 EDAS 269 WYER 269 AGOI 269
+YSHA 269 TFAT 269 ARDY 268 SINA 268 SRET 268 RUPT 268 DLIT 268 ECIS 268 EOFO 268
+GHTK 268 DUCT 268 OESI 268 WESH 268 NDDA 268 STMY 268 KCAN 268 ACED 268 GRAB 268
+TTOU 268 TICO 268 MEFI 268 TORM 268 ITOI 268 OFHO 268 REBR 268 UDDE 268 YSWE 268
+LWOR 267 UHEY 267 SILE 267 LYCA 267 ECTA 267 ICHE 267 AINF 267 HEOK 267 GHOW 267
+IRLI 267 SMUS 267 INVO 267 TEEN 267 DBEC 267 SPOT 267 TRAV 267 EANM 267 OWAY 267
+STAS 267 BYYO 267 GIFT 267 ESSD 267 TIGO 267 SBEF 267 ESNI 267 YMIN 267 AYSY 267
+GWHO 267 ERLA 267 PUTE 267 ECAS 267 TCAS 267 NDLL 267 DIDD 267 EAHL 266 ERTR 266
+CEBE 266 OLLI 266 EAPP 266 IMEL 266 ESSF 266 ONGH 266 LETR 266 NOBE 266 NOFO 266
+TSAM 266 HANI 266 OUFE 266 NDTI 266 ANLE 266 UTLE 266 EPTI 266 SSGO 266 NESA 266
+DWET 266 DGIV 266 EDJU 266 NCIN 266 EALR 266 OSTR 266 FORK 266 SOWH 266 MYIS 266
+HITW 266 FIED 266 NGKI 266 MECH 266 NNEC 266 LLLL 265 ERYD 265 EEAR 265 ANKY 265
+ESMI 265 POST 265 TLEO 265 NTWI 265 GHIS 265 ANMY 265 AMAZ 265 ANGU 265 CARS 265
+HESM 265 TTIT 265 NDOH 265 EAHG 265 RCON 265 TWOI 265 WITN 265 MYEA 265 DANN 265
+AVEE 265 TDAD 265 IFIT 265 DOFO 265 ISNI 265 ADRE 265 NONL 265 GERT 265 IRTY 265
+OUGR 264 SSBE 264 DISO 264 EDOS 264 ERNI 264 ISEV 264 ONFU 264 HADH 264 RWAY 264
+OTOR 264 ITDE 264 NALO 264 SEEC 264 UFFE 264 POLO 264 GLOO 264 NTOC 264 ACEW 264
+NDEV 264 OONL 264 WCAN 264 REKI 264 BUTP 264 RUSS 264 NGIM 264 WAYD 264 MAGE 264
+EION 264 CAUG 264 THCO 264 ARNI 264 NAGO 263 SEYE 263 ISPL 263 EINM 263 BRID 263
+RTOA 263 LEDS 263 EYST 263 NGUY 263 TIWA 263 TMEM 263 SBEI 263 ITOW 263 IPRO 263
+ECEI 263 EATB 263 TALE 263 ELIC 263 IBAC 263 BOMB 263 OHNN 263 CERN 263 SEEB 263
+GUNS 263 RYSO 263 UDEN 263 ESEV 263 SCHI 262 ROUD 262 FILM 262 TONC 262 TCLO 262
+OFSA 262 NALS 262 LLDA 262 IANS 262 TOEV 262 ACOU 262 HOWR 262 IGNA 262 BOYF 262
+EADD 262 NDCH 262 ELYI 262 DSAN 262 BESO 262 IREM 262 ITEV 262 MJUS 262 RMAK 262
+CEWA 262 NVES 262 REND 262 LLFR 262 EMEL 262 APPI 262 LLTR 262 SOLI 261 ANKL 261
+ISLL 261 IDEW 261 NTFO 261 TITG 261 OOLS 261 YBEL 261 UPAN 261 IVEG 261 DTOL 261
+TWOA 261 YTOM 261 UTYE 261 VEDT 261 CUSS 261 MPOS 261 ILLP 261 SONC 261 OTLO 261
+INDD 261 ONCH 261 NOME 261 EIFI 261 UBAC 261 EENC 261 TUAT 261 MYSO 260 LMAN 260
+ONGM 260 CORR 260 ESOO 260 LSTA 260 ERUS 260 SOFO 260 DITW 260 ESNE 260 OPAR 260
+ECLA 260 VEBU 260 TCAM 260 HOOK 260 SEFO 260 ITIV 260 ISFR 260 EWYO 260 KOUT 260
+GGOO 260 EYIS 260 HINT 260 YOFT 260 INDL 260 URTI 260 OWAI 260 FJUS 260 NOFA 260
+OOPE 260 ENMY 260 AYAL 260 SITD 260 SCUS 260 WAYB 260 OCHA 260 EBIT 260 KELL 260
+EATR 260 YMAY 260 NGUN 260 BEIS 260 CHNO 260 ONVI 260 TEDL 260 TTOP 259 SURV 259
+TLIN 259 GINT 259 NTOB 259 OOLT 259 LYON 259 IMHE 259 RIFF 259 NADO 259 DAYM 259
+OKST 259 TAME 259 CEHA 259 IGNE 259 SSOU 259 LLTI 259 OTSE 259 SPUT 259 ETKN 259
+IESS 259 DINS 259 YLIT 259 EDOA 259 EALM 259 YNEE 259 IWHY 259 TICI 259 MEIF 259
+KCOM 258 ESPR 258 MESU 258 ANBU 258 ALKA 258 TDOO 258 KEPT 258 RYHA 258 BEOF 258
+WCOM 258 SOAN 258 EWEY 258 EITN 258 REAI 258 MPRO 258 IBLY 258 EMEH 258 DDRE 258
+ADYI 258 ACHT 258 BEME 258 UBET 258 NEDY 258 RNER 257 SAYH 257 TOSU 257 RSNO 257
+RYST 257 HIPS 257 OWGE 257 SORE 257 ISEN 257 LLIG 257 TLOT 257 CESH 257 PLEY 257
+YSTI 257 LEDG 257 OWNC 257 RICE 257 LYST 257 NOIN 257 ESES 257 EACE 257 FFYO 257
+EEAT 257 IONR 257 INDB 257 LVED 257 OUEX 257 RLEA 256 OMMU 256 UDOW 256 ACKC 256
+EEYE 256 BLEH 256 ENOA 256 NOPE 256 ROOF 256 UPAR 256 CRAP 256 GATH 256 SSOF 256
+INBU 256 INDR 256 SIGH 256 VEWO 256 DENO 256 CKWE 256 DEVI 256 REIW 256 OTCH 256
+SLAT 256 MASS 256 SSWA 256 EMPL 256 EADH 256 SNIG 256 NDTR 256 RISK 256 ESEL 256
+SCIE 256 DEAN 256 RIPT 256 NAWH 256 ODEA 256 OSEM 256 HDID 256 NGEA 256 ERTY 256
+BIRD 256 WGET 256 WASK 256 ILLR 256 SMUC 256 ULIT 256 SHIR 256 AONE 256 NEYA 256
+WEDI 256 LYWO 255 WHOD 255 ALCO 255 UTGE 255 RYIS 255 OGRE 255 MEDE 255 EDIB 255
+OWYE 255 OCAT 255 RCAR 255 NGIR 255 GOTF 255 NGOD 255 RUNT 255 GODS 255 SETA 255
+TORO 255 ECTL 255 THMA 255 NTRU 255 CCES 255 NVOL 255 RTOM 254 WAYC 254 ANMO 254
+REEI 254 ERBO 254 OREF 254 UART 254 ONPR 254 FCOM 254 OMAR 254 SHOM 254 ERDE 254
+DEDI 254 ITPA 254 EHUR 254 HEEX 254 EMBA 254 DPAR 254 KGET 254 ESNA 254 RONI 254
+HIMR 254 IHIS 254 VENY 254 OKTO 254 IMOR 254 REPU 254 LOAD 254 EDTI 254 OUAC 254
+LITE 254 EBOT 254 RSWA 253 UTOW 253 WWIT 253 OTRI 253 NAIN 253 ASKN 253 ODWH 253
+ESNT 253 LSON 253 MOND 253 PWHA 253 ROFI 253 PHOT 253 SSER 253 ICTO 253 AROL 253
+OSEH 253 HEID 253 TMOT 253 EGRO 253 SILL 253 OWRI 253 TMEW 253 PUTA 253 ITYA 253
+TMYO 253 HASE 253 VENH 252 SQUI 252 IKEE 252 SAIN 252 TPRI 252 DSAI 252 LHEA 252
+IMEG 252 INMO 252 DOOF 252 TLAT 252 URAT 252 AHOW 252 TEDG 252 UCHY 252 NWEA 252
+AWHO 252 LYSH 252 CLAI 252 MYON 252 ROGR 252 TQUI 252 KITT 252 ITUP 252 SATT 252
+OFMY 252 HIRE 252 FEND 252 ISDA 252 ROUP 252 YSOR 251 LLTE 251 NAPP 251 OFHI 251
+ULOU 251 NCEB 251 MERC 251 SBES 251 VELE 251 FIRM 251 OWNG 251 CKEN 251 YESC 251
+LTOO 251 GOTN 251 TEDC 251 OMAY 251 UTOI 251 ICIT 251 LKTH 251 PROG 251 VEMO 251
+ONSM 251 SHAM 251 COMF 251 HEFE 251 QUEE 251 RSGO 251 IWER 251 AANY 251 GODA 251
+YESD 251 COPS 251 IMAR 251 ENTN 251 YDOI 251 MRTH 251 AYSE 251 STBU 251 PRAY 251
+IRIN 251 SWEI 251 EIMP 251 OUPI 251 EWEM 251 ETAS 251 TIBE 251 TUCK 251 NNAC 251
+NERT 251 EMYW 251 ATKI 251 YSAN 251 HNOW 251 OWEA 250 REEM 250 MESM 250 DEDT 250
+DTOY 250 ECLE 250 POKE 250 CKGO 250 WEWI 250 RYME 250 UNAT 250 UHTH 250 CKBE 250
+OONS 250 CALI 250 UTEA 250 IDNM 250 ICEO 250 IOFF 250 GERI 250 HTEN 249 ESGE 249
+LLPA 249 USEG 249 RNEY 249 OSUR 249 ORMI 249 KJUS 249 OBBY 249 SAKE 249 TWOS 249
+IDNH 249 IHEY 249 SMES 249 OTMY 249 LETL 249 NALT 249 ARMI 249 PHIL 249 MEPR 249
+UOFF 249 ACKN 249 IIYO 249 ATPE 249 ONSP 249 ITYI 249 OOVE 249 IDIO 249 NSAI 248
+THCA 248 IDNY 248 HEBI 248 NESI 248 LDIE 248 YINS 248 TOFY 248 WSHE 248 NWET 248
+NHAS 248 ADWA 248 MADA 248 SOUL 248 DEPA 248 ETDI 248 GHTU 248 RPOR 248 MSTA 248
+KEMA 248 NLYW 248 AUNT 248 UNGR 248 INAS 248 ICKY 248 WARN 248 ICEL 248 EAWH 247
+OORT 247 LOWT 247 ATOO 247 HANS 247 RYOF 247 RUCT 247 CKHA 247 DIDB 247 FBUT 247
+NDUP 247 HTOT 247 ONIA 247 NTLI 247 TTED 247 EESE 247 OPRE 247 EIFT 247 TURA 247
+EAAN 247 CHDO 247 SIRA 247 YCAL 247 OBVI 247 TAIT 247 IOKA 247 NDIC 247 ATOK 247
+IFIE 247 PLEM 247 HUNT 247 DGUY 247 YLEA 247 EBED 247 ULTI 247 UGHH 247 EEWH 247
+RGAN 247 HASW 247 AGIC 247 SULT 247 NCLU 247 EBOO 247 EASH 246 LETG 246 LYMA 246
+GTOO 246 GAGE 246 DHAP 246 ARDH 246 UIST 246 ARON 246 ETBU 246 MYCA 246 EERI 246
+CESA 246 ITDA 246 CROW 246 RRIV 246 OLIS 246 ANYY 246 SAYY 246 IDRE 246 UYES 246
+SOBE 246 RLIT 246 ISSW 246 SEEL 246 TIWE 246 LDNA 246 ASEH 246 EPAI 246 PAID 246
+EAGE 246 SEDY 245 ISSY 245 NGRO 245 BVIO 245 OOMS 245 MMEN 245 PILL 245 LLEV 245
+LECA 245 OLOR 245 EDAB 245 NGPE 245 RSCA 245 INFI 245 MGOT 245 EETA 245 ESOH 245
+RDST 245 KELI 245 TREL 245 YBEW 245 SISH 245 OPPI 245 LDST 245 AILE 244 TOOL 244
+RAFT 244 RIBE 244 CKON 244 CANE 244 UTAS 244 PARD 244 ELFS 244 PSET 244 EPAS 244
+ESJU 244 ALAR 244 VENG 244 OHAD 244 TBRE 244 EANN 244 RTOS 244 NIVE 244 EEPY 244
+TDOC 244 VEKN 244 UPHE 244 MWAN 244 HABO 244 ATOW 244 ADAR 244 EISE 244 SSTU 243
+INKF 243 UIYO 243 IYES 243 INGV 243 ANTP 243 OUBI 243 DYTO 243 RALI 243 DAMA 243
+FGOT 243 OTES 243 PRIC 243 DDOE 243 IBIL 243 DSWE 243 BROW 243 ALLK 243 WARM 243
+IANO 243 EATL 242 OUID 242 AMEB 242 USWH 242 RTAB 242 GHEA 242 ENLO 242 NMON 242
+ETMO 242 ETYE 242 ETOK 242 ONSY 242 TSWI 242 OPPO 242 ATBR 242 EUPS 242 ROWS 242
+YGIV 242 HEIH 242 MESC 242 FOLK 242 BERY 242 CKSH 242 EHOP 242 RTHR 242 HTFO 242
+LLCH 242 OMHE 242 SFRI 242 ATEF 242 RRIA 242 TOII 242 HOLL 242 YELL 242 AWOR 242
+HAME 242 TSAL 242 ANAS 242 OMPU 242 ONLL 242 SGIR 242 EYCA 242 FFEC 242 TALS 242
+YSUR 242 GITT 242 DIDC 242 YTON 242 TREP 242 HISJ 242 SUDD 242 BING 242 DTON 242
+LDMA 241 REIM 241 DOFA 241 NKGO 241 TSOT 241 EACC 241 HESY 241 TSLI 241 ALOO 241
+UTOR 241 NKDO 241 OOKG 241 ESSP 241 DDEA 241 MAZI 241 LANS 241 ADGO 241 STMO 241
+YGUY 241 INYE 241 HTLI 241 MRIG 241 LLEA 241 ORWO 240 HOLI 240 FICI 240 IRLT 240
+SKID 240 CEMA 240 BAST 240 TTRI 240 SMYS 240 EWEH 240 TECH 240 TLYT 240 ALDO 240
+RIDA 240 TBAD 240 LEMO 240 INOU 240 GICA 240 ICKA 240 EECH 240 TUNI 240 JIMM 240
+HTWO 240 ESKI 240 LLDE 240 OTOL 240 PROD 240 TOFH 240 BEON 240 ESRI 240 HANA 240
+TEAT 240 EIRT 239 OHAS 239 ENHI 239 GTON 239 URWI 239 AMEC 239 LLBO 239 RCHE 239
+NDDE 239 ENWO 239 OESA 239 REUS 239 OFDI 239 VEAT 239 KSOM 239 SODO 239 SELO 239
+ETTL 239 NVEN 239 GHIN 239 FSHE 239 NDIA 239 EICA 239 SEDM 239 RSOR 239 WHOB 239
+LGOI 239 EENL 239 INTT 239 YDAY 238 SAYM 238 OWTA 238 SNEW 238 CAPE 238 WHYB 238
+REGA 238 UREG 238 RETS 238 UNDH 238 WONI 238 GHEL 238 WFUL 238 MIDD 238 ITEI 238
+HMAN 238 SEDH 238 TSSO 238 STDI 238 LERI 238 DROO 238 DTOH 238 CUST 238 UTAB 238
+EFOO 238 RSAL 238 WNST 238 WAYN 238 ITPL 238 SEHO 238 OLDB 238 MLIK 238 EEAS 238
+MENS 238 NDEN 238 CYOU 238 OUFU 238 HNNY 238 ERUP 238 AYHO 238 ONOH 238 FSOM 238
+FANT 238 TYPE 238 THSH 238 IITO 238 ODDO 238 HEER 238 URLI 238 RETW 238 KEYS 237
+MATC 237 ORDT 237 DSTI 237 ACEM 237 STGE 237 DMIT 237 ESSG 237 IMEC 237 ELEF 237
+RRYB 237 SONN 237 DOCO 237 STYE 237 TSLE 237 ANOU 237 EARB 237 OTSI 237 FREN 237
+ANKH 237 OWET 237 WEFO 237 ESIM 237 BEER 237 RPRE 237 ASTM 237 OODF 237 TRAP 236
+VEYE 236 GATE 236 CARO 236 NAAN 236 TBUS 236 YBEH 236 MBLE 236 ADWE 236 RLFR 236
+GOAN 236 ISFA 236 ORYT 236 SSIG 236 EVED 236 AING 236 AIDO 236 TESI 236 YDOE 236
+EEDH 236 YSIN 236 CEIN 236 PUTS 236 CCEP 236 YITW 236 WHOR 236 IDGO 236 DONK 236
+GONO 236 REIG 236 NISI 236 RHAD 236 LANN 236 UOKA 236 GMAN 235 OFSE 235 NOSO 235
+GEME 235 HEMB 235 IPLA 235 OLDD 235 TMYI 235 DOCA 235 CEIS 235 ISDE 235 EIVE 235
+FEVE 235 OOMT 235 ICHT 235 IESW 235 TWEW 235 SBRO 235 KSHO 235 ATIW 235 NDAD 235
+ASOU 235 LLOR 235 ESSN 235 ODYY 235 USNO 235 NNIE 235 CASH 235 NEFO 235 EANE 235
+SITC 235 ITSW 235 TCRA 235 SEEG 234 NMAR 234 CISI 234 UPWH 234 INEO 234 RSCO 234
+ANKM 234 GHYO 234 RRYD 234 OOKN 234 SQUE 234 ASMY 234 HOWP 234 FULI 234 ETTA 234
+RIDG 234 EEPW 234 PANT 234 NNAG 234 NNAL 234 TOPH 234 LLII 234 URDA 234 TELS 234
+ALES 234 NAKE 234 HWEL 234 DISG 234 EGAL 234 ESBA 233 TOBO 233 LSET 233 FITH 233
+UGHY 233 CEIV 233 REDM 233 RAYO 233 DPLE 233 ALEN 233 DTOD 233 RIOR 233 WSTH 233
+RBEC 233 TBAB 233 CRAC 233 HIRT 233 TRIA 233 EAHF 233 STOB 233 TOKI 233 GINN 233
+TESO 233 ALWH 233 ITII 233 ORCH 233 EBLA 233 HORI 233 TOLA 233 RGEA 233 LENC 233
+TOOR 233 TIND 232 FAIL 232 RISH 232 ARHE 232 HHIM 232 OREP 232 ORLO 232 NSET 232
+NISA 232 UBEE 232 OCKT 232 EMHE 232 ASEC 232 EFAM 232 PLEH 232 TARI 232 DSWH 232
+LORI 232 TIHA 232 ADBE 232 ATSW 232 ERKI 232 TISM 232 LEMY 232 EDOL 232 ERAC 231
+YTHR 231 AIDH 231 IMAK 231 ODYM 231 SIHE 231 HBOR 231 LLYN 231 TTAN 231 AWFU 231
+LYLI 231 TLEG 231 REAW 231 NMIS 231 DOIS 231 MESY 231 OSOR 231 EMST 231 EITE 231
+TEHE 231 YSON 231 OATT 231 WILD 231 RSTS 231 ENDL 231 DNES 231 MOON 231 NGOK 231
+YNEV 230 STKN 230 DISE 230 EOHT 230 SCOT 230 ECTR 230 TITR 230 ESUC 230 ROME 230
+DADT 230 DSTR 230 ITOA 230 TREN 230 OFWO 230 KBUT 230 HECL 230 INCL 230 ENKN 230
+LGON 230 ISSS 230 ISER 230 OTDI 230 PPOI 230 TISF 230 UCON 230 UWER 230 EELE 230
+SEPA 230 NDRO 230 HSEE 229 ORER 229 SIWH 229 SNYO 229 RITW 229 LLUP 229 ISNA 229
+UCHO 229 WHYC 229 TADO 229 ATEG 229 USWE 229 IITI 229 URFO 229 THUN 229 EMWH 229
+LEBR 229 DOSO 229 SOGO 229 SWAT 229 LERS 229 WAYG 229 CECO 229 ODIN 229 YPRE 229
+NGIW 229 LVER 229 LLSW 229 RSBE 229 TMEE 229 DICT 229 WHYD 229 ENMO 229 OYFR 229
+EYMA 229 SMEI 229 JAIL 229 RSTW 229 IATI 229 ALTE 229 TLAN 229 DISP 229 ATAM 229
+SNIC 229 EMIC 229 ATEO 229 TOFM 229 UNCE 229 SLON 229 TAPP 229 EMEO 229 CKMA 229
+SITB 229 ETIE 229 GUIL 228 ERFA 228 EMOS 228 GARD 228 ENDM 228 NNEL 228 DMON 228
+IMWH 228 HCOU 228 TONW 228 NECK 228 ADVI 228 ENEM 228 UFIN 228 IALS 228 ORIA 228
+ELPA 228 SIRS 228 OMPE 228 ITBO 228 MABO 228 IRCU 228 OKIT 228 EEAN 228 YCHI 228
+YLOV 228 UREN 228 YRES 228 ERAM 228 IDWE 228 EPEA 228 TEYE 228 ROMB 228 TFRE 228
+ORAB 228 NKWE 228 TULA 228 SKEE 228 FWAN 228 TWRO 228 YESB 227 SASK 227 UGHO 227
+ROFT 227 IEDA 227 EDFI 227 ADNO 227 KEVE 227 OWNL 227 CAST 227 HERK 227 ISTW 227
+CTIM 227 YTOY 227 ALHE 227 EILI 227 SOHA 227 TISY 227 NANC 227 HOTT 227 PREA 227
+EAHN 227 AURA 227 LHEL 227 SGRA 227 EMAL 226 ISAM 226 OUEN 226 OITW 226 EYSH 226
+OTHR 226 SLIF 226 OUSD 226 HEDT 226 SBOY 226 KEFO 226 LEDW 226 UTBA 226 OUAF 226
+NORI 226 RSOF 226 AMPI 226 TINH 226 ONUP 226 ARDM 226 HEDU 226 KEWI 226 HEMC 226
+LOUD 226 HEHU 226 EIFA 226 ICIN 226 EAKF 226 EONY 226 URTS 226 SOWE 226 OVEO 226
+NCEC 226 VETA 226 DIDG 226 LLOV 226 ATAI 226 EOFB 226 RAPP 225 EEHE 225 AIDM 225
+ATAW 225 EYFO 225 ESIF 225 AMAT 225 EHUH 225 LAYS 225 ITFA 225 ENDY 225 GMEA 225
+GTAK 225 TWAL 225 AVEK 225 WJUS 225 NOOF 225 AIRT 225 DESP 225 HEIO 225 ASAR 225
+UCHH 225 OTTL 225 TMED 225 SSRE 225 SWAL 225 SIDO 225 WHOC 225 OUCR 225 MODE 225
+IEDS 225 LFIN 225 KEND 225 RDOI 225 TORN 225 IVEF 225 TFAC 225 OINI 224 OFKN 224
+KERI 224 RTIT 224 RREN 224 ITOS 224 EATD 224 WAYL 224 YHAP 224 DHAS 224 DMIS 224
+EENE 224 OFGE 224 RSME 224 SHON 224 TEWH 224 LDSH 224 EADL 224 OFFW 224 SMOV 224
+EDMI 224 ESEX 224 OISE 224 CEOF 224 TLLT 224 KGOT 224 NGBR 224 NGSL 224 EEST 224
+WINE 224 DBEA 224 HTWI 224 MEFR 224 IFAN 224 NDTE 224 NECT 224 NDSP 224 WISE 224
+ASLO 224 AYSC 224 LMEA 224 IBEE 224 AIDY 224 OWBO 224 ESEM 224 HROO 224 ATUL 224
+KEDH 224 RWEA 224 SISN 224 ITYS 224 EEDM 224 BUTE 223 ASEN 223 ETGE 223 EJOB 223
+UTRA 223 SSUP 223 OCOL 223 RTWO 223 NGAI 223 BLAM 223 APPO 223 ARKS 223 KSON 223
+EDLL 223 HTSA 223 ESHU 223 NFEE 223 ATGU 223 UATH 223 SONB 223 SMAT 223 EDDE 223
+IFHE 223 ERSG 223 ROWD 223 OSTU 223 VIOL 223 ATSP 222 MEUP 222 TTUR 222 HYSI 222
+RMET 222 TEIN 222 OFYE 222 ENYE 222 OMWH 222 ARSS 222 PANI 222 IDWA 222 TFUN 222
+REUN 222 UTOA 222 IMER 222 WHET 222 RTOF 222 RTOH 222 EVEA 222 TIGA 222 YBEF 222
+FLIK 222 CKOF 222 RPLE 222 NSWH 222 HARA 222 EDPR 221 DURI 221 TMIG 221 RANO 221
+DONU 221 DTWO 221 NLYY 221 MREA 221 YTOL 221 OSEL 221 CAKE 221 OESS 221 OWIF 221
+PEDT 221 HEMD 221 BOUG 221 ESAS 221 RSUR 221 TESA 221 YOVE 221 BEMA 221 HASH 221
+LLYF 221 HENP 221 JOEY 221 CRIP 221 VESW 221 EVIS 221 DISI 221 YBEY 221 TONG 221
+OFBU 221 OUCL 221 TYTO 221 ASEO 221 CLIE 220 AKEP 220 ODRE 220 PLED 220 ISKI 220
+NGUS 220 ERVO 220 SESE 220 USDO 220 IDSO 220 USON 220 MHIM 220 ERPL 220 OUPU 220
+MEPA 220 TWAR 220 ENBU 220 DSPE 220 TSER 220 BEDI 220 EAKT 220 TNOS 220 ICEB 220
+NEAL 220 LLSS 220 DFIR 220 DETO 220 ITLA 220 EYET 220 VELL 220 INDC 220 ATSC 220
+SOFW 220 OTBU 220 SSLI 220 OVEN 220 RPER 220 NTSE 220 VENM 220 EDOR 219 WWAN 219
+EHIT 219 IALT 219 OFFR 219 LLYR 219 TREI 219 WEIG 219 TEAN 219 WHYL 219 KWHE 219
+CCOU 219 ONBO 219 MALE 219 ANSP 219 NELO 219 ARLO 219 PLIC 219 LDNS 219 CKRE 219
+FITT 219 EPHE 219 ASIE 219 MMIN 219 KEAR 219 URNA 219 YSTR 219 NKHA 219 EAWE 219
+EAMY 219 EEZE 219 ELLU 219 DAWA 219 OWBA 218 UNDM 218 EMSE 218 TTRE 218 LDFO 218
+AITY 218 YTOH 218 NGGU 218 ENDH 218 EROR 218 OTTI 218 DETA 218 OPEO 218 AMPA 218
+DYIT 218 FOUT 218 ARAC 218 IHAD 218 HIYO 218 DSDO 218 RYMA 218 TLER 218 LEAT 218
+GGOI 218 SCLE 218 LLEC 218 YSHI 218 LEMI 218 LWIL 218 UNIC 218 UGHM 218 SCAM 218
+VEOU 218 ARSW 218 ELYA 218 DANT 218 ROMD 217 YPAR 217 SHAK 217 NSEC 217 VOUS 217
+UTNE 217 OLOV 217 KEAL 217 ODOI 217 SSWI 217 EDOG 217 DMAR 217 LOWN 217 ENNY 217
+OBJE 217 NPEO 217 KEYE 217 MOKE 217 URVI 217 ULLT 217 NHAN 217 DIER 217 SSSO 217
+UMPE 217 SERT 217 UMET 217 DTTH 217 TTEA 217 EMYY 217 SALO 217 URAR 217 ADDI 217
+EOFD 217 INAM 217 SSTE 217 HATV 216 SMAD 216 SDIS 216 GWIL 216 SNAM 216 RYCO 216
+ARMA 216 ORYE 216 TAAN 216 UTHR 216 ASNT 216 UTOL 216 ALST 216 NAGA 216 UMAK 216
+HOES 216 AGEA 216 SDOT 216 LIED 216 ONKE 216 YWET 216 DGOD 216 OFMO 216 ADST 216
+LOND 216 UDEA 216 ITEN 216 REMU 216 ASSW 216 LTAK 216 GOWH 216 RYCA 216 BADT 216
+RTOL 215 GERA 215 ERII 215 SSAL 215 OONI 215 OUHU 215 AWAR 215 SSAM 215 ELAD 215
+NWAI 215 LDAL 215 MWHE 215 SOFS 215 STTA 215 CKME 215 MYMA 215 RSTY 215 FDID 215
+NGOR 215 ORKA 215 DREW 215 LDHO 215 ISNT 215 GINS 215 IONP 215 SDRI 215 INKE 215
+SAST 215 VEAS 215 DSCA 215 KESE 215 DWEA 215 USOR 215 RNME 215 CORP 215 KEDY 215
+EYAL 215 IRON 215 ORHI 215 EROH 215 EEPE 215 ARKI 215 CHAL 215 EISL 215 PLAT 215
+YVER 215 ITOM 215 ROPP 215 ERGI 215 OTMO 215 RSIS 215 TCHS 214 EBAL 214 TIIS 214
+EATG 214 TINM 214 OOUR 214 UTET 214 NOCO 214 CEON 214 LFRO 214 AYHI 214 AYAR 214
+EAHR 214 NDOT 214 PUTI 214 TNOI 214 TDAN 214 BLOC 214 AYLO 214 HEAF 214 EDDA 214
+GWOU 214 ODYH 214 TOOY 214 ISOH 214 RSEI 214 YDEA 214 NCEG 214 DAYD 213 EACO 213
+EWIF 213 NUTS 213 RTUR 213 RSEC 213 NNYT 213 AMME 213 EPOL 213 BYOU 213 GOTP 213
+OHWH 213 SINW 213 RSEN 213 CKSA 213 WRIG 213 YONL 213 FICA 213 WSOM 213 EHEM 213
+ECHO 213 FULS 213 LICI 213 CATH 213 AGEM 213 LYWI 213 ALLU 213 TYLE 213 UYTH 213
+DRAG 213 OODR 213 ADYS 213 BENE 213 UITW 213 ELFW 213 EISC 212 OLKS 212 AHWH 212
+DSIR 212 TBOT 212 IVIL 212 WBUT 212 ISSC 212 SMIT 212 REAG 212 OBEC 212 OFIR 212
+TINF 212 IITA 212 LDOW 212 INIO 212 ISUR 212 TIFY 212 MNOW 212 OWJU 212 WASE 212
+ESEW 212 KDID 212 NHOU 212 LATH 212 NISO 212 AIRE 212 GITI 212 REOK 212 ASAT 212
+ENAS 212 RAWA 212 NEYW 212 DIDL 212 CHUR 212 HEIG 212 ASTL 212 UNIO 212 TLOS 212
+NTSM 211 ORBU 211 DMOT 211 YESL 211 IMBE 211 GFRO 211 ALME 211 DWON 211 OGUY 211
+TOIL 211 EKEN 211 AITM 211 HTIM 211 RCAL 211 VEND 211 IFRE 211 TAWH 211 NONS 211
+MERG 211 EBEW 211 OLDC 211 SEBA 211 OWFI 211 GHAN 211 NEDH 211 ATMU 211 NDBO 211
+RESM 211 ACEH 211 MINT 211 SALE 211 IOFT 211 ITOL 211 TDES 211 NNOC 211 WLIK 211
+NINO 211 TFIG 211 KWAN 211 LASH 211 DBEL 211 EATU 211 UISE 211 LPIN 211 RLOV 211
+DFAT 211 TEXA 211 HYTO 211 TITF 211 YSIS 211 LDRI 211 BOYT 211 ARBE 211 TISE 211
+TCHW 211 ASEL 211 ALOU 211 INEL 210 ALBE 210 ESTB 210 RTST 210 TORD 210 SUFF 210
+TEWA 210 NSIR 210 DINO 210 EBAR 210 SSIA 210 NTSY 210 ERPE 210 FITS 210 AVEU 210
+SLAS 210 RNTH 210 OTKN 210 TOIA 210 SAFT 210 KETA 210 KAYD 210 LDWI 210 IFWH 210
+GETE 210 RDEN 210 ALKW 210 FABO 210 LHIS 210 PAYI 210 HOPP 210 UNTS 210 NGAW 210
+OTAS 210 HEPU 210 ELLK 210 MAIL 209 IMDO 209 RMAY 209 GHTJ 209 GLOV 209 NDII 209
+EMYH 209 MDID 209 UCAR 209 SBIG 209 PELL 209 NDPL 209 OSEO 209 EKNE 209 EATC 209
+SLIS 209 DINI 209 DWHI 209 EMAS 209 FAIT 209 ALGO 209 ONEX 209 MYFO 209 LLPL 209
+ONPA 209 NALW 209 ITOK 209 WGOT 209 NOWJ 209 ROUR 209 SUGG 209 IMEF 209 OGIV 209
+INUE 209 BEAC 208 DISS 208 FTTH 208 OUSN 208 UCHM 208 TUPT 208 LPRO 208 NDLA 208
+CHWA 208 INRI 208 WINS 208 GERY 208 NGUE 208 UHAD 208 HEIL 208 OWNF 208 WESA 208
+ESAB 208 INAB 208 IDAT 208 YSNO 208 OMEK 208 EDEC 208 ARIA 208 SEBU 208 HICA 208
+RMAR 208 MBAR 208 RNEE 208 DESC 208 ATUN 208 WOUT 208 ARWH 208 CLES 208 HHOW 208
+AILI 208 GNED 208 EJAC 208 RRYC 208 SWES 208 KSIT 208 SIBI 208 PPLE 208 EONH 208
+PFOR 208 TIIN 207 MYSH 207 EXAM 207 LYAL 207 ADME 207 BOBB 207 AWER 207 SARO 207
+OPHE 207 CITE 207 ABYT 207 AYMY 207 LPTH 207 ACKF 207 OUIO 207 NIFI 207 DWAI 207
+OOMI 207 GGON 207 IGAR 207 SEMO 207 OURJ 207 HADD 207 ANCY 207 KAYB 207 EDRA 207
+MANF 207 HOMA 207 FNOW 207 SLIV 207 ARYT 207 EISD 207 DEDO 206 OTYE 206 TBEH 206
+IDOF 206 LBAC 206 AMEG 206 ERGR 206 INKR 206 ECKI 206 ISAW 206 EHEH 206 ASAY 206
+NNAN 206 ONFA 206 LLIE 206 RIMI 206 HOVE 206 LLIM 206 NIOR 206 REIY 206 ERAD 206
+FYEA 206 URHO 206 NSDO 206 ODWE 206 REEW 206 UOFT 206 WHYG 206 AYNE 206 UETH 206
+EEKE 206 LELI 206 ATEC 206 SETI 206 NOST 206 NETI 206 PSTH 206 FWHE 206 YSWH 206
+ADCA 206 WERT 206 BEWI 206 VANT 206 SLAN 206 BLEO 206 BONE 206 OUMR 206 EELA 206
+UTOS 206 NDOR 206 NEXP 206 RINS 206 GTIM 206 KEDM 206 LLUS 206 EPAY 206 NWEI 206
+SSUE 206 ESFI 205 VORI 205 YGOD 205 KNEE 205 HEEN 205 EEDL 205 YREM 205 ONII 205
+TOFE 205 YSIC 205 EITP 205 DERM 205 HEFU 205 ASSS 205 NATT 205 TBLO 205 NDUS 205
+ILYT 205 ICKW 205 HOTS 205 IITS 205 SATO 205 MAYT 205 AHEL 205 ESUN 205 MSTO 205
+CECA 205 RAME 205 ASWO 205 OUAA 205 SCOV 205 AMPL 205 ONPL 205 OTGE 205 GRET 204
+EYWI 204 ODOF 204 DIVI 204 WHOG 204 UTMI 204 IREL 204 THLI 204 SFAC 204 OHON 204
+EHAT 204 NARY 204 TITN 204 STNE 204 RECR 204 RMTH 204 SSEC 204 NECE 204 ADOF 204
+NGDR 204 TIGH 204 NREM 204 RDEA 204 NABL 204 HSHO 204 LDLI 204 TIOF 204 ACON 204
+OCIA 204 EBEG 204 RERO 204 VINC 204 SLIP 204 URTT 204 LOUR 204 IOUR 204 OHHE 204
+DOMA 204 TIFO 204 FLIG 204 EWEO 204 TUNA 204 HESL 204 HURC 204 IREI 204 TOOM 204
+USWA 203 HGOO 203 CITI 203 LYFO 203 UIRE 203 LETF 203 NEDM 203 YPER 203 ISPO 203
+IGNI 203 SEHI 203 SURG 203 DOST 203 VITE 203 ADYA 203 LSAY 203 ISIM 203 NTOP 203
+DWAR 203 OHOU 203 ATGR 203 TPIC 203 EARG 203 NEWW 203 TAYT 203 NWON 203 ROMC 203
+WEMY 203 AUTH 203 SSUM 203 DTOG 203 TWEY 203 RGES 203 THSA 203 INIC 203 HASY 203
+THUS 203 WEHO 203 NNED 203 ILEN 202 TCHY 202 ILYO 202 TGUE 202 ENGA 202 ONGB 202
+DREM 202 TSAW 202 ELPE 202 NTAG 202 OMAS 202 RATT 202 ADDR 202 NKSS 202 KYEA 202
+ENRY 202 REER 202 ARCO 202 SHYO 202 GRAC 202 UREF 202 RDIS 202 WINN 202 EFEL 202
+ASDI 202 ERNM 202 NEHO 202 HIME 202 ECOO 202 THRI 202 LANG 202 MELA 202 YTOD 202
+DOON 202 NKBE 202 ERTT 202 TRAY 202 LTTH 202 YMAR 202 RYSH 202 ERAP 202 ATPO 202
+OFAS 202 OPET 202 TOMU 202 LLLA 202 AHHE 202 LINS 202 MSHO 202 ATRA 202 RLES 202
+ISBO 202 ONEK 202 ESLA 202 ORKW 202 CHAT 202 LEFO 202 HITM 202 ARBA 202 CESI 202
+ORLE 201 INLE 201 ADHA 201 NGTW 201 SFOU 201 NGMU 201 ERVA 201 ENTP 201 OUSB 201
+YESG 201 ALNO 201 HEIB 201 MCOU 201 NEAS 201 LDNW 201 URNT 201 ATTW 201 DYHE 201
+ISCR 201 MWEL 201 TMTH 201 EPAT 201 EMRS 201 EMDO 201 LWOU 201 TUDY 201 DOPE 201
+ATEB 201 SEMY 201 SUSE 201 AREK 201 NIZE 201 ORTR 201 EXIS 201 FULA 201 MEII 201
+PIPE 201 TOFL 201 OUVE 201 NIFO 201 FICU 201 NKEE 201 NKIS 201 ELYS 201 ISUN 201
+EINE 201 KITH 200 OOFI 200 OFTA 200 AGEI 200 ASSM 200 KEHO 200 PEDI 200 ERSF 200
+YPLE 200 TMEY 200 NTMY 200 NEYM 200 TMYA 200 SREC 200 TIFT 200 PNOT 200 TBIT 200
+HWHO 200 GOSH 200 RSAI 200 YWEA 200 NPER 200 ADEI 200 EIWI 200 GITA 200 ATAG 200
+OHOL 200 ANJU 200 OPYO 200 NRET 200 NDAI 200 ATDR 200 AYWO 200 TALT 200 HECR 199
+URAG 199 EENF 199 DDAY 199 EYAR 199 BEAS 199 EANC 199 TESS 199 EDCH 199 TSEL 199
+ETIR 199 ASYE 199 RSRE 199 RPAR 199 LAYO 199 MYLI 199 REEL 199 GHEY 199 TNOB 199
+EDSU 199 ISII 199 ASBU 199 KLIK 199 GSIT 199 ISIA 199 IDEM 199 CHGO 199 ETLE 199
+NIIT 199 DIDE 199 STBA 199 ODNO 199 OMOT 199 YAYO 199 GUYI 199 NKSW 199 NDSD 199
+LIBE 199 HOLY 199 UHAN 199 IMNO 199 LLFA 199 NERO 198 NLYM 198 ASMO 198 IFEM 198
+YCHO 198 WAYF 198 ONNI 198 LOWA 198 COCK 198 DEPE 198 AYDI 198 ECKE 198 EDFR 198
+NYTO 198 SUCC 198
+`;
@@ -0,0 +1,162 @@
+"use client";
+
+// Enigma I (Wehrmacht / Luftwaffe): three rotors from I-V, reflector B or C,
+// ring settings and a plugboard, including the double step of the middle rotor.
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Rotor wirings and the window letter at which each one turns its left neighbour
+export const ENIGMA_ROTORS: Record<string, { wiring: string; notch: string }> = {
+  I: { wiring: 'EKMFLGDQVZNTOWYHXUSPAIBRCJ', notch: 'Q' },
+  II: { wiring: 'AJDKSIRUXBLHWTMCQGZNPYFVOE', notch: 'E' },
+  III: { wiring: 'BDFHJLCPRTXVZNYEIWGAKMUSQO', notch: 'V' },
+  IV: { wiring: 'ESOVPZJAYQUIRHXLNFTGKDCMWB', notch: 'J' },
+  V: { wiring: 'VZBRGITYUPSDNHLXAWMJQOFECK', notch: 'Z' }
+};
+
+export const ENIGMA_REFLECTORS: Record<string, string> = {
+  B: 'YRUHQSLDPXNGOKMIEBFZCWVJAT',
+  C: 'FVPJIAOYEDRZXWGCTKUQSBNMHL'
+};
+
+// Machine settings, rotors and letters are listed left to right
+export interface EnigmaConfig {
+  rotors: [string, string, string];
+  reflector: string;
+  ringSettings: string; // e.g. "AAA"
+  positions: string; // starting window letters, e.g. "AAA"
+  plugboard: string; // letter pairs, e.g. "AB CD EF"
+}
+
+export const ENIGMA_DEFAULTS: EnigmaConfig = {
+  rotors: ['I', 'II', 'III'],
+  reflector: 'B',
+  ringSettings: 'AAA',
+  positions: 'AAA',
+  plugboard: ''
+};
+
+// One key press: the letters along the path and the window after stepping
+export interface EnigmaStep {
+  input: string;
+  output: string;
+  positions: string;
+  path: string[]; // plugboard, right, middle, left rotor, reflector, left, middle, right, plugboard
+}
+
+const toIndex = (letter: string) => ALPHABET.indexOf(letter);
+const mod26 = (n: number) => ((n % 26) + 26) % 26;
+
+// Three window letters (or ring settings) as indices
+function parseLetters(value: string, field: string): number[] {
+  const letters = value.toUpperCase().replace(/\s+/g, '');
+  if (!/^[A-Z]{3}$/.test(letters)) {
+    throw new Error(`Enigma ${field} must be three letters, e.g. "AAA", got "${value}"`);
+  }
+  return [...letters].map(toIndex);
+}
+
+/**
+ * Parses plugboard pairs ("AB CD") into a letter swap table
+ */
+export function parsePlugboard(plugboard: string): number[] {
+  const swaps = [...ALPHABET].map((_, i) => i);
+  const pairs = plugboard.toUpperCase().split(/[\s,]+/).filter(Boolean);
+  if (pairs.length > 13) {
+    throw new Error(`The plugboard has 13 cables, got ${pairs.length} pairs`);
+  }
+
+  for (const pair of pairs) {
+    if (!/^[A-Z]{2}$/.test(pair) || pair[0] === pair[1]) {
+      throw new Error(`Plugboard pairs are two different letters, e.g. "AB", got "${pair}"`);
+    }
+    const [a, b] = [toIndex(pair[0]), toIndex(pair[1])];
+    if (swaps[a] !== a || swaps[b] !== b) {
+      throw new Error(`Plugboard letter in "${pair}" is already plugged`);
+    }
+    swaps[a] = b;
+    swaps[b] = a;
+  }
+  return swaps;
+}
+
+function validateConfig(config: EnigmaConfig) {
+  if (new Set(config.rotors).size !== 3) {
+    throw new Error('Enigma needs three different rotors');
+  }
+  for (const rotor of config.rotors) {
+    if (!ENIGMA_ROTORS[rotor]) {
+      throw new Error(`Unknown Enigma rotor: ${rotor}`);
+    }
+  }
+  if (!ENIGMA_REFLECTORS[config.reflector]) {
+    throw new Error(`Unknown Enigma reflector: ${config.reflector}`);
+  }
+}
+
+/**
+ * Runs text through the machine, returning every key press. Letters are
+ * upper-cased; anything else passes through without moving the rotors.
+ * Enigma is its own inverse, so the same call encrypts and decrypts.
+ */
+export function runEnigma(text: string, config: EnigmaConfig): EnigmaStep[] {
+  validateConfig(config);
+  const rotors = config.rotors.map(name => ENIGMA_ROTORS[name]);
+  const wirings = rotors.map(({ wiring }) => [...wiring].map(toIndex));
+  const inverses = wirings.map(wiring => {
+    const inverse = new Array<number>(26);
+    wiring.forEach((out, i) => { inverse[out] = i; });
+    return inverse;
+  });
+  const notches = rotors.map(({ notch }) => toIndex(notch));
+  const rings = parseLetters(config.ringSettings, 'ring settings');
+  const positions = parseLetters(config.positions, 'start positions');
+  const reflector = [...ENIGMA_REFLECTORS[config.reflector]].map(toIndex);
+  const plugboard = parsePlugboard(config.plugboard);
+
+  // Signal through rotor r (0 = left) in either direction
+  const through = (r: number, c: number, table: number[]) =>
+    mod26(table[mod26(c + positions[r] - rings[r])] - positions[r] + rings[r]);
+
+  const steps: EnigmaStep[] = [];
+  for (const char of text.toUpperCase()) {
+    const c = toIndex(char);
+    if (c < 0) {
+      steps.push({ input: char, output: char, positions: positions.map(p => ALPHABET[p]).join(''), path: [] });
+      continue;
+    }
+
+    // Stepping happens before the contact closes; the middle rotor double steps
+    if (positions[1] === notches[1]) {
+      positions[0] = mod26(positions[0] + 1);
+      positions[1] = mod26(positions[1] + 1);
+    } else if (positions[2] === notches[2]) {
+      positions[1] = mod26(positions[1] + 1);
+    }
+    positions[2] = mod26(positions[2] + 1);
+
+    const path: number[] = [];
+    let signal = plugboard[c];
+    path.push(signal);
+    for (let r = 2; r >= 0; r--) {
+      signal = through(r, signal, wirings[r]);
+      path.push(signal);
+    }
+    signal = reflector[signal];
+    path.push(signal);
+    for (let r = 0; r <= 2; r++) {
+      signal = through(r, signal, inverses[r]);
+      path.push(signal);
+    }
+    signal = plugboard[signal];
+    path.push(signal);
+
+    steps.push({
+      input: char,
+      output: ALPHABET[signal],
+      positions: positions.map(p => ALPHABET[p]).join(''),
+      path: path.map(p => ALPHABET[p])
+    });
+  }
+  return steps;
+}
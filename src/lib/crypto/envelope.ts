@@ -0,0 +1,211 @@
+"use client";
+
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from './cipher-provider';
+import { getCipherProvider, getCipherProviderByEnvelopeId } from './cipher-registry';
+import { KdfParams, KDF_HEADER_LENGTH, encodeKdfParams, decodeKdfParams } from './kdf';
+import { stringToArrayBuffer, arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+
+// Self-describing ciphertext envelope, Base64 encoded:
+//   [magic "CGE"][version u8][algorithm u8][mode u8][padding u8][key size u8]
+//   [KDF parameters, 10 bytes][salt length u8][salt][nonce length u8][nonce]
+//   [tag length u8][tag][AAD check length u8][AAD check][ciphertext]
+// The AAD check (version 2+) is a short MAC of the associated data the message
+// was bound to, so a mismatch can be reported as such. Version 3 keys it with
+// the message key; version 2 stored an unkeyed hash.
+// A zero id means "not used" (a stream cipher has no mode, RSA has no KDF...).
+// Without a KDF the algorithm keeps its own key handling: EVP_BytesToKey for
+// the CryptoJS ciphers, PEM keys for RSA/ECC, and SHA-256 of the key for
+// ChaCha20 envelopes written before it used the KDF.
+// KDF id 0xff marks a raw key that was used as-is.
+export const ENVELOPE_VERSION = 3;
+const MIN_ENVELOPE_VERSION = 1; // version 1 has no AAD check field
+
+const ENVELOPE_MAGIC = stringToArrayBuffer('CGE');
+const ENVELOPE_FIXED_LENGTH = ENVELOPE_MAGIC.length + 5 + KDF_HEADER_LENGTH;
+const MAX_FIELD_LENGTH = 255;
+const RAW_KEY_KDF_ID = 0xff;
+
+// Ids are part of the format, only ever append to these tables. Algorithm
+// ids are the envelopeId of each cipher provider.
+const MODE_IDS: Record<EncryptionMode, number> = {
+  [EncryptionMode.ECB]: 0x01,
+  [EncryptionMode.CBC]: 0x02,
+  [EncryptionMode.CFB]: 0x03,
+  [EncryptionMode.OFB]: 0x04,
+  [EncryptionMode.CTR]: 0x05,
+  [EncryptionMode.GCM]: 0x06
+};
+
+const PADDING_IDS: Record<PaddingMethod, number> = {
+  [PaddingMethod.NoPadding]: 0x01,
+  [PaddingMethod.PKCS7]: 0x02,
+  [PaddingMethod.ISO10126]: 0x03,
+  [PaddingMethod.AnsiX923]: 0x04,
+  [PaddingMethod.ZeroPadding]: 0x05
+};
+
+// Everything needed to decrypt a message apart from the key
+export interface CiphertextEnvelope {
+  version: number;
+  algorithm: EncryptionAlgorithm;
+  mode?: EncryptionMode;
+  padding?: PaddingMethod;
+  keySize?: number; // 32-bit words
+  kdfParams?: KdfParams;
+  rawKey?: boolean; // key bytes were used directly, no KDF or hashing
+  salt?: Uint8Array<ArrayBuffer>;
+  nonce?: Uint8Array<ArrayBuffer>;
+  tag?: Uint8Array<ArrayBuffer>;
+  aadCheck?: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+// Reverse lookup of an id table, 0 means the field is unset
+function fromId<T extends string>(ids: Record<T, number>, id: number, field: string): T | undefined {
+  if (id === 0) {
+    return undefined;
+  }
+
+  const value = (Object.keys(ids) as T[]).find(k => ids[k] === id);
+  if (!value) {
+    throw new Error(`Ciphertext envelope has an unknown ${field} id: ${id}`);
+  }
+  return value;
+}
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    return new Uint8Array(base64ToArrayBuffer(text.trim()));
+  } catch {
+    return null;
+  }
+}
+
+function hasMagic(data: Uint8Array): boolean {
+  return data.length >= ENVELOPE_FIXED_LENGTH &&
+    ENVELOPE_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Serializes an envelope to Base64
+ */
+export function encodeEnvelope(envelope: Omit<CiphertextEnvelope, 'version'>): string {
+  const fields = [envelope.salt, envelope.nonce, envelope.tag, envelope.aadCheck]
+    .map(field => field ?? new Uint8Array(0));
+  if (fields.some(field => field.length > MAX_FIELD_LENGTH)) {
+    throw new Error(`Envelope salt, nonce, tag and AAD check are limited to ${MAX_FIELD_LENGTH} bytes`);
+  }
+
+  const length = ENVELOPE_FIXED_LENGTH +
+    fields.reduce((sum, field) => sum + 1 + field.length, 0) +
+    envelope.ciphertext.length;
+  const bytes = new Uint8Array(length);
+
+  let offset = 0;
+  bytes.set(ENVELOPE_MAGIC, offset);
+  offset += ENVELOPE_MAGIC.length;
+  bytes[offset++] = ENVELOPE_VERSION;
+  bytes[offset++] = getCipherProvider(envelope.algorithm).envelopeId;
+  bytes[offset++] = envelope.mode ? MODE_IDS[envelope.mode] : 0;
+  bytes[offset++] = envelope.padding ? PADDING_IDS[envelope.padding] : 0;
+  bytes[offset++] = envelope.keySize ?? 0;
+  if (envelope.rawKey) {
+    bytes[offset] = RAW_KEY_KDF_ID;
+  } else if (envelope.kdfParams) {
+    bytes.set(encodeKdfParams(envelope.kdfParams), offset);
+  }
+  offset += KDF_HEADER_LENGTH;
+
+  for (const field of fields) {
+    bytes[offset++] = field.length;
+    bytes.set(field, offset);
+    offset += field.length;
+  }
+  bytes.set(envelope.ciphertext, offset);
+
+  return arrayBufferToBase64(bytes);
+}
+
+/**
+ * Whether text is a Base64 ciphertext envelope (of any version)
+ */
+export function isEnvelope(text: string): boolean {
+  const data = decodeBase64(text);
+  return data !== null && hasMagic(data);
+}
+
+/**
+ * Parses a ciphertext envelope, throwing on unknown versions, unknown ids
+ * and truncated data
+ */
+export function decodeEnvelope(text: string): CiphertextEnvelope {
+  const data = decodeBase64(text);
+  if (!data || !hasMagic(data)) {
+    throw new Error('Not a ciphertext envelope');
+  }
+
+  let offset = ENVELOPE_MAGIC.length;
+  const version = data[offset++];
+  if (version < MIN_ENVELOPE_VERSION || version > ENVELOPE_VERSION) {
+    throw new Error(
+      `Unsupported ciphertext envelope version ${version}; this version of Crypto Grapher reads versions ${MIN_ENVELOPE_VERSION} to ${ENVELOPE_VERSION}`
+    );
+  }
+
+  const algorithmId = data[offset++];
+  if (algorithmId === 0) {
+    throw new Error('Ciphertext envelope does not name an algorithm');
+  }
+  const provider = getCipherProviderByEnvelopeId(algorithmId);
+  if (!provider) {
+    throw new Error(`Ciphertext envelope has an unknown algorithm id: ${algorithmId}`);
+  }
+  const mode = fromId(MODE_IDS, data[offset++], 'mode');
+  const padding = fromId(PADDING_IDS, data[offset++], 'padding');
+  const keySize = data[offset++] || undefined;
+  const kdfBytes = data.slice(offset, offset + KDF_HEADER_LENGTH);
+  const rawKey = kdfBytes[0] === RAW_KEY_KDF_ID;
+  const kdfParams = kdfBytes[0] === 0 || rawKey ? undefined : decodeKdfParams(kdfBytes);
+  offset += KDF_HEADER_LENGTH;
+
+  // Length-prefixed salt, nonce, tag and AAD check
+  const readField = (name: string): Uint8Array<ArrayBuffer> | undefined => {
+    const length = data[offset];
+    if (length === undefined || offset + 1 + length > data.length) {
+      throw new Error(`Ciphertext envelope is truncated in its ${name}`);
+    }
+    const field = data.slice(offset + 1, offset + 1 + length);
+    offset += 1 + length;
+    return length > 0 ? field : undefined;
+  };
+  const salt = readField('salt');
+  const nonce = readField('nonce');
+  const tag = readField('tag');
+  const aadCheck = version >= 2 ? readField('AAD check') : undefined;
+
+  return {
+    version,
+    algorithm: provider.algorithm,
+    mode,
+    padding,
+    keySize,
+    kdfParams,
+    rawKey,
+    salt,
+    nonce,
+    tag,
+    aadCheck,
+    ciphertext: data.slice(offset)
+  };
+}
+
+/**
+ * The algorithm named by an envelope, or null for anything that does not parse
+ */
+export function getEnvelopeAlgorithm(text: string): EncryptionAlgorithm | null {
+  try {
+    return decodeEnvelope(text).algorithm;
+  } catch {
+    return null;
+  }
+}
@@ -1,12 +1,13 @@
 "use client";
 
-// Use dynamic import instead of direct import
-// import CryptoJS from 'crypto-js';
 import { 
   EncryptionAlgorithm, 
   EncryptionParams, 
-  EncryptionResult 
+  EncryptionResult,
+  getStorableParams
 } from './encryption-service';
+import { browserDecrypt, browserEncrypt } from './browser-crypto';
+import { getCipherProvider } from './cipher-registry';
 
 // Interface for file encryption result
 export interface FileEncryptionResult extends EncryptionResult {
@@ -19,48 +20,6 @@ export interface FileEncryptionResult extends EncryptionResult {
 // Constants for chunking
 const CHUNK_SIZE = 1024 * 1024; // 1MB chunks
 
-// Safe dynamic import of CryptoJS
-async function getCryptoJS() {
-  try {
-    // Only import in browser environment
-    if (typeof window !== 'undefined') {
-      // Create a safe environment for CryptoJS to initialize in
-      if (!globalThis.crypto) {
-        // Provide a minimal implementation if crypto is not available
-        globalThis.crypto = {
-          getRandomValues: function(buf: Uint8Array) {
-            const bytes = new Uint8Array(buf.length);
-            for (let i = 0; i < buf.length; i++) {
-              bytes[i] = Math.floor(Math.random() * 256);
-            }
-            buf.set(bytes);
-            return buf;
-          }
-        } as Crypto;
-      }
-      
-      // Dynamically import CryptoJS
-      try {
-        const CryptoJS = await import('crypto-js');
-        return CryptoJS.default || CryptoJS; // Handle both ESM and CommonJS
-      } catch (importError) {
-        console.error('Error importing CryptoJS:', importError);
-        
-        // As a fallback, try loading it from window if already loaded
-        if ((window as any).CryptoJS) {
-          return (window as any).CryptoJS;
-        }
-        
-        throw importError;
-      }
-    }
-    throw new Error('CryptoJS can only be used in browser environment');
-  } catch (error) {
-    console.error('Error loading CryptoJS:', error);
-    throw error;
-  }
-}
-
 // Helper to convert file to Base64
 export async function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -123,7 +82,8 @@ export async function encryptFile(
         originalFileName: file.name,
         originalFileType: file.type,
         algorithm,
-        params
+        params: getStorableParams(params),
+        aadRequired: Boolean(params.aad)
       };
       
       // Combine metadata and encrypted data
@@ -161,35 +121,24 @@ export async function encryptFile(
   }
 }
 
-// Helper function to encrypt file data
+// Helper function to encrypt file data with any cipher offered for files
 async function encryptFileData(
   fileData: string,
   key: string,
   algorithm: EncryptionAlgorithm,
   params: EncryptionParams
 ): Promise<string> {
-  const CryptoJS = await getCryptoJS();
-  
-  switch (algorithm) {
-    case EncryptionAlgorithm.AES:
-      return CryptoJS.AES.encrypt(fileData, key).toString();
-    case EncryptionAlgorithm.TripleDES:
-      return CryptoJS.TripleDES.encrypt(fileData, key).toString();
-    case EncryptionAlgorithm.DES:
-      return CryptoJS.DES.encrypt(fileData, key).toString();
-    case EncryptionAlgorithm.Rabbit:
-      return CryptoJS.Rabbit.encrypt(fileData, key).toString();
-    case EncryptionAlgorithm.RC4:
-      return CryptoJS.RC4.encrypt(fileData, key).toString();
-    default:
-      throw new Error(`File encryption not supported for algorithm: ${algorithm}`);
+  if (!getCipherProvider(algorithm).capabilities.files) {
+    throw new Error(`File encryption not supported for algorithm: ${algorithm}`);
   }
+  return (await browserEncrypt(fileData, key, algorithm, params)).result;
 }
 
-// Function to decrypt a file
+// Function to decrypt a file, aad is the associated data it was encrypted with
 export async function decryptFile(
   encryptedData: string,
   key: string,
+  aad?: string,
   onProgress?: (progress: number) => void
 ): Promise<FileEncryptionResult> {
   const startTime = performance.now();
@@ -203,33 +152,17 @@ export async function decryptFile(
       originalFileName, 
       originalFileType, 
       algorithm, 
-      params 
+      params,
+      aadRequired
     } = metadata;
     
-    // Decrypt the file data
-    let decryptedData = '';
-    const CryptoJS = await getCryptoJS();
-    
-    switch (algorithm) {
-      case EncryptionAlgorithm.AES:
-        decryptedData = CryptoJS.AES.decrypt(data, key).toString(CryptoJS.enc.Utf8);
-        break;
-      case EncryptionAlgorithm.TripleDES:
-        decryptedData = CryptoJS.TripleDES.decrypt(data, key).toString(CryptoJS.enc.Utf8);
-        break;
-      case EncryptionAlgorithm.DES:
-        decryptedData = CryptoJS.DES.decrypt(data, key).toString(CryptoJS.enc.Utf8);
-        break;
-      case EncryptionAlgorithm.Rabbit:
-        decryptedData = CryptoJS.Rabbit.decrypt(data, key).toString(CryptoJS.enc.Utf8);
-        break;
-      case EncryptionAlgorithm.RC4:
-        decryptedData = CryptoJS.RC4.decrypt(data, key).toString(CryptoJS.enc.Utf8);
-        break;
-      default:
-        throw new Error(`File decryption not supported for algorithm: ${algorithm}`);
+    if (aadRequired && !aad) {
+      throw new Error('The file was encrypted with associated data, which it does not store: enter it to decrypt');
     }
     
+    // Decrypt the file data
+    const decryptedData = (await browserDecrypt(data, key, algorithm, { ...params, aad })).result;
+    
     if (onProgress) onProgress(100);
     
     const endTime = performance.now();
@@ -0,0 +1,141 @@
+"use client";
+
+import { md5, sha1 } from '@noble/hashes/legacy.js';
+import { sha256, sha384, sha512 } from '@noble/hashes/sha2.js';
+import { sha3_256, sha3_512 } from '@noble/hashes/sha3.js';
+import { blake2b } from '@noble/hashes/blake2.js';
+import { blake3 } from '@noble/hashes/blake3.js';
+import { arrayBufferToBase64, arrayBufferToHex, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+
+// Hash algorithms
+export enum HashAlgorithm {
+  MD5 = 'MD5',
+  SHA1 = 'SHA-1',
+  SHA256 = 'SHA-256',
+  SHA384 = 'SHA-384',
+  SHA512 = 'SHA-512',
+  SHA3_256 = 'SHA3-256',
+  SHA3_512 = 'SHA3-512',
+  BLAKE2b = 'BLAKE2b',
+  BLAKE3 = 'BLAKE3'
+}
+
+// Constants
+const FILE_CHUNK_SIZE = 1024 * 1024; // 1MB read per step
+
+// An incremental hash, as returned by noble's create()
+interface Hasher {
+  update(data: Uint8Array): Hasher;
+  digest(): Uint8Array;
+}
+
+// Every hash in noble shares this shape; BLAKE2b defaults to 512 bits, BLAKE3 to 256
+const HASHERS: Record<HashAlgorithm, () => Hasher> = {
+  [HashAlgorithm.MD5]: () => md5.create(),
+  [HashAlgorithm.SHA1]: () => sha1.create(),
+  [HashAlgorithm.SHA256]: () => sha256.create(),
+  [HashAlgorithm.SHA384]: () => sha384.create(),
+  [HashAlgorithm.SHA512]: () => sha512.create(),
+  [HashAlgorithm.SHA3_256]: () => sha3_256.create(),
+  [HashAlgorithm.SHA3_512]: () => sha3_512.create(),
+  [HashAlgorithm.BLAKE2b]: () => blake2b.create(),
+  [HashAlgorithm.BLAKE3]: () => blake3.create()
+};
+
+export interface HashDigest {
+  algorithm: HashAlgorithm;
+  digest: Uint8Array;
+  hex: string;
+  base64: string;
+}
+
+// Progress of a file being hashed
+export interface HashProgress {
+  bytesHashed: number;
+  totalBytes: number;
+  percent: number;
+  elapsedMs: number;
+}
+
+const toDigest = (algorithm: HashAlgorithm, digest: Uint8Array): HashDigest => ({
+  algorithm,
+  digest,
+  hex: arrayBufferToHex(digest),
+  base64: arrayBufferToBase64(digest)
+});
+
+/**
+ * Hashes UTF-8 text with each of the given algorithms
+ */
+export function hashText(text: string, algorithms: HashAlgorithm[]): HashDigest[] {
+  const data = stringToArrayBuffer(text);
+  return algorithms.map(algorithm => toDigest(algorithm, HASHERS[algorithm]().update(data).digest()));
+}
+
+/**
+ * Hashes a file with each of the given algorithms in one pass, reading it in
+ * chunks so large files never sit in memory whole. onProgress is called after
+ * every chunk, between which the browser can repaint.
+ */
+export async function hashFile(
+  file: Blob,
+  algorithms: HashAlgorithm[],
+  onProgress?: (progress: HashProgress) => void
+): Promise<HashDigest[]> {
+  const hashers = algorithms.map(algorithm => HASHERS[algorithm]());
+  const started = performance.now();
+
+  for (let offset = 0; offset < file.size; offset += FILE_CHUNK_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + FILE_CHUNK_SIZE).arrayBuffer());
+    hashers.forEach(hasher => hasher.update(chunk));
+
+    if (onProgress) {
+      const bytesHashed = Math.min(offset + FILE_CHUNK_SIZE, file.size);
+      onProgress({
+        bytesHashed,
+        totalBytes: file.size,
+        percent: Math.round((bytesHashed / file.size) * 100),
+        elapsedMs: performance.now() - started
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  return algorithms.map((algorithm, i) => toDigest(algorithm, hashers[i].digest()));
+}
+
+/**
+ * Turns a pasted checksum into bytes. Accepts hex in any case, with spaces or
+ * colons between bytes, or Base64, and a trailing file name as printed by
+ * sha256sum and friends. Returns null for anything else.
+ */
+export function parseChecksum(checksum: string): Uint8Array | null {
+  const value = checksum.trim().split(/\s{2,}|\s\*/)[0].trim();
+  if (!value) return null;
+
+  const hex = value.replace(/[\s:]/g, '');
+  if (/^([0-9a-f]{2})+$/i.test(hex)) {
+    return Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16));
+  }
+
+  const base64 = value.replace(/\s/g, '');
+  if (/^[A-Za-z0-9+/\-_]+={0,2}$/.test(base64)) {
+    try {
+      return new Uint8Array(base64ToArrayBuffer(base64.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the digest that matches an expected checksum, or null when none does
+ * (or the checksum cannot be parsed)
+ */
+export function verifyChecksum(checksum: string, digests: HashDigest[]): HashDigest | null {
+  const expected = parseChecksum(checksum);
+  if (!expected) return null;
+  return digests.find(({ digest }) =>
+    digest.length === expected.length && digest.every((byte, i) => byte === expected[i])
+  ) ?? null;
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256, sha384, sha512 } from '@noble/hashes/sha2.js';
+import { sha3_256, sha3_512 } from '@noble/hashes/sha3.js';
+import type { CHash } from '@noble/hashes/utils.js';
+import { HashAlgorithm, parseChecksum } from './hash-service';
+import { KeyFormat, decodeRawKey } from './key-import';
+import { stringToArrayBuffer } from './encoding';
+
+// HMAC tags and webhook signatures. A webhook sender signs the raw request
+// body with a shared secret and the receiver recomputes the tag, so a single
+// changed byte in the body or the secret gives a completely different tag.
+
+export const HMAC_ALGORITHMS = [
+  HashAlgorithm.SHA256,
+  HashAlgorithm.SHA384,
+  HashAlgorithm.SHA512,
+  HashAlgorithm.SHA3_256,
+  HashAlgorithm.SHA3_512
+] as const;
+
+export type HmacAlgorithm = typeof HMAC_ALGORITHMS[number];
+
+const HMAC_HASHES: Record<HmacAlgorithm, CHash> = {
+  [HashAlgorithm.SHA256]: sha256,
+  [HashAlgorithm.SHA384]: sha384,
+  [HashAlgorithm.SHA512]: sha512,
+  [HashAlgorithm.SHA3_256]: sha3_256,
+  [HashAlgorithm.SHA3_512]: sha3_512
+};
+
+// How a pasted signature is laid out
+export enum SignatureStyle {
+  Plain = 'plain', // a bare hex or Base64 tag
+  GitHub = 'github', // X-Hub-Signature-256: sha256=<hex>
+  Stripe = 'stripe' // Stripe-Signature: t=<timestamp>,v1=<hex>
+}
+
+// Constants
+export const STRIPE_TOLERANCE_SECONDS = 300; // Stripe's libraries reject older timestamps
+
+export interface ParsedSignature {
+  style: SignatureStyle;
+  algorithm?: HmacAlgorithm; // when the signature names it (sha256=...)
+  tags: Uint8Array[]; // Stripe sends several v1 tags while a secret is being rolled
+  timestamp?: number; // Stripe, seconds since the epoch
+}
+
+// A stale signature has a matching tag but a timestamp outside the tolerance,
+// so it is refused like Stripe's libraries refuse it
+export type SignatureStatus = 'valid' | 'mismatch' | 'stale';
+
+export interface SignatureVerification {
+  valid: boolean; // the tag matches and, for Stripe, the timestamp is recent
+  status: SignatureStatus;
+  style: SignatureStyle;
+  algorithm: HmacAlgorithm;
+  expected: Uint8Array; // the tag computed over the signed payload
+  signedPayload: string;
+  problems: string[]; // why verification failed, or warnings when it passed
+}
+
+export interface SignatureCheck {
+  body: string;
+  key: string;
+  keyFormat: KeyFormat;
+  signature: string;
+  algorithm: HmacAlgorithm; // used when the signature does not name one
+  now?: number; // seconds, for the Stripe timestamp check
+}
+
+/**
+ * The prefix a GitHub-style header uses for an algorithm, e.g. sha256 or sha3-256
+ */
+export function getSignaturePrefix(algorithm: HmacAlgorithm): string {
+  return algorithm.toLowerCase().replace(/^sha-/, 'sha');
+}
+
+/**
+ * The key bytes for the chosen format. Webhook secrets are used as text, so a
+ * passphrase is taken as its UTF-8 bytes rather than stretched with a KDF.
+ */
+export function decodeHmacKey(key: string, format: KeyFormat): Uint8Array {
+  return format === KeyFormat.Passphrase ? stringToArrayBuffer(key) : decodeRawKey(key, format);
+}
+
+/**
+ * HMAC of a UTF-8 message
+ */
+export function computeHmac(algorithm: HmacAlgorithm, key: Uint8Array, message: string): Uint8Array {
+  return hmac(HMAC_HASHES[algorithm], key, stringToArrayBuffer(message));
+}
+
+/**
+ * Compares two tags in time that depends only on their length, so a forger
+ * cannot learn how many leading bytes of a guess were right
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Reads a bare tag, a GitHub-style sha256=... value or a Stripe-Signature
+ * header. A leading header name ("X-Hub-Signature-256:") is ignored.
+ */
+export function parseSignature(signature: string): ParsedSignature {
+  const value = signature.trim().replace(/^[A-Za-z][\w]*-[\w-]*:\s*/, '');
+
+  if (/(^|,)\s*t=\d+/.test(value)) {
+    const pairs = value.split(',').map(pair => pair.trim().split('='));
+    const timestamp = Number(pairs.find(([name]) => name === 't')?.[1]);
+    const tags = pairs
+      .filter(([name, tag]) => name === 'v1' && tag)
+      .map(([, tag]) => parseChecksum(tag))
+      .filter((tag): tag is Uint8Array => tag !== null);
+    if (tags.length === 0) {
+      throw new Error('The Stripe-Signature header has no v1 signature (v0 is only sent for test webhooks and is not HMAC-SHA256)');
+    }
+    return { style: SignatureStyle.Stripe, algorithm: HashAlgorithm.SHA256, tags, timestamp };
+  }
+
+  const prefixed = value.match(/^(sha[\w-]*)=(.+)$/i);
+  if (prefixed) {
+    const [, prefix, tagValue] = prefixed;
+    const algorithm = HMAC_ALGORITHMS.find(a => getSignaturePrefix(a) === prefix.toLowerCase());
+    if (!algorithm) {
+      throw new Error(prefix.toLowerCase() === 'sha1'
+        ? 'sha1= is GitHub\'s legacy X-Hub-Signature header (HMAC-SHA1); check X-Hub-Signature-256 instead'
+        : `Unsupported signature prefix ${prefix}=; expected one of ${HMAC_ALGORITHMS.map(a => `${getSignaturePrefix(a)}=`).join(', ')}`);
+    }
+    const tag = parseChecksum(tagValue);
+    if (!tag) {
+      throw new Error(`The value after ${prefix}= is not a hex or Base64 tag`);
+    }
+    return { style: SignatureStyle.GitHub, algorithm, tags: [tag] };
+  }
+
+  const tag = parseChecksum(value);
+  if (!tag) {
+    throw new Error('Expected a hex or Base64 tag, a sha256=... value or a Stripe-Signature header');
+  }
+  return { style: SignatureStyle.Plain, tags: [tag] };
+}
+
+const signedPayloadFor = (parsed: ParsedSignature, body: string) =>
+  parsed.style === SignatureStyle.Stripe ? `${parsed.timestamp}.${body}` : body;
+
+// Bodies that commonly arrive changed: frameworks re-serializing JSON, editors
+// and terminals adding or converting newlines
+function bodyVariants(body: string): { body: string; change: string }[] {
+  const variants = [
+    { body: body.replace(/\s+$/, ''), change: 'has trailing whitespace or a newline the sender did not sign' },
+    { body: `${body}\n`, change: 'is missing a trailing newline the sender signed' },
+    { body: body.replace(/\r\n/g, '\n'), change: 'has Windows (CRLF) line endings where the sender used LF' },
+    { body: body.replace(/\r?\n/g, '\r\n'), change: 'has LF line endings where the sender used CRLF' }
+  ];
+  try {
+    const json = JSON.parse(body);
+    variants.push(
+      { body: JSON.stringify(json), change: 'was pretty-printed; the sender signed compact JSON' },
+      { body: JSON.stringify(json, null, 2), change: 'was compacted; the sender signed indented JSON' }
+    );
+  } catch {
+    // Not JSON
+  }
+  return variants.filter(variant => variant.body !== body);
+}
+
+// Secrets that commonly arrive changed: pasted with spaces, or in the wrong format
+function keyVariants(key: string, format: KeyFormat): { key: Uint8Array; change: string }[] {
+  const variants: { key: Uint8Array; change: string }[] = [];
+  if (format === KeyFormat.Passphrase) {
+    if (key.trim() !== key) {
+      variants.push({ key: stringToArrayBuffer(key.trim()), change: 'The secret has leading or trailing whitespace.' });
+    }
+    const shapes = [
+      [KeyFormat.Hex, 'hex', /^([0-9a-f]{2})+$/i],
+      [KeyFormat.Base64, 'Base64', /^([A-Za-z0-9+/]{4})*[A-Za-z0-9+/]{2,4}={0,2}$/]
+    ] as const;
+    for (const [rawFormat, name, shape] of shapes) {
+      if (!shape.test(key.trim())) continue;
+      try {
+        variants.push({ key: decodeRawKey(key, rawFormat), change: `The tag matches when the secret is decoded as ${name}; switch the key format to ${name}.` });
+      } catch {
+        // Not valid in this format
+      }
+    }
+  } else {
+    variants.push({ key: stringToArrayBuffer(key), change: 'The sender used the secret as text; switch the key format to text (most webhook secrets, including GitHub\'s and Stripe\'s whsec_ secrets, are used this way).' });
+  }
+  return variants;
+}
+
+function explainMismatch(parsed: ParsedSignature, check: SignatureCheck, algorithm: HmacAlgorithm, key: Uint8Array): string[] {
+  const matches = (tag: Uint8Array) => parsed.tags.some(received => constantTimeEqual(received, tag));
+  const signedPayload = signedPayloadFor(parsed, check.body);
+
+  const expectedLength = HMAC_HASHES[algorithm].outputLen;
+  const lengths = Array.from(new Set(parsed.tags.map(tag => tag.length)));
+  const other = HMAC_ALGORITHMS.find(a => a !== algorithm && matches(computeHmac(a, key, signedPayload)));
+  if (other) {
+    return [`The tag is HMAC-${other}, not HMAC-${algorithm}.`];
+  }
+  if (!lengths.includes(expectedLength)) {
+    const sizes = HMAC_ALGORITHMS.filter(a => lengths.includes(HMAC_HASHES[a].outputLen));
+    return [
+      `The tag is ${lengths.join(' or ')} bytes but HMAC-${algorithm} gives ${expectedLength}` +
+      (sizes.length > 0 ? `; that length fits HMAC-${sizes.join(' or HMAC-')}, which did not match either.` : '; it may have been truncated or use a hash this tool does not support.')
+    ];
+  }
+
+  const bodyChange = bodyVariants(check.body).find(variant =>
+    matches(computeHmac(algorithm, key, signedPayloadFor(parsed, variant.body)))
+  );
+  if (bodyChange) {
+    return [`The body ${bodyChange.change}. Verify the raw request bytes exactly as received.`];
+  }
+
+  const keyChange = keyVariants(check.key, check.keyFormat).find(variant =>
+    matches(computeHmac(algorithm, variant.key, signedPayload))
+  );
+  if (keyChange) {
+    return [keyChange.change];
+  }
+
+  return [
+    'No common change to the body or secret explains it: the secret is wrong, the body was altered on the way ' +
+    '(a proxy or framework decoding and re-encoding it), or the signature belongs to a different request.'
+  ];
+}
+
+/**
+ * Verifies a tag or webhook signature header over a request body
+ */
+export function verifySignature(check: SignatureCheck): SignatureVerification {
+  const parsed = parseSignature(check.signature);
+  const algorithm = parsed.algorithm ?? check.algorithm;
+  const key = decodeHmacKey(check.key, check.keyFormat);
+  const signedPayload = signedPayloadFor(parsed, check.body);
+  const expected = computeHmac(algorithm, key, signedPayload);
+  const tagMatches = parsed.tags.some(tag => constantTimeEqual(tag, expected));
+
+  const problems = tagMatches ? [] : explainMismatch(parsed, check, algorithm, key);
+  let stale = false;
+  if (parsed.timestamp !== undefined) {
+    const age = (check.now ?? Date.now() / 1000) - parsed.timestamp;
+    if (Math.abs(age) > STRIPE_TOLERANCE_SECONDS) {
+      stale = true;
+      problems.push(
+        `The timestamp is ${Math.round(Math.abs(age) / 60)} minutes in the ${age > 0 ? 'past' : 'future'}, ` +
+        `outside Stripe's ${STRIPE_TOLERANCE_SECONDS / 60} minute tolerance: a replayed request or a wrong clock.`
+      );
+    }
+  }
+
+  const status: SignatureStatus = !tagMatches ? 'mismatch' : stale ? 'stale' : 'valid';
+  return { valid: status === 'valid', status, style: parsed.style, algorithm, expected, signedPayload, problems };
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import {
+  EncryptionAlgorithm,
+  EncryptionMode,
+  getSupportedModes,
+  recommendKeySize,
+  resolveModeAndPadding
+} from './encryption-service';
+import { getCipherProvider } from './cipher-registry';
+
+// Encrypts the pixels of an image so the result can be drawn as an image
+// again. Only the RGB bytes are encrypted and the ciphertext is cut back to
+// the pixel count (padding and the GCM tag are dropped), which is enough to
+// see how much of the picture each mode of operation leaks.
+
+// Constants
+export const IMAGE_LAB_ALGORITHMS = [EncryptionAlgorithm.AES, EncryptionAlgorithm.DES] as const;
+export type ImageLabAlgorithm = typeof IMAGE_LAB_ALGORITHMS[number];
+export const IMAGE_LAB_MODES: EncryptionMode[] = [
+  EncryptionMode.ECB,
+  EncryptionMode.CBC,
+  EncryptionMode.CTR,
+  EncryptionMode.GCM
+];
+const MAX_IMAGE_SIDE = 512; // pixels, larger images are scaled down before encrypting
+const CHANNELS = 4; // RGBA
+
+/**
+ * Whether an algorithm can run in a mode, from the same table the parameter form uses
+ */
+export function isImageModeSupported(algorithm: ImageLabAlgorithm, mode: EncryptionMode): boolean {
+  return getSupportedModes(algorithm).includes(mode);
+}
+
+/**
+ * A random raw key of the recommended size for the algorithm
+ */
+export function generateImageKey(algorithm: ImageLabAlgorithm): Uint8Array<ArrayBuffer> {
+  return window.crypto.getRandomValues(new Uint8Array(recommendKeySize(algorithm)));
+}
+
+/**
+ * Size to draw an image at so neither side exceeds the lab's limit
+ */
+export function fitImageSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Encrypts the RGB bytes of RGBA pixel data and returns opaque pixels of the
+ * same size. Block modes are PKCS7-padded, the stream modes are not padded.
+ */
+export async function encryptPixels(
+  pixels: Uint8ClampedArray,
+  algorithm: ImageLabAlgorithm,
+  mode: EncryptionMode,
+  key: Uint8Array<ArrayBuffer>
+): Promise<Uint8ClampedArray<ArrayBuffer>> {
+  const { padding } = resolveModeAndPadding(algorithm, { mode });
+  const pixelCount = pixels.length / CHANNELS;
+
+  const rgb = new Uint8Array(pixelCount * 3);
+  for (let i = 0; i < pixelCount; i++) {
+    rgb.set(pixels.subarray(i * CHANNELS, i * CHANNELS + 3), i * 3);
+  }
+
+  const { ciphertext } = await getCipherProvider(algorithm).encrypt({ key }, rgb, { mode, padding });
+
+  const encrypted = new Uint8ClampedArray(pixels.length);
+  for (let i = 0; i < pixelCount; i++) {
+    encrypted.set(ciphertext.subarray(i * 3, i * 3 + 3), i * CHANNELS);
+    encrypted[i * CHANNELS + 3] = 255;
+  }
+  return encrypted;
+}
+
+/**
+ * Downloads a canvas as a PNG image
+ */
+export function downloadCanvasPng(canvas: HTMLCanvasElement, fileName: string): void {
+  canvas.toBlob((blob) => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 'image/png');
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import type { EncryptionParams } from './encryption-service';
+import { stringToArrayBuffer } from './encoding';
+
+// Password-based key derivation functions
+export enum KeyDerivationFunction {
+  PBKDF2 = 'PBKDF2',
+  Scrypt = 'scrypt',
+  Argon2id = 'Argon2id'
+}
+
+// Cost parameters shared by all KDFs:
+// - PBKDF2 uses iterations only
+// - scrypt uses memory (KiB, N = memory with r = 8) and parallelism
+// - Argon2id uses iterations (time cost), memory (KiB) and parallelism
+export interface KdfParams {
+  kdf: KeyDerivationFunction;
+  iterations: number;
+  memory: number;
+  parallelism: number;
+}
+
+// Recommended starting points (OWASP Password Storage Cheat Sheet)
+export const KDF_DEFAULTS: Record<KeyDerivationFunction, KdfParams> = {
+  [KeyDerivationFunction.PBKDF2]: { kdf: KeyDerivationFunction.PBKDF2, iterations: 100000, memory: 0, parallelism: 1 },
+  [KeyDerivationFunction.Scrypt]: { kdf: KeyDerivationFunction.Scrypt, iterations: 1, memory: 32768, parallelism: 1 },
+  [KeyDerivationFunction.Argon2id]: { kdf: KeyDerivationFunction.Argon2id, iterations: 2, memory: 19456, parallelism: 1 }
+};
+
+// Constants
+const DERIVED_KEY_LENGTH = 32; // bytes, for AES-256
+const SCRYPT_BLOCK_SIZE = 8; // r, makes N equal to the memory cost in KiB
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const MAX_ARGON2_ITERATIONS = 100;
+const MAX_MEMORY = 1024 * 1024; // KiB (1 GiB), refuse ciphertexts that would exhaust the tab
+const MAX_PARALLELISM = 16;
+const CALIBRATION_TARGET_MIN = 50; // ms
+
+// KDF ids stored in ciphertext headers
+const KDF_IDS: Record<KeyDerivationFunction, number> = {
+  [KeyDerivationFunction.PBKDF2]: 0x01,
+  [KeyDerivationFunction.Scrypt]: 0x02,
+  [KeyDerivationFunction.Argon2id]: 0x03
+};
+
+// Serialized size of the KDF parameters: [id][iterations u32][memory u32][parallelism u8]
+export const KDF_HEADER_LENGTH = 10;
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+/**
+ * Checks KDF parameters from the UI or from a ciphertext header
+ */
+export function validateKdfParams(kdfParams: KdfParams): KdfParams {
+  const { kdf, iterations, memory, parallelism } = kdfParams;
+
+  const checkRange = (name: string, value: number, min: number, max: number) => {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${kdf} ${name} must be between ${min} and ${max}, got ${value}`);
+    }
+  };
+
+  switch (kdf) {
+    case KeyDerivationFunction.PBKDF2:
+      checkRange('iterations', iterations, 1, MAX_PBKDF2_ITERATIONS);
+      break;
+    case KeyDerivationFunction.Scrypt:
+      checkRange('memory (KiB)', memory, 16, MAX_MEMORY);
+      checkRange('parallelism', parallelism, 1, MAX_PARALLELISM);
+      if (!isPowerOfTwo(memory)) {
+        throw new Error(`scrypt memory (KiB) must be a power of two, got ${memory}`);
+      }
+      break;
+    case KeyDerivationFunction.Argon2id:
+      checkRange('iterations', iterations, 1, MAX_ARGON2_ITERATIONS);
+      checkRange('parallelism', parallelism, 1, MAX_PARALLELISM);
+      checkRange('memory (KiB)', memory, 8 * parallelism, MAX_MEMORY);
+      break;
+    default:
+      throw new Error(`Unsupported key derivation function: ${kdf}`);
+  }
+
+  return kdfParams;
+}
+
+/**
+ * Reads the KDF choice from encryption parameters, filling in the defaults
+ */
+export function getKdfParams(params: EncryptionParams): KdfParams {
+  const kdf = (params.kdf as KeyDerivationFunction) || KeyDerivationFunction.PBKDF2;
+  const defaults = KDF_DEFAULTS[kdf];
+  if (!defaults) {
+    throw new Error(`Unsupported key derivation function: ${params.kdf}`);
+  }
+
+  return validateKdfParams({
+    kdf,
+    iterations: params.iterations || defaults.iterations,
+    memory: params.memory || defaults.memory,
+    parallelism: params.parallelism || defaults.parallelism
+  });
+}
+
+/**
+ * Derives a 256-bit key from a password and salt
+ */
+export async function deriveKeyBytes(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  kdfParams: KdfParams
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { kdf, iterations, memory, parallelism } = validateKdfParams(kdfParams);
+  const passwordBytes = stringToArrayBuffer(password);
+
+  switch (kdf) {
+    case KeyDerivationFunction.PBKDF2: {
+      const baseKey = await window.crypto.subtle.importKey('raw', passwordBytes, 'PBKDF2', false, ['deriveBits']);
+      const bits = await window.crypto.subtle.deriveBits(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        DERIVED_KEY_LENGTH * 8
+      );
+      return new Uint8Array(bits);
+    }
+    case KeyDerivationFunction.Scrypt:
+      return new Uint8Array(await scryptAsync(passwordBytes, salt, {
+        N: memory,
+        r: SCRYPT_BLOCK_SIZE,
+        p: parallelism,
+        dkLen: DERIVED_KEY_LENGTH,
+        maxmem: 128 * SCRYPT_BLOCK_SIZE * (memory + parallelism + 1)
+      }));
+    case KeyDerivationFunction.Argon2id:
+      return new Uint8Array(await argon2idAsync(passwordBytes, salt, {
+        t: iterations,
+        m: memory,
+        p: parallelism,
+        dkLen: DERIVED_KEY_LENGTH
+      }));
+  }
+}
+
+/**
+ * Serializes KDF parameters for a ciphertext header
+ */
+export function encodeKdfParams(kdfParams: KdfParams): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(KDF_HEADER_LENGTH);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = KDF_IDS[kdfParams.kdf];
+  view.setUint32(1, kdfParams.iterations);
+  view.setUint32(5, kdfParams.memory);
+  bytes[9] = kdfParams.parallelism;
+  return bytes;
+}
+
+/**
+ * Reads and validates KDF parameters written by encodeKdfParams
+ */
+export function decodeKdfParams(bytes: Uint8Array): KdfParams {
+  if (bytes.length < KDF_HEADER_LENGTH) {
+    throw new Error('Ciphertext header is too short for its KDF parameters');
+  }
+
+  const kdf = (Object.keys(KDF_IDS) as KeyDerivationFunction[]).find(k => KDF_IDS[k] === bytes[0]);
+  if (!kdf) {
+    throw new Error(`Unknown key derivation function id: ${bytes[0]}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, KDF_HEADER_LENGTH);
+  return validateKdfParams({
+    kdf,
+    iterations: view.getUint32(1),
+    memory: view.getUint32(5),
+    parallelism: bytes[9]
+  });
+}
+
+// Time one derivation with throwaway inputs
+async function measureKdf(kdfParams: KdfParams): Promise<number> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const startTime = performance.now();
+  await deriveKeyBytes('calibration', salt, kdfParams);
+  return performance.now() - startTime;
+}
+
+/**
+ * Picks parameters for a KDF that take about targetMs on this device.
+ * PBKDF2 scales its iterations, scrypt its memory (as a power of two) and
+ * Argon2id its time cost at the default memory, lowering memory if even one
+ * pass is too slow.
+ */
+export async function calibrateKdf(
+  kdf: KeyDerivationFunction,
+  targetMs: number
+): Promise<{ params: KdfParams; estimatedMs: number }> {
+  const target = Math.max(CALIBRATION_TARGET_MIN, targetMs);
+  const defaults = KDF_DEFAULTS[kdf];
+
+  switch (kdf) {
+    case KeyDerivationFunction.PBKDF2: {
+      const sample = { ...defaults, iterations: 10000 };
+      const elapsed = await measureKdf(sample);
+      const iterations = Math.min(MAX_PBKDF2_ITERATIONS, Math.max(1000, Math.round(sample.iterations * target / elapsed)));
+      return { params: { ...defaults, iterations }, estimatedMs: elapsed * iterations / sample.iterations };
+    }
+    case KeyDerivationFunction.Scrypt: {
+      const sample = { ...defaults, memory: 4096 };
+      const elapsed = await measureKdf(sample);
+      const exponent = Math.round(Math.log2(sample.memory * target / elapsed));
+      const memory = 2 ** Math.min(Math.log2(MAX_MEMORY), Math.max(10, exponent));
+      return { params: { ...defaults, memory }, estimatedMs: elapsed * memory / sample.memory };
+    }
+    case KeyDerivationFunction.Argon2id: {
+      let memory = defaults.memory;
+      let elapsed = await measureKdf({ ...defaults, iterations: 1, memory });
+
+      // Halve the memory until a single pass fits in the budget
+      while (elapsed > target && memory > 1024) {
+        memory = Math.floor(memory / 2);
+        elapsed = await measureKdf({ ...defaults, iterations: 1, memory });
+      }
+
+      const iterations = Math.min(MAX_ARGON2_ITERATIONS, Math.max(1, Math.round(target / elapsed)));
+      return { params: { ...defaults, iterations, memory }, estimatedMs: elapsed * iterations };
+    }
+    default:
+      throw new Error(`Unsupported key derivation function: ${kdf}`);
+  }
+}
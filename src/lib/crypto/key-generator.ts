@@ -0,0 +1,167 @@
+"use client";
+
+import { EncryptionAlgorithm, recommendKeySize } from './encryption-service';
+import { KeyFormat, RAW_KEY_ALGORITHMS } from './key-import';
+import { arrayBufferToBase64, arrayBufferToHex } from './encoding';
+import { getDicewareWordlist } from './eff-wordlist';
+
+// Generators for keys and passphrases. Each draws uniformly from a set of
+// known size, so its entropy is exact: log2 of the number of possible outputs.
+
+export enum GeneratorMode {
+  Diceware = 'diceware',
+  Password = 'password',
+  RawKey = 'raw-key'
+}
+
+export enum CharacterClass {
+  Lowercase = 'lowercase',
+  Uppercase = 'uppercase',
+  Digits = 'digits',
+  Symbols = 'symbols'
+}
+
+export const CHARACTER_SETS: Record<CharacterClass, string> = {
+  [CharacterClass.Lowercase]: 'abcdefghijklmnopqrstuvwxyz',
+  [CharacterClass.Uppercase]: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  [CharacterClass.Digits]: '0123456789',
+  [CharacterClass.Symbols]: '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~'
+};
+
+export interface PasswordRules {
+  length: number;
+  classes: CharacterClass[];
+  requireEach: boolean; // at least one character of every class
+  excludeAmbiguous: boolean; // no characters that look alike, such as l, 1 and I
+}
+
+export interface GeneratedSecret {
+  value: string;
+  entropy: number; // bits
+  keyFormat: KeyFormat; // how the key field should read the value
+}
+
+// Constants
+const AMBIGUOUS_CHARACTERS = 'Il1|O0o`\'"';
+export const DICEWARE_DEFAULT_WORDS = 6;
+export const PASSWORD_DEFAULT_LENGTH = 20;
+
+
+// A uniform integer below max, rejecting the values that would bias the modulo
+function randomIndex(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const value = new Uint32Array(1);
+  do {
+    window.crypto.getRandomValues(value);
+  } while (value[0] >= limit);
+  return value[0] % max;
+}
+
+// log2 of a count too large for a double
+function log2BigInt(value: bigint): number {
+  const bits = value.toString(2).length;
+  return bits <= 53
+    ? Math.log2(Number(value))
+    : Math.log2(Number(value >> BigInt(bits - 53))) + bits - 53;
+}
+
+/**
+ * A diceware passphrase of words drawn from the EFF wordlist
+ */
+export function generateDicewarePassphrase(words: number, separator: string): GeneratedSecret {
+  if (!Number.isInteger(words) || words < 1) {
+    throw new Error(`Word count must be a positive integer, got ${words}`);
+  }
+  const list = getDicewareWordlist();
+  return {
+    value: Array.from({ length: words }, () => list[randomIndex(list.length)]).join(separator),
+    entropy: words * Math.log2(list.length),
+    keyFormat: KeyFormat.Passphrase
+  };
+}
+
+/**
+ * The characters a password can use under the rules, by class
+ */
+export function getPasswordAlphabets(rules: PasswordRules): string[] {
+  return rules.classes.map(characterClass => [...CHARACTER_SETS[characterClass]]
+    .filter(char => !rules.excludeAmbiguous || !AMBIGUOUS_CHARACTERS.includes(char))
+    .join(''));
+}
+
+/**
+ * Exact entropy of a random password under the rules. When every class is
+ * required, passwords missing one are excluded (counted by inclusion-exclusion).
+ */
+export function getPasswordEntropy(rules: PasswordRules): number {
+  const alphabets = getPasswordAlphabets(rules);
+  const total = alphabets.reduce((sum, alphabet) => sum + alphabet.length, 0);
+  if (total === 0 || rules.length < 1) return 0;
+  if (!rules.requireEach) return rules.length * Math.log2(total);
+
+  // Strings over the full alphabet, minus those avoiding any subset of the classes
+  let count = BigInt(0);
+  for (let subset = 0; subset < 1 << alphabets.length; subset++) {
+    let excluded = 0;
+    let size = 0;
+    alphabets.forEach((alphabet, i) => {
+      if (subset & (1 << i)) {
+        excluded += alphabet.length;
+        size++;
+      }
+    });
+    const term = BigInt(total - excluded) ** BigInt(rules.length);
+    count += size % 2 === 0 ? term : -term;
+  }
+  return count > BigInt(0) ? log2BigInt(count) : 0;
+}
+
+/**
+ * A random password following the rules. Passwords missing a required class
+ * are drawn again, which keeps the result uniform over the valid passwords.
+ */
+export function generateRandomPassword(rules: PasswordRules): GeneratedSecret {
+  const alphabets = getPasswordAlphabets(rules);
+  const alphabet = alphabets.join('');
+  if (alphabet.length === 0) {
+    throw new Error('Select at least one character class');
+  }
+  if (rules.requireEach && rules.length < alphabets.length) {
+    throw new Error(`A password with one character of each of ${alphabets.length} classes needs at least ${alphabets.length} characters`);
+  }
+
+  let value: string;
+  do {
+    value = Array.from({ length: rules.length }, () => alphabet[randomIndex(alphabet.length)]).join('');
+  } while (rules.requireEach && !alphabets.every(set => [...value].some(char => set.includes(char))));
+
+  return { value, entropy: getPasswordEntropy(rules), keyFormat: KeyFormat.Passphrase };
+}
+
+/**
+ * A random raw key of the algorithm's recommended size, as hex, Base64 or a JWK
+ */
+export function generateRawKey(algorithm: EncryptionAlgorithm, format: KeyFormat): GeneratedSecret {
+  if (!RAW_KEY_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`${algorithm} only takes a passphrase; raw keys work with ${RAW_KEY_ALGORITHMS.join(', ')}`);
+  }
+
+  const bytes = window.crypto.getRandomValues(new Uint8Array(recommendKeySize(algorithm)));
+  let value: string;
+  switch (format) {
+    case KeyFormat.Hex:
+      value = arrayBufferToHex(bytes);
+      break;
+    case KeyFormat.Base64:
+      value = arrayBufferToBase64(bytes);
+      break;
+    case KeyFormat.JWK: {
+      const k = arrayBufferToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+      value = JSON.stringify({ kty: 'oct', k });
+      break;
+    }
+    default:
+      throw new Error(`${format} is not a raw key format`);
+  }
+  return { value, entropy: bytes.length * 8, keyFormat: format };
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { EncryptionAlgorithm, EncryptionParams } from './cipher-provider';
+import { getCipherProvider, getCipherProviders } from './cipher-registry';
+import { base64ToArrayBuffer, hexToArrayBuffer } from './encoding';
+
+// How the key field is interpreted
+export enum KeyFormat {
+  Passphrase = 'passphrase', // stretched with a KDF (or the algorithm's own hashing)
+  Hex = 'hex',
+  Base64 = 'base64',
+  JWK = 'jwk'
+}
+
+// Algorithms that accept raw key bytes; the one-time pad and the public-key
+// ciphers take their keys as entered
+export const RAW_KEY_ALGORITHMS: EncryptionAlgorithm[] = getCipherProviders()
+  .filter(provider => provider.capabilities.rawKeys)
+  .map(provider => provider.algorithm);
+
+/**
+ * Raw key lengths in bytes an algorithm accepts
+ */
+export function getRawKeyLengths(algorithm: EncryptionAlgorithm): number[] {
+  return getCipherProvider(algorithm).capabilities.keySizes;
+}
+
+/**
+ * The key format chosen in the parameters, passphrase when unset
+ */
+export function getKeyFormat(params: EncryptionParams): KeyFormat {
+  const format = (params.keyFormat as KeyFormat) || KeyFormat.Passphrase;
+  if (!Object.values(KeyFormat).includes(format)) {
+    throw new Error(`Unsupported key format: ${params.keyFormat}`);
+  }
+  return format;
+}
+
+// Base64url without padding, as used by JWK
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return new Uint8Array(base64ToArrayBuffer(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+}
+
+// Read the key bytes of a symmetric ("oct") JSON Web Key
+function parseJwk(key: string): Uint8Array<ArrayBuffer> {
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(key);
+  } catch {
+    throw new Error('JWK key is not valid JSON');
+  }
+
+  if (jwk.kty !== 'oct' || typeof jwk.k !== 'string') {
+    throw new Error(`Expected a symmetric JWK (kty "oct") with a "k" value, got kty "${jwk.kty}"`);
+  }
+  return base64UrlToBytes(jwk.k);
+}
+
+/**
+ * Decodes the bytes of a raw key in the given format, whatever their length
+ */
+export function decodeRawKey(key: string, format: KeyFormat): Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case KeyFormat.Hex:
+      return hexToArrayBuffer(key.replace(/\s+/g, '').replace(/^0x/i, ''));
+    case KeyFormat.Base64:
+      return new Uint8Array(base64ToArrayBuffer(key.replace(/\s+/g, '')));
+    case KeyFormat.JWK:
+      return parseJwk(key);
+    default:
+      throw new Error(`${format} is not a raw key format`);
+  }
+}
+
+/**
+ * Decodes a raw key in the given format and checks its length for the algorithm
+ */
+export function parseRawKey(
+  key: string,
+  format: KeyFormat,
+  algorithm: EncryptionAlgorithm
+): Uint8Array<ArrayBuffer> {
+  if (!RAW_KEY_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`${algorithm} only takes a passphrase; raw keys work with ${RAW_KEY_ALGORITHMS.join(', ')}`);
+  }
+
+  const bytes = decodeRawKey(key, format);
+  const lengths = getRawKeyLengths(algorithm);
+  if (!lengths.includes(bytes.length)) {
+    const expected = lengths.length > 1
+      ? `${lengths.slice(0, -1).join(', ')} or ${lengths[lengths.length - 1]} bytes (${getCipherProvider(algorithm).capabilities.recommendedKeySize} recommended)`
+      : `${lengths[0]} bytes`;
+    throw new Error(`${algorithm} keys must be ${expected}, got ${bytes.length} bytes`);
+  }
+
+  return bytes;
+}
+
+/**
+ * The raw key bytes for the chosen format, or null for a passphrase
+ */
+export function getRawKey(
+  key: string,
+  algorithm: EncryptionAlgorithm,
+  params: EncryptionParams
+): Uint8Array<ArrayBuffer> | null {
+  const format = getKeyFormat(params);
+  return format === KeyFormat.Passphrase ? null : parseRawKey(key, format, algorithm);
+}
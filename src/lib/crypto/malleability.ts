@@ -0,0 +1,121 @@
+"use client";
+
+import { EncryptionAlgorithm, EncryptionMode, PaddingMethod } from './encryption-service';
+import { browserDecrypt, browserEncrypt } from './browser-crypto';
+import { decodeEnvelope, encodeEnvelope } from './envelope';
+import { AES_BLOCK_SIZE, aesDecrypt } from './aes-modes';
+import { arrayBufferToHex, hexToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { KeyFormat } from './key-import';
+
+// Bit-flipping: unauthenticated modes decrypt a modified ciphertext without
+// complaint. In CTR (and GCM's counter mode) flipping a ciphertext bit flips
+// the same plaintext bit; in CBC it flips that bit of the next block and
+// garbles the block it was made in. GCM's tag turns any edit into an error.
+
+// Constants
+const TAMPER_KEY_LENGTH = 16; // bytes, AES-128
+
+// The parts of an AES envelope an attacker can edit
+export interface TamperableBytes {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+// What the receiver gets from a (possibly) tampered envelope
+export interface TamperedDecryption {
+  text?: string; // from browserDecrypt, when it accepted the ciphertext
+  error?: string; // browserDecrypt's error otherwise
+  bytes?: Uint8Array; // the raw decryption, for the unauthenticated modes
+}
+
+/**
+ * A random AES-128 key as hex, used as a raw key so no KDF gets in the way
+ */
+export function generateTamperKey(): string {
+  return arrayBufferToHex(window.crypto.getRandomValues(new Uint8Array(TAMPER_KEY_LENGTH)));
+}
+
+/**
+ * Encrypts a message with AES in the given mode under a raw hex key
+ */
+export async function encryptForTampering(message: string, key: string, mode: EncryptionMode): Promise<string> {
+  const { result } = await browserEncrypt(message, key, EncryptionAlgorithm.AES, { mode, keyFormat: KeyFormat.Hex });
+  return result;
+}
+
+/**
+ * The IV and ciphertext of an envelope
+ */
+export function getTamperableBytes(envelope: string): TamperableBytes {
+  const { nonce, ciphertext } = decodeEnvelope(envelope);
+  return { iv: nonce ?? new Uint8Array(0), ciphertext };
+}
+
+/**
+ * The envelope with its IV and ciphertext replaced, everything else (the GCM tag included) kept
+ */
+export function replaceTamperableBytes(envelope: string, { iv, ciphertext }: TamperableBytes): string {
+  const decoded = decodeEnvelope(envelope);
+  return encodeEnvelope({ ...decoded, nonce: iv, ciphertext });
+}
+
+/**
+ * Computes the edit that turns known plaintext at byte offset into wanted
+ * text of the same length. CTR and GCM change the ciphertext at the same offset; CBC
+ * changes the previous ciphertext block (or the IV for the first block).
+ */
+export function planBitFlip(
+  mode: EncryptionMode,
+  bytes: TamperableBytes,
+  offset: number,
+  known: string,
+  wanted: string
+): TamperableBytes {
+  const knownBytes = stringToArrayBuffer(known);
+  const wantedBytes = stringToArrayBuffer(wanted);
+  if (knownBytes.length !== wantedBytes.length) {
+    throw new Error(`Bit flipping cannot change the length: "${known}" is ${knownBytes.length} bytes, "${wanted}" is ${wantedBytes.length}`);
+  }
+  if (offset < 0 || offset + knownBytes.length > bytes.ciphertext.length) {
+    throw new Error('The text to replace is not inside the ciphertext');
+  }
+
+  const iv = bytes.iv.slice();
+  const ciphertext = bytes.ciphertext.slice();
+  knownBytes.forEach((byte, i) => {
+    const delta = byte ^ wantedBytes[i];
+    const position = offset + i;
+    if (mode !== EncryptionMode.CBC) {
+      ciphertext[position] ^= delta;
+    } else if (position < AES_BLOCK_SIZE) {
+      iv[position] ^= delta;
+    } else {
+      ciphertext[position - AES_BLOCK_SIZE] ^= delta;
+    }
+  });
+  return { iv, ciphertext };
+}
+
+/**
+ * Decrypts an envelope the way the app does, and for the unauthenticated
+ * modes also returns the raw bytes, which browserDecrypt rejects when an edit
+ * leaves them invalid UTF-8
+ */
+export async function decryptTampered(envelope: string, key: string): Promise<TamperedDecryption> {
+  const decryption: TamperedDecryption = {};
+  try {
+    decryption.text = (await browserDecrypt(envelope, key, EncryptionAlgorithm.AES, { keyFormat: KeyFormat.Hex })).result;
+  } catch (error) {
+    decryption.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const { mode, padding, nonce, ciphertext } = decodeEnvelope(envelope);
+  if (mode && mode !== EncryptionMode.GCM) {
+    try {
+      decryption.bytes = await aesDecrypt(hexToArrayBuffer(key), { iv: nonce, ciphertext }, mode, padding ?? PaddingMethod.NoPadding);
+    } catch {
+      // Broken padding, browserDecrypt's error says so
+    }
+  }
+  return decryption;
+}
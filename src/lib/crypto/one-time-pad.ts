@@ -0,0 +1,118 @@
+"use client";
+
+import { stringToArrayBuffer, arrayBufferToBase64, arrayBufferToHex, base64ToArrayBuffer } from './encoding';
+
+// One-time pad over UTF-8 bytes. The pad is random, at least as long as the
+// message and used once; it travels in the key field as Base64 and can be
+// saved to or loaded from a binary .pad file.
+
+// Constants
+const MAX_RANDOM_CHUNK = 65536; // getRandomValues fills at most 64 KiB per call
+export const PAD_FILE_EXTENSION = '.pad';
+
+// Pads used to encrypt in this session, by SHA-256 fingerprint
+const padUses = new Map<string, number>();
+
+/**
+ * Generates a random pad of the given length in bytes
+ */
+export function generatePad(length: number): Uint8Array<ArrayBuffer> {
+  const pad = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += MAX_RANDOM_CHUNK) {
+    window.crypto.getRandomValues(pad.subarray(offset, Math.min(offset + MAX_RANDOM_CHUNK, length)));
+  }
+  return pad;
+}
+
+/**
+ * Number of bytes a message takes, which is the pad length it needs
+ */
+export function getMessageLength(text: string): number {
+  return stringToArrayBuffer(text).length;
+}
+
+/**
+ * Reads a Base64 pad from the key field
+ */
+export function parsePad(key: string): Uint8Array<ArrayBuffer> {
+  let pad: Uint8Array<ArrayBuffer>;
+  try {
+    pad = new Uint8Array(base64ToArrayBuffer(key.replace(/\s+/g, '')));
+  } catch {
+    throw new Error('One-time pad must be Base64; generate a pad or load a pad file');
+  }
+  if (pad.length === 0) {
+    throw new Error('One-time pad cannot be empty');
+  }
+  return pad;
+}
+
+/**
+ * Base64 form of a pad for the key field
+ */
+export function formatPad(pad: Uint8Array): string {
+  return arrayBufferToBase64(pad);
+}
+
+/**
+ * XORs data with the start of the pad. Shorter pads are refused: repeating
+ * one turns the cipher into a breakable repeating-key XOR.
+ */
+export function xorWithPad(data: Uint8Array, pad: Uint8Array): Uint8Array<ArrayBuffer> {
+  if (pad.length < data.length) {
+    throw new Error(
+      `One-time pad is ${pad.length} bytes but the message is ${data.length} bytes; the pad must be at least as long as the message`
+    );
+  }
+
+  const result = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    result[i] = data[i] ^ pad[i];
+  }
+  return result;
+}
+
+/**
+ * Records that a pad encrypted a message and returns how many times it had
+ * already been used in this session
+ */
+export async function recordPadUse(pad: Uint8Array<ArrayBuffer>): Promise<number> {
+  const fingerprint = arrayBufferToHex(await window.crypto.subtle.digest('SHA-256', pad));
+  const previousUses = padUses.get(fingerprint) ?? 0;
+  padUses.set(fingerprint, previousUses + 1);
+  return previousUses;
+}
+
+/**
+ * Warning shown when a pad is used again
+ */
+export function getPadReuseWarning(previousUses: number): string {
+  return `This one-time pad was already used ${previousUses} time${previousUses === 1 ? '' : 's'} in this session. ` +
+    'XORing two ciphertexts made with the same pad cancels it out and reveals both messages; generate a new pad.';
+}
+
+/**
+ * Downloads a pad as a binary .pad file
+ */
+export function downloadPadFile(pad: Uint8Array<ArrayBuffer>, fileName: string = 'one-time'): void {
+  try {
+    const blob = new Blob([pad], { type: 'application/octet-stream' });
+
+    // Create a download link
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}${PAD_FILE_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+
+    // Clean up
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 100);
+  } catch (error) {
+    console.error('Error downloading pad file:', error);
+    throw new Error(`Failed to download pad: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { EncryptionMode, PaddingMethod } from './encryption-service';
+import { AES_BLOCK_SIZE, aesDecrypt, aesEncrypt } from './aes-modes';
+import { stringToArrayBuffer } from './encoding';
+
+// A padding oracle attack against AES-CBC with PKCS7, run entirely in the
+// browser. The "server" holds a key the attacker never sees and answers one
+// question about a ciphertext: did it decrypt to valid padding? That single
+// bit is enough to decrypt everything, one byte at a time.
+
+// Constants
+const AES_KEY_LENGTH = 16; // bytes
+const PROGRESS_EVERY = 16; // queries between progress reports
+
+// What the attacker intercepts: the IV and ciphertext of one message
+export interface InterceptedMessage {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+// The server's only answer: whether the padding was valid
+export type PaddingOracle = (message: InterceptedMessage) => Promise<boolean>;
+
+// A server with a secret key, the message it sent and its oracle
+export interface OracleServer {
+  intercepted: InterceptedMessage;
+  oracle: PaddingOracle;
+  queries: () => number;
+}
+
+// Attack state after each step, for drawing
+export interface PaddingOracleProgress {
+  queries: number;
+  block: number; // 0-based ciphertext block being decrypted
+  blocks: number;
+  position: number; // byte of the block being guessed, counts down from 15
+  guess: number;
+  intermediate: (number | null)[]; // block decrypted under the key, before the XOR with the previous block
+  recovered: Uint8Array; // plaintext so far, padding included
+}
+
+/**
+ * Encrypts a message with AES-CBC and PKCS7 under a fresh random key and
+ * returns a server that reveals only whether a ciphertext's padding is valid
+ */
+export async function createOracleServer(message: string): Promise<OracleServer> {
+  const key = window.crypto.getRandomValues(new Uint8Array(AES_KEY_LENGTH));
+  const { ciphertext, iv } = await aesEncrypt(key, stringToArrayBuffer(message), EncryptionMode.CBC, PaddingMethod.PKCS7);
+
+  let queries = 0;
+  const oracle: PaddingOracle = async ({ iv, ciphertext }) => {
+    queries++;
+    try {
+      await aesDecrypt(key, { iv, ciphertext }, EncryptionMode.CBC, PaddingMethod.PKCS7);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  return { intercepted: { iv: iv!, ciphertext }, oracle, queries: () => queries };
+}
+
+/**
+ * Recovers the plaintext of an intercepted message from a padding oracle.
+ * Each ciphertext block is sent with a forged "previous block" whose last
+ * bytes are tuned until the padding is valid, which reveals the block's
+ * intermediate state and, XORed with the real previous block, the plaintext.
+ */
+export async function runPaddingOracleAttack(
+  { iv, ciphertext }: InterceptedMessage,
+  oracle: PaddingOracle,
+  onProgress?: (progress: PaddingOracleProgress) => void | Promise<void>
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (ciphertext.length === 0 || ciphertext.length % AES_BLOCK_SIZE !== 0) {
+    throw new Error(`Ciphertext must be a whole number of ${AES_BLOCK_SIZE}-byte blocks`);
+  }
+
+  const blocks = ciphertext.length / AES_BLOCK_SIZE;
+  const recovered = new Uint8Array(ciphertext.length);
+  let queries = 0;
+
+  for (let block = 0; block < blocks; block++) {
+    const target = ciphertext.slice(block * AES_BLOCK_SIZE, (block + 1) * AES_BLOCK_SIZE);
+    const previous = block === 0 ? iv : ciphertext.slice((block - 1) * AES_BLOCK_SIZE, block * AES_BLOCK_SIZE);
+    const intermediate: (number | null)[] = Array(AES_BLOCK_SIZE).fill(null);
+
+    for (let position = AES_BLOCK_SIZE - 1; position >= 0; position--) {
+      const padValue = AES_BLOCK_SIZE - position;
+      const forged = new Uint8Array(AES_BLOCK_SIZE);
+      // Make the bytes already known decrypt to the padding value
+      for (let i = position + 1; i < AES_BLOCK_SIZE; i++) {
+        forged[i] = intermediate[i]! ^ padValue;
+      }
+
+      let found = false;
+      for (let guess = 0; guess < 256 && !found; guess++) {
+        forged[position] = guess;
+        queries++;
+        if (await oracle({ iv: forged.slice(), ciphertext: target })) {
+          // For the last byte, a valid pad may be \x02\x02 rather than \x01;
+          // changing the byte before it tells the two apart
+          if (position === AES_BLOCK_SIZE - 1) {
+            const check = forged.slice();
+            check[position - 1] ^= 0xff;
+            queries++;
+            if (!(await oracle({ iv: check, ciphertext: target }))) {
+              continue;
+            }
+          }
+          intermediate[position] = guess ^ padValue;
+          recovered[block * AES_BLOCK_SIZE + position] = intermediate[position]! ^ previous[position];
+          found = true;
+        }
+        if (found || queries % PROGRESS_EVERY === 0) {
+          await onProgress?.({ queries, block, blocks, position, guess, intermediate: [...intermediate], recovered: recovered.slice() });
+        }
+      }
+      if (!found) {
+        throw new Error(`No guess gave valid padding for byte ${position} of block ${block + 1}; is this really a padding oracle?`);
+      }
+    }
+  }
+
+  // The last block ends in the PKCS7 padding the server added
+  const padLength = recovered[recovered.length - 1];
+  return recovered.slice(0, recovered.length - padLength);
+}
+
+/**
+ * The same question put to an AES-GCM server: a forged ciphertext never gets
+ * past the authentication tag, so every query gets the same answer. Returns
+ * how many of the 255 forgeries of the last byte were accepted.
+ */
+export async function probeGcmServer(message: string): Promise<number> {
+  const key = window.crypto.getRandomValues(new Uint8Array(AES_KEY_LENGTH));
+  const { ciphertext, iv, tag } = await aesEncrypt(key, stringToArrayBuffer(message), EncryptionMode.GCM, PaddingMethod.NoPadding);
+
+  let accepted = 0;
+  for (let guess = 1; guess < 256; guess++) {
+    const forged = ciphertext.slice();
+    forged[forged.length - 1] ^= guess;
+    try {
+      await aesDecrypt(key, { ciphertext: forged, iv, tag }, EncryptionMode.GCM, PaddingMethod.NoPadding);
+      accepted++;
+    } catch {
+      // Rejected before any plaintext or padding is looked at
+    }
+  }
+  return accepted;
+}
@@ -0,0 +1,801 @@
+"use client";
+
+import { KdfParams, KeyDerivationFunction } from './kdf';
+import { getEnglishWords } from './english-corpus';
+import { getDicewareWordlist } from './eff-wordlist';
+
+// Password strength as the number of guesses an attacker who knows how people
+// pick passwords would need. The password is split into the patterns such an
+// attacker tries first (dictionary words, l33t spellings, diceware passphrases,
+// keyboard walks, repeats, sequences, dates) and random characters; the split
+// that needs the fewest guesses is the estimate. The approach follows Dropbox's zxcvbn.
+
+// How a part of the password would be guessed
+export enum PasswordPattern {
+  Dictionary = 'dictionary',
+  Passphrase = 'passphrase',
+  Spatial = 'spatial',
+  Repeat = 'repeat',
+  Sequence = 'sequence',
+  Date = 'date',
+  Bruteforce = 'bruteforce'
+}
+
+export interface PasswordMatch {
+  pattern: PasswordPattern;
+  i: number; // first character
+  j: number; // last character
+  token: string;
+  guesses: number;
+  word?: string; // dictionary: the word as listed
+  commonPassword?: boolean; // dictionary: from the common password list rather than English
+  rank?: number; // dictionary: position in its list, 1 is the most common
+  reversed?: boolean; // dictionary
+  l33t?: boolean; // dictionary: spelled with substitutions such as @ for a
+  words?: number; // passphrase: diceware words
+  graph?: string; // spatial: the keyboard
+  turns?: number; // spatial: changes of direction
+  baseToken?: string; // repeat: the repeated part
+  repeatCount?: number; // repeat
+  ascending?: boolean; // sequence
+  period?: number; // sequence: characters between steps, above 1 for interleaved sequences
+  year?: number; // date
+}
+
+export interface PasswordFeedback {
+  warning: string | null;
+  suggestions: string[];
+}
+
+export interface PasswordStrength {
+  entropy: number; // bits, log2 of the guesses
+  guesses: number;
+  score: number; // 0-100 for strength bars, 100 bits or more fills one
+  label: string;
+  sequence: PasswordMatch[]; // the cheapest way to guess it, in order
+  feedback: PasswordFeedback;
+}
+
+// Who is guessing, and how fast
+export enum AttackerModel {
+  OnlineThrottled = 'online-throttled',
+  OnlineUnthrottled = 'online-unthrottled',
+  OfflineGpu = 'offline-gpu',
+  OfflineCluster = 'offline-cluster'
+}
+
+export interface AttackerProfile {
+  label: string;
+  online: boolean; // online guesses are limited by the server, not the KDF
+  rate: number; // guesses per second online, fast hash computations per second offline
+}
+
+// Offline rates are SHA-256 computations per second, about 1e10 on a current high-end GPU
+export const ATTACKER_MODELS: Record<AttackerModel, AttackerProfile> = {
+  [AttackerModel.OnlineThrottled]: { label: 'Online, rate limited (100/hour)', online: true, rate: 100 / 3600 },
+  [AttackerModel.OnlineUnthrottled]: { label: 'Online, no rate limit (10/s)', online: true, rate: 10 },
+  [AttackerModel.OfflineGpu]: { label: 'Offline, one GPU', online: false, rate: 1e10 },
+  [AttackerModel.OfflineCluster]: { label: 'Offline, 100-GPU cluster', online: false, rate: 1e12 }
+};
+
+export interface CrackTime {
+  guessesPerSecond: number;
+  seconds: number; // on average, half of the guesses
+  display: string;
+}
+
+// Constants
+const MAX_ANALYZED_LENGTH = 100; // characters searched for patterns
+const MIN_TOKEN_LENGTH = 3;
+const MIN_GUESSES_SINGLE_CHAR = 10;
+const MIN_GUESSES_MULTI_CHAR = 50;
+const MIN_GUESSES_PER_EXTRA_MATCH = 10000; // an attacker also has to guess how the parts combine
+const MIN_YEAR_SPACE = 20;
+const REFERENCE_YEAR = new Date().getFullYear();
+const MAX_SEQUENCE_DELTA = 5;
+const MAX_INTERLEAVE_PERIOD = 3;
+const MAX_L33T_COMBINATIONS = 64;
+const MEMORY_HARD_COST_PER_KIB = 500; // SHA-256 computations a GPU gives up per KiB of scrypt or Argon2 work
+const PASSPHRASE_SEPARATORS = ['', ' ', '-', '.', '_']; // as the diceware generator offers them
+const STRENGTH_LABELS: [number, string][] = [[80, 'Strong'], [60, 'Good'], [40, 'Fair'], [0, 'Weak']];
+
+// The most common leaked passwords, most common first. l33t spellings,
+// capitals and reversals of these are found by the matchers.
+const COMMON_PASSWORDS = [
+  '123456', 'password', '123456789', '12345678', '12345', 'qwerty', '1234567', '111111',
+  '1234567890', '123123', 'abc123', '1234', 'password1', 'iloveyou', '1q2w3e4r', '000000',
+  'qwerty123', 'zaq12wsx', 'dragon', 'sunshine', 'princess', 'letmein', '654321', 'monkey',
+  '1qaz2wsx', '123321', 'qwertyuiop', 'superman', 'asdfghjkl', 'trustno1', 'football', 'baseball',
+  'welcome', 'shadow', 'master', 'michael', 'jennifer', 'hunter', 'jordan', 'harley',
+  'ranger', 'buster', 'soccer', 'hockey', 'killer', 'george', 'charlie', 'andrew',
+  'michelle', 'love', 'secret', 'summer', 'winter', 'freedom', 'whatever', 'computer',
+  'internet', 'starwars', 'pokemon', 'batman', 'cheese', 'flower', 'hello', 'admin',
+  'login', 'access', 'mustang', 'thomas', 'robert', 'daniel', 'ashley', 'bailey',
+  'pepper', 'ginger', 'joshua', 'matthew', 'jessica', 'amanda', 'nicole', 'chelsea',
+  'biteme', 'maggie', 'yankees', 'dallas', 'austin', 'thunder', 'taylor', 'matrix',
+  'cookie', 'banana', 'orange', 'purple', 'chocolate', 'butterfly', 'lovely', 'angel',
+  'tigger', 'hannah', 'samsung', 'google', 'apple', 'liverpool', 'arsenal', 'tottenham',
+  'corvette', 'ferrari', 'mercedes', 'porsche', 'london', 'paris', 'america', 'canada',
+  'qazwsx', 'asdf', 'zxcvbnm', 'passw0rd', 'changeme', 'default', 'guest', 'root',
+  'test', 'temp', 'pass', 'god', 'sex', 'money', 'family', 'friends',
+  'forever', 'blessed', 'jesus', 'christ', 'heaven', 'angels', 'football1', 'monkey1',
+  'baby', 'babygirl', 'lovers', 'lover', 'iloveu', 'loveme', 'fuckyou', 'asshole',
+  'dolphin', 'eagle', 'tiger', 'lion', 'bear', 'wolf', 'hammer', 'silver',
+  'golden', 'diamond', 'crystal', 'rainbow', 'sparky', 'snoopy', 'scooter', 'cowboy'
+];
+
+const L33T_TABLE: Record<string, string[]> = {
+  a: ['4', '@'],
+  b: ['8'],
+  c: ['(', '{', '[', '<'],
+  e: ['3'],
+  g: ['6', '9'],
+  i: ['1', '!', '|'],
+  l: ['1', '|', '7'],
+  o: ['0'],
+  s: ['$', '5'],
+  t: ['+', '7'],
+  x: ['%'],
+  z: ['2']
+};
+
+// US keyboard rows, unshifted and shifted, and how far each row is indented in key widths
+const QWERTY_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+const QWERTY_SHIFTED_ROWS = ['~!@#$%^&*()_+', 'QWERTYUIOP{}|', 'ASDFGHJKL:"', 'ZXCVBNM<>?'];
+const QWERTY_ROW_OFFSETS = [0, 1.5, 1.75, 2.25];
+const KEYPAD_ROWS = ['/*-', '789+', '456', '123', '0.'];
+const KEYPAD_ROW_OFFSETS = [1, 0, 0, 0, 0];
+
+interface KeyboardGraph {
+  name: string;
+  neighbors: Map<string, { char: string; direction: string }[]>;
+  shifted: Set<string>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+let dictionary: Map<string, { rank: number; commonPassword: boolean }> | null = null;
+let graphs: KeyboardGraph[] | null = null;
+let dicewareWords: Set<string> | null = null;
+
+// Common passwords, English words and the diceware list, each with its rank
+function getDictionary(): Map<string, { rank: number; commonPassword: boolean }> {
+  if (!dictionary) {
+    dictionary = new Map();
+    getEnglishWords().forEach((word, index) => dictionary!.set(word, { rank: index + 1, commonPassword: false }));
+    COMMON_PASSWORDS.forEach((word, index) => {
+      const existing = dictionary!.get(word);
+      if (!existing || existing.rank > index + 1) {
+        dictionary!.set(word, { rank: index + 1, commonPassword: true });
+      }
+    });
+    // Diceware words are drawn uniformly, so each costs the size of the list
+    const diceware = getDicewareWordlist();
+    diceware.forEach(word => {
+      if (!dictionary!.has(word)) {
+        dictionary!.set(word, { rank: diceware.length, commonPassword: false });
+      }
+    });
+  }
+  return dictionary;
+}
+
+function buildKeyboardGraph(name: string, rows: string[], shiftedRows: string[], offsets: number[]): KeyboardGraph {
+  const keys = rows.flatMap((row, r) => [...row].map((char, c) => ({
+    r,
+    x: offsets[r] + c,
+    chars: [char, shiftedRows[r]?.[c]].filter((key): key is string => key !== undefined)
+  })));
+
+  const neighbors = new Map<string, { char: string; direction: string }[]>();
+  let degrees = 0;
+  for (const key of keys) {
+    const adjacent = keys.filter(other => other !== key && (other.r === key.r
+      ? Math.abs(other.x - key.x) === 1
+      : Math.abs(other.r - key.r) === 1 && Math.abs(other.x - key.x) <= 1));
+    degrees += adjacent.length;
+    const list = adjacent.flatMap(other => other.chars.map(char => ({
+      char,
+      direction: `${other.r - key.r},${Math.sign(other.x - key.x)}`
+    })));
+    key.chars.forEach(char => neighbors.set(char, list));
+  }
+
+  return {
+    name,
+    neighbors,
+    shifted: new Set(shiftedRows.join('')),
+    startingPositions: keys.length,
+    averageDegree: degrees / keys.length
+  };
+}
+
+function getKeyboardGraphs(): KeyboardGraph[] {
+  graphs ??= [
+    buildKeyboardGraph('QWERTY', QWERTY_ROWS, QWERTY_SHIFTED_ROWS, QWERTY_ROW_OFFSETS),
+    buildKeyboardGraph('keypad', KEYPAD_ROWS, [], KEYPAD_ROW_OFFSETS)
+  ];
+  return graphs;
+}
+
+function binomial(n: number, k: number): number {
+  if (k > n) return 0;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d;
+  }
+  return result;
+}
+
+// Ways to mix two kinds of characters, e.g. capitals among lowercase letters
+function mixVariations(changed: number, unchanged: number): number {
+  if (changed === 0) return 1;
+  if (unchanged === 0) return 2;
+  let variations = 0;
+  for (let k = 1; k <= Math.min(changed, unchanged); k++) {
+    variations += binomial(changed + unchanged, k);
+  }
+  return variations;
+}
+
+// Capitalizing the first or last letter, or all of them, barely helps
+function uppercaseVariations(token: string): number {
+  if (!/[A-Z]/.test(token)) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || !/[a-z]/.test(token)) return 2;
+  return mixVariations((token.match(/[A-Z]/g) ?? []).length, (token.match(/[a-z]/g) ?? []).length);
+}
+
+function dictionaryMatches(password: string, translated = password.toLowerCase()): PasswordMatch[] {
+  const words = getDictionary();
+  const matches: PasswordMatch[] = [];
+  for (let i = 0; i < translated.length; i++) {
+    for (let j = i + MIN_TOKEN_LENGTH - 1; j < translated.length; j++) {
+      const word = translated.slice(i, j + 1);
+      const entry = words.get(word);
+      if (!entry) continue;
+      const token = password.slice(i, j + 1);
+      matches.push({
+        pattern: PasswordPattern.Dictionary,
+        i,
+        j,
+        token,
+        word,
+        rank: entry.rank,
+        commonPassword: entry.commonPassword,
+        guesses: entry.rank * uppercaseVariations(token)
+      });
+    }
+  }
+  return matches;
+}
+
+function reversedDictionaryMatches(password: string): PasswordMatch[] {
+  const reversed = [...password].reverse().join('');
+  return dictionaryMatches(reversed).map(match => ({
+    ...match,
+    i: password.length - 1 - match.j,
+    j: password.length - 1 - match.i,
+    token: [...match.token].reverse().join(''),
+    reversed: true,
+    guesses: match.guesses * 2
+  }));
+}
+
+// Tries each reading of the substituted characters (1 may stand for i or l)
+function l33tMatches(password: string): PasswordMatch[] {
+  const substitutes = new Map<string, string[]>();
+  for (const [letter, subs] of Object.entries(L33T_TABLE)) {
+    for (const sub of subs) {
+      if (password.includes(sub)) {
+        substitutes.set(sub, [...(substitutes.get(sub) ?? []), letter]);
+      }
+    }
+  }
+  if (substitutes.size === 0) return [];
+
+  let readings: Map<string, string>[] = [new Map()];
+  for (const [sub, letters] of substitutes) {
+    const options = readings.length * letters.length <= MAX_L33T_COMBINATIONS ? letters : letters.slice(0, 1);
+    readings = readings.flatMap(reading => options.map(letter => new Map(reading).set(sub, letter)));
+  }
+
+  const matches: PasswordMatch[] = [];
+  for (const reading of readings) {
+    const translated = [...password].map(char => reading.get(char) ?? char).join('').toLowerCase();
+    for (const match of dictionaryMatches(password, translated)) {
+      const used = [...reading].filter(([sub]) => match.token.includes(sub));
+      if (used.length === 0 || match.token.length <= 1) continue;
+
+      const lowerToken = match.token.toLowerCase();
+      const variations = used.reduce((product, [sub, letter]) =>
+        product * mixVariations(lowerToken.split(sub).length - 1, lowerToken.split(letter).length - 1), 1);
+      matches.push({ ...match, l33t: true, guesses: match.guesses * variations });
+    }
+  }
+  return matches;
+}
+
+// Runs of two or more diceware words joined by one separator. The generator
+// draws each word uniformly from the EFF list, so a word costs the size of the
+// list however common it is, and the words' order needs no guessing.
+function passphraseMatches(password: string): PasswordMatch[] {
+  const wordlist = getDicewareWordlist();
+  dicewareWords ??= new Set(wordlist);
+  const maxWordLength = Math.max(...wordlist.map(word => word.length));
+  const lower = password.toLowerCase();
+  const matches: PasswordMatch[] = [];
+
+  for (const separator of PASSPHRASE_SEPARATORS) {
+    for (let i = 0; i < lower.length; i++) {
+      // Fewest words from i to where a word may start, and to where one ends
+      const starts = new Map<number, number>([[i, 0]]);
+      const ends = new Map<number, number>();
+      for (let position = i; position < lower.length; position++) {
+        const count = starts.get(position);
+        if (count === undefined) continue;
+        for (let length = MIN_TOKEN_LENGTH; length <= maxWordLength && position + length <= lower.length; length++) {
+          if (!dicewareWords.has(lower.slice(position, position + length))) continue;
+          const end = position + length;
+          if ((ends.get(end) ?? Infinity) > count + 1) {
+            ends.set(end, count + 1);
+          }
+          const next = end + separator.length;
+          if (lower.startsWith(separator, end) && (starts.get(next) ?? Infinity) > count + 1) {
+            starts.set(next, count + 1);
+          }
+        }
+      }
+
+      for (const [end, words] of ends) {
+        if (words < 2) continue;
+        const token = password.slice(i, end);
+        matches.push({
+          pattern: PasswordPattern.Passphrase,
+          i,
+          j: end - 1,
+          token,
+          words,
+          guesses: wordlist.length ** words * uppercaseVariations(token)
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+function spatialGuesses(length: number, turns: number, shifted: number, graph: KeyboardGraph): number {
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += binomial(i - 1, j - 1) * graph.startingPositions * graph.averageDegree ** j;
+    }
+  }
+  return guesses * mixVariations(shifted, length - shifted);
+}
+
+// Runs of adjacent keys, such as qwerty, zxcvbn or 7896
+function spatialMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  for (const graph of getKeyboardGraphs()) {
+    let i = 0;
+    while (i < password.length - 1) {
+      let j = i;
+      let turns = 0;
+      let direction: string | null = null;
+      let shifted = graph.shifted.has(password[i]) ? 1 : 0;
+      while (j < password.length - 1) {
+        const next = graph.neighbors.get(password[j])?.find(neighbor => neighbor.char === password[j + 1]);
+        if (!next) break;
+        if (next.direction !== direction) {
+          turns++;
+          direction = next.direction;
+        }
+        if (graph.shifted.has(next.char)) shifted++;
+        j++;
+      }
+      if (j - i + 1 >= MIN_TOKEN_LENGTH) {
+        matches.push({
+          pattern: PasswordPattern.Spatial,
+          i,
+          j,
+          token: password.slice(i, j + 1),
+          graph: graph.name,
+          turns,
+          guesses: spatialGuesses(j - i + 1, turns, shifted, graph)
+        });
+      }
+      i = j + 1;
+    }
+  }
+  return matches;
+}
+
+// Repeated characters or chunks, such as aaaa or abcabcabc
+function repeatMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  let last = 0;
+  while (last < password.length) {
+    greedy.lastIndex = lazy.lastIndex = last;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    // The greedy match covers more (abcabc in aabcabc), its shortest repeating unit is the base
+    const useGreedy = greedyMatch[0].length > lazyMatch[0].length;
+    const match = useGreedy ? greedyMatch : lazyMatch;
+    const baseToken = useGreedy ? /^(.+?)\1+$/.exec(match[0])![1] : match[1];
+    const repeatCount = match[0].length / baseToken.length;
+    matches.push({
+      pattern: PasswordPattern.Repeat,
+      i: match.index,
+      j: match.index + match[0].length - 1,
+      token: match[0],
+      baseToken,
+      repeatCount,
+      guesses: estimatePasswordStrength(baseToken).guesses * repeatCount
+    });
+    last = match.index + match[0].length;
+  }
+  return matches;
+}
+
+// Sequences starting at an obvious place are tried first, descending ones after ascending ones
+function sequenceStartGuesses(first: string, delta: number): number {
+  const base = 'aAzZ019'.includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+  return delta < 0 ? base * 2 : base;
+}
+
+// Characters with a constant step, such as abcd, 2468 or ZYX
+function sequenceMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const add = (i: number, j: number, delta: number) => {
+    const token = password.slice(i, j + 1);
+    if (j - i + 1 < MIN_TOKEN_LENGTH || delta === 0 || Math.abs(delta) > MAX_SEQUENCE_DELTA) return;
+    if (!/^([a-z]+|[A-Z]+|\d+)$/.test(token)) return;
+
+    matches.push({
+      pattern: PasswordPattern.Sequence,
+      i,
+      j,
+      token,
+      ascending: delta > 0,
+      guesses: sequenceStartGuesses(token[0], delta) * token.length
+    });
+  };
+
+  let i = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    lastDelta ??= delta;
+    if (delta === lastDelta) continue;
+    add(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+  if (lastDelta !== null) add(i, password.length - 1, lastDelta);
+  return matches;
+}
+
+// Sequences woven together, such as a1b2c3 or AaBbCc: every period-th
+// character steps by the same amount as the one a period earlier
+function interleavedSequenceMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  for (let period = 2; period <= MAX_INTERLEAVE_PERIOD; period++) {
+    for (let i = 0; i + period * MIN_TOKEN_LENGTH <= password.length; i++) {
+      const deltas: number[] = [];
+      let j = i + period - 1;
+      while (j + 1 < password.length) {
+        const delta = password.charCodeAt(j + 1) - password.charCodeAt(j + 1 - period);
+        const phase = (j + 1 - i) % period;
+        if (deltas[phase] === undefined ? Math.abs(delta) > MAX_SEQUENCE_DELTA : delta !== deltas[phase]) break;
+        deltas[phase] = delta;
+        j++;
+      }
+
+      const token = password.slice(i, j + 1);
+      if (token.length < period * MIN_TOKEN_LENGTH || deltas.every(delta => delta === 0)) continue;
+      const phases = deltas.map((_, phase) => [...token].filter((_, k) => k % period === phase).join(''));
+      if (!phases.every(chars => /^([a-z]+|[A-Z]+|\d+)$/.test(chars))) continue;
+      matches.push({
+        pattern: PasswordPattern.Sequence,
+        i,
+        j,
+        token,
+        ascending: deltas.every(delta => delta >= 0),
+        period,
+        guesses: phases.reduce((product, chars, phase) => product * sequenceStartGuesses(chars[0], deltas[phase]), 1) * token.length
+      });
+    }
+  }
+  return matches;
+}
+
+// A year from a 2 or 4 digit string, null when it is not a plausible one
+function toYear(digits: string): number | null {
+  const value = Number(digits);
+  if (digits.length === 2) return value > 50 ? 1900 + value : 2000 + value;
+  if (digits.length === 4 && value >= 1000 && value <= REFERENCE_YEAR + 25) return value;
+  return null;
+}
+
+const yearGuesses = (year: number) => Math.max(Math.abs(REFERENCE_YEAR - year), MIN_YEAR_SPACE);
+
+// The year of a day-month-year, month-day-year or year-month-day reading, closest to now
+function readDate(parts: string[]): number | null {
+  const readings = [[parts[0], parts[1], parts[2]], [parts[1], parts[0], parts[2]], [parts[2], parts[1], parts[0]]];
+  let best: number | null = null;
+  for (const [day, month, yearDigits] of readings) {
+    const year = toYear(yearDigits);
+    if (year === null || day.length > 2 || month.length > 2) continue;
+    if (Number(day) < 1 || Number(day) > 31 || Number(month) < 1 || Number(month) > 12) continue;
+    if (best === null || yearGuesses(year) < yearGuesses(best)) best = year;
+  }
+  return best;
+}
+
+// Years on their own, and dates with or without separators (1231, 31.12.1999)
+function dateMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  for (const match of password.matchAll(/(?=(19\d\d|20\d\d))/g)) {
+    const year = Number(match[1]);
+    matches.push({ pattern: PasswordPattern.Date, i: match.index, j: match.index + 3, token: match[1], year, guesses: yearGuesses(year) });
+  }
+
+  for (let i = 0; i < password.length; i++) {
+    for (let j = i + 3; j < Math.min(password.length, i + 10); j++) {
+      const token = password.slice(i, j + 1);
+      let year: number | null = null;
+      let separated = false;
+
+      const withSeparator = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/.exec(token);
+      if (withSeparator) {
+        year = readDate([withSeparator[1], withSeparator[3], withSeparator[4]]);
+        separated = true;
+      } else if (/^\d{4,8}$/.test(token)) {
+        // Try every split into three parts
+        for (let a = 1; a < token.length - 1 && year === null; a++) {
+          for (let b = a + 1; b < token.length && year === null; b++) {
+            year = readDate([token.slice(0, a), token.slice(a, b), token.slice(b)]);
+          }
+        }
+      }
+
+      if (year !== null) {
+        matches.push({
+          pattern: PasswordPattern.Date,
+          i,
+          j,
+          token,
+          year,
+          guesses: 365 * yearGuesses(year) * (separated ? 4 : 1)
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+// Size of the character set random characters are drawn from
+function bruteforceCardinality(password: string): number {
+  let cardinality = 0;
+  if (/[a-z]/.test(password)) cardinality += 26;
+  if (/[A-Z]/.test(password)) cardinality += 26;
+  if (/\d/.test(password)) cardinality += 10;
+  if (/[^a-zA-Z\d]/.test(password)) cardinality += 33;
+  return Math.max(cardinality, 10);
+}
+
+// log2(2^a + 2^b) without overflowing
+const log2Sum = (a: number, b: number) => Math.max(a, b) + Math.log2(1 + 2 ** (Math.min(a, b) - Math.max(a, b)));
+
+/**
+ * Finds the sequence of matches covering the password that needs the fewest
+ * guesses: the product of each part's guesses, times the number of orders the
+ * parts could come in, plus a minimum for every extra part
+ */
+function mostGuessableSequence(password: string, matches: PasswordMatch[]): { entropy: number; sequence: PasswordMatch[] } {
+  const n = password.length;
+  const cardinality = bruteforceCardinality(password);
+  const byEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+  matches.forEach(match => byEnd[match.j].push(match));
+
+  // cost[k][l]: fewest log2 guesses covering password[0..k] with l matches
+  const cost = Array.from({ length: n }, () => new Float64Array(n + 1).fill(Infinity));
+  const from: (PasswordMatch | null)[][] = Array.from({ length: n }, () => new Array(n + 1).fill(null));
+
+  for (let k = 0; k < n; k++) {
+    const candidates = [...byEnd[k]];
+    for (let i = 0; i <= k; i++) {
+      const token = password.slice(i, k + 1);
+      candidates.push({ pattern: PasswordPattern.Bruteforce, i, j: k, token, guesses: cardinality ** token.length });
+    }
+
+    for (const match of candidates) {
+      const minimum = match.token.length === n ? 1 : match.token.length === 1 ? MIN_GUESSES_SINGLE_CHAR : MIN_GUESSES_MULTI_CHAR;
+      const bits = Math.log2(Math.max(match.guesses, minimum));
+      if (match.i === 0) {
+        if (bits < cost[k][1]) {
+          cost[k][1] = bits;
+          from[k][1] = match;
+        }
+        continue;
+      }
+      const previous = cost[match.i - 1];
+      for (let l = 1; l < n; l++) {
+        if (previous[l] + bits < cost[k][l + 1]) {
+          cost[k][l + 1] = previous[l] + bits;
+          from[k][l + 1] = match;
+        }
+      }
+    }
+  }
+
+  let best = Infinity;
+  let bestCount = 1;
+  let log2Factorial = 0;
+  for (let l = 1; l <= n; l++) {
+    log2Factorial += Math.log2(l);
+    const total = log2Sum(cost[n - 1][l] + log2Factorial, (l - 1) * Math.log2(MIN_GUESSES_PER_EXTRA_MATCH));
+    if (total < best) {
+      best = total;
+      bestCount = l;
+    }
+  }
+
+  const sequence: PasswordMatch[] = [];
+  for (let k = n - 1, l = bestCount; k >= 0; l--) {
+    const match = from[k][l]!;
+    sequence.unshift(match);
+    k = match.i - 1;
+  }
+  return { entropy: best, sequence };
+}
+
+function getFeedback(sequence: PasswordMatch[], entropy: number): PasswordFeedback {
+  if (sequence.length === 0) {
+    return { warning: null, suggestions: ['Use a few words, avoid common phrases', 'No need for symbols, digits, or uppercase letters'] };
+  }
+  if (entropy >= 60) {
+    return { warning: null, suggestions: [] };
+  }
+
+  // Explain the longest predictable part
+  const longest = sequence
+    .filter(match => match.pattern !== PasswordPattern.Bruteforce)
+    .sort((a, b) => b.token.length - a.token.length)[0];
+  const suggestions = ['Add another word or two. Uncommon words are better.'];
+  if (!longest) {
+    return { warning: null, suggestions };
+  }
+
+  let warning: string | null = null;
+  switch (longest.pattern) {
+    case PasswordPattern.Dictionary:
+      if (longest.commonPassword) {
+        warning = longest.rank! <= 10 ? 'This is a top-10 common password' : 'This is similar to a commonly used password';
+      } else if (sequence.length === 1) {
+        warning = 'A word by itself is easy to guess';
+      }
+      if (/^[A-Z][^A-Z]+$/.test(longest.token)) suggestions.push('Capitalization doesn\'t help very much');
+      else if (!/[a-z]/.test(longest.token) && /[A-Z]/.test(longest.token)) suggestions.push('All-uppercase is almost as easy to guess as all-lowercase');
+      if (longest.reversed) suggestions.push('Reversed words aren\'t much harder to guess');
+      if (longest.l33t) suggestions.push('Predictable substitutions like \'@\' instead of \'a\' don\'t help very much');
+      break;
+    case PasswordPattern.Spatial:
+      warning = longest.turns === 1 ? 'Straight rows of keys are easy to guess' : 'Short keyboard patterns are easy to guess';
+      suggestions.push('Use a longer keyboard pattern with more turns');
+      break;
+    case PasswordPattern.Repeat:
+      warning = longest.baseToken!.length === 1
+        ? 'Repeats like "aaa" are easy to guess'
+        : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"';
+      suggestions.push('Avoid repeated words and characters');
+      break;
+    case PasswordPattern.Sequence:
+      warning = 'Sequences like abc or 6543 are easy to guess';
+      suggestions.push('Avoid sequences');
+      break;
+    case PasswordPattern.Date:
+      warning = longest.token.length === 4 && /^\d+$/.test(longest.token) ? 'Recent years are easy to guess' : 'Dates are often easy to guess';
+      suggestions.push('Avoid dates and years that are associated with you');
+      break;
+  }
+  return { warning, suggestions };
+}
+
+/**
+ * Estimates how many guesses a password needs, with the patterns found and
+ * feedback on how to improve it
+ */
+export function estimatePasswordStrength(password: string): PasswordStrength {
+  // Only the start of a long password is searched for patterns, to bound the
+  // search, and the rest is counted as a repeat of it. That errs low only for
+  // passwords that are long and random enough to be strong either way.
+  const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+  const matches = [
+    ...dictionaryMatches(analyzed),
+    ...reversedDictionaryMatches(analyzed),
+    ...l33tMatches(analyzed),
+    ...passphraseMatches(analyzed),
+    ...spatialMatches(analyzed),
+    ...repeatMatches(analyzed),
+    ...sequenceMatches(analyzed),
+    ...interleavedSequenceMatches(analyzed),
+    ...dateMatches(analyzed)
+  ];
+  const best = analyzed ? mostGuessableSequence(analyzed, matches) : { entropy: 0, sequence: [] };
+  let { entropy } = best;
+  const sequence = [...best.sequence];
+
+  if (password.length > analyzed.length) {
+    const repeatCount = password.length / analyzed.length;
+    entropy += Math.log2(repeatCount);
+    sequence.push({
+      pattern: PasswordPattern.Repeat,
+      i: analyzed.length,
+      j: password.length - 1,
+      token: password.slice(analyzed.length),
+      baseToken: analyzed,
+      repeatCount,
+      guesses: repeatCount
+    });
+  }
+
+  return {
+    entropy,
+    guesses: 2 ** entropy,
+    score: Math.min(100, Math.round(entropy)),
+    label: STRENGTH_LABELS.find(([bits]) => entropy >= bits)![1],
+    sequence,
+    feedback: getFeedback(sequence, entropy)
+  };
+}
+
+/**
+ * SHA-256 computations an offline attacker spends on one guess through the
+ * KDF, 1 when the password is only hashed once (or not stretched at all)
+ */
+export function getKdfCost(kdfParams: KdfParams | null): number {
+  if (!kdfParams) return 1;
+  switch (kdfParams.kdf) {
+    case KeyDerivationFunction.PBKDF2:
+      return 2 * kdfParams.iterations; // two compressions per HMAC
+    case KeyDerivationFunction.Scrypt:
+    case KeyDerivationFunction.Argon2id:
+      return kdfParams.memory * Math.max(1, kdfParams.iterations) * kdfParams.parallelism * MEMORY_HARD_COST_PER_KIB;
+    default:
+      return 1;
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const units: [number, string][] = [
+    [60 * 60 * 24 * 365 * 100, 'century'],
+    [60 * 60 * 24 * 365, 'year'],
+    [60 * 60 * 24 * 30, 'month'],
+    [60 * 60 * 24, 'day'],
+    [60 * 60, 'hour'],
+    [60, 'minute'],
+    [1, 'second']
+  ];
+  if (seconds < 1) return 'less than a second';
+  if (seconds >= 1e4 * units[0][0]) return 'longer than a million years';
+
+  const [size, unit] = units.find(([unitSeconds]) => seconds >= unitSeconds)!;
+  const count = Math.round(seconds / size);
+  if (unit === 'century') return count === 1 ? '1 century' : `${count} centuries`;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Average time for an attacker to guess a password needing the given number of guesses
+ */
+export function estimateCrackTime(guesses: number, attacker: AttackerModel, kdfParams: KdfParams | null): CrackTime {
+  const profile = ATTACKER_MODELS[attacker];
+  const guessesPerSecond = profile.online ? profile.rate : profile.rate / getKdfCost(kdfParams);
+  const seconds = guesses / 2 / guessesPerSecond;
+  return { guessesPerSecond, seconds, display: formatDuration(seconds) };
+}
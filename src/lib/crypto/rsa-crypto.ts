@@ -0,0 +1,181 @@
+"use client";
+
+import {
+  stringToArrayBuffer,
+  arrayBufferToString,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  arrayBufferToPem,
+  pemToArrayBuffer
+} from './encoding';
+import { KeyPairPem } from './cipher-provider';
+
+// Supported RSA modulus lengths in bits
+export const RSA_MODULUS_LENGTHS = [2048, 3072, 4096] as const;
+export type RsaModulusLength = typeof RSA_MODULUS_LENGTHS[number];
+
+// Constants
+const OAEP_HASH = 'SHA-256';
+const OAEP_HASH_LENGTH = 32; // bytes
+const AES_IV_LENGTH = 12; // bytes for AES-GCM
+
+// Output format markers (first byte of the decoded ciphertext)
+const FORMAT_DIRECT = 0x01; // [0x01][RSA-OAEP ciphertext]
+const FORMAT_HYBRID = 0x02; // [0x02][RSA-OAEP wrapped AES key][IV][AES-GCM ciphertext]
+
+// Largest plaintext RSA-OAEP can encrypt directly for a modulus (RFC 8017, 7.1.1)
+function getMaxOaepLength(modulusLength: number): number {
+  return modulusLength / 8 - 2 * OAEP_HASH_LENGTH - 2;
+}
+
+// Read the modulus length from an imported RSA key
+function getModulusLength(key: CryptoKey): number {
+  return (key.algorithm as RsaHashedKeyAlgorithm).modulusLength;
+}
+
+// Import a PEM public key for RSA-OAEP
+async function importPublicKey(pem: string): Promise<CryptoKey> {
+  try {
+    return await window.crypto.subtle.importKey(
+      'spki',
+      pemToArrayBuffer(pem, 'PUBLIC KEY'),
+      { name: 'RSA-OAEP', hash: OAEP_HASH },
+      false,
+      ['encrypt']
+    );
+  } catch (error) {
+    console.error('RSA public key import error:', error);
+    throw new Error('Invalid RSA public key: ' + 
+      (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+// Import a PEM private key for RSA-OAEP
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  try {
+    return await window.crypto.subtle.importKey(
+      'pkcs8',
+      pemToArrayBuffer(pem, 'PRIVATE KEY'),
+      { name: 'RSA-OAEP', hash: OAEP_HASH },
+      false,
+      ['decrypt']
+    );
+  } catch (error) {
+    console.error('RSA private key import error:', error);
+    throw new Error('Invalid RSA private key: ' + 
+      (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/**
+ * Generates an RSA-OAEP key pair and exports it as PEM
+ */
+export async function generateRsaKeyPair(
+  modulusLength: RsaModulusLength = 2048
+): Promise<KeyPairPem> {
+  console.log(`Generating ${modulusLength}-bit RSA key pair`);
+  
+  const keyPair = await window.crypto.subtle.generateKey(
+    {
+      name: 'RSA-OAEP',
+      modulusLength,
+      publicExponent: new Uint8Array([0x01, 0x00, 0x01]), // 65537
+      hash: OAEP_HASH
+    },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  
+  const publicKey = await window.crypto.subtle.exportKey('spki', keyPair.publicKey);
+  const privateKey = await window.crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+  
+  return {
+    publicKey: arrayBufferToPem(publicKey, 'PUBLIC KEY'),
+    privateKey: arrayBufferToPem(privateKey, 'PRIVATE KEY')
+  };
+}
+
+/**
+ * Encrypts text with an RSA public key. Short messages use RSA-OAEP directly,
+ * longer ones are encrypted with a random AES-256-GCM key wrapped by RSA-OAEP.
+ */
+export async function rsaEncrypt(text: string, publicKeyPem: string): Promise<string> {
+  const publicKey = await importPublicKey(publicKeyPem);
+  const data = stringToArrayBuffer(text);
+  
+  if (data.length <= getMaxOaepLength(getModulusLength(publicKey))) {
+    console.log('Using direct RSA-OAEP encryption');
+    const encrypted = await window.crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, data);
+    
+    const combined = new Uint8Array(1 + encrypted.byteLength);
+    combined[0] = FORMAT_DIRECT;
+    combined.set(new Uint8Array(encrypted), 1);
+    return arrayBufferToBase64(combined);
+  }
+  
+  console.log('Message exceeds the OAEP limit, using hybrid RSA + AES-GCM');
+  const aesKey = await window.crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt']
+  );
+  const iv = window.crypto.getRandomValues(new Uint8Array(AES_IV_LENGTH));
+  
+  const encrypted = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, data);
+  const rawAesKey = await window.crypto.subtle.exportKey('raw', aesKey);
+  const wrappedKey = await window.crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, rawAesKey);
+  
+  // The wrapped key is always modulusLength / 8 bytes, so no length prefix is needed
+  const combined = new Uint8Array(1 + wrappedKey.byteLength + iv.length + encrypted.byteLength);
+  combined[0] = FORMAT_HYBRID;
+  combined.set(new Uint8Array(wrappedKey), 1);
+  combined.set(iv, 1 + wrappedKey.byteLength);
+  combined.set(new Uint8Array(encrypted), 1 + wrappedKey.byteLength + iv.length);
+  return arrayBufferToBase64(combined);
+}
+
+/**
+ * Decrypts the output of rsaEncrypt. Only the private key is needed.
+ */
+export async function rsaDecrypt(ciphertext: string, privateKeyPem: string): Promise<string> {
+  const privateKey = await importPrivateKey(privateKeyPem);
+  const modulusBytes = getModulusLength(privateKey) / 8;
+  const combined = new Uint8Array(base64ToArrayBuffer(ciphertext));
+  
+  if (combined[0] === FORMAT_HYBRID && combined.length <= 1 + modulusBytes + AES_IV_LENGTH) {
+    throw new Error(`Invalid ciphertext length: ${combined.length} bytes`);
+  }
+  
+  try {
+    if (combined[0] === FORMAT_DIRECT) {
+      const decrypted = await window.crypto.subtle.decrypt(
+        { name: 'RSA-OAEP' },
+        privateKey,
+        combined.slice(1)
+      );
+      return arrayBufferToString(decrypted);
+    }
+    
+    if (combined[0] === FORMAT_HYBRID) {
+      const wrappedKey = combined.slice(1, 1 + modulusBytes);
+      const iv = combined.slice(1 + modulusBytes, 1 + modulusBytes + AES_IV_LENGTH);
+      const encrypted = combined.slice(1 + modulusBytes + AES_IV_LENGTH);
+      
+      const rawAesKey = await window.crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, wrappedKey);
+      const aesKey = await window.crypto.subtle.importKey(
+        'raw',
+        rawAesKey,
+        { name: 'AES-GCM' },
+        false,
+        ['decrypt']
+      );
+      const decrypted = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv }, aesKey, encrypted);
+      return arrayBufferToString(decrypted);
+    }
+  } catch (error) {
+    console.error('RSA decrypt error:', error);
+    throw new Error('RSA decryption failed: wrong private key or corrupted ciphertext');
+  }
+  
+  throw new Error('Unrecognized RSA ciphertext format');
+}
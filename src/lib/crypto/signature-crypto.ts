@@ -0,0 +1,320 @@
+"use client";
+
+import {
+  stringToArrayBuffer,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  arrayBufferToHex,
+  arrayBufferToPem,
+  pemToArrayBuffer
+} from './encoding';
+import { KeyPairPem } from './encryption-service';
+
+// Supported signature schemes
+export const SIGNATURE_ALGORITHMS = ['ECDSA-P256', 'Ed25519', 'RSA-PSS'] as const;
+export type SignatureAlgorithm = typeof SIGNATURE_ALGORITHMS[number];
+
+// Outcome of checking a signature against a public key
+export type VerificationStatus = 'valid' | 'invalid' | 'wrong-key';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  algorithm: SignatureAlgorithm;
+  signerFingerprint: string; // Fingerprint of the key that made the signature
+  keyFingerprint: string; // Fingerprint of the key used to verify
+}
+
+// Plaintext recovered from a signed-then-encrypted message
+export interface OpenedSignedMessage {
+  message: string;
+  verification: VerificationResult;
+  signerKnown: boolean; // false when checked against the key embedded in the message
+}
+
+// The JSON createSignedMessage wraps a message in
+interface SignedMessage {
+  type: typeof SIGNED_MESSAGE_TYPE;
+  version: typeof SIGNED_MESSAGE_VERSION;
+  message: string;
+  signature: string;
+  publicKey: string; // PEM
+}
+
+// Constants
+const KEY_ID_LENGTH = 8; // bytes of SHA-256(SPKI) stored in each signature
+const RSA_MODULUS_LENGTH = 2048;
+const RSA_PSS_SALT_LENGTH = 32; // bytes, matches SHA-256
+const SIGNED_MESSAGE_TYPE = 'crypto-grapher-signed-message';
+const SIGNED_MESSAGE_VERSION = 1;
+
+// Algorithm ids stored in the first byte of a signature
+const ALGORITHM_IDS: Record<SignatureAlgorithm, number> = {
+  'ECDSA-P256': 0x01,
+  'Ed25519': 0x02,
+  'RSA-PSS': 0x03
+};
+
+// DER-encoded OIDs, used to recognise the algorithm of a PEM key. SPKI and
+// PKCS#8 do not record a key's purpose, so RSA-OAEP keys read as RSA-PSS and
+// P-256 ECDH keys as ECDSA: the same key pair works for both.
+const ALGORITHM_OIDS: Record<SignatureAlgorithm, number[]> = {
+  'ECDSA-P256': [0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07], // prime256v1
+  'Ed25519': [0x06, 0x03, 0x2b, 0x65, 0x70], // 1.3.101.112
+  'RSA-PSS': [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01] // rsaEncryption
+};
+
+// Web Crypto parameters for importing and generating keys
+function getKeyAlgorithm(algorithm: SignatureAlgorithm): EcKeyImportParams | RsaHashedImportParams | Algorithm {
+  switch (algorithm) {
+    case 'ECDSA-P256':
+      return { name: 'ECDSA', namedCurve: 'P-256' };
+    case 'Ed25519':
+      return { name: 'Ed25519' };
+    case 'RSA-PSS':
+      return { name: 'RSA-PSS', hash: 'SHA-256' };
+  }
+}
+
+// Web Crypto parameters for sign() and verify()
+function getSignParams(algorithm: SignatureAlgorithm): EcdsaParams | RsaPssParams | Algorithm {
+  switch (algorithm) {
+    case 'ECDSA-P256':
+      return { name: 'ECDSA', hash: 'SHA-256' };
+    case 'Ed25519':
+      return { name: 'Ed25519' };
+    case 'RSA-PSS':
+      return { name: 'RSA-PSS', saltLength: RSA_PSS_SALT_LENGTH };
+  }
+}
+
+// Find the algorithm OID inside an SPKI or PKCS#8 structure
+function detectAlgorithm(der: ArrayBuffer): SignatureAlgorithm {
+  const bytes = new Uint8Array(der);
+  for (const algorithm of SIGNATURE_ALGORITHMS) {
+    const oid = ALGORITHM_OIDS[algorithm];
+    for (let i = 0; i <= bytes.length - oid.length; i++) {
+      if (oid.every((byte, j) => bytes[i + j] === byte)) {
+        return algorithm;
+      }
+    }
+  }
+  throw new Error(`Unsupported signing key, expected one of ${SIGNATURE_ALGORITHMS.join(', ')}`);
+}
+
+function getAlgorithmById(id: number): SignatureAlgorithm {
+  const algorithm = SIGNATURE_ALGORITHMS.find(a => ALGORITHM_IDS[a] === id);
+  if (!algorithm) {
+    throw new Error(`Unknown signature algorithm id: ${id}`);
+  }
+  return algorithm;
+}
+
+// Rethrow Web Crypto's NotSupportedError with a readable message
+function wrapAlgorithmError(algorithm: SignatureAlgorithm, error: unknown): Error {
+  if (error instanceof DOMException && error.name === 'NotSupportedError') {
+    return new Error(`${algorithm} is not supported by this browser`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Short key identifier: the first bytes of SHA-256 over the SPKI encoding
+async function getKeyId(publicKey: CryptoKey): Promise<Uint8Array> {
+  const spki = await window.crypto.subtle.exportKey('spki', publicKey);
+  const digest = await window.crypto.subtle.digest('SHA-256', spki);
+  return new Uint8Array(digest).slice(0, KEY_ID_LENGTH);
+}
+
+function formatFingerprint(keyId: Uint8Array): string {
+  return arrayBufferToHex(keyId).match(/.{4}/g)!.join(' ');
+}
+
+// Import a PEM public key, detecting its algorithm
+async function importPublicKey(pem: string): Promise<{ key: CryptoKey; algorithm: SignatureAlgorithm }> {
+  const der = pemToArrayBuffer(pem, 'PUBLIC KEY');
+  const algorithm = detectAlgorithm(der);
+  try {
+    const key = await window.crypto.subtle.importKey('spki', der, getKeyAlgorithm(algorithm), true, ['verify']);
+    return { key, algorithm };
+  } catch (error) {
+    console.error('Signature public key import error:', error);
+    throw new Error('Invalid public key: ' + wrapAlgorithmError(algorithm, error).message);
+  }
+}
+
+// Import a PEM private key together with its public half (needed for the key id)
+async function importPrivateKey(pem: string): Promise<{ key: CryptoKey; publicKey: CryptoKey; algorithm: SignatureAlgorithm }> {
+  const der = pemToArrayBuffer(pem, 'PRIVATE KEY');
+  const algorithm = detectAlgorithm(der);
+  try {
+    const key = await window.crypto.subtle.importKey('pkcs8', der, getKeyAlgorithm(algorithm), true, ['sign']);
+
+    // The public components are part of the private JWK
+    const jwk = await window.crypto.subtle.exportKey('jwk', key);
+    const publicJwk: JsonWebKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, n: jwk.n, e: jwk.e };
+    const publicKey = await window.crypto.subtle.importKey('jwk', publicJwk, getKeyAlgorithm(algorithm), true, ['verify']);
+
+    return { key, publicKey, algorithm };
+  } catch (error) {
+    console.error('Signature private key import error:', error);
+    throw new Error('Invalid private key: ' + wrapAlgorithmError(algorithm, error).message);
+  }
+}
+
+/**
+ * Generates a signing key pair and exports it as PEM
+ */
+export async function generateSigningKeyPair(algorithm: SignatureAlgorithm = 'ECDSA-P256'): Promise<KeyPairPem> {
+  console.log(`Generating ${algorithm} signing key pair`);
+
+  const params = algorithm === 'RSA-PSS'
+    ? {
+        name: 'RSA-PSS',
+        modulusLength: RSA_MODULUS_LENGTH,
+        publicExponent: new Uint8Array([0x01, 0x00, 0x01]),
+        hash: 'SHA-256'
+      }
+    : getKeyAlgorithm(algorithm);
+
+  try {
+    const keyPair = await window.crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+
+    const publicKey = await window.crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const privateKey = await window.crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+    return {
+      publicKey: arrayBufferToPem(publicKey, 'PUBLIC KEY'),
+      privateKey: arrayBufferToPem(privateKey, 'PRIVATE KEY')
+    };
+  } catch (error) {
+    console.error('Signing key generation error:', error);
+    throw wrapAlgorithmError(algorithm, error);
+  }
+}
+
+/**
+ * Creates a detached signature over text or binary data.
+ *
+ * Output layout: [algorithm id][signer key id][signature], Base64 encoded
+ */
+export async function signData(data: string | ArrayBuffer | Uint8Array, privateKeyPem: string): Promise<string> {
+  const { key, publicKey, algorithm } = await importPrivateKey(privateKeyPem);
+  const bytes = typeof data === 'string' ? stringToArrayBuffer(data) : new Uint8Array(data);
+
+  const signature = new Uint8Array(await window.crypto.subtle.sign(getSignParams(algorithm), key, bytes));
+  const keyId = await getKeyId(publicKey);
+
+  const combined = new Uint8Array(1 + KEY_ID_LENGTH + signature.length);
+  combined[0] = ALGORITHM_IDS[algorithm];
+  combined.set(keyId, 1);
+  combined.set(signature, 1 + KEY_ID_LENGTH);
+  return arrayBufferToBase64(combined);
+}
+
+/**
+ * Checks a detached signature. A signature made by a different key is reported
+ * as 'wrong-key'; a signature from the right key that does not match the data
+ * is reported as 'invalid'.
+ */
+export async function verifySignature(
+  data: string | ArrayBuffer | Uint8Array,
+  signature: string,
+  publicKeyPem: string
+): Promise<VerificationResult> {
+  const { key, algorithm: keyAlgorithm } = await importPublicKey(publicKeyPem);
+  const combined = new Uint8Array(base64ToArrayBuffer(signature.trim()));
+
+  if (combined.length <= 1 + KEY_ID_LENGTH) {
+    throw new Error(`Invalid signature length: ${combined.length} bytes`);
+  }
+
+  const algorithm = getAlgorithmById(combined[0]);
+  const signerKeyId = combined.slice(1, 1 + KEY_ID_LENGTH);
+  const rawSignature = combined.slice(1 + KEY_ID_LENGTH);
+  const keyId = await getKeyId(key);
+
+  const result: VerificationResult = {
+    status: 'valid',
+    algorithm,
+    signerFingerprint: formatFingerprint(signerKeyId),
+    keyFingerprint: formatFingerprint(keyId)
+  };
+
+  if (algorithm !== keyAlgorithm || !keyId.every((byte, i) => byte === signerKeyId[i])) {
+    return { ...result, status: 'wrong-key' };
+  }
+
+  const bytes = typeof data === 'string' ? stringToArrayBuffer(data) : new Uint8Array(data);
+  try {
+    const isValid = await window.crypto.subtle.verify(getSignParams(algorithm), key, rawSignature, bytes);
+    return { ...result, status: isValid ? 'valid' : 'invalid' };
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return { ...result, status: 'invalid' };
+  }
+}
+
+/**
+ * Wraps a message with its signature and the signer's public key, so that it
+ * can be encrypted as a whole and checked again after decryption
+ */
+export async function createSignedMessage(message: string, privateKeyPem: string): Promise<string> {
+  const { publicKey } = await importPrivateKey(privateKeyPem);
+  const signature = await signData(message, privateKeyPem);
+  const spki = await window.crypto.subtle.exportKey('spki', publicKey);
+
+  return JSON.stringify({
+    type: SIGNED_MESSAGE_TYPE,
+    version: SIGNED_MESSAGE_VERSION,
+    message,
+    signature,
+    publicKey: arrayBufferToPem(spki, 'PUBLIC KEY')
+  });
+}
+
+// Whether parsed JSON has the fields createSignedMessage writes
+function isSignedMessage(value: Record<string, unknown>): value is Record<string, unknown> & SignedMessage {
+  return value.type === SIGNED_MESSAGE_TYPE &&
+    value.version === SIGNED_MESSAGE_VERSION &&
+    typeof value.message === 'string' &&
+    typeof value.signature === 'string' &&
+    typeof value.publicKey === 'string';
+}
+
+/**
+ * Unwraps and verifies the output of createSignedMessage. Returns null if the
+ * text is not a signed message. Without an expected public key the embedded key
+ * is used, which proves integrity but not who signed it.
+ */
+export async function openSignedMessage(
+  text: string,
+  expectedPublicKeyPem?: string
+): Promise<OpenedSignedMessage | null> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || !('type' in parsed) || parsed.type !== SIGNED_MESSAGE_TYPE) {
+    return null;
+  }
+  if (!('version' in parsed) || parsed.version !== SIGNED_MESSAGE_VERSION) {
+    throw new Error(`Unsupported signed message version: ${'version' in parsed ? parsed.version : 'none'}`);
+  }
+  if (!isSignedMessage(parsed)) {
+    throw new Error('Malformed signed message: missing message, signature or public key');
+  }
+
+  const verification = await verifySignature(
+    parsed.message,
+    parsed.signature,
+    expectedPublicKeyPem || parsed.publicKey
+  );
+
+  return {
+    message: parsed.message,
+    verification,
+    signerKnown: Boolean(expectedPublicKeyPem)
+  };
+}
@@ -0,0 +1,87 @@
+"use client";
+
+// Character statistics shared by the visualizer and the cryptanalysis tools
+
+export const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Relative frequency of each letter A-Z in English text
+export const ENGLISH_LETTER_FREQUENCIES = [
+  0.0817, 0.0149, 0.0278, 0.0425, 0.1270, 0.0223, 0.0202, 0.0609, 0.0697,
+  0.0015, 0.0077, 0.0403, 0.0241, 0.0675, 0.0751, 0.0193, 0.0010, 0.0599,
+  0.0633, 0.0906, 0.0276, 0.0098, 0.0236, 0.0015, 0.0197, 0.0007
+];
+
+// Index of coincidence of English text, 1/26 for uniformly random letters
+export const ENGLISH_IOC = 0.0667;
+export const RANDOM_IOC = 1 / 26;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function calculateEntropy(text: string): number {
+  const len = text.length;
+  const frequencies: Record<string, number> = {};
+
+  // Calculate frequency of each character
+  for (let i = 0; i < len; i++) {
+    const char = text.charAt(i);
+    frequencies[char] = (frequencies[char] || 0) + 1;
+  }
+
+  // Calculate entropy
+  return Object.values(frequencies).reduce((entropy, freq) => {
+    const p = freq / len;
+    return entropy - (p * Math.log2(p));
+  }, 0);
+}
+
+/**
+ * Upper-case letters A-Z of a text, everything else dropped
+ */
+export function toLetters(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Count of each letter A-Z, case-insensitive
+ */
+export function countLetters(text: string): number[] {
+  const counts = new Array<number>(26).fill(0);
+  for (const char of toLetters(text)) {
+    counts[char.charCodeAt(0) - 65]++;
+  }
+  return counts;
+}
+
+/**
+ * Relative frequency of each letter A-Z, all zero for text without letters
+ */
+export function getLetterFrequencies(text: string): number[] {
+  const counts = countLetters(text);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map(count => (total > 0 ? count / total : 0));
+}
+
+/**
+ * Chance that two letters picked from the text are the same
+ */
+export function indexOfCoincidence(text: string): number {
+  const counts = countLetters(text);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 2) {
+    return 0;
+  }
+  return counts.reduce((sum, count) => sum + count * (count - 1), 0) / (total * (total - 1));
+}
+
+/**
+ * Chi-squared distance of the text's letter counts from English, lower is closer
+ */
+export function chiSquaredEnglish(text: string): number {
+  const counts = countLetters(text);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.reduce((sum, count, i) => {
+    const expected = total * ENGLISH_LETTER_FREQUENCIES[i];
+    return sum + (count - expected) ** 2 / expected;
+  }, 0);
+}
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    silent: 'passed-only', // the services log every step
+    setupFiles: ['./vitest.setup.ts']
+  }
+});
@@ -0,0 +1,3 @@
+// The crypto modules run in the browser and reach Web Crypto through window;
+// Node has the same API on globalThis
+Object.assign(globalThis, { window: globalThis });